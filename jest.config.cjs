@@ -0,0 +1,13 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  setupFiles: ['<rootDir>/jest.setup.cjs'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      // The library is built as ES modules for bundlers; Jest runs CommonJS
+      tsconfig: { module: 'commonjs', moduleResolution: 'node', isolatedModules: false, types: ['jest', 'node'] }
+    }]
+  }
+};
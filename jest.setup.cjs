@@ -0,0 +1,7 @@
+// The parser and exporter use the browser's XML APIs; Node only has structuredClone, Blob and File
+const { JSDOM } = require('jsdom');
+
+const { window } = new JSDOM('');
+global.DOMParser = window.DOMParser;
+global.XMLSerializer = window.XMLSerializer;
+global.Node = window.Node;
@@ -0,0 +1,157 @@
+import JSZip from 'jszip';
+import { PPTXEditor } from '../core/PPTXEditor';
+import { PPTXDocument } from '../types';
+
+// Small decks for the tests, built from just the parts a test needs. Positions are in EMU
+// (12700 per point), as they are in the files.
+
+export const NAMESPACES = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+    'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+
+export const RELATIONSHIP_TYPES = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+export const EMU_PER_POINT = 12700;
+
+export interface FixtureSlide {
+    // Shapes of the slide's p:spTree
+    shapes?: string;
+    // Markup after p:cSld, such as p:clrMapOvr or p:timing
+    after?: string;
+    // Markup inside p:cSld before p:spTree, such as p:bg
+    background?: string;
+    // Attributes of p:sld, e.g. ' show="0"'
+    attributes?: string;
+    relationships?: Array<[id: string, type: string, target: string, targetMode?: string]>;
+}
+
+export interface FixtureDeck {
+    slides: FixtureSlide[];
+    // Markup added to p:presentation after p:sldSz, such as p:extLst
+    presentationExtras?: string;
+    slideSize?: { cx: number; cy: number; type?: string };
+    // Indexes into slides in p:sldIdLst order, when the deck shows them in another order than their parts
+    order?: number[];
+    // Any other parts, by path
+    files?: { [path: string]: string | Uint8Array };
+}
+
+export const shapeXml = (id: number, name: string, frame: [x: number, y: number, cx: number, cy: number], options: {
+    text?: string;
+    spPr?: string; // after a:prstGeom
+    txBody?: string; // a whole p:txBody, instead of one built from text
+    nvPr?: string;
+    cNvPr?: string;
+    geometry?: string;
+} = {}): string => {
+    const [x, y, cx, cy] = frame;
+    const txBody = options.txBody ?? (options.text !== undefined
+        ? `<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:r><a:rPr lang="en-US"/><a:t>${options.text}</a:t></a:r></a:p></p:txBody>`
+        : '');
+    return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}">${options.cNvPr || ''}</p:cNvPr><p:cNvSpPr/><p:nvPr>${options.nvPr || ''}</p:nvPr></p:nvSpPr>` +
+        `<p:spPr><a:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>` +
+        `${options.geometry ?? '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>'}${options.spPr || ''}</p:spPr>${txBody}</p:sp>`;
+};
+
+export const slideXml = (slide: FixtureSlide): string =>
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><p:sld ${NAMESPACES}${slide.attributes || ''}><p:cSld>${slide.background || ''}<p:spTree>` +
+    '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/>' +
+    `${slide.shapes || ''}</p:spTree></p:cSld>${slide.after || ''}</p:sld>`;
+
+export const relationshipsXml = (relationships: Array<[id: string, type: string, target: string, targetMode?: string]>): string =>
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    relationships.map(([id, type, target, targetMode]) =>
+        `<Relationship Id="${id}" Type="${type.startsWith('http') ? type : `${RELATIONSHIP_TYPES}/${type}`}" Target="${target}"${targetMode ? ` TargetMode="${targetMode}"` : ''}/>`
+    ).join('') + '</Relationships>';
+
+const LAYOUT_PATH = 'ppt/slideLayouts/slideLayout1.xml';
+const MASTER_PATH = 'ppt/slideMasters/slideMaster1.xml';
+const THEME_PATH = 'ppt/theme/theme1.xml';
+
+// The relationship that puts a slide on the layout of layoutFiles
+export const LAYOUT_RELATIONSHIP: [id: string, type: string, target: string] = ['rId1', 'slideLayout', '../slideLayouts/slideLayout1.xml'];
+
+export const placeholderXml = (id: number, type: string | null, idx: string | null, options: { xfrm?: string; txBody?: string } = {}): string =>
+    `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Placeholder ${id}"/><p:cNvSpPr/><p:nvPr><p:ph${type ? ` type="${type}"` : ''}${idx ? ` idx="${idx}"` : ''}/></p:nvPr></p:nvSpPr>` +
+    `<p:spPr>${options.xfrm || ''}</p:spPr>${options.txBody || ''}</p:sp>`;
+
+export const xfrmXml = (x: number, y: number, cx: number, cy: number): string =>
+    `<a:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>`;
+
+// One slide layout on one slide master, with an optional theme, for slides to inherit from
+export const layoutFiles = (parts: {
+    layoutName?: string;
+    layoutShapes?: string;
+    layoutExtras?: string; // markup after p:cSld, such as p:hf
+    masterShapes?: string;
+    masterBackground?: string;
+    masterExtras?: string; // markup after p:clrMap, such as p:hf and p:txStyles
+    colorMap?: string;
+    theme?: string;
+}): { [path: string]: string } => {
+    const colorMap = parts.colorMap || 'bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" ' +
+        'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"';
+    const files: { [path: string]: string } = {
+        [LAYOUT_PATH]: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><p:sldLayout ${NAMESPACES}><p:cSld name="${parts.layoutName || 'Title and Content'}">` +
+            `<p:spTree>${parts.layoutShapes || ''}</p:spTree></p:cSld>${parts.layoutExtras || ''}</p:sldLayout>`,
+        'ppt/slideLayouts/_rels/slideLayout1.xml.rels': relationshipsXml([['rId1', 'slideMaster', '../slideMasters/slideMaster1.xml']]),
+        [MASTER_PATH]: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><p:sldMaster ${NAMESPACES}><p:cSld>${parts.masterBackground || ''}` +
+            `<p:spTree>${parts.masterShapes || ''}</p:spTree></p:cSld><p:clrMap ${colorMap}/>${parts.masterExtras || ''}</p:sldMaster>`,
+        'ppt/slideMasters/_rels/slideMaster1.xml.rels': relationshipsXml([
+            ['rId1', 'slideLayout', '../slideLayouts/slideLayout1.xml'],
+            ...(parts.theme ? [['rId2', 'theme', '../theme/theme1.xml'] as [string, string, string]] : [])
+        ])
+    };
+    if (parts.theme) files[THEME_PATH] = parts.theme;
+    return files;
+};
+
+export const buildDeck = async (deck: FixtureDeck): Promise<ArrayBuffer> => {
+    const zip = new JSZip();
+    const { cx, cy, type } = deck.slideSize || { cx: 12192000, cy: 6858000 };
+
+    zip.file('[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="xml" ContentType="application/xml"/><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Override PartName="/ppt/presentation.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml"/>' +
+        deck.slides.map((_, i) => `<Override PartName="/ppt/slides/slide${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>`).join('') +
+        '</Types>');
+    zip.file('_rels/.rels', relationshipsXml([['rId1', 'officeDocument', 'ppt/presentation.xml']]));
+    zip.file('ppt/presentation.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><p:presentation ${NAMESPACES}><p:sldIdLst>` +
+        (deck.order || deck.slides.map((_, i) => i)).map(i => `<p:sldId id="${256 + i}" r:id="rId${i + 2}"/>`).join('') +
+        `</p:sldIdLst><p:sldSz cx="${cx}" cy="${cy}"${type ? ` type="${type}"` : ''}/><p:notesSz cx="6858000" cy="9144000"/>${deck.presentationExtras || ''}</p:presentation>`);
+    // rId1 is kept for the slide master, which is where the parser looks for the deck's theme
+    zip.file('ppt/_rels/presentation.xml.rels', relationshipsXml([
+        ...(deck.files?.[MASTER_PATH] ? [['rId1', 'slideMaster', 'slideMasters/slideMaster1.xml'] as [string, string, string]] : []),
+        ...deck.slides.map((_, i): [string, string, string] => [`rId${i + 2}`, 'slide', `slides/slide${i + 1}.xml`])
+    ]));
+
+    deck.slides.forEach((slide, i) => {
+        zip.file(`ppt/slides/slide${i + 1}.xml`, slideXml(slide));
+        zip.file(`ppt/slides/_rels/slide${i + 1}.xml.rels`, relationshipsXml(slide.relationships || []));
+    });
+    Object.entries(deck.files || {}).forEach(([path, content]) => zip.file(path, content));
+
+    return zip.generateAsync({ type: 'arraybuffer' });
+};
+
+export const loadDeck = async (deck: FixtureDeck): Promise<{ editor: PPTXEditor; document: PPTXDocument }> => {
+    const editor = new PPTXEditor({ enableUndoRedo: true });
+    const document = await editor.loadPPTX(await buildDeck(deck));
+    return { editor, document };
+};
+
+// Export the editor's deck and open the result both as a package and as a new document
+export const exportDeck = async (editor: PPTXEditor): Promise<{ zip: JSZip; document: PPTXDocument }> => {
+    const buffer = await (await editor.exportPPTX()).arrayBuffer();
+    const zip = await JSZip.loadAsync(buffer);
+    const document = await new PPTXEditor().loadPPTX(buffer);
+    return { zip, document };
+};
+
+export const readPart = async (zip: JSZip, path: string): Promise<string> => {
+    const part = zip.file(path);
+    if (!part) throw new Error(`Missing part ${path}`);
+    return part.async('string');
+};
+
+export const emu = (points: number): number => Math.round(points * EMU_PER_POINT);
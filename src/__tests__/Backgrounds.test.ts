@@ -0,0 +1,78 @@
+import { loadDeck, exportDeck, readPart, layoutFiles, NAMESPACES, LAYOUT_RELATIONSHIP } from '../__fixtures__/pptx';
+import { SlideBackground } from '../types';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// bgRef idx 1002 picks the second background fill style, a gradient of the referenced color
+const themeXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><a:theme ${NAMESPACES}><a:themeElements><a:clrScheme name="Brand">` +
+    '<a:dk1><a:srgbClr val="000000"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1><a:dk2><a:srgbClr val="203040"/></a:dk2>' +
+    '<a:lt2><a:srgbClr val="EEEEEE"/></a:lt2><a:accent1><a:srgbClr val="FF0000"/></a:accent1></a:clrScheme>' +
+    '<a:fmtScheme><a:fillStyleLst/><a:bgFillStyleLst><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:gradFill><a:gsLst>' +
+    '<a:gs pos="0"><a:schemeClr val="phClr"><a:tint val="50000"/></a:schemeClr></a:gs><a:gs pos="100000"><a:schemeClr val="phClr"/></a:gs>' +
+    '</a:gsLst><a:lin ang="5400000" scaled="0"/></a:gradFill></a:bgFillStyleLst></a:fmtScheme></a:themeElements></a:theme>';
+
+const deck = {
+    slides: [
+        { relationships: [LAYOUT_RELATIONSHIP] },
+        { relationships: [LAYOUT_RELATIONSHIP], background: '<p:bg><p:bgPr><a:solidFill><a:srgbClr val="123456"/></a:solidFill><a:effectLst/></p:bgPr></p:bg>' }
+    ],
+    files: layoutFiles({ theme: themeXml, masterBackground: '<p:bg><p:bgRef idx="1002"><a:schemeClr val="accent1"/></p:bgRef></p:bg>' })
+};
+
+const gradient: SlideBackground = {
+    type: 'gradient',
+    value: '#000000',
+    gradient: { type: 'radial', angle: 0, stops: [{ position: 0, color: '#000000' }, { position: 1, color: '#FFFFFF80' }] }
+};
+
+describe('Slide backgrounds', () => {
+    it('should parse slide backgrounds and inherit the master background through its theme style', async () => {
+        const { document } = await loadDeck(deck);
+
+        expect(document.slides[0].background).toMatchObject({
+            type: 'gradient',
+            gradient: { type: 'linear', angle: 90, stops: [{ position: 0, color: '#FF8080' }, { position: 1, color: '#FF0000' }] }
+        });
+        expect(document.slides[1].background).toEqual({ type: 'color', value: '#123456' });
+    });
+
+    it('should export a gradient background and undo it', async () => {
+        const { editor } = await loadDeck(deck);
+
+        editor.goToSlide(1);
+        editor.updateSlideBackground(gradient);
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide2.xml');
+        expect(slide).toContain('<a:gradFill');
+        expect(slide).toContain('<a:path path="circle">');
+        // 80 is 128/255 opaque
+        expect(slide).toContain('<a:srgbClr val="FFFFFF"><a:alpha val="50196"/></a:srgbClr>');
+        expect(exported.slides[1].background?.gradient).toEqual(gradient.gradient);
+
+        editor.undo();
+        expect(editor.getCurrentSlide()?.background).toEqual({ type: 'color', value: '#123456' });
+    });
+
+    it('should store an image background as a media part of the slide', async () => {
+        const { editor } = await loadDeck(deck);
+
+        editor.goToSlide(0);
+        editor.updateSlideBackground({ type: 'image', value: `data:image/png;base64,${Buffer.from(PNG).toString('base64')}` });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        const [, relationshipId] = slide.match(/<a:blip r:embed="(rId\d+)"/) || [];
+        expect(relationshipId).toBeDefined();
+
+        const relationships = await readPart(zip, 'ppt/slides/_rels/slide1.xml.rels');
+        const [, target] = relationships.match(new RegExp(`Id="${relationshipId}"[^>]*Target="([^"]+)"`)) || [];
+        expect(target).toMatch(/^\.\.\/media\/.+\.png$/);
+        expect(await zip.file(`ppt/media/${target.split('/').pop()}`)!.async('uint8array')).toEqual(PNG);
+        expect(await readPart(zip, '[Content_Types].xml')).toContain('Extension="png"');
+
+        expect(exported.slides[0].background?.type).toBe('image');
+        // The other slide keeps its own background
+        expect(exported.slides[1].background).toEqual({ type: 'color', value: '#123456' });
+    });
+});
@@ -0,0 +1,55 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu } from '../__fixtures__/pptx';
+import { bulletLabels } from '../core/RichText';
+import { PPTXDocument } from '../types';
+
+const paragraphXml = (text: string, pPr: string) => `<a:p>${pPr}<a:r><a:rPr lang="en-US"/><a:t>${text}</a:t></a:r></a:p>`;
+
+const txBody = '<p:txBody><a:bodyPr/><a:lstStyle/>' +
+    paragraphXml('one', '<a:pPr marL="342900" indent="-342900"><a:buFont typeface="Arial"/><a:buAutoNum type="arabicPeriod"/></a:pPr>') +
+    paragraphXml('sub', '<a:pPr marL="800100" lvl="1" indent="-342900"><a:buFont typeface="Arial"/><a:buChar char="-"/></a:pPr>') +
+    paragraphXml('two', '<a:pPr marL="342900" indent="-342900"><a:buAutoNum type="arabicPeriod"/></a:pPr>') +
+    '</p:txBody>';
+
+const deck = { slides: [{ shapes: shapeXml(2, 'TextBox 1', [0, 0, emu(300), emu(200)], { txBody }) }] };
+
+const paragraphsOf = (document: PPTXDocument) => document.slides[0].elements[0].content!.paragraphs!;
+
+describe('Bullets and indent levels', () => {
+    it('should parse bullets, levels and indents, numbering each level on its own', async () => {
+        const { document } = await loadDeck(deck);
+        const paragraphs = paragraphsOf(document);
+
+        expect(paragraphs[0]).toMatchObject({ marginLeft: 27, indent: -27, bullet: { type: 'autoNumber', scheme: 'arabicPeriod', fontFamily: 'Arial' } });
+        expect(paragraphs[1]).toMatchObject({ level: 1, marginLeft: 63, bullet: { type: 'char', char: '-' } });
+        expect(bulletLabels(paragraphs)).toEqual(['1.', '-', '2.']);
+    });
+
+    it('should export demoted paragraphs and changed numbering schemes', async () => {
+        const { editor, document } = await loadDeck(deck);
+        const [element] = document.slides[0].elements;
+
+        editor.demoteParagraph(element.id, 2);
+        editor.setParagraphBullet(element.id, 0, { type: 'autoNumber', scheme: 'romanUcParenR' });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).toContain('<a:buAutoNum type="romanUcParenR"/>');
+        expect(slide).toContain('<a:pPr marL="800100" indent="-342900" lvl="1"><a:buAutoNum type="arabicPeriod"/></a:pPr>');
+
+        const paragraphs = paragraphsOf(exported);
+        expect(paragraphs[2].level).toBe(1);
+        expect(bulletLabels(paragraphs)).toEqual(['I)', '-', '1.']);
+    });
+
+    it('should undo a bullet change', async () => {
+        const { editor, document } = await loadDeck(deck);
+        const [element] = document.slides[0].elements;
+
+        editor.setParagraphBullet(element.id, 1, null);
+        expect(paragraphsOf(editor.getDocument()!)[1].bullet).toEqual({ type: 'none' });
+
+        editor.undo();
+        const { document: exported } = await exportDeck(editor);
+        expect(paragraphsOf(exported)[1].bullet).toMatchObject({ type: 'char', char: '-' });
+    });
+});
@@ -0,0 +1,64 @@
+import { loadDeck, exportDeck, readPart, emu } from '../__fixtures__/pptx';
+import { ChartContent } from '../types';
+
+const CHART_NS = 'http://schemas.openxmlformats.org/drawingml/2006/chart';
+
+const frameXml = '<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="4" name="Chart 3"/><p:cNvGraphicFramePr/><p:nvPr/></p:nvGraphicFramePr>' +
+    `<p:xfrm><a:off x="${emu(10)}" y="${emu(20)}"/><a:ext cx="${emu(300)}" cy="${emu(200)}"/></p:xfrm>` +
+    `<a:graphic><a:graphicData uri="${CHART_NS}"><c:chart xmlns:c="${CHART_NS}" r:id="rId2"/></a:graphicData></a:graphic></p:graphicFrame>`;
+
+const cache = (tag: string, count: number, points: Array<[number, string]>) =>
+    `<${tag}><c:ptCount val="${count}"/>${points.map(([idx, value]) => `<c:pt idx="${idx}"><c:v>${value}</c:v></c:pt>`).join('')}</${tag}>`;
+
+const seriesXml = (name: string, color: string, values: Array<[number, string]>) =>
+    `<c:ser><c:idx val="0"/><c:tx><c:strRef><c:f>Sheet1!B1</c:f>${cache('c:strCache', 1, [[0, name]])}</c:strRef></c:tx>` +
+    `<c:spPr><a:solidFill><a:srgbClr val="${color}"/></a:solidFill></c:spPr>` +
+    `<c:cat><c:strRef>${cache('c:strCache', 3, [[0, 'East'], [1, 'West'], [2, 'North']])}</c:strRef></c:cat>` +
+    `<c:val><c:numRef>${cache('c:numCache', 3, values)}</c:numRef></c:val></c:ser>`;
+
+// A stacked column chart whose second series has no cached value for West
+const chartXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><c:chartSpace xmlns:c="${CHART_NS}" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">` +
+    '<c:chart><c:title><c:tx><c:rich><a:bodyPr/><a:p><a:r><a:t>Sales</a:t></a:r></a:p></c:rich></c:tx></c:title><c:plotArea>' +
+    '<c:barChart><c:barDir val="col"/><c:grouping val="stacked"/>' +
+    seriesXml('Q1', '112233', [[0, '4.5'], [1, '7'], [2, '2']]) +
+    seriesXml('Q2', '445566', [[0, '1'], [2, '3']]) +
+    '</c:barChart></c:plotArea></c:chart></c:chartSpace>';
+
+const deck = {
+    slides: [{ shapes: frameXml, relationships: [['rId2', 'chart', '../charts/chart1.xml']] as Array<[string, string, string]> }],
+    files: { 'ppt/charts/chart1.xml': chartXml }
+};
+
+describe('Charts', () => {
+    it('should parse the chart type, categories and series of a chart part', async () => {
+        const { document } = await loadDeck(deck);
+        const [chart] = document.slides[0].elements;
+
+        expect(chart.type).toBe('chart');
+        expect(chart.position).toEqual({ x: 10, y: 20 });
+
+        const content = chart.content as ChartContent;
+        expect(content).toMatchObject({ chartType: 'bar', barDirection: 'col', grouping: 'stacked', title: 'Sales' });
+        expect(content.categories).toEqual(['East', 'West', 'North']);
+        expect(content.series[0]).toMatchObject({ name: 'Q1', values: [4.5, 7, 2], color: '#112233' });
+    });
+
+    it('should keep points missing from the cache as gaps', async () => {
+        const { document } = await loadDeck(deck);
+        const content = document.slides[0].elements[0].content as ChartContent;
+
+        expect(content.series[1].values).toEqual([1, null, 3]);
+    });
+
+    it('should keep the chart part and its data when the frame is moved', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.updateElementPosition(document.slides[0].elements[0].id, 40, 50);
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/charts/chart1.xml')).toBe(chartXml);
+        const [chart] = exported.slides[0].elements;
+        expect(chart.position).toEqual({ x: 40, y: 50 });
+        expect((chart.content as ChartContent).series.map(series => series.values)).toEqual([[4.5, 7, 2], [1, null, 3]]);
+    });
+});
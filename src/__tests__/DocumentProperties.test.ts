@@ -0,0 +1,94 @@
+import { loadDeck, exportDeck, readPart } from '../__fixtures__/pptx';
+import { customPropertyText, inferCustomPropertyType, parseCustomPropertyValue } from '../core/DocumentProperties';
+
+const coreXml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><cp:coreProperties ' +
+    'xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" ' +
+    'xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    '<dc:title>Quarterly review</dc:title><dc:creator>Sam</dc:creator><cp:keywords>sales; q3</cp:keywords><cp:revision>4</cp:revision>' +
+    '<dcterms:created xsi:type="dcterms:W3CDTF">2024-01-02T03:04:05Z</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">2024-01-03T00:00:00Z</dcterms:modified>' +
+    '</cp:coreProperties>';
+
+const property = (pid: number, name: string, value: string) =>
+    `<property fmtid="{D5CDD505-2E9C-101B-9397-08002B2CF9AE}" pid="${pid}" name="${name}">${value}</property>`;
+
+// The last date can't be read, so it is left in the file as it is
+const customXml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Properties ' +
+    'xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties" xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes">' +
+    property(2, 'Client', '<vt:lpwstr>Acme</vt:lpwstr>') + property(3, 'Budget', '<vt:r8>1250.5</vt:r8>') +
+    property(4, 'Approved', '<vt:bool>true</vt:bool>') + property(5, 'Broken', '<vt:filetime>not a date</vt:filetime>') +
+    '</Properties>';
+
+const deck = { slides: [{}], files: { 'docProps/core.xml': coreXml, 'docProps/custom.xml': customXml } };
+
+describe('Document properties', () => {
+    it('should read and write custom property values by type', () => {
+        expect(inferCustomPropertyType(3)).toBe('integer');
+        expect(inferCustomPropertyType(3.5)).toBe('number');
+        expect(inferCustomPropertyType(new Date(0))).toBe('date');
+        expect(parseCustomPropertyValue('boolean', '1')).toBe(true);
+        expect(parseCustomPropertyValue('date', 'not a date')).toBeUndefined();
+        expect(customPropertyText({ name: 'Due', type: 'date', value: new Date(Date.UTC(2024, 5, 1)) })).toBe('2024-06-01T00:00:00Z');
+    });
+
+    it('should parse core and custom properties', async () => {
+        const { editor } = await loadDeck(deck);
+        const metadata = editor.getMetadata()!;
+
+        expect(metadata).toMatchObject({ title: 'Quarterly review', author: 'Sam', keywords: ['sales', 'q3'], revision: 4 });
+        expect(metadata.created.toISOString()).toBe('2024-01-02T03:04:05.000Z');
+        expect(metadata.customProperties).toEqual([
+            { name: 'Client', type: 'string', value: 'Acme' },
+            { name: 'Budget', type: 'number', value: 1250.5 },
+            { name: 'Approved', type: 'boolean', value: true }
+        ]);
+    });
+
+    it('should export edited core and custom properties', async () => {
+        const { editor } = await loadDeck(deck);
+
+        editor.updateMetadata({ title: 'Q3 review', keywords: ['sales'] });
+        editor.setCustomProperty('Client', 'Globex');
+        editor.setCustomProperty('Due', new Date(Date.UTC(2024, 5, 1)));
+        editor.removeCustomProperty('Approved');
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const core = await readPart(zip, 'docProps/core.xml');
+        expect(core).toContain('<dc:title>Q3 review</dc:title>');
+        expect(core).toContain('<dc:creator>Sam</dc:creator>');
+
+        const custom = await readPart(zip, 'docProps/custom.xml');
+        expect(custom).toContain('<vt:filetime>2024-06-01T00:00:00Z</vt:filetime>');
+        expect(custom).toContain('<vt:filetime>not a date</vt:filetime>');
+        expect(custom).not.toContain('Approved');
+
+        expect(exported.metadata).toMatchObject({ title: 'Q3 review', keywords: ['sales'] });
+        expect(exported.metadata.customProperties).toEqual([
+            { name: 'Client', type: 'string', value: 'Globex' },
+            { name: 'Budget', type: 'number', value: 1250.5 },
+            { name: 'Due', type: 'date', value: new Date(Date.UTC(2024, 5, 1)) }
+        ]);
+    });
+
+    it('should add a custom properties part to a deck without one', async () => {
+        const { editor } = await loadDeck({ slides: [{}], files: { 'docProps/core.xml': coreXml } });
+
+        editor.setCustomProperty('Reviewed', false);
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, '[Content_Types].xml')).toContain('PartName="/docProps/custom.xml"');
+        expect(await readPart(zip, '_rels/.rels')).toContain('Target="docProps/custom.xml"');
+        expect(exported.metadata.customProperties).toEqual([{ name: 'Reviewed', type: 'boolean', value: false }]);
+    });
+
+    it('should ignore invalid dates and undo property changes', async () => {
+        const { editor } = await loadDeck(deck);
+
+        editor.setCustomProperty('Due', new Date('not a date'));
+        expect(editor.getMetadata()!.customProperties).toHaveLength(3);
+
+        editor.setCustomProperty('Client', 'Globex');
+        editor.undo();
+        const { document: exported } = await exportDeck(editor);
+        expect(exported.metadata.customProperties?.[0]).toEqual({ name: 'Client', type: 'string', value: 'Acme' });
+    });
+});
@@ -0,0 +1,59 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu } from '../__fixtures__/pptx';
+import { ShapeEffects } from '../types';
+
+const effectsXml = '<a:effectLst>' +
+    `<a:glow rad="${emu(5)}"><a:srgbClr val="FFC000"><a:alpha val="60000"/></a:srgbClr></a:glow>` +
+    `<a:outerShdw blurRad="${emu(4)}" dist="${emu(3)}" dir="2700000" algn="tl" rotWithShape="0"><a:srgbClr val="000000"><a:alpha val="40000"/></a:srgbClr></a:outerShdw>` +
+    `<a:softEdge rad="${emu(2)}"/>` +
+    '</a:effectLst>';
+
+const deck = {
+    slides: [{
+        shapes: shapeXml(2, 'Shape 1', [0, 0, emu(100), emu(100)], { spPr: effectsXml }) + shapeXml(3, 'Shape 2', [emu(200), 0, emu(100), emu(100)])
+    }]
+};
+
+const effects: ShapeEffects = {
+    innerShadow: { color: '#FF0000', blur: 6, distance: 2, direction: 90 },
+    reflection: { blur: 1, distance: 0, startOpacity: 0.5, endOpacity: 0, size: 0.5 }
+};
+
+describe('Shape effects', () => {
+    it('should parse shadows, glows and soft edges', async () => {
+        const { document } = await loadDeck(deck);
+
+        expect(document.slides[0].elements[0].style?.effects).toEqual({
+            glow: { color: '#FFC00099', radius: 5 },
+            outerShadow: { color: '#00000066', blur: 4, distance: 3, direction: 45 },
+            softEdge: 2
+        });
+        expect(document.slides[0].elements[1].style?.effects).toBeUndefined();
+    });
+
+    it('should export new effects and removed ones', async () => {
+        const { editor, document } = await loadDeck(deck);
+        const [withEffects, plain] = document.slides[0].elements;
+
+        editor.updateElementStyle(withEffects.id, { effects: undefined });
+        editor.updateElementStyle(plain.id, { effects });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).not.toContain('a:outerShdw');
+        expect(slide).toContain(`<a:innerShdw blurRad="${emu(6)}" dist="${emu(2)}" dir="5400000">`);
+        expect(slide).toContain('<a:reflection');
+
+        expect(exported.slides[0].elements[0].style?.effects).toBeUndefined();
+        expect(exported.slides[0].elements[1].style?.effects).toEqual(effects);
+    });
+
+    it('should undo an effect change', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.updateElementStyle(document.slides[0].elements[0].id, { effects: { softEdge: 10 } });
+        editor.undo();
+        const { zip } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/slides/slide1.xml')).toContain(effectsXml);
+    });
+});
@@ -0,0 +1,96 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu } from '../__fixtures__/pptx';
+import { maxShapeId } from '../core/ElementId';
+
+const box = (id: number, name: string, text: string) => shapeXml(id, name, [0, 0, emu(100), emu(50)], { text });
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const picture = (id: number, name: string) => `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="${name}"/><p:cNvPicPr/><p:nvPr/></p:nvPicPr>` +
+    '<p:blipFill><a:blip r:embed="rId2"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>' +
+    `<p:spPr><a:xfrm><a:off x="${emu(200)}" y="${emu(200)}"/><a:ext cx="${emu(80)}" cy="${emu(60)}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`;
+
+// A group whose child has the highest id on the slide
+const groupXml = '<p:grpSp><p:nvGrpSpPr><p:cNvPr id="5" name="Group 4"/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+    `<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${emu(100)}" cy="${emu(50)}"/><a:chOff x="0" y="0"/><a:chExt cx="${emu(100)}" cy="${emu(50)}"/></a:xfrm></p:grpSpPr>` +
+    box(9, 'Inner 8', 'inner') + '</p:grpSp>';
+
+describe('Element ids', () => {
+    it('should name elements after their slide part and p:cNvPr id, whatever their order', async () => {
+        const first = box(3, 'Title 2', 'a').replace('name="Title 2"', 'name="Title 2" descr="Main title"');
+        const second = box(2, 'Subtitle 1', 'b');
+        const { document } = await loadDeck({ slides: [{ shapes: first + second }] });
+        const { document: reordered } = await loadDeck({ slides: [{ shapes: second + first }] });
+
+        expect(document.slides[0].elements.map(element => element.id)).toEqual(['ppt/slides/slide1.xml#3', 'ppt/slides/slide1.xml#2']);
+        expect(reordered.slides[0].elements.map(element => element.id)).toEqual(['ppt/slides/slide1.xml#2', 'ppt/slides/slide1.xml#3']);
+        expect(document.slides[0].elements[0]).toMatchObject({ shapeId: '3', name: 'Title 2', description: 'Main title' });
+    });
+
+    it('should give shapes that share a p:cNvPr id their own element ids, and edit the right one', async () => {
+        const { editor, document } = await loadDeck({ slides: [{ shapes: box(2, 'Copy A', 'first') + box(2, 'Copy B', 'second') }] });
+        const [a, b] = document.slides[0].elements;
+
+        expect(a.id).not.toBe(b.id);
+
+        editor.updateText(b.id, 'edited');
+        const { document: exported } = await exportDeck(editor);
+        expect(exported.slides[0].elements.map(element => element.content.text)).toEqual(['first', 'edited']);
+    });
+
+    it('should list shapes in document order whatever their kind, and edit the right one of those that share an id', async () => {
+        const { editor, document } = await loadDeck({
+            slides: [{ shapes: box(5, 'Shape A', 'first') + picture(5, 'Picture') + box(5, 'Shape B', 'second'), relationships: [['rId2', 'image', '../media/image1.png']] }],
+            files: { 'ppt/media/image1.png': PNG }
+        });
+        const elements = document.slides[0].elements;
+
+        // The picture draws above the first shape and below the second
+        expect(elements.map(element => element.name)).toEqual(['Shape A', 'Picture', 'Shape B']);
+        expect(elements.map(element => (element as any).zIndex)).toEqual([0, 1, 2]);
+
+        editor.updateElementPosition(elements[2].id, 10, 20);
+        editor.updateElementSize(elements[2].id, 30, 40);
+        const { document: exported } = await exportDeck(editor);
+        const [a, pic, b] = exported.slides[0].elements;
+
+        expect(pic).toMatchObject({ name: 'Picture', position: { x: 200, y: 200 }, size: { width: 80, height: 60 } });
+        expect(b).toMatchObject({ name: 'Shape B', position: { x: 10, y: 20 }, size: { width: 30, height: 40 } });
+        expect(b.content.text).toBe('second');
+        expect(a.content.text).toBe('first');
+    });
+
+    it('should delete the right one of two shapes that share a p:cNvPr id', async () => {
+        const { editor, document } = await loadDeck({ slides: [{ shapes: box(2, 'Copy A', 'first') + box(2, 'Copy B', 'second') + box(3, 'Other', 'third') }] });
+        const [a, b, other] = document.slides[0].elements;
+
+        editor.deleteElement(a.id);
+        editor.updateText(b.id, 'edited');
+        editor.updateText(other.id, 'changed');
+        const { document: exported } = await exportDeck(editor);
+        expect(exported.slides[0].elements.map(element => element.name)).toEqual(['Copy B', 'Other']);
+        expect(exported.slides[0].elements.map(element => element.content.text)).toEqual(['edited', 'changed']);
+    });
+
+    it('should number new shapes above every id on the slide, group children included', async () => {
+        const { editor, document } = await loadDeck({ slides: [{ shapes: box(2, 'Box 1', 'a') + groupXml }] });
+
+        expect(maxShapeId(document.slides[0].elements)).toBe(9);
+
+        const added = editor.addLineElement(0, 0, 100, 50);
+        expect(added).toBe('ppt/slides/slide1.xml#10');
+
+        const { zip } = await exportDeck(editor);
+        expect(await readPart(zip, 'ppt/slides/slide1.xml')).toContain('<p:cNvPr id="10" name="Straight Connector 9"/>');
+    });
+
+    it('should not reuse the id of a deleted shape', async () => {
+        const { editor } = await loadDeck({ slides: [{ shapes: box(2, 'Box 1', 'a') }] });
+
+        const first = editor.addLineElement(0, 0, 100, 50);
+        editor.deleteElement(first);
+        const second = editor.addLineElement(0, 0, 100, 50);
+        expect(second).toBe('ppt/slides/slide1.xml#4');
+
+        const { document: exported } = await exportDeck(editor);
+        expect(exported.slides[0].elements.map(element => element.id)).toEqual(['ppt/slides/slide1.xml#2', 'ppt/slides/slide1.xml#4']);
+    });
+});
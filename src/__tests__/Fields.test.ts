@@ -0,0 +1,84 @@
+import { loadDeck, exportDeck, readPart, layoutFiles, placeholderXml, xfrmXml, shapeXml, emu, LAYOUT_RELATIONSHIP } from '../__fixtures__/pptx';
+import { formatDateField, resolveFields } from '../core/Fields';
+import { TextParagraph } from '../types';
+
+const fieldBody = (type: string, text: string) =>
+    `<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:r><a:rPr lang="en-US"/><a:t>Page </a:t></a:r><a:fld id="{B6F15528-21DE-4FAA-801E-634DDDAF4B2B}" type="${type}">` +
+    `<a:rPr lang="en-US"/><a:t>${text}</a:t></a:fld></a:p></p:txBody>`;
+
+// Both slide numbers were saved stale, and the second slide part is shown first
+const numberedSlide = { shapes: shapeXml(2, 'Number', [0, 0, emu(100), emu(20)], { txBody: fieldBody('slidenum', '9') }) };
+const numbered = { slides: [numberedSlide, numberedSlide], order: [1, 0] };
+
+// A layout with footer and slide number placeholders that no slide shows yet
+const files = layoutFiles({
+    layoutShapes: placeholderXml(10, 'ftr', '11', { xfrm: xfrmXml(emu(300), emu(500), emu(300), emu(20)), txBody: '<p:txBody><a:bodyPr/><a:lstStyle/><a:p/></p:txBody>' }) +
+        placeholderXml(11, 'sldNum', '12', { xfrm: xfrmXml(emu(800), emu(500), emu(100), emu(20)), txBody: fieldBody('slidenum', '‹#›') })
+});
+const footerDeck = { slides: [{ relationships: [LAYOUT_RELATIONSHIP] }, { relationships: [LAYOUT_RELATIONSHIP] }], files };
+
+describe('Fields and footers', () => {
+    it('should format the date fields PowerPoint offers', () => {
+        const date = new Date(2024, 2, 5, 14, 7, 9);
+
+        expect(formatDateField('datetime1', date)).toBe('3/5/2024');
+        expect(formatDateField('datetime2', date)).toBe('Tuesday, March 5, 2024');
+        expect(formatDateField('datetime5', date)).toBe('5-Mar-24');
+        expect(formatDateField('datetime13', date)).toBe('2:07:09 PM');
+    });
+
+    it('should bring field text up to date and leave other runs alone', () => {
+        const paragraphs: TextParagraph[] = [
+            { runs: [{ text: 'Page ' }, { text: '9', field: { type: 'slidenum' } }, { text: 'x', field: { type: 'unknown' } }] },
+            { runs: [{ text: 'plain' }] }
+        ];
+        const resolved = resolveFields(paragraphs, { slideNumber: 3, date: new Date(2024, 0, 2) });
+
+        expect(resolved[0].runs.map(run => run.text)).toEqual(['Page ', '3', 'x']);
+        expect(resolved[1]).toBe(paragraphs[1]);
+    });
+
+    it('should refresh slide number fields on export to the slide order', async () => {
+        const { editor } = await loadDeck(numbered);
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/slides/slide2.xml')).toContain('type="slidenum"><a:rPr lang="en-US"/><a:t>1</a:t></a:fld>');
+        expect(await readPart(zip, 'ppt/slides/slide1.xml')).toContain('type="slidenum"><a:rPr lang="en-US"/><a:t>2</a:t></a:fld>');
+        expect(exported.slides.map(slide => slide.elements[0].content.text)).toEqual(['Page 1', 'Page 2']);
+    });
+
+    it('should copy footer placeholders from the layout onto every slide when footers are turned on', async () => {
+        const { editor, document } = await loadDeck(footerDeck);
+
+        expect(document.headerFooter).toMatchObject({ footer: false, slideNumber: false });
+
+        editor.setHeaderFooter({ footer: true, footerText: 'Confidential', slideNumber: true });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide2.xml');
+        expect(slide).toContain('<p:ph type="ftr" idx="11"/>');
+        expect(slide).toContain('<a:t>Confidential</a:t>');
+        expect(slide).toMatch(/<a:fld [^>]*type="slidenum"[^>]*>.*<a:t>2<\/a:t><\/a:fld>/);
+        // Placed by the layout, so the slide doesn't repeat the frame
+        expect(slide).not.toContain('<a:xfrm');
+
+        expect(exported.headerFooter).toMatchObject({ footer: true, footerText: 'Confidential', slideNumber: true, dateTime: false });
+        const footer = exported.slides[1].elements.find(element => element.placeholder?.type === 'ftr')!;
+        expect(footer.position).toEqual({ x: 300, y: 500 });
+    });
+
+    it('should remove footers that are turned off, and undo it', async () => {
+        const { editor } = await loadDeck(footerDeck);
+
+        editor.setHeaderFooter({ footer: true, footerText: 'Confidential' });
+        editor.setHeaderFooter({ footer: false });
+        const hidden = await exportDeck(editor);
+        expect(await readPart(hidden.zip, 'ppt/slides/slide1.xml')).not.toContain('type="ftr"');
+        expect(hidden.document.headerFooter?.footer).toBe(false);
+
+        editor.undo();
+        const restored = await exportDeck(editor);
+        expect(await readPart(restored.zip, 'ppt/slides/slide1.xml')).toContain('<a:t>Confidential</a:t>');
+        expect(restored.document.headerFooter).toMatchObject({ footer: true, footerText: 'Confidential' });
+    });
+});
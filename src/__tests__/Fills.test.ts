@@ -0,0 +1,93 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu } from '../__fixtures__/pptx';
+import { ShapeFill } from '../types';
+
+const filled = (id: number, fill: string) => shapeXml(id, `Shape ${id}`, [0, 0, emu(100), emu(100)], { spPr: fill });
+
+const shapes = filled(2, '<a:solidFill><a:srgbClr val="336699"><a:alpha val="40000"/></a:srgbClr></a:solidFill>') +
+    filled(3, '<a:gradFill><a:gsLst><a:gs pos="0"><a:srgbClr val="FF0000"/></a:gs><a:gs pos="100000"><a:srgbClr val="0000FF"/></a:gs></a:gsLst>' +
+        '<a:lin ang="2700000" scaled="1"/></a:gradFill>') +
+    filled(4, '<a:pattFill prst="dkHorz"><a:fgClr><a:srgbClr val="000000"/></a:fgClr><a:bgClr><a:srgbClr val="FFFFFF"/></a:bgClr></a:pattFill>') +
+    filled(5, '<a:noFill/>');
+
+const deck = { slides: [{ shapes }] };
+
+// accent1 at 60% lighter, as PowerPoint's color picker writes it
+const themed = filled(2, '<a:solidFill><a:schemeClr val="accent1"><a:lumMod val="60000"/><a:lumOff val="40000"/></a:schemeClr></a:solidFill>');
+
+const gradient: ShapeFill = {
+    type: 'gradient',
+    gradient: { type: 'linear', angle: 90, stops: [{ position: 0, color: '#00FF00' }, { position: 0.5, color: '#FFFF00' }, { position: 1, color: '#00FFFF' }] }
+};
+
+describe('Shape fills', () => {
+    it('should parse solid, gradient, pattern and empty fills', async () => {
+        const { document } = await loadDeck(deck);
+        const [solid, gradientShape, pattern, none] = document.slides[0].elements;
+
+        expect(solid.style?.fill).toMatchObject({ type: 'solid', color: '#33669966' });
+        expect(gradientShape.style?.fill).toMatchObject({
+            type: 'gradient',
+            gradient: { type: 'linear', angle: 45, stops: [{ position: 0, color: '#FF0000' }, { position: 1, color: '#0000FF' }] }
+        });
+        expect(pattern.style?.fill).toEqual({ type: 'pattern', pattern: { preset: 'dkHorz', foreground: '#000000', background: '#FFFFFF' } });
+        expect(none.style?.fill?.type).toBe('none');
+    });
+
+    it('should export changed fills in place of the old ones', async () => {
+        const { editor, document } = await loadDeck(deck);
+        const [solid, gradientShape, pattern, none] = document.slides[0].elements;
+
+        editor.updateElementStyle(solid.id, { fill: gradient });
+        editor.updateElementStyle(gradientShape.id, { fill: { type: 'pattern', pattern: { preset: 'pct50', foreground: '#112233', background: '#445566' } } });
+        editor.updateElementStyle(pattern.id, { fill: { type: 'none' } });
+        editor.updateElementStyle(none.id, { fill: { type: 'solid', color: '#ABCDEF' } });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).toContain('<a:gs pos="50000"><a:srgbClr val="FFFF00"/></a:gs>');
+        expect(slide).toContain('<a:pattFill prst="pct50"><a:fgClr><a:srgbClr val="112233"/></a:fgClr><a:bgClr><a:srgbClr val="445566"/></a:bgClr></a:pattFill>');
+        expect(slide).toContain('<a:solidFill><a:srgbClr val="ABCDEF"/></a:solidFill>');
+        // Each shape has exactly one fill
+        expect(slide.match(/<\/a:prstGeom><a:[a-zA-Z]+Fill/g)).toHaveLength(4);
+
+        const fills = exported.slides[0].elements.map(element => element.style?.fill);
+        expect(fills[0]).toMatchObject(gradient);
+        expect(fills[1]?.type).toBe('pattern');
+        expect(fills[2]?.type).toBe('none');
+        expect(fills[3]).toMatchObject({ type: 'solid', color: '#ABCDEF' });
+    });
+
+    it('should undo a fill change', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.updateElementStyle(document.slides[0].elements[0].id, { fill: { type: 'none' } });
+        editor.undo();
+        const { zip } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/slides/slide1.xml')).toContain('<a:solidFill><a:srgbClr val="336699"><a:alpha val="40000"/></a:srgbClr></a:solidFill>');
+    });
+
+    it('should keep the theme color and its modifiers when only the transparency changes', async () => {
+        const { editor, document } = await loadDeck({ slides: [{ shapes: themed }] });
+        const [shape] = document.slides[0].elements;
+        const fill = shape.style!.fill!;
+
+        editor.updateElementStyle(shape.id, { fill: { ...fill, color: `${fill.color!.substring(0, 7)}80` } });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/slides/slide1.xml'))
+            .toContain('<a:solidFill><a:schemeClr val="accent1"><a:lumMod val="60000"/><a:lumOff val="40000"/><a:alpha val="50196"/></a:schemeClr></a:solidFill>');
+        expect(exported.slides[0].elements[0].style?.fill).toEqual({ ...fill, color: `${fill.color!.substring(0, 7)}80` });
+    });
+
+    it('should write a theme color changed to another color as a color of its own', async () => {
+        const { editor, document } = await loadDeck({ slides: [{ shapes: themed }] });
+        const [shape] = document.slides[0].elements;
+
+        editor.updateElementStyle(shape.id, { fill: { ...shape.style!.fill!, color: '#123456' } });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/slides/slide1.xml')).toContain('<a:solidFill><a:srgbClr val="123456"/></a:solidFill>');
+        expect(exported.slides[0].elements[0].style?.fill).toEqual({ type: 'solid', color: '#123456' });
+    });
+});
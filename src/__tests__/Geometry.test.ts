@@ -0,0 +1,70 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu } from '../__fixtures__/pptx';
+import { evaluateFormula, shapeGeometry, geometryContainsPoint } from '../core/Geometry';
+import { ShapeContent } from '../types';
+
+// A right triangle drawn in a 100x100 path space, stretched to the frame
+const customGeometryXml = '<a:custGeom><a:avLst><a:gd name="adj" fmla="val 25000"/></a:avLst><a:gdLst><a:gd name="x1" fmla="*/ w adj 100000"/></a:gdLst>' +
+    '<a:ahLst/><a:cxnLst/><a:rect l="0" t="0" r="r" b="b"/><a:pathLst><a:path w="100" h="100">' +
+    '<a:moveTo><a:pt x="0" y="0"/></a:moveTo><a:lnTo><a:pt x="100" y="100"/></a:lnTo><a:lnTo><a:pt x="0" y="100"/></a:lnTo><a:close/>' +
+    '</a:path></a:pathLst></a:custGeom>';
+
+const presetXml = '<a:prstGeom prst="triangle"><a:avLst><a:gd name="adj" fmla="val 25000"/></a:avLst></a:prstGeom>';
+
+const deck = {
+    slides: [{
+        shapes: shapeXml(2, 'Triangle 1', [0, 0, emu(200), emu(100)], { geometry: presetXml }) +
+            shapeXml(3, 'Freeform 2', [emu(300), 0, emu(200), emu(100)], { geometry: customGeometryXml })
+    }]
+};
+
+describe('Shape geometry', () => {
+    it('should evaluate guide formulas', () => {
+        const guides = new Map([['w', 1000], ['adj', 25000]]);
+
+        expect(evaluateFormula('*/ w adj 100000', guides)).toBe(250);
+        expect(evaluateFormula('+- w 10 adj', guides)).toBe(-23990);
+        expect(evaluateFormula('pin 0 adj 20000', guides)).toBe(20000);
+        expect(evaluateFormula('?: adj w 5', guides)).toBe(1000);
+        expect(evaluateFormula('mod 3 4 0', guides)).toBe(5);
+    });
+
+    it('should outline presets with their adjustments', () => {
+        const [triangle] = shapeGeometry({ shapeType: 'triangle', adjustments: { adj: 25000 } }, 200, 100);
+
+        expect(triangle.segments[0]).toEqual({ type: 'M', x: 50, y: 0 });
+        expect(geometryContainsPoint([triangle], 50, 10)).toBe(true);
+        expect(geometryContainsPoint([triangle], 190, 10)).toBe(false);
+        // Unknown presets fall back to the frame
+        expect(geometryContainsPoint(shapeGeometry({ shapeType: 'notAPreset' }, 200, 100), 190, 10)).toBe(true);
+    });
+
+    it('should parse preset adjustments and custom geometry', async () => {
+        const { document } = await loadDeck(deck);
+        const [preset, freeform] = document.slides[0].elements;
+
+        expect(preset.content).toMatchObject({ shapeType: 'triangle', adjustments: { adj: 25000 } });
+
+        const content = freeform.content as ShapeContent;
+        expect(content.shapeType).toBe('custom');
+        expect(content.customGeometry?.guides).toEqual([{ name: 'x1', formula: '*/ w adj 100000' }]);
+        const [path] = shapeGeometry(content, 200, 100);
+        expect(path.segments).toEqual([
+            { type: 'M', x: 0, y: 0 },
+            { type: 'L', x: 200, y: 100 },
+            { type: 'L', x: 0, y: 100 },
+            { type: 'Z' }
+        ]);
+    });
+
+    it('should keep the geometry of resized shapes', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        document.slides[0].elements.forEach(element => editor.updateElementSize(element.id, 400, 50));
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).toContain(presetXml);
+        expect(slide).toContain(customGeometryXml);
+        expect(shapeGeometry(exported.slides[0].elements[1].content, 400, 50)[0].segments[1]).toEqual({ type: 'L', x: 400, y: 50 });
+    });
+});
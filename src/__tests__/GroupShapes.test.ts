@@ -0,0 +1,71 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu } from '../__fixtures__/pptx';
+import { GroupContent, SlideElement } from '../types';
+
+// A group at (100, 100) drawn at twice the size of its child coordinate space, holding a shape
+// and a nested group that is itself offset inside it
+const groupXml = (id: number, frame: [number, number, number, number], child: [number, number, number, number], children: string) =>
+    `<p:grpSp><p:nvGrpSpPr><p:cNvPr id="${id}" name="Group ${id}"/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>` +
+    `<p:grpSpPr><a:xfrm><a:off x="${emu(frame[0])}" y="${emu(frame[1])}"/><a:ext cx="${emu(frame[2])}" cy="${emu(frame[3])}"/>` +
+    `<a:chOff x="${emu(child[0])}" y="${emu(child[1])}"/><a:chExt cx="${emu(child[2])}" cy="${emu(child[3])}"/></a:xfrm></p:grpSpPr>` +
+    `${children}</p:grpSp>`;
+
+const deck = {
+    slides: [{
+        shapes: groupXml(10, [100, 100, 200, 200], [0, 0, 100, 100],
+            shapeXml(11, 'Child', [emu(50), 0, emu(50), emu(50)], { text: 'child' }) +
+            groupXml(12, [0, 50, 50, 50], [0, 0, 50, 50], shapeXml(13, 'Grandchild', [0, 0, emu(25), emu(25)], { text: 'deep' })))
+    }]
+};
+
+const children = (element: SlideElement): SlideElement[] => (element.content as GroupContent).children;
+
+describe('Group shapes', () => {
+    it('should place children where the group transform puts them', async () => {
+        const { document } = await loadDeck(deck);
+        const [group] = document.slides[0].elements;
+
+        expect(group.type).toBe('group');
+        expect(group.position).toEqual({ x: 100, y: 100 });
+
+        const [child, nested] = children(group);
+        expect(child.position).toEqual({ x: 200, y: 100 });
+        expect(child.size).toEqual({ width: 100, height: 100 });
+        expect(child.content?.text).toBe('child');
+
+        // The nested group's own transform applies on top of its parent's
+        const [grandchild] = children(nested);
+        expect(nested.position).toEqual({ x: 100, y: 200 });
+        expect(grandchild.position).toEqual({ x: 100, y: 200 });
+        expect(grandchild.size).toEqual({ width: 50, height: 50 });
+    });
+
+    it('should move the children with the group and keep them through export', async () => {
+        const { editor, document } = await loadDeck(deck);
+        const [group] = document.slides[0].elements;
+
+        editor.updateElementPosition(group.id, 150, 120);
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).toContain(`<a:off x="${emu(150)}" y="${emu(120)}"/>`);
+
+        const [reparsed] = exported.slides[0].elements;
+        const [child, nested] = children(reparsed);
+        expect(reparsed.position).toEqual({ x: 150, y: 120 });
+        expect(child.position).toEqual({ x: 250, y: 120 });
+        expect(child.content?.text).toBe('child');
+        expect(children(nested)[0].content?.text).toBe('deep');
+    });
+
+    it('should undo a group move', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.updateElementPosition(document.slides[0].elements[0].id, 150, 120);
+        editor.undo();
+        const { document: exported } = await exportDeck(editor);
+
+        const [group] = exported.slides[0].elements;
+        expect(group.position).toEqual({ x: 100, y: 100 });
+        expect(children(group)[0].position).toEqual({ x: 200, y: 100 });
+    });
+});
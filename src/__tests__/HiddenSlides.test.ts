@@ -0,0 +1,33 @@
+import { loadDeck, exportDeck, readPart } from '../__fixtures__/pptx';
+
+const deck = { slides: [{}, { attributes: ' show="0"' }] };
+
+describe('Hidden slides', () => {
+    it('should read show="0" as a hidden slide', async () => {
+        const { document } = await loadDeck(deck);
+
+        expect(document.slides.map(slide => !!slide.hidden)).toEqual([false, true]);
+    });
+
+    it('should export hiding and showing slides', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.setSlideHidden(document.slides[0].id, true);
+        editor.setSlideHidden(document.slides[1].id, false);
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/slides/slide1.xml')).toMatch(/<p:sld [^>]*show="0"/);
+        expect(await readPart(zip, 'ppt/slides/slide2.xml')).not.toContain('show=');
+        expect(exported.slides.map(slide => !!slide.hidden)).toEqual([true, false]);
+    });
+
+    it('should undo hiding a slide', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.setSlideHidden(document.slides[0].id, true);
+        editor.undo();
+        const { document: exported } = await exportDeck(editor);
+
+        expect(exported.slides.map(slide => !!slide.hidden)).toEqual([false, true]);
+    });
+});
@@ -0,0 +1,69 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu } from '../__fixtures__/pptx';
+import { TextContent, PPTXDocument } from '../types';
+
+const txBody = '<p:txBody><a:bodyPr/><a:lstStyle/><a:p>' +
+    '<a:r><a:rPr lang="en-US"><a:hlinkClick r:id="rId3" action="ppaction://hlinksldjump"/></a:rPr><a:t>Go to slide 2</a:t></a:r>' +
+    '<a:r><a:rPr lang="en-US"/><a:t> or </a:t></a:r>' +
+    '<a:r><a:rPr lang="en-US"><a:hlinkClick r:id="" action="ppaction://hlinkshowjump?jump=nextslide"/></a:rPr><a:t>next</a:t></a:r>' +
+    '</a:p></p:txBody>';
+
+const deck = {
+    slides: [
+        {
+            shapes: shapeXml(2, 'Button 1', [0, 0, emu(100), emu(40)], { cNvPr: '<a:hlinkClick r:id="rId2" tooltip="Docs"/>' }) +
+                shapeXml(3, 'TextBox 2', [0, emu(50), emu(300), emu(40)], { txBody }),
+            relationships: [
+                ['rId2', 'hyperlink', 'https://example.com/docs', 'External'],
+                ['rId3', 'slide', 'slide2.xml']
+            ] as Array<[string, string, string, string?]>
+        },
+        {}
+    ]
+};
+
+const runLinks = (document: PPTXDocument) =>
+    (document.slides[0].elements[1].content as TextContent).paragraphs![0].runs.map(run => run.style?.hyperlink);
+
+describe('Hyperlinks', () => {
+    it('should parse shape links, slide jumps and show actions', async () => {
+        const { document } = await loadDeck(deck);
+
+        expect(document.slides[0].elements[0].hyperlink).toEqual({ url: 'https://example.com/docs', tooltip: 'Docs' });
+        expect(runLinks(document)).toEqual([
+            { slideId: document.slides[1].id },
+            undefined,
+            { action: 'ppaction://hlinkshowjump?jump=nextslide' }
+        ]);
+    });
+
+    it('should export new links through relationships of the slide', async () => {
+        const { editor, document } = await loadDeck(deck);
+        const [button, text] = document.slides[0].elements;
+
+        editor.setElementHyperlink(button.id, { slideId: document.slides[1].id });
+        editor.setRunHyperlink(text.id, 0, 1, { url: 'mailto:team@example.com' });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        const relationships = await readPart(zip, 'ppt/slides/_rels/slide1.xml.rels');
+        const [, mailId] = relationships.match(/Id="(rId\d+)"[^>]*Target="mailto:team@example.com" TargetMode="External"/) || [];
+        expect(mailId).toBeDefined();
+        expect(slide).toContain(`<a:hlinkClick r:id="${mailId}"/></a:rPr><a:t> or </a:t>`);
+
+        expect(exported.slides[0].elements[0].hyperlink).toEqual({ slideId: exported.slides[1].id });
+        expect(runLinks(exported)[1]).toEqual({ url: 'mailto:team@example.com' });
+    });
+
+    it('should remove links and undo the removal', async () => {
+        const { editor, document } = await loadDeck(deck);
+        const [, text] = document.slides[0].elements;
+
+        editor.setRunHyperlink(text.id, 0, 0, null);
+        const removed = await exportDeck(editor);
+        expect(runLinks(removed.document)[0]).toBeUndefined();
+
+        editor.undo();
+        const restored = await exportDeck(editor);
+        expect(runLinks(restored.document)[0]).toEqual({ slideId: restored.document.slides[1].id });
+    });
+});
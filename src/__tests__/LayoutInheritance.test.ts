@@ -0,0 +1,78 @@
+import { loadDeck, exportDeck, readPart, layoutFiles, placeholderXml, xfrmXml, emu, LAYOUT_RELATIONSHIP } from '../__fixtures__/pptx';
+import { TextContent } from '../types';
+
+const txStyles = '<p:txStyles><p:titleStyle><a:lvl1pPr algn="ctr"><a:defRPr sz="4400" b="1"><a:solidFill><a:srgbClr val="112233"/></a:solidFill>' +
+    '<a:latin typeface="Georgia"/></a:defRPr></a:lvl1pPr></p:titleStyle><p:bodyStyle>' +
+    '<a:lvl1pPr marL="228600" indent="-228600"><a:buChar char="•"/><a:defRPr sz="2800"/></a:lvl1pPr>' +
+    '<a:lvl2pPr marL="685800" indent="-228600"><a:buChar char="–"/><a:defRPr sz="2400"/></a:lvl2pPr></p:bodyStyle><p:otherStyle/></p:txStyles>';
+
+// The master places both placeholders; the layout moves the body and shrinks its second level
+const files = layoutFiles({
+    masterShapes: placeholderXml(2, 'title', null, { xfrm: xfrmXml(emu(10), emu(10), emu(200), emu(50)) }) +
+        placeholderXml(3, 'body', '1', { xfrm: xfrmXml(emu(10), emu(100), emu(200), emu(200)) }),
+    masterExtras: txStyles,
+    layoutShapes: placeholderXml(2, 'title', null) +
+        placeholderXml(3, null, '1', {
+            xfrm: xfrmXml(emu(20), emu(120), emu(400), emu(200)),
+            txBody: '<p:txBody><a:bodyPr/><a:lstStyle><a:lvl2pPr><a:defRPr sz="2000"/></a:lvl2pPr></a:lstStyle><a:p/></p:txBody>'
+        })
+});
+
+const shapes = placeholderXml(2, 'title', null, { txBody: '<p:txBody><a:bodyPr/><a:p><a:r><a:rPr lang="en-US"/><a:t>Hello</a:t></a:r></a:p></p:txBody>' }) +
+    placeholderXml(3, null, '1', {
+        txBody: '<p:txBody><a:bodyPr/><a:p><a:r><a:rPr lang="en-US"/><a:t>a</a:t></a:r></a:p>' +
+            '<a:p><a:pPr lvl="1"/><a:r><a:rPr lang="en-US"/><a:t>b</a:t></a:r></a:p></p:txBody>'
+    });
+
+const deck = { slides: [{ shapes, relationships: [LAYOUT_RELATIONSHIP] }], files };
+
+describe('Layout and master inheritance', () => {
+    it('should resolve the layout of a slide', async () => {
+        const { document } = await loadDeck(deck);
+
+        expect(document.slides[0].layout).toBe('Title and Content');
+        expect(document.slides[0].layoutPath).toBe('ppt/slideLayouts/slideLayout1.xml');
+    });
+
+    it('should place placeholders from the nearest layout or master that positions them', async () => {
+        const { document } = await loadDeck(deck);
+        const [title, body] = document.slides[0].elements;
+
+        expect(title.placeholder).toEqual({ type: 'title' });
+        expect(title.position).toEqual({ x: 10, y: 10 });
+        expect(title.size).toEqual({ width: 200, height: 50 });
+        expect(body.placeholder).toEqual({ type: 'obj', idx: '1' });
+        expect(body.position).toEqual({ x: 20, y: 120 });
+        expect(body.size).toEqual({ width: 400, height: 200 });
+    });
+
+    it('should style placeholder text from the master text styles and the layout list styles', async () => {
+        const { document } = await loadDeck(deck);
+        const [title, body] = document.slides[0].elements;
+
+        const titleText = title.content as TextContent;
+        expect(titleText.paragraphs![0].alignment).toBe('center');
+        expect(titleText.paragraphs![0].runs[0].style).toMatchObject({ fontSize: 44, bold: true, color: '#112233', fontFamily: 'Georgia' });
+
+        const [first, second] = (body.content as TextContent).paragraphs!;
+        expect(first.bullet).toMatchObject({ type: 'char', char: '•' });
+        expect(first.runs[0].style?.fontSize).toBe(28);
+        expect(second.bullet).toMatchObject({ type: 'char', char: '–' });
+        expect(second.runs[0].style?.fontSize).toBe(20);
+    });
+
+    it('should only write a transform for the placeholders that were moved', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        const unchanged = await exportDeck(editor);
+        expect(await readPart(unchanged.zip, 'ppt/slides/slide1.xml')).not.toContain('<a:xfrm');
+
+        editor.updateElementPosition(document.slides[0].elements[0].id, 50, 60);
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide.match(/<a:xfrm>.*?<\/a:xfrm>/g)).toEqual([xfrmXml(emu(50), emu(60), emu(200), emu(50))]);
+        expect(exported.slides[0].elements[0].position).toEqual({ x: 50, y: 60 });
+        expect(exported.slides[0].elements[1].position).toEqual({ x: 20, y: 120 });
+    });
+});
@@ -0,0 +1,63 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu } from '../__fixtures__/pptx';
+import { LineContent } from '../types';
+
+// An arrow glued from the right side of one box to the left side of the other
+const connectorXml = '<p:cxnSp><p:nvCxnSpPr><p:cNvPr id="4" name="Straight Arrow Connector 3"/>' +
+    '<p:cNvCxnSpPr><a:stCxn id="2" idx="3"/><a:endCxn id="3" idx="1"/></p:cNvCxnSpPr><p:nvPr/></p:nvCxnSpPr>' +
+    `<p:spPr><a:xfrm flipV="1"><a:off x="${emu(100)}" y="${emu(40)}"/><a:ext cx="${emu(100)}" cy="${emu(20)}"/></a:xfrm>` +
+    '<a:prstGeom prst="straightConnector1"><a:avLst/></a:prstGeom>' +
+    `<a:ln w="${emu(2)}" cap="rnd"><a:solidFill><a:srgbClr val="C00000"/></a:solidFill><a:prstDash val="dash"/><a:tailEnd type="triangle" w="lg" len="med"/></a:ln>` +
+    '</p:spPr></p:cxnSp>';
+
+const deck = {
+    slides: [{
+        shapes: shapeXml(2, 'Box 1', [0, emu(20), emu(100), emu(40)]) + shapeXml(3, 'Box 2', [emu(200), 0, emu(100), emu(40)]) + connectorXml
+    }]
+};
+
+describe('Lines and connectors', () => {
+    it('should parse connectors, their glue points and their arrowheads', async () => {
+        const { document } = await loadDeck(deck);
+        const connector = document.slides[0].elements[2];
+
+        expect(connector.type).toBe('line');
+        expect(connector).toMatchObject({ position: { x: 100, y: 40 }, size: { width: 100, height: 20 }, flipV: true });
+        expect(connector.content).toEqual({ shapeType: 'straightConnector1', startConnection: { shapeId: '2', site: 3 }, endConnection: { shapeId: '3', site: 1 } });
+        expect(connector.style?.line).toMatchObject({ color: '#C00000', width: 2, dash: 'dash', cap: 'rnd', tailEnd: { type: 'triangle', width: 'lg', length: 'med' } });
+    });
+
+    it('should export a new arrow as a connector shape', async () => {
+        const { editor } = await loadDeck(deck);
+
+        const id = editor.addLineElement(300, 200, 100, 100, { color: '#0000FF', width: 3, headEnd: { type: 'oval' }, tailEnd: { type: 'stealth' } });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).toContain('<p:cNvPr id="5" name="Straight Arrow Connector 4"/>');
+        expect(slide).toMatch(/<a:headEnd type="oval"\/>.*<a:tailEnd type="stealth"\/>/);
+
+        const arrow = exported.slides[0].elements.find(element => element.id === id)!;
+        expect(arrow).toMatchObject({ type: 'line', position: { x: 100, y: 100 }, size: { width: 200, height: 100 }, flipH: true, flipV: true });
+        expect(arrow.style?.line).toMatchObject({ color: '#0000FF', width: 3, headEnd: { type: 'oval' }, tailEnd: { type: 'stealth' } });
+    });
+
+    it('should unglue a connector whose ends were moved, and export line style changes', async () => {
+        const { editor, document } = await loadDeck(deck);
+        const connector = document.slides[0].elements[2];
+
+        editor.setLineEndpoints(connector.id, 0, 0, 50, 50);
+        editor.updateLineStyle(connector.id, { dash: undefined, tailEnd: undefined, width: 4 });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).not.toContain('a:stCxn');
+        expect(slide).not.toContain('a:prstDash');
+        expect(slide).not.toContain('a:tailEnd');
+        expect(slide).toContain(`<a:ln w="${emu(4)}" cap="rnd">`);
+
+        const moved = exported.slides[0].elements[2];
+        expect(moved).toMatchObject({ position: { x: 0, y: 0 }, size: { width: 50, height: 50 } });
+        expect(moved.flipV).toBeFalsy();
+        expect((moved.content as LineContent).startConnection).toBeUndefined();
+    });
+});
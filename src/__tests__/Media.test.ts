@@ -0,0 +1,97 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu } from '../__fixtures__/pptx';
+import { MediaContent, PPTXDocument } from '../types';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const P14 = 'xmlns:p14="http://schemas.microsoft.com/office/powerpoint/2010/main"';
+
+const mediaXml = (id: number, name: string, nvPr: string) =>
+    `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="${name}"><a:hlinkClick r:id="" action="ppaction://media"/></p:cNvPr><p:cNvPicPr/><p:nvPr>${nvPr}</p:nvPr></p:nvPicPr>` +
+    '<p:blipFill><a:blip r:embed="rId2"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>' +
+    `<p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${emu(160)}" cy="${emu(90)}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`;
+
+const videoXml = mediaXml(4, 'clip.mp4', '<a:videoFile r:link="rId3"/><p:extLst><p:ext uri="{DAA4B4D4-6D71-4841-9C94-3DE7FCFB9230}">' +
+    `<p14:media ${P14} r:embed="rId4"><p14:trim st="1500" end="500"/></p14:media></p:ext></p:extLst>`);
+const audioXml = mediaXml(5, 'song', '<a:audioFile r:link="rId5"/>');
+const unknownXml = mediaXml(6, 'recording', '<a:videoFile r:link="rId6"/>');
+
+const timingXml = (spid: number) => '<p:timing><p:tnLst><p:par><p:cTn id="1" dur="indefinite" restart="never" nodeType="tmRoot"><p:childTnLst>' +
+    '<p:video><p:cMediaNode vol="80000"><p:cTn id="2" repeatCount="indefinite" fill="hold" display="0"><p:stCondLst><p:cond delay="indefinite"/></p:stCondLst></p:cTn>' +
+    `<p:tgtEl><p:spTgt spid="${spid}"/></p:tgtEl></p:cMediaNode></p:video></p:childTnLst></p:cTn></p:par></p:tnLst></p:timing>`;
+
+const relationships: Array<[string, string, string, string?]> = [
+    ['rId2', 'image', '../media/image1.png'],
+    ['rId3', 'video', '../media/media1.mp4'],
+    ['rId4', 'http://schemas.microsoft.com/office/2007/relationships/media', '../media/media1.mp4'],
+    ['rId5', 'audio', 'https://example.com/song.mp3', 'External'],
+    ['rId6', 'video', '../media/media2.xyz']
+];
+
+const files = { 'ppt/media/image1.png': PNG, 'ppt/media/media1.mp4': new Uint8Array([1, 2, 3]), 'ppt/media/media2.xyz': new Uint8Array([4]) };
+
+const deck = { slides: [{ shapes: videoXml + audioXml + unknownXml, after: timingXml(4), relationships }], files };
+
+const mediaOf = (document: PPTXDocument, name: string) => document.slides[0].elements.find(element => element.name === name)!;
+
+describe('Video and audio', () => {
+    it('should parse embedded and linked media with their trimming and looping', async () => {
+        const { document } = await loadDeck(deck);
+
+        const video = mediaOf(document, 'clip.mp4');
+        expect(video.type).toBe('media');
+        expect(video.content).toMatchObject({ mediaType: 'video', mimeType: 'video/mp4', mediaPath: 'ppt/media/media1.mp4', trimStart: 1500, trimEnd: 500, loop: true });
+        expect((video.content as MediaContent).mediaDataUrl).toMatch(/^data:video\/mp4;base64,/);
+
+        expect(mediaOf(document, 'song').content).toMatchObject({ mediaType: 'audio', mediaUrl: 'https://example.com/song.mp3' });
+        // Media of a type we don't know is still loaded, as plain bytes
+        expect((mediaOf(document, 'recording').content as MediaContent).mediaDataUrl).toMatch(/^data:application\/octet-stream;base64,/);
+    });
+
+    it('should export trimming and looping changes', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.updateMediaPlayback(mediaOf(document, 'clip.mp4').id, { trimStart: 2000, trimEnd: 0, loop: false });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).toContain('<p14:trim st="2000"/>');
+        expect(slide).not.toContain('repeatCount="indefinite"');
+
+        const content = mediaOf(exported, 'clip.mp4').content as MediaContent;
+        expect(content).toMatchObject({ trimStart: 2000 });
+        expect(content.trimEnd).toBeUndefined();
+        expect(content.loop).toBeFalsy();
+    });
+
+    it('should export added media as a new part with its relationships, content type and timing', async () => {
+        const { editor } = await loadDeck(deck);
+
+        const id = await editor.addMediaElement(new Blob([new Uint8Array([7, 8, 9])], { type: 'audio/mpeg' }), 10, 10, 50, 50);
+        editor.updateMediaPlayback(id, { loop: true });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const audio = exported.slides[0].elements.find(element => element.id === id)!;
+        const content = audio.content as MediaContent;
+        expect(content).toMatchObject({ mediaType: 'audio', mimeType: 'audio/mpeg', loop: true });
+        expect(await zip.file(content.mediaPath!)!.async('uint8array')).toEqual(new Uint8Array([7, 8, 9]));
+        expect(await readPart(zip, '[Content_Types].xml')).toContain('Extension="mp3"');
+        expect(await readPart(zip, 'ppt/slides/slide1.xml')).toContain(`<p:spTgt spid="${audio.shapeId}"/>`);
+    });
+
+    it('should take the timing of deleted media, and of media in deleted groups, off the slide', async () => {
+        const groupXml = '<p:grpSp><p:nvGrpSpPr><p:cNvPr id="7" name="Group 6"/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+            `<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${emu(160)}" cy="${emu(90)}"/><a:chOff x="0" y="0"/><a:chExt cx="${emu(160)}" cy="${emu(90)}"/></a:xfrm></p:grpSpPr>` +
+            videoXml + '</p:grpSp>';
+        const { editor, document } = await loadDeck({
+            slides: [{ shapes: groupXml + shapeXml(2, 'Box 1', [0, 0, emu(10), emu(10)]), after: timingXml(4), relationships }],
+            files
+        });
+
+        editor.deleteElement(document.slides[0].elements[0].id);
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).not.toContain('p:spTgt');
+        expect(slide).not.toContain('<p:video>');
+        expect(exported.slides[0].elements.map(element => element.name)).toEqual(['Box 1']);
+    });
+});
@@ -1,6 +1,7 @@
 import { PPTXEditor } from '../core/PPTXEditor';
 import { PPTXParser } from '../core/PPTXParser';
 import { ChangeTracker } from '../core/ChangeTracker';
+import { paragraphsFromText, paragraphsToText } from '../core/RichText';
 
 describe('PPTXEditor', () => {
     let editor: PPTXEditor;
@@ -156,3 +157,26 @@ describe('PPTXParser', () => {
     // Note: Actual PPTX parsing tests would require mock PPTX files
     // This is a basic structure test
 });
+
+describe('RichText', () => {
+    const paragraphs = [
+        { runs: [{ text: 'Bold', style: { bold: true } }, { text: ' plain' }] },
+        { runs: [{ text: 'Second', style: { italic: true } }] }
+    ];
+
+    it('should join paragraphs with newlines', () => {
+        expect(paragraphsToText(paragraphs)).toBe('Bold plain\nSecond');
+    });
+
+    it('should keep the runs of unchanged paragraphs', () => {
+        const updated = paragraphsFromText('Bold plain\nChanged', paragraphs);
+        expect(updated[0]).toBe(paragraphs[0]);
+        expect(updated[1].runs).toEqual([{ text: 'Changed', style: { italic: true } }]);
+    });
+
+    it('should give new lines the formatting of the last paragraph', () => {
+        const updated = paragraphsFromText('Bold plain\nSecond\nThird', paragraphs);
+        expect(updated).toHaveLength(3);
+        expect(updated[2].runs[0].style).toEqual({ italic: true });
+    });
+});
@@ -0,0 +1,87 @@
+import { loadDeck, exportDeck, readPart, emu } from '../__fixtures__/pptx';
+import { ImageContent, PPTXDocument } from '../types';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// A picture showing all but the left fifth of its image, at half opacity and in grayscale
+const pictureXml = '<p:pic><p:nvPicPr><p:cNvPr id="2" name="Picture 1" descr="A chart"/><p:cNvPicPr/><p:nvPr/></p:nvPicPr>' +
+    '<p:blipFill><a:blip r:embed="rId2"><a:alphaModFix amt="50000"/><a:grayscl/></a:blip><a:srcRect l="20000"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>' +
+    `<p:spPr><a:xfrm><a:off x="${emu(100)}" y="${emu(100)}"/><a:ext cx="${emu(80)}" cy="${emu(100)}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`;
+
+const deck = {
+    slides: [{ shapes: pictureXml, relationships: [['rId2', 'image', '../media/image1.png']] as Array<[string, string, string]> }],
+    files: { 'ppt/media/image1.png': PNG }
+};
+
+const pictureOf = (document: PPTXDocument) => document.slides[0].elements[0];
+
+describe('Pictures', () => {
+    it('should parse the image, crop, transparency and recoloring of a picture', async () => {
+        const { document } = await loadDeck(deck);
+        const picture = pictureOf(document);
+        const content = picture.content as ImageContent;
+
+        expect(picture.type).toBe('image');
+        expect(content).toMatchObject({ imagePath: 'ppt/media/image1.png', altText: 'A chart', transparency: 0.5, recolor: { type: 'grayscale' } });
+        expect(content.imageDataUrl).toMatch(/^data:image\/png;base64,/);
+        expect(content.crop).toEqual({ left: 0.2, top: 0, right: 0, bottom: 0 });
+    });
+
+    it('should export a crop, moving the frame so the picture keeps its scale and place', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.cropImage(pictureOf(document).id, { left: 0.2, top: 0, right: 0.2, bottom: 0.5 });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).toContain('<a:srcRect l="20000" r="20000" b="50000"/>');
+        expect(pictureOf(exported)).toMatchObject({ position: { x: 100, y: 100 }, size: { width: 60, height: 50 } });
+    });
+
+    it('should export a removed crop as the whole picture', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.cropImage(pictureOf(document).id, null);
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/slides/slide1.xml')).toContain('<a:srcRect/>');
+        expect(pictureOf(exported)).toMatchObject({ position: { x: 80, y: 100 }, size: { width: 100, height: 100 } });
+        expect((pictureOf(exported).content as ImageContent).crop).toBeUndefined();
+    });
+
+    it('should export recoloring and transparency changes, keeping the image part', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.updateImageAdjustments(pictureOf(document).id, { transparency: 0, recolor: { type: 'duotone', dark: '#000080', light: '#FFFFFF' } });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).not.toContain('a:alphaModFix');
+        expect(slide).not.toContain('a:grayscl');
+        expect(slide).toContain('<a:duotone><a:srgbClr val="000080"/><a:srgbClr val="FFFFFF"/></a:duotone>');
+        expect(await zip.file('ppt/media/image1.png')!.async('uint8array')).toEqual(PNG);
+
+        const content = pictureOf(exported).content as ImageContent;
+        expect(content.transparency).toBeUndefined();
+        expect(content.recolor).toEqual({ type: 'duotone', dark: '#000080', light: '#FFFFFF' });
+    });
+
+    it('should undo crops and adjustments step by step', async () => {
+        const { editor, document } = await loadDeck(deck);
+        const { id } = pictureOf(document);
+
+        editor.cropImage(id, { left: 0.2, top: 0, right: 0.2, bottom: 0 });
+        editor.updateImageAdjustments(id, { transparency: 0.25, recolor: null });
+        editor.cropImage(id, { left: 0.3, top: 0, right: 0.2, bottom: 0 });
+
+        editor.undo();
+        expect(editor.getCurrentSlide()!.elements[0].content).toMatchObject({ crop: { left: 0.2, right: 0.2 }, transparency: 0.25 });
+
+        editor.undo();
+        editor.undo();
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/slides/slide1.xml')).toContain('<a:blip r:embed="rId2"><a:alphaModFix amt="50000"/><a:grayscl/></a:blip><a:srcRect l="20000"/>');
+        expect(pictureOf(exported)).toMatchObject({ position: { x: 100, y: 100 }, size: { width: 80, height: 100 } });
+    });
+});
@@ -0,0 +1,56 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu } from '../__fixtures__/pptx';
+import { TextContent } from '../types';
+
+const txBody = '<p:txBody><a:bodyPr/><a:lstStyle/>' +
+    '<a:p><a:pPr algn="ctr"/><a:r><a:rPr lang="en-US" sz="2400" b="1"><a:solidFill><a:srgbClr val="4472C4"/></a:solidFill></a:rPr><a:t>Bold </a:t></a:r>' +
+    '<a:r><a:rPr lang="en-US" i="1" baseline="30000"/><a:t>sup</a:t></a:r><a:br><a:rPr lang="en-US"/></a:br><a:r><a:rPr lang="en-US"/><a:t>after</a:t></a:r></a:p>' +
+    '<a:p><a:r><a:rPr lang="en-US" u="sng"/><a:t>Line two</a:t></a:r></a:p></p:txBody>';
+
+const textBox = (id: number, body: string) => shapeXml(id, `TextBox ${id}`, [0, 0, emu(200), emu(100)], { txBody: body });
+
+describe('Rich text', () => {
+    it('should parse paragraphs, runs, line breaks and run formatting', async () => {
+        const { document } = await loadDeck({ slides: [{ shapes: textBox(2, txBody) }] });
+        const content = document.slides[0].elements[0].content as TextContent;
+
+        expect(content.text).toBe('Bold sup\nafter\nLine two');
+        expect(content.paragraphs).toHaveLength(2);
+        expect(content.paragraphs![0].alignment).toBe('center');
+        expect(content.paragraphs![0].runs.map(run => run.text)).toEqual(['Bold ', 'sup', '\n', 'after']);
+        expect(content.paragraphs![0].runs[0].style).toMatchObject({ bold: true, fontSize: 24, color: '#4472C4' });
+        expect(content.paragraphs![0].runs[1].style).toMatchObject({ italic: true, baseline: 30 });
+        expect(content.paragraphs![1].runs[0].style).toMatchObject({ underline: true });
+    });
+
+    it('should export run formatting and edited text, keeping the untouched markup', async () => {
+        const { editor, document } = await loadDeck({ slides: [{ shapes: textBox(2, txBody) }] });
+        const [element] = document.slides[0].elements;
+
+        editor.updateTextRunStyle(element.id, 0, 1, { color: '#FF0000', bold: true });
+        editor.updateText(element.id, 'Bold sup\nafter\nLine 2\nThird');
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).toContain('<a:rPr lang="en-US" i="1" baseline="30000" b="1"><a:solidFill><a:srgbClr val="FF0000"/></a:solidFill></a:rPr><a:t>sup</a:t>');
+        expect(slide).toContain('<a:pPr algn="ctr"/>');
+
+        const content = exported.slides[0].elements[0].content as TextContent;
+        expect(content.text).toBe('Bold sup\nafter\nLine 2\nThird');
+        // New and changed paragraphs take the formatting of the paragraph they continue
+        expect(content.paragraphs![1].runs[0].style).toMatchObject({ underline: true });
+        expect(content.paragraphs![2].runs[0].style).toMatchObject({ underline: true });
+    });
+
+    it('should only change the edited slide when shapes on other slides share its cNvPr id', async () => {
+        const { editor, document } = await loadDeck({
+            slides: [{ shapes: textBox(2, txBody) }, { shapes: textBox(2, txBody) }]
+        });
+
+        editor.goToSlide(1);
+        editor.updateText(document.slides[1].elements[0].id, 'Second slide');
+        const { document: exported } = await exportDeck(editor);
+
+        expect(exported.slides[0].elements[0].content?.text).toBe('Bold sup\nafter\nLine two');
+        expect(exported.slides[1].elements[0].content?.text).toBe('Second slide');
+    });
+});
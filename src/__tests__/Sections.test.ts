@@ -0,0 +1,95 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu } from '../__fixtures__/pptx';
+import { PPTXDocument } from '../types';
+import { P14_NS, SECTION_LIST_URI } from '../core/Ooxml';
+
+const titled = (title: string) => ({ shapes: shapeXml(2, 'Title 1', [0, 0, emu(300), emu(50)], { text: title }) });
+
+const INTRO = '{6A1E3A2B-0C4D-4E5F-8A9B-1C2D3E4F5A6B}';
+const BODY = '{7B2F4B3C-1D5E-4F60-9BAC-2D3E4F5A6B7C}';
+
+// The p:sldId ids are 256 and up, in part order
+const sectionList = (sections: Array<[string, string, number[]]>) =>
+    `<p:extLst><p:ext uri="${SECTION_LIST_URI}"><p14:sectionLst xmlns:p14="${P14_NS}">` +
+    sections.map(([id, name, sldIds]) => `<p14:section name="${name}" id="${id}"><p14:sldIdLst>` +
+        sldIds.map(sldId => `<p14:sldId id="${sldId}"/>`).join('') + '</p14:sldIdLst></p14:section>').join('') +
+    '</p14:sectionLst></p:ext></p:extLst>';
+
+// The third slide is in no section
+const deck = {
+    slides: [titled('One'), titled('Two'), titled('Three'), titled('Four')],
+    presentationExtras: sectionList([[INTRO, 'Intro', [256]], [BODY, 'Body', [257, 259]]])
+};
+
+const titles = (document: PPTXDocument) => document.slides.map(slide => slide.elements[0].content.text);
+const sectionTitles = (document: PPTXDocument) => (document.sections || []).map(section =>
+    [section.name, section.slideIds.map(slideId => document.slides.find(slide => slide.id === slideId)!.elements[0].content.text)]);
+
+describe('Sections', () => {
+    it('should parse sections, putting slides no section lists after the slide before them', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        expect(sectionTitles(document)).toEqual([['Intro', ['One']], ['Body', ['Two', 'Three', 'Four']]]);
+        expect(editor.getSections().map(section => section.id)).toEqual([INTRO, BODY]);
+    });
+
+    it('should export moved sections and the slide order that follows from them', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.moveSection(BODY, 0);
+        editor.renameSection(INTRO, 'Outro');
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const presentation = await readPart(zip, 'ppt/presentation.xml');
+        expect(presentation).toContain('<p:sldIdLst><p:sldId id="257" r:id="rId3"/><p:sldId id="258" r:id="rId4"/><p:sldId id="259" r:id="rId5"/><p:sldId id="256" r:id="rId2"/></p:sldIdLst>');
+        expect(presentation).toContain(`<p14:section name="Outro" id="${INTRO}"><p14:sldIdLst><p14:sldId id="256"/></p14:sldIdLst></p14:section>`);
+
+        expect(titles(exported)).toEqual(['Two', 'Three', 'Four', 'One']);
+        expect(sectionTitles(exported)).toEqual([['Body', ['Two', 'Three', 'Four']], ['Outro', ['One']]]);
+        expect(document.slides.map(slide => slide.slideNumber)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should move a slide into another section', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.moveSlideToSection(document.slides[3].id, INTRO, 0);
+        const { document: exported } = await exportDeck(editor);
+
+        expect(titles(exported)).toEqual(['Four', 'One', 'Two', 'Three']);
+        expect(sectionTitles(exported)).toEqual([['Intro', ['Four', 'One']], ['Body', ['Two', 'Three']]]);
+    });
+
+    it('should add sections to a deck without any, keeping the slides before them in a default section', async () => {
+        const { editor, document } = await loadDeck({ slides: deck.slides });
+
+        const id = editor.addSection('Appendix', document.slides[2].id)!;
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/presentation.xml')).toContain(`<p14:section name="Appendix" id="${id}">`);
+        expect(sectionTitles(exported)).toEqual([['Default Section', ['One', 'Two']], ['Appendix', ['Three', 'Four']]]);
+    });
+
+    it('should keep the slides of a deleted section, and drop the extension with the last one', async () => {
+        const { editor } = await loadDeck(deck);
+
+        editor.deleteSection(BODY);
+        const merged = await exportDeck(editor);
+        expect(sectionTitles(merged.document)).toEqual([['Intro', ['One', 'Two', 'Three', 'Four']]]);
+
+        editor.deleteSection(INTRO);
+        const { zip, document: exported } = await exportDeck(editor);
+        expect(await readPart(zip, 'ppt/presentation.xml')).not.toContain('p:extLst');
+        expect(exported.sections).toBeUndefined();
+        expect(titles(exported)).toEqual(['One', 'Two', 'Three', 'Four']);
+    });
+
+    it('should undo a section move together with the slide order', async () => {
+        const { editor } = await loadDeck(deck);
+
+        editor.moveSection(BODY, 0);
+        editor.undo();
+        const { document: exported } = await exportDeck(editor);
+
+        expect(titles(exported)).toEqual(['One', 'Two', 'Three', 'Four']);
+        expect(sectionTitles(exported)).toEqual([['Intro', ['One']], ['Body', ['Two', 'Three', 'Four']]]);
+    });
+});
@@ -0,0 +1,28 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu } from '../__fixtures__/pptx';
+
+const titled = (title: string) => ({ shapes: shapeXml(2, 'Title 1', [0, 0, emu(300), emu(50)], { text: title }) });
+
+// The parts are numbered in the order the slides were created, but the deck shows the third one first
+const deck = { slides: [titled('Created first'), titled('Created second'), titled('Created third')], order: [2, 0, 1] };
+
+describe('Slide order', () => {
+    it('should order slides by p:sldIdLst rather than by part name or relationship order', async () => {
+        const { document } = await loadDeck(deck);
+
+        expect(document.slides.map(slide => slide.elements[0].content.text)).toEqual(['Created third', 'Created first', 'Created second']);
+        expect(document.slides.map(slide => slide.slideNumber)).toEqual([1, 2, 3]);
+        expect(document.slides.map(slide => slide.partPath)).toEqual(['ppt/slides/slide3.xml', 'ppt/slides/slide1.xml', 'ppt/slides/slide2.xml']);
+    });
+
+    it('should write edits of a slide to its own part and keep the order on export', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.goToSlide(0);
+        editor.updateText(document.slides[0].elements[0].id, 'Shown first');
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/slides/slide3.xml')).toContain('<a:t>Shown first</a:t>');
+        expect(await readPart(zip, 'ppt/slides/slide1.xml')).toContain('<a:t>Created first</a:t>');
+        expect(exported.slides.map(slide => slide.elements[0].content.text)).toEqual(['Shown first', 'Created first', 'Created second']);
+    });
+});
@@ -0,0 +1,104 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu, layoutFiles, placeholderXml, xfrmXml, LAYOUT_RELATIONSHIP } from '../__fixtures__/pptx';
+import { TextContent } from '../types';
+
+const txBody = '<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:r><a:rPr lang="en-US" sz="2000"/><a:t>Scaled</a:t></a:r></a:p></p:txBody>';
+
+// A 16:9 deck with one outlined text box
+const deck = {
+    slides: [{
+        shapes: shapeXml(2, 'TextBox 1', [emu(100), emu(100), emu(200), emu(100)], {
+            spPr: `<a:ln w="${emu(4)}"><a:solidFill><a:srgbClr val="000000"/></a:solidFill></a:ln>`,
+            txBody
+        })
+    }]
+};
+
+// A title placed by the layout, and a footer placeholder the slide doesn't show yet
+const placeholderDeck = {
+    slides: [{
+        shapes: placeholderXml(2, 'title', null, { txBody: '<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:r><a:rPr lang="en-US"/><a:t>Title</a:t></a:r></a:p></p:txBody>' }),
+        relationships: [LAYOUT_RELATIONSHIP]
+    }],
+    files: layoutFiles({
+        layoutShapes: placeholderXml(2, 'title', null, { xfrm: xfrmXml(emu(80), emu(40), emu(800), emu(100)) }) +
+            placeholderXml(3, 'ftr', '11', { xfrm: xfrmXml(emu(320), emu(500), emu(320), emu(20)), txBody: '<p:txBody><a:bodyPr/><a:lstStyle/><a:p/></p:txBody>' })
+    })
+};
+
+describe('Slide size', () => {
+    it('should parse p:sldSz in points', async () => {
+        const { document } = await loadDeck({ ...deck, slideSize: { cx: 9144000, cy: 6858000, type: 'screen4x3' } });
+
+        expect(document.slideSize).toEqual({ width: 720, height: 540, type: 'screen4x3' });
+    });
+
+    it('should export a new size without touching the content unless asked to scale it', async () => {
+        const { editor } = await loadDeck(deck);
+
+        editor.setSlideSize(720, 540, { type: 'screen4x3' });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/presentation.xml')).toContain('<p:sldSz cx="9144000" cy="6858000" type="screen4x3"/>');
+        expect(exported.slides[0].elements[0].position).toEqual({ x: 100, y: 100 });
+    });
+
+    it('should scale and center content, text and outlines to fit the new size', async () => {
+        const { editor } = await loadDeck(deck);
+
+        // 960x540 to 720x540 scales by 0.75 and centers the 405pt tall result vertically
+        editor.setSlideSize(720, 540, { scaleContent: true });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/presentation.xml')).toContain('<p:sldSz cx="9144000" cy="6858000"/>');
+        const [element] = exported.slides[0].elements;
+        expect(element.position).toEqual({ x: 75, y: 142.5 });
+        expect(element.size).toEqual({ width: 150, height: 75 });
+        expect(element.style?.line?.width).toBe(3);
+        expect((element.content as TextContent).paragraphs![0].runs[0].style?.fontSize).toBe(15);
+    });
+
+    it('should undo a size change together with the scaling of its content', async () => {
+        const { editor } = await loadDeck(deck);
+
+        editor.setSlideSize(720, 540, { scaleContent: true });
+        editor.undo();
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/presentation.xml')).toContain('<p:sldSz cx="12192000" cy="6858000"/>');
+        const [element] = exported.slides[0].elements;
+        expect(element.position).toEqual({ x: 100, y: 100 });
+        expect(element.style?.line?.width).toBe(4);
+        expect((element.content as TextContent).paragraphs![0].runs[0].style?.fontSize).toBe(20);
+    });
+
+    it('should scale placeholders that take their frame from the layout, and footers added later', async () => {
+        const { editor } = await loadDeck(placeholderDeck);
+
+        editor.setSlideSize(720, 540, { scaleContent: true });
+        editor.setHeaderFooter({ footer: true, footerText: 'Footer' });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        // The layout keeps its geometry, so the scaled frames are written on the slide
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).toContain(`<a:off x="${emu(60)}" y="${emu(97.5)}"/><a:ext cx="${emu(600)}" cy="${emu(75)}"/>`);
+        expect(await readPart(zip, 'ppt/slideLayouts/slideLayout1.xml')).toContain(`<a:off x="${emu(80)}" y="${emu(40)}"/>`);
+
+        const [reparsedTitle, footer] = exported.slides[0].elements;
+        expect(reparsedTitle).toMatchObject({ position: { x: 60, y: 97.5 }, size: { width: 600, height: 75 } });
+        expect(footer).toMatchObject({ placeholder: { type: 'ftr' }, position: { x: 240, y: 442.5 }, size: { width: 240, height: 15 } });
+    });
+
+    it('should undo the scaling of inherited frames', async () => {
+        const { editor } = await loadDeck(placeholderDeck);
+
+        editor.setSlideSize(720, 540, { scaleContent: true });
+        editor.undo();
+        editor.setHeaderFooter({ footer: true, footerText: 'Footer' });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/slides/slide1.xml')).not.toContain('<a:xfrm');
+        const [title, footer] = exported.slides[0].elements;
+        expect(title.position).toEqual({ x: 80, y: 40 });
+        expect(footer.position).toEqual({ x: 320, y: 500 });
+    });
+});
@@ -0,0 +1,72 @@
+import { loadDeck, exportDeck, readPart, relationshipsXml, NAMESPACES } from '../__fixtures__/pptx';
+
+const notesXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><p:notes ${NAMESPACES}><p:cSld><p:spTree>` +
+    '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/>' +
+    '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr/><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr/></p:sp>' +
+    '<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr/><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr/>' +
+    '<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:r><a:rPr lang="en-US" b="1"/><a:t>Say hello</a:t></a:r></a:p>' +
+    '<a:p><a:r><a:rPr lang="en-US"/><a:t>Then move on</a:t></a:r></a:p></p:txBody></p:sp>' +
+    '</p:spTree></p:cSld></p:notes>';
+
+// The first slide has notes, the second has none
+const deck = {
+    slides: [
+        { relationships: [['rId1', 'notesSlide', '../notesSlides/notesSlide1.xml']] as Array<[string, string, string]> },
+        {}
+    ],
+    files: {
+        'ppt/notesSlides/notesSlide1.xml': notesXml,
+        'ppt/notesSlides/_rels/notesSlide1.xml.rels': relationshipsXml([['rId1', 'slide', '../slides/slide1.xml']])
+    }
+};
+
+describe('Speaker notes', () => {
+    it('should read the notes placeholder of a notes slide', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        expect(document.slides[0].notesPath).toBe('ppt/notesSlides/notesSlide1.xml');
+        expect(editor.getSlideNotes()).toBe('Say hello\nThen move on');
+        expect(document.slides[0].notes?.paragraphs?.[0].runs[0].style?.bold).toBe(true);
+        expect(document.slides[1].notes).toBeUndefined();
+    });
+
+    it('should export edited notes, keeping the formatting of unchanged lines', async () => {
+        const { editor } = await loadDeck(deck);
+
+        editor.updateSlideNotes('Say hello\nThen move on\nAnd take questions');
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const notes = await readPart(zip, 'ppt/notesSlides/notesSlide1.xml');
+        expect(notes).toContain('<a:rPr lang="en-US" b="1"/><a:t>Say hello</a:t>');
+        expect(notes).toContain('<a:t>And take questions</a:t>');
+        expect(notes).toContain('<p:ph type="sldImg"/>');
+        expect(exported.slides[0].notes?.text).toBe('Say hello\nThen move on\nAnd take questions');
+    });
+
+    it('should create a notes slide and a notes master for a slide without notes', async () => {
+        const { editor } = await loadDeck(deck);
+
+        editor.goToSlide(1);
+        editor.updateSlideNotes('New notes');
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const notesPath = exported.slides[1].notesPath!;
+        expect(notesPath).toMatch(/^ppt\/notesSlides\/notesSlide\d+\.xml$/);
+        expect(notesPath).not.toBe('ppt/notesSlides/notesSlide1.xml');
+        expect(await readPart(zip, `ppt/notesSlides/_rels/${notesPath.split('/').pop()}.rels`)).toContain('Target="../slides/slide2.xml"');
+        expect(await readPart(zip, 'ppt/presentation.xml')).toContain('<p:notesMasterIdLst>');
+        expect(await readPart(zip, '[Content_Types].xml')).toContain(`PartName="/${notesPath}"`);
+        expect(exported.slides[1].notes?.text).toBe('New notes');
+        expect(exported.slides[0].notes?.text).toBe('Say hello\nThen move on');
+    });
+
+    it('should undo a notes edit', async () => {
+        const { editor } = await loadDeck(deck);
+
+        editor.updateSlideNotes('Changed');
+        editor.undo();
+        const { document: exported } = await exportDeck(editor);
+
+        expect(exported.slides[0].notes?.text).toBe('Say hello\nThen move on');
+    });
+});
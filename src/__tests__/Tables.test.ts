@@ -0,0 +1,60 @@
+import { loadDeck, exportDeck, readPart, emu } from '../__fixtures__/pptx';
+import { TableContent } from '../types';
+
+const cellXml = (text: string, attributes = '') =>
+    `<a:tc${attributes}><a:txBody><a:bodyPr/><a:lstStyle/><a:p><a:r><a:rPr lang="en-US"/><a:t>${text}</a:t></a:r></a:p></a:txBody>` +
+    '<a:tcPr><a:lnL w="12700"><a:solidFill><a:srgbClr val="FF0000"/></a:solidFill></a:lnL><a:solidFill><a:srgbClr val="EEEEEE"/></a:solidFill></a:tcPr></a:tc>';
+
+// A 2x2 table whose first row is one merged cell
+const tableXml = '<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="4" name="Table 3"/><p:cNvGraphicFramePr/><p:nvPr/></p:nvGraphicFramePr>' +
+    `<p:xfrm><a:off x="${emu(10)}" y="${emu(20)}"/><a:ext cx="${emu(200)}" cy="${emu(60)}"/></p:xfrm>` +
+    '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl>' +
+    `<a:tblGrid><a:gridCol w="${emu(120)}"/><a:gridCol w="${emu(80)}"/></a:tblGrid>` +
+    `<a:tr h="${emu(30)}">${cellXml('Merged', ' gridSpan="2"')}${cellXml('', ' hMerge="1"')}</a:tr>` +
+    `<a:tr h="${emu(30)}">${cellXml('A2')}${cellXml('B2')}</a:tr>` +
+    '</a:tbl></a:graphicData></a:graphic></p:graphicFrame>';
+
+describe('Tables', () => {
+    it('should parse the grid, merges, fills and borders of a:tbl', async () => {
+        const { document } = await loadDeck({ slides: [{ shapes: tableXml }] });
+        const [table] = document.slides[0].elements;
+
+        expect(table.type).toBe('table');
+        expect(table.position).toEqual({ x: 10, y: 20 });
+
+        const content = table.content as TableContent;
+        expect(content.columns).toEqual([120, 80]);
+        expect(content.rows.map(row => row.height)).toEqual([30, 30]);
+        expect(content.rows[0].cells[0]).toMatchObject({ text: 'Merged', gridSpan: 2, fill: '#EEEEEE' });
+        expect(content.rows[0].cells[1].hMerge).toBe(true);
+        expect(content.rows[1].cells[1].borders?.left).toEqual({ color: '#FF0000', width: 1 });
+    });
+
+    it('should export an edited cell and undo it', async () => {
+        const { editor, document } = await loadDeck({ slides: [{ shapes: tableXml }] });
+        const [table] = document.slides[0].elements;
+
+        editor.updateTableCellText(table.id, 1, 1, 'Edited');
+        const edited = await exportDeck(editor);
+        const slide = await readPart(edited.zip, 'ppt/slides/slide1.xml');
+        expect(slide.match(/<a:t>[^<]+<\/a:t>/g)).toEqual(['<a:t>Merged</a:t>', '<a:t>A2</a:t>', '<a:t>Edited</a:t>']);
+        // The cell keeps its own properties
+        expect((edited.document.slides[0].elements[0].content as TableContent).rows[1].cells[1]).toMatchObject({ text: 'Edited', fill: '#EEEEEE' });
+
+        editor.undo();
+        const reverted = await exportDeck(editor);
+        expect((reverted.document.slides[0].elements[0].content as TableContent).rows[1].cells[1].text).toBe('B2');
+    });
+
+    it('should write a p:xfrm for a moved table that inherited its placement', async () => {
+        const inherited = tableXml.replace(/<p:xfrm>.*<\/p:xfrm>/, '');
+        const { editor, document } = await loadDeck({ slides: [{ shapes: inherited }] });
+
+        editor.updateElementPosition(document.slides[0].elements[0].id, 50, 60);
+        const { zip } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).toContain(`</p:nvGraphicFramePr><p:xfrm><a:off x="${emu(50)}" y="${emu(60)}"/>`);
+        expect(slide).not.toContain('<a:xfrm');
+    });
+});
@@ -0,0 +1,75 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu } from '../__fixtures__/pptx';
+import { TextContent, PPTXDocument } from '../types';
+
+const txBody = `<p:txBody><a:bodyPr lIns="${emu(10)}" tIns="0" rIns="${emu(10)}" bIns="0" anchor="b" wrap="none" numCol="2" spcCol="${emu(12)}">` +
+    '<a:normAutofit fontScale="85000" lnSpcReduction="10000"/></a:bodyPr><a:lstStyle/>' +
+    '<a:p><a:pPr><a:lnSpc><a:spcPct val="150000"/></a:lnSpc><a:spcBef><a:spcPts val="600"/></a:spcBef></a:pPr><a:r><a:rPr lang="en-US"/><a:t>Spaced</a:t></a:r></a:p>' +
+    '</p:txBody>';
+
+const deck = { slides: [{ shapes: shapeXml(2, 'TextBox 1', [0, 0, emu(300), emu(100)], { txBody }) }] };
+
+const contentOf = (document: PPTXDocument) => document.slides[0].elements[0].content as TextContent;
+
+describe('Text body properties', () => {
+    it('should parse insets, anchoring, wrapping, columns, autofit and paragraph spacing', async () => {
+        const { document } = await loadDeck(deck);
+        const content = contentOf(document);
+
+        expect(content.body).toEqual({
+            leftInset: 10, topInset: 0, rightInset: 10, bottomInset: 0,
+            anchor: 'bottom', wrap: false, columns: 2, columnSpacing: 12,
+            autofit: 'normal', fontScale: 85, lineSpacingReduction: 10
+        });
+        expect(content.paragraphs![0]).toMatchObject({ lineSpacing: { percent: 150 }, spaceBefore: { points: 6 } });
+    });
+
+    it('should export text body changes, keeping the settings that were not changed', async () => {
+        const { editor, document } = await loadDeck(deck);
+        const [element] = document.slides[0].elements;
+
+        editor.updateTextBody(element.id, { anchor: 'middle', wrap: true, columns: undefined, columnSpacing: undefined, autofit: 'shape', vertical: 'vert270' });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        const [bodyPr] = slide.match(/<a:bodyPr[^>]*>.*?<\/a:bodyPr>/) || [];
+        expect(bodyPr).toContain('anchor="ctr"');
+        expect(bodyPr).toContain('wrap="square"');
+        expect(bodyPr).toContain('vert="vert270"');
+        expect(bodyPr).toContain(`lIns="${emu(10)}"`);
+        expect(bodyPr).not.toContain('numCol');
+        expect(bodyPr).toContain('<a:spAutoFit/>');
+        expect(bodyPr).not.toContain('a:normAutofit');
+
+        expect(contentOf(exported).body).toEqual({
+            leftInset: 10, topInset: 0, rightInset: 10, bottomInset: 0,
+            anchor: 'middle', wrap: true, vertical: 'vert270', autofit: 'shape'
+        });
+    });
+
+    it('should export paragraph spacing changes', async () => {
+        const { editor, document } = await loadDeck(deck);
+        const [element] = document.slides[0].elements;
+
+        editor.setParagraphSpacing(element.id, 0, { lineSpacing: { points: 20 }, spaceBefore: null, spaceAfter: { percent: 50 } });
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).toContain('<a:lnSpc><a:spcPts val="2000"/></a:lnSpc>');
+        expect(slide).toContain('<a:spcAft><a:spcPct val="50000"/></a:spcAft>');
+        expect(slide).not.toContain('a:spcBef');
+
+        const [paragraph] = contentOf(exported).paragraphs!;
+        expect(paragraph).toMatchObject({ lineSpacing: { points: 20 }, spaceAfter: { percent: 50 } });
+        expect(paragraph.spaceBefore).toBeUndefined();
+    });
+
+    it('should undo a text body change', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.updateTextBody(document.slides[0].elements[0].id, { autofit: 'none' });
+        editor.undo();
+        const { zip } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/slides/slide1.xml')).toContain('<a:normAutofit fontScale="85000" lnSpcReduction="10000"/>');
+    });
+});
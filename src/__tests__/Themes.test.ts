@@ -0,0 +1,77 @@
+import { loadDeck, exportDeck, readPart, layoutFiles, shapeXml, emu, NAMESPACES, LAYOUT_RELATIONSHIP } from '../__fixtures__/pptx';
+import { TextContent, PPTXDocument } from '../types';
+
+const schemeColor = (name: string, value: string) => `<a:${name}><a:srgbClr val="${value}"/></a:${name}>`;
+
+const themeXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><a:theme ${NAMESPACES} name="Brand"><a:themeElements><a:clrScheme name="Brand">` +
+    '<a:dk1><a:sysClr val="windowText" lastClr="111111"/></a:dk1>' + schemeColor('lt1', 'FAFAFA') + schemeColor('dk2', '203040') + schemeColor('lt2', 'EEEEEE') +
+    schemeColor('accent1', 'FF0000') + schemeColor('accent2', '00FF00') + schemeColor('accent3', '0000FF') + schemeColor('accent4', '808080') +
+    schemeColor('accent5', '123456') + schemeColor('accent6', '654321') + schemeColor('hlink', '0000AA') + schemeColor('folHlink', 'AA00AA') +
+    '</a:clrScheme><a:fontScheme name="Brand"><a:majorFont><a:latin typeface="Montserrat"/><a:ea typeface=""/><a:cs typeface="Arial"/></a:majorFont>' +
+    '<a:minorFont><a:latin typeface="Open Sans"/><a:ea typeface="MS Mincho"/><a:cs typeface=""/></a:minorFont></a:fontScheme></a:themeElements></a:theme>';
+
+// A dark master: text (tx1) maps to the light color and the background (bg1) to the dark one
+const files = layoutFiles({
+    theme: themeXml,
+    colorMap: 'bg1="dk1" tx1="lt1" bg2="dk2" tx2="lt2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" ' +
+        'accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"'
+});
+
+const runXml = (fill: string, typeface: string) =>
+    `<a:r><a:rPr lang="en-US"><a:solidFill>${fill}</a:solidFill><a:latin typeface="${typeface}"/></a:rPr><a:t>x</a:t></a:r>`;
+
+const txBody = '<p:txBody><a:bodyPr/><a:p>' +
+    runXml('<a:schemeClr val="tx1"/>', '+mj-lt') +
+    runXml('<a:schemeClr val="accent4"><a:lumMod val="75000"/><a:lumOff val="25000"/></a:schemeClr>', '+mn-lt') +
+    runXml('<a:schemeClr val="accent3"><a:alpha val="50000"/></a:schemeClr>', '+mj-cs') +
+    runXml('<a:srgbClr val="808080"><a:tint val="50000"/></a:srgbClr>', 'Arial') +
+    runXml('<a:srgbClr val="808080"><a:shade val="50000"/></a:srgbClr>', '+mn-ea') +
+    '</a:p></p:txBody>';
+
+const filled = (id: number, fill: string) => shapeXml(id, `Shape ${id}`, [0, 0, emu(100), emu(100)], { spPr: `<a:solidFill>${fill}</a:solidFill>` });
+
+const shapes = shapeXml(2, 'TextBox 1', [0, 0, emu(100), emu(100)], { spPr: '<a:solidFill><a:schemeClr val="accent1"><a:lumMod val="50000"/></a:schemeClr></a:solidFill>', txBody }) +
+    filled(3, '<a:hslClr hue="7200000" sat="100000" lum="50000"/>') +
+    filled(4, '<a:srgbClr val="FF0000"><a:satMod val="0"/></a:srgbClr>') +
+    filled(5, '<a:srgbClr val="FF0000"><a:hueOff val="7200000"/></a:srgbClr>');
+
+const deck = { slides: [{ shapes, relationships: [LAYOUT_RELATIONSHIP] }], files };
+
+const runStyles = (document: PPTXDocument) => (document.slides[0].elements[0].content as TextContent).paragraphs![0].runs.map(run => run.style);
+
+describe('Themes', () => {
+    it('should read the color and font schemes of the master theme', async () => {
+        const { document } = await loadDeck(deck);
+
+        expect(document.theme?.colors).toMatchObject({ primary: '#111111', secondary: '#FAFAFA', accent1: '#FF0000', hyperlink: '#0000AA' });
+        expect(document.theme?.fonts).toMatchObject({ major: 'Montserrat', minor: 'Open Sans', majorComplexScript: 'Arial', minorEastAsian: 'MS Mincho' });
+    });
+
+    it('should resolve scheme colors through the master color map and apply color modifiers', async () => {
+        const { document } = await loadDeck(deck);
+        const [box, hsl, desaturated, rotated] = document.slides[0].elements;
+
+        expect(box.style?.backgroundColor).toBe('#800000');
+        expect(runStyles(document).map(style => style?.color)).toEqual(['#FAFAFA', '#A0A0A0', '#0000FF80', '#C0C0C0', '#404040']);
+        expect(hsl.style?.backgroundColor).toBe('#00FF00');
+        expect(desaturated.style?.backgroundColor).toBe('#808080');
+        expect(rotated.style?.backgroundColor).toBe('#00FF00');
+    });
+
+    it('should resolve theme font references', async () => {
+        const { document } = await loadDeck(deck);
+
+        expect(runStyles(document).map(style => style?.fontFamily)).toEqual(['Montserrat', 'Open Sans', 'Arial', 'Arial', 'MS Mincho']);
+    });
+
+    it('should keep scheme color references the editor did not change', async () => {
+        const { editor, document } = await loadDeck(deck);
+
+        editor.updateElementPosition(document.slides[0].elements[0].id, 10, 10);
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const slide = await readPart(zip, 'ppt/slides/slide1.xml');
+        expect(slide).toContain('<a:solidFill><a:schemeClr val="accent1"><a:lumMod val="50000"/></a:schemeClr></a:solidFill>');
+        expect(runStyles(exported).map(style => style?.color)).toEqual(runStyles(document).map(style => style?.color));
+    });
+});
@@ -0,0 +1,60 @@
+import { loadDeck, exportDeck, readPart, shapeXml, emu } from '../__fixtures__/pptx';
+
+const shapes = shapeXml(2, 'Arrow 1', [emu(10), emu(20), emu(100), emu(50)], { geometry: '<a:prstGeom prst="rightArrow"><a:avLst/></a:prstGeom>' })
+    .replace('<a:xfrm>', '<a:xfrm rot="5400000" flipH="1">') +
+    shapeXml(3, 'Rectangle 2', [emu(200), emu(20), emu(100), emu(50)]);
+
+const deck = { slides: [{ shapes }] };
+
+describe('Rotation and flips', () => {
+    it('should parse rot and flips from a:xfrm', async () => {
+        const { document } = await loadDeck(deck);
+        const [arrow, rectangle] = document.slides[0].elements;
+
+        expect(arrow).toMatchObject({ rotation: 90, flipH: true });
+        expect(arrow.flipV).toBeFalsy();
+        expect(rectangle.rotation).toBeFalsy();
+    });
+
+    it('should export rotations within one turn and changed flips', async () => {
+        const { editor, document } = await loadDeck(deck);
+        const [arrow, rectangle] = document.slides[0].elements;
+
+        editor.updateElementRotation(arrow.id, -45, { flipH: false, flipV: true });
+        editor.updateElementRotation(rectangle.id, 370);
+        const { zip, document: exported } = await exportDeck(editor);
+
+        const transforms = (await readPart(zip, 'ppt/slides/slide1.xml')).match(/<a:xfrm[^>]*>/g);
+        expect(transforms).toEqual(['<a:xfrm rot="18900000" flipV="1">', '<a:xfrm rot="600000">']);
+        expect(exported.slides[0].elements[0]).toMatchObject({ rotation: 315, flipV: true, position: { x: 10, y: 20 } });
+        expect(exported.slides[0].elements[1].rotation).toBe(10);
+    });
+
+    it('should undo a rotation', async () => {
+        const { editor, document } = await loadDeck(deck);
+        const [arrow] = document.slides[0].elements;
+
+        editor.updateElementRotation(arrow.id, 30, { flipH: false });
+        editor.undo();
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/slides/slide1.xml')).toContain('<a:xfrm rot="5400000" flipH="1">');
+        expect(exported.slides[0].elements[0]).toMatchObject({ rotation: 90, flipH: true });
+    });
+
+    it('should undo a move and a resize', async () => {
+        const { editor, document } = await loadDeck(deck);
+        const [arrow] = document.slides[0].elements;
+
+        editor.updateElementPosition(arrow.id, 50, 60);
+        editor.updateElementSize(arrow.id, 200, 100);
+        editor.undo();
+        expect(editor.getCurrentSlide()!.elements[0]).toMatchObject({ position: { x: 50, y: 60 }, size: { width: 100, height: 50 } });
+
+        editor.undo();
+        const { zip, document: exported } = await exportDeck(editor);
+
+        expect(await readPart(zip, 'ppt/slides/slide1.xml')).toContain(`<a:off x="${emu(10)}" y="${emu(20)}"/><a:ext cx="${emu(100)}" cy="${emu(50)}"/>`);
+        expect(exported.slides[0].elements[0]).toMatchObject({ position: { x: 10, y: 20 }, size: { width: 100, height: 50 } });
+    });
+});
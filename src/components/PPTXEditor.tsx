@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { PPTXEditor as PPTXEditorCore } from '../core/PPTXEditor';
-import { PPTXDocument, SlideElement, EditorOptions } from '../types';
+import { PPTXDocument, SlideElement, EditorOptions, LineStyle, LineEnd, ShapeEffects, ImageContent, ImageCrop, ImageRecolor, MediaContent, TextContent, TextBodyProperties, TextSpacing, HeaderFooterSettings, DocumentMetadata, CustomProperty, SlideSection } from '../types';
 import { SlideRenderer } from './SlideRenderer';
+import { formatDateField } from '../core/Fields';
+import { parseCustomPropertyValue, splitKeywords, toW3CDTF } from '../core/DocumentProperties';
 
 interface PPTXEditorProps {
     file?: File;
@@ -18,6 +20,10 @@ export const PPTXEditor: React.FC<PPTXEditorProps> = ({
     const [document, setDocument] = useState<PPTXDocument | null>(null);
     const [currentSlide, setCurrentSlide] = useState(0);
     const [selectedElement, setSelectedElement] = useState<string>('');
+    // Picture whose crop is being edited on the slide
+    const [croppingElement, setCroppingElement] = useState<string>('');
+    // Sections folded away in the slide navigator
+    const [collapsedSections, setCollapsedSections] = useState<string[]>([]);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -56,11 +62,13 @@ export const PPTXEditor: React.FC<PPTXEditorProps> = ({
             editor.goToSlide(slideNumber);
             setCurrentSlide(slideNumber);
             setSelectedElement('');
+            setCroppingElement('');
         }
     };
 
     const handleElementSelect = (elementId: string) => {
         setSelectedElement(elementId);
+        if (elementId !== croppingElement) setCroppingElement('');
         if (editor) {
             editor.selectElement(elementId);
         }
@@ -85,6 +93,9 @@ export const PPTXEditor: React.FC<PPTXEditorProps> = ({
         if (updates.size) {
             editor.updateElementSize(elementId, updates.size.width, updates.size.height);
         }
+        if (updates.rotation !== undefined || updates.flipH !== undefined || updates.flipV !== undefined) {
+            editor.updateElementRotation(elementId, updates.rotation ?? element.rotation ?? 0, { flipH: updates.flipH, flipV: updates.flipV });
+        }
         if (updates.content && 'text' in updates.content) {
             editor.updateText(elementId, updates.content.text);
         }
@@ -93,6 +104,142 @@ export const PPTXEditor: React.FC<PPTXEditorProps> = ({
         }
     };
 
+    const handleImageCrop = (elementId: string, crop: ImageCrop | null) => {
+        if (!editor) return;
+
+        editor.cropImage(elementId, crop);
+        setDocument({ ...editor.getDocument()! });
+    };
+
+    const handleImageAdjust = (elementId: string, adjustments: { transparency?: number; recolor?: ImageRecolor | null }) => {
+        if (!editor) return;
+
+        editor.updateImageAdjustments(elementId, adjustments);
+        setDocument({ ...editor.getDocument()! });
+    };
+
+    const handleTextBodyUpdate = (elementId: string, body: Partial<TextBodyProperties>) => {
+        if (!editor) return;
+
+        editor.updateTextBody(elementId, body);
+        setDocument({ ...editor.getDocument()! });
+    };
+
+    // Spacing from the properties panel applies to every paragraph of the element
+    const handleParagraphSpacing = (elementId: string, spacing: { lineSpacing?: TextSpacing | null; spaceBefore?: TextSpacing | null; spaceAfter?: TextSpacing | null }) => {
+        if (!editor) return;
+
+        const element = editor.getCurrentSlide()?.elements.find(e => e.id === elementId);
+        const paragraphs = (element?.content as TextContent | undefined)?.paragraphs;
+        if (!paragraphs) return;
+
+        const updated = paragraphs.map(paragraph => {
+            const next = { ...paragraph };
+            (['lineSpacing', 'spaceBefore', 'spaceAfter'] as const).forEach(key => {
+                const value = spacing[key];
+                if (value === undefined) return;
+                if (value) {
+                    next[key] = { ...value };
+                } else {
+                    delete next[key];
+                }
+            });
+            return next;
+        });
+        editor.updateTextParagraphs(elementId, updated, 'Changed paragraph spacing');
+        setDocument({ ...editor.getDocument()! });
+    };
+
+    const handleReplaceMedia = async (elementId: string, file: File) => {
+        if (!editor) return;
+
+        try {
+            await editor.replaceMedia(elementId, file);
+            setDocument({ ...editor.getDocument()! });
+        } catch (err) {
+            setError('Failed to replace media');
+        }
+    };
+
+    const handleMediaPlayback = (elementId: string, playback: { trimStart?: number; trimEnd?: number; loop?: boolean }) => {
+        if (!editor) return;
+
+        editor.updateMediaPlayback(elementId, playback);
+        setDocument({ ...editor.getDocument()! });
+    };
+
+    const handleRemoveMedia = (elementId: string) => {
+        if (!editor) return;
+
+        editor.removeMedia(elementId);
+        setDocument({ ...editor.getDocument()! });
+        setSelectedElement('');
+    };
+
+    const handleHeaderFooter = (settings: Partial<HeaderFooterSettings>) => {
+        if (!editor) return;
+
+        editor.setHeaderFooter(settings);
+        setDocument({ ...editor.getDocument()! });
+    };
+
+    const handleMetadataUpdate = (updates: Partial<DocumentMetadata>) => {
+        if (!editor) return;
+
+        editor.updateMetadata(updates);
+        setDocument({ ...editor.getDocument()! });
+    };
+
+    const handleCustomProperty = (name: string, value: CustomProperty['value'] | null, type?: CustomProperty['type']) => {
+        if (!editor) return;
+
+        if (value === null) {
+            editor.removeCustomProperty(name);
+        } else {
+            editor.setCustomProperty(name, value, type);
+        }
+        setDocument({ ...editor.getDocument()! });
+    };
+
+    // Section edits can reorder slides; the editor keeps the current slide current
+    const handleSectionEdit = (edit: (core: PPTXEditorCore) => void) => {
+        if (!editor) return;
+
+        edit(editor);
+        setDocument({ ...editor.getDocument()! });
+        setCurrentSlide(editor.getState().currentSlide);
+    };
+
+    const handleAddSection = () => {
+        const name = window.prompt('Section name', 'Untitled Section');
+        if (name !== null) handleSectionEdit(core => core.addSection(name));
+    };
+
+    const handleRenameSection = (section: SlideSection) => {
+        const name = window.prompt('Section name', section.name);
+        if (name !== null) handleSectionEdit(core => core.renameSection(section.id, name));
+    };
+
+    const toggleSection = (sectionId: string) => {
+        setCollapsedSections(collapsedSections.includes(sectionId)
+            ? collapsedSections.filter(id => id !== sectionId)
+            : [...collapsedSections, sectionId]);
+    };
+
+    const handleNotesChange = (text: string) => {
+        if (!editor) return;
+
+        editor.updateSlideNotes(text);
+        setDocument({ ...editor.getDocument()! });
+    };
+
+    const handleToggleHidden = (slideId: string, hidden: boolean) => {
+        if (!editor) return;
+
+        editor.setSlideHidden(slideId, hidden);
+        setDocument({ ...editor.getDocument()! });
+    };
+
     const handleElementDelete = (elementId: string) => {
         if (editor) {
             editor.deleteElement(elementId);
@@ -148,6 +295,18 @@ export const PPTXEditor: React.FC<PPTXEditorProps> = ({
         }
     };
 
+    const addLineElement = (arrow: boolean) => {
+        if (!editor || !document) return;
+
+        try {
+            const elementId = editor.addLineElement(100, 100, 300, 100, arrow ? { tailEnd: { type: 'triangle' } } : {});
+            setDocument({ ...editor.getDocument()! });
+            setSelectedElement(elementId);
+        } catch (err) {
+            setError('Failed to add line');
+        }
+    };
+
     const addImageElement = () => {
         if (!editor || !document) return;
 
@@ -173,6 +332,27 @@ export const PPTXEditor: React.FC<PPTXEditorProps> = ({
         input.click();
     };
 
+    const addMediaElement = () => {
+        if (!editor || !document) return;
+
+        const input = window.document.createElement('input');
+        input.type = 'file';
+        input.accept = 'video/*,audio/*';
+        input.onchange = async (e: any) => {
+            const target = e.target as HTMLInputElement;
+            if (target.files && target.files[0]) {
+                try {
+                    const elementId = await editor.addMediaElement(target.files[0], 100, 100, 320, 180);
+                    setDocument({ ...editor.getDocument()! });
+                    setSelectedElement(elementId);
+                } catch (err) {
+                    setError('Failed to add media element');
+                }
+            }
+        };
+        input.click();
+    };
+
     if (loading) {
         return (
             <div className="pptx-editor-loading">
@@ -226,6 +406,9 @@ export const PPTXEditor: React.FC<PPTXEditorProps> = ({
                 <div className="toolbar-center">
                     <button onClick={addTextElement}>Add Text</button>
                     <button onClick={addImageElement}>Add Image</button>
+                    <button onClick={addMediaElement}>Add Media</button>
+                    <button onClick={() => addLineElement(false)}>Add Line</button>
+                    <button onClick={() => addLineElement(true)}>Add Arrow</button>
                 </div>
 
                 <div className="toolbar-right">
@@ -239,14 +422,67 @@ export const PPTXEditor: React.FC<PPTXEditorProps> = ({
                 {/* Slide Navigator */}
                 <div className="slide-navigator">
                     <h4>Slides</h4>
+                    <button onClick={handleAddSection}>Add Section</button>
                     <div className="slide-thumbnails">
-                        {document.slides.map((slide, index) => (
-                            <div
-                                key={slide.id}
-                                className={`slide-thumbnail ${index === currentSlide ? 'active' : ''}`}
-                                onClick={() => handleSlideChange(index)}
-                            >
-                                <span>{index + 1}</span>
+                        {/* Without sections the deck is shown as one unnamed group */}
+                        {(document.sections || [{ id: '', name: '', slideIds: document.slides.map(slide => slide.id) }]).map((section, sectionIndex, sections) => (
+                            <div key={section.id || 'slides'} className="slide-section">
+                                {section.id && (
+                                    <div className="slide-section-header" onClick={() => toggleSection(section.id)}>
+                                        <span>{collapsedSections.includes(section.id) ? '\u25B8' : '\u25BE'} {section.name} ({section.slideIds.length})</span>
+                                        <button onClick={(e) => { e.stopPropagation(); handleRenameSection(section); }}>Rename</button>
+                                        <button
+                                            disabled={sectionIndex === 0}
+                                            onClick={(e) => { e.stopPropagation(); handleSectionEdit(core => core.moveSection(section.id, sectionIndex - 1)); }}
+                                        >
+                                            Up
+                                        </button>
+                                        <button
+                                            disabled={sectionIndex === sections.length - 1}
+                                            onClick={(e) => { e.stopPropagation(); handleSectionEdit(core => core.moveSection(section.id, sectionIndex + 1)); }}
+                                        >
+                                            Down
+                                        </button>
+                                        <button onClick={(e) => { e.stopPropagation(); handleSectionEdit(core => core.deleteSection(section.id)); }}>Remove</button>
+                                    </div>
+                                )}
+                                {!collapsedSections.includes(section.id) && section.slideIds.map(slideId => {
+                                    const index = document.slides.findIndex(slide => slide.id === slideId);
+                                    const slide = document.slides[index];
+                                    if (!slide) return null;
+                                    return (
+                                        <div
+                                            key={slide.id}
+                                            className={`slide-thumbnail ${index === currentSlide ? 'active' : ''} ${slide.hidden ? 'hidden-slide' : ''}`}
+                                            style={slide.hidden ? { opacity: 0.5 } : undefined}
+                                            title={slide.hidden ? 'Hidden in slide show' : undefined}
+                                            onClick={() => handleSlideChange(index)}
+                                        >
+                                            <span>{index + 1}</span>
+                                            <button
+                                                className="slide-visibility-btn"
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    handleToggleHidden(slide.id, !slide.hidden);
+                                                }}
+                                            >
+                                                {slide.hidden ? 'Show' : 'Hide'}
+                                            </button>
+                                            {section.id && sections.length > 1 && (
+                                                <select
+                                                    value={section.id}
+                                                    onClick={(e) => e.stopPropagation()}
+                                                    onChange={(e) => handleSectionEdit(core => core.moveSlideToSection(slide.id, e.target.value))}
+                                                    title="Move to section"
+                                                >
+                                                    {sections.map(target => (
+                                                        <option key={target.id} value={target.id}>{target.name}</option>
+                                                    ))}
+                                                </select>
+                                            )}
+                                        </div>
+                                    );
+                                })}
                             </div>
                         ))}
                     </div>
@@ -262,6 +498,14 @@ export const PPTXEditor: React.FC<PPTXEditorProps> = ({
                             onElementUpdate={handleElementUpdate}
                             onElementDelete={handleElementDelete}
                             scale={1}
+                            slideSize={document.slideSize}
+                            hyperlinkColor={document.theme?.colors.hyperlink}
+                            onSlideLinkClick={(slideId) => {
+                                const index = document.slides.findIndex(s => s.id === slideId);
+                                if (index !== -1) handleSlideChange(index);
+                            }}
+                            croppingElement={croppingElement}
+                            onImageCrop={handleImageCrop}
                         />
                     ) : (
                         <div style={{
@@ -276,6 +520,20 @@ export const PPTXEditor: React.FC<PPTXEditorProps> = ({
                             <p>No slide data available</p>
                         </div>
                     )}
+
+                    {/* Speaker notes; committed on blur so a whole edit undoes as one step */}
+                    {currentSlideData && (
+                        <div className="notes-pane">
+                            <label>Notes</label>
+                            <textarea
+                                key={`${currentSlideData.id}:${currentSlideData.notes?.text || ''}`}
+                                defaultValue={currentSlideData.notes?.text || ''}
+                                onBlur={(e) => handleNotesChange(e.target.value)}
+                                placeholder="Click to add notes"
+                                rows={4}
+                            />
+                        </div>
+                    )}
                 </div>
 
                 {/* Properties Panel */}
@@ -287,9 +545,28 @@ export const PPTXEditor: React.FC<PPTXEditorProps> = ({
                             <ElementProperties
                                 element={element}
                                 onUpdate={(updates) => handleElementUpdate(selectedElement, updates)}
+                                cropping={croppingElement === selectedElement}
+                                onToggleCrop={() => setCroppingElement(croppingElement === selectedElement ? '' : selectedElement)}
+                                onCrop={(crop) => handleImageCrop(selectedElement, crop)}
+                                onAdjustImage={(adjustments) => handleImageAdjust(selectedElement, adjustments)}
+                                onReplaceMedia={(file) => handleReplaceMedia(selectedElement, file)}
+                                onMediaPlayback={(playback) => handleMediaPlayback(selectedElement, playback)}
+                                onRemoveMedia={() => handleRemoveMedia(selectedElement)}
+                                onTextBodyUpdate={(body) => handleTextBodyUpdate(selectedElement, body)}
+                                onParagraphSpacing={(spacing) => handleParagraphSpacing(selectedElement, spacing)}
                             />
                         ) : null;
                     })()}
+                    {!selectedElement && document.headerFooter && (
+                        <HeaderFooterProperties settings={document.headerFooter} onChange={handleHeaderFooter} />
+                    )}
+                    {!selectedElement && (
+                        <DocumentProperties
+                            metadata={document.metadata}
+                            onChange={handleMetadataUpdate}
+                            onCustomPropertyChange={handleCustomProperty}
+                        />
+                    )}
                 </div>
             </div>
 
@@ -305,9 +582,21 @@ export const PPTXEditor: React.FC<PPTXEditorProps> = ({
 interface ElementPropertiesProps {
     element: SlideElement;
     onUpdate: (updates: Partial<SlideElement>) => void;
+    cropping?: boolean;
+    onToggleCrop?: () => void;
+    onCrop?: (crop: ImageCrop | null) => void;
+    onAdjustImage?: (adjustments: { transparency?: number; recolor?: ImageRecolor | null }) => void;
+    onReplaceMedia?: (file: File) => void;
+    onMediaPlayback?: (playback: { trimStart?: number; trimEnd?: number; loop?: boolean }) => void;
+    onRemoveMedia?: () => void;
+    onTextBodyUpdate?: (body: Partial<TextBodyProperties>) => void;
+    onParagraphSpacing?: (spacing: { lineSpacing?: TextSpacing | null; spaceBefore?: TextSpacing | null; spaceAfter?: TextSpacing | null }) => void;
 }
 
-const ElementProperties: React.FC<ElementPropertiesProps> = ({ element, onUpdate }) => {
+const ElementProperties: React.FC<ElementPropertiesProps> = ({
+    element, onUpdate, cropping, onToggleCrop, onCrop, onAdjustImage, onReplaceMedia, onMediaPlayback, onRemoveMedia,
+    onTextBodyUpdate, onParagraphSpacing
+}) => {
     const updateStyle = (styleUpdates: Partial<SlideElement['style']>) => {
         onUpdate({ style: { ...element.style, ...styleUpdates } });
     };
@@ -350,6 +639,20 @@ const ElementProperties: React.FC<ElementPropertiesProps> = ({ element, onUpdate
                 </div>
             </div>
 
+            <div className="property-group">
+                <label>Rotation</label>
+                <div className="property-inputs">
+                    <input
+                        type="number"
+                        value={element.rotation || 0}
+                        onChange={(e) => onUpdate({ rotation: parseFloat(e.target.value) || 0 })}
+                        placeholder="Degrees"
+                    />
+                    <button onClick={() => onUpdate({ flipH: !element.flipH })}>Flip H</button>
+                    <button onClick={() => onUpdate({ flipV: !element.flipV })}>Flip V</button>
+                </div>
+            </div>
+
             {element.type === 'text' && (
                 <>
                     <div className="property-group">
@@ -385,21 +688,64 @@ const ElementProperties: React.FC<ElementPropertiesProps> = ({ element, onUpdate
                 </>
             )}
 
+            {(element.type === 'text' || element.type === 'shape') && (
+                <TextLayoutProperties
+                    content={element.content as TextContent}
+                    onBodyChange={(body) => onTextBodyUpdate?.(body)}
+                    onSpacingChange={(spacing) => onParagraphSpacing?.(spacing)}
+                />
+            )}
+
             {element.type === 'shape' && (
                 <div className="property-group">
                     <label>Background Color</label>
                     <input
                         type="color"
                         value={element.style?.backgroundColor || '#ffffff'}
-                        onChange={(e) => updateStyle({ backgroundColor: e.target.value })}
+                        onChange={(e) => updateStyle({ backgroundColor: e.target.value, fill: { type: 'solid', color: e.target.value } })}
                     />
                 </div>
             )}
 
+            {(element.type === 'shape' || element.type === 'line') && (
+                <LineProperties
+                    line={element.style?.line || {}}
+                    isLine={element.type === 'line'}
+                    onChange={(line) => updateStyle({ line })}
+                />
+            )}
+
+            {element.type === 'image' && (
+                <PictureProperties
+                    content={element.content as ImageContent}
+                    cropping={!!cropping}
+                    onToggleCrop={() => onToggleCrop?.()}
+                    onCrop={(crop) => onCrop?.(crop)}
+                    onAdjust={(adjustments) => onAdjustImage?.(adjustments)}
+                />
+            )}
+
+            {element.type === 'media' && (
+                <MediaProperties
+                    content={element.content as MediaContent}
+                    onReplace={(file) => onReplaceMedia?.(file)}
+                    onPlayback={(playback) => onMediaPlayback?.(playback)}
+                    onRemove={() => onRemoveMedia?.()}
+                />
+            )}
+
+            {(element.type === 'shape' || element.type === 'image' || element.type === 'media' || element.type === 'line') && (
+                <EffectsProperties
+                    effects={element.style?.effects || {}}
+                    onChange={(effects) => updateStyle({ effects })}
+                />
+            )}
+
             <div className="property-group">
                 <label>Element Info</label>
                 <div className="element-info">
                     <div><strong>ID:</strong> {element.id}</div>
+                    {element.name && <div><strong>Name:</strong> {element.name}</div>}
                     <div><strong>Type:</strong> {element.type}</div>
                     <div><strong>Position:</strong> ({element.position.x}, {element.position.y})</div>
                     <div><strong>Size:</strong> {element.size.width} × {element.size.height}</div>
@@ -445,3 +791,625 @@ const ElementProperties: React.FC<ElementPropertiesProps> = ({ element, onUpdate
         </div>
     );
 };
+
+interface PicturePropertiesProps {
+    content: ImageContent;
+    cropping: boolean;
+    onToggleCrop: () => void;
+    onCrop: (crop: ImageCrop | null) => void;
+    onAdjust: (adjustments: { transparency?: number; recolor?: ImageRecolor | null }) => void;
+}
+
+// Crop, transparency and recoloring of a picture. Crop mode lets the edges be dragged on the slide.
+const PictureProperties: React.FC<PicturePropertiesProps> = ({ content, cropping, onToggleCrop, onCrop, onAdjust }) => {
+    const crop = content.crop || { left: 0, top: 0, right: 0, bottom: 0 };
+    const updateCrop = (key: keyof ImageCrop, percent: number) => onCrop({ ...crop, [key]: (percent || 0) / 100 });
+    const recolor = content.recolor;
+
+    return (
+        <div className="property-group">
+            <label>Picture</label>
+            <div className="property-inputs">
+                <button onClick={onToggleCrop}>{cropping ? 'Done Cropping' : 'Crop'}</button>
+                <button onClick={() => onCrop(null)} disabled={!content.crop}>Reset Crop</button>
+            </div>
+            <div className="property-inputs">
+                {(['left', 'top', 'right', 'bottom'] as Array<keyof ImageCrop>).map(key => (
+                    <input
+                        key={key}
+                        type="number"
+                        step={1}
+                        value={Math.round(crop[key] * 1000) / 10}
+                        onChange={(e) => updateCrop(key, parseFloat(e.target.value))}
+                        title={`Crop ${key} (%)`}
+                    />
+                ))}
+            </div>
+            <div className="property-inputs">
+                <label>Transparency</label>
+                <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={Math.round((content.transparency || 0) * 100)}
+                    onChange={(e) => onAdjust({ transparency: parseInt(e.target.value) / 100 })}
+                    title="Transparency (%)"
+                />
+            </div>
+            <div className="property-inputs">
+                <select
+                    value={recolor?.type || 'none'}
+                    onChange={(e) => {
+                        const type = e.target.value;
+                        onAdjust({
+                            recolor: type === 'grayscale' ? { type: 'grayscale' }
+                                : type === 'duotone' ? { type: 'duotone', dark: '#000000', light: '#4472C4' }
+                                : null
+                        });
+                    }}
+                    title="Recolor"
+                >
+                    <option value="none">No Recolor</option>
+                    <option value="grayscale">Grayscale</option>
+                    <option value="duotone">Duotone</option>
+                </select>
+                {recolor?.type === 'duotone' && (
+                    <>
+                        <input
+                            type="color"
+                            value={(recolor.dark || '#000000').substring(0, 7)}
+                            onChange={(e) => onAdjust({ recolor: { ...recolor, dark: e.target.value } })}
+                            title="Dark color"
+                        />
+                        <input
+                            type="color"
+                            value={(recolor.light || '#FFFFFF').substring(0, 7)}
+                            onChange={(e) => onAdjust({ recolor: { ...recolor, light: e.target.value } })}
+                            title="Light color"
+                        />
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+interface TextLayoutPropertiesProps {
+    content: TextContent;
+    onBodyChange: (body: Partial<TextBodyProperties>) => void;
+    onSpacingChange: (spacing: { lineSpacing?: TextSpacing | null; spaceBefore?: TextSpacing | null; spaceAfter?: TextSpacing | null }) => void;
+}
+
+// Text box settings (insets, anchoring, wrapping, direction, columns, autofit) and the spacing of
+// its paragraphs, shown as those of the first paragraph
+const TextLayoutProperties: React.FC<TextLayoutPropertiesProps> = ({ content, onBodyChange, onSpacingChange }) => {
+    const body = content.body || {};
+    const first = content.paragraphs?.[0];
+    const toNumber = (value: string) => (value === '' ? undefined : parseFloat(value));
+    const insets: Array<[keyof TextBodyProperties, string, number]> = [
+        ['leftInset', 'Left inset (pt)', 7.2],
+        ['topInset', 'Top inset (pt)', 3.6],
+        ['rightInset', 'Right inset (pt)', 7.2],
+        ['bottomInset', 'Bottom inset (pt)', 3.6]
+    ];
+
+    return (
+        <div className="property-group">
+            <label>Text Layout</label>
+            <div className="property-inputs">
+                {insets.map(([key, title, fallback]) => (
+                    <input
+                        key={key}
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        value={(body[key] as number | undefined) ?? fallback}
+                        onChange={(e) => onBodyChange({ [key]: toNumber(e.target.value) })}
+                        title={title}
+                    />
+                ))}
+            </div>
+            <div className="property-inputs">
+                <select value={body.anchor || 'top'} onChange={(e) => onBodyChange({ anchor: e.target.value as TextBodyProperties['anchor'] })} title="Vertical alignment">
+                    <option value="top">Top</option>
+                    <option value="middle">Middle</option>
+                    <option value="bottom">Bottom</option>
+                </select>
+                <select value={body.vertical || 'horz'} onChange={(e) => onBodyChange({ vertical: e.target.value === 'horz' ? undefined : e.target.value })} title="Text direction">
+                    <option value="horz">Horizontal</option>
+                    <option value="vert">Rotate 90°</option>
+                    <option value="vert270">Rotate 270°</option>
+                </select>
+                <label>
+                    <input
+                        type="checkbox"
+                        checked={body.wrap !== false}
+                        onChange={(e) => onBodyChange({ wrap: e.target.checked })}
+                    />
+                    Wrap
+                </label>
+            </div>
+            <div className="property-inputs">
+                <input
+                    type="number"
+                    min={1}
+                    max={16}
+                    value={body.columns || 1}
+                    onChange={(e) => onBodyChange({ columns: Math.max(1, parseInt(e.target.value) || 1) })}
+                    title="Columns"
+                />
+                <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={body.columnSpacing || 0}
+                    onChange={(e) => onBodyChange({ columnSpacing: toNumber(e.target.value) || undefined })}
+                    title="Column spacing (pt)"
+                />
+                <select value={body.autofit || 'none'} onChange={(e) => onBodyChange({ autofit: e.target.value as TextBodyProperties['autofit'] })} title="Autofit">
+                    <option value="none">Do not Autofit</option>
+                    <option value="normal">Shrink Text on Overflow</option>
+                    <option value="shape">Resize Shape to Fit Text</option>
+                </select>
+                {body.autofit === 'normal' && (
+                    <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={body.fontScale ?? 100}
+                        onChange={(e) => onBodyChange({ fontScale: toNumber(e.target.value) })}
+                        title="Font scale (%)"
+                    />
+                )}
+            </div>
+            <div className="property-inputs">
+                <select
+                    value={first?.lineSpacing?.percent !== undefined ? String(first.lineSpacing.percent) : ''}
+                    onChange={(e) => onSpacingChange({ lineSpacing: e.target.value ? { percent: parseFloat(e.target.value) } : null })}
+                    title="Line spacing"
+                >
+                    <option value="">Line Spacing</option>
+                    <option value="100">1.0</option>
+                    <option value="115">1.15</option>
+                    <option value="150">1.5</option>
+                    <option value="200">2.0</option>
+                    <option value="250">2.5</option>
+                    <option value="300">3.0</option>
+                </select>
+                <input
+                    type="number"
+                    min={0}
+                    value={first?.spaceBefore?.points ?? ''}
+                    onChange={(e) => onSpacingChange({ spaceBefore: e.target.value === '' ? null : { points: parseFloat(e.target.value) || 0 } })}
+                    placeholder="Before (pt)"
+                    title="Space before (pt)"
+                />
+                <input
+                    type="number"
+                    min={0}
+                    value={first?.spaceAfter?.points ?? ''}
+                    onChange={(e) => onSpacingChange({ spaceAfter: e.target.value === '' ? null : { points: parseFloat(e.target.value) || 0 } })}
+                    placeholder="After (pt)"
+                    title="Space after (pt)"
+                />
+            </div>
+        </div>
+    );
+};
+
+interface MediaPropertiesProps {
+    content: MediaContent;
+    onReplace: (file: File) => void;
+    onPlayback: (playback: { trimStart?: number; trimEnd?: number; loop?: boolean }) => void;
+    onRemove: () => void;
+}
+
+// Video or audio file, its trim points in seconds and looping
+const MediaProperties: React.FC<MediaPropertiesProps> = ({ content, onReplace, onPlayback, onRemove }) => {
+    const toSeconds = (ms?: number) => (ms ? ms / 1000 : 0);
+    // 0 clears a trim point
+    const toMilliseconds = (seconds: string) => Math.max(0, Math.round((parseFloat(seconds) || 0) * 1000));
+
+    return (
+        <div className="property-group">
+            <label>{content.mediaType === 'audio' ? 'Audio' : 'Video'}</label>
+            <div className="property-inputs">
+                <label>
+                    Replace
+                    <input
+                        type="file"
+                        accept="video/*,audio/*"
+                        onChange={(e) => {
+                            if (e.target.files && e.target.files[0]) onReplace(e.target.files[0]);
+                        }}
+                    />
+                </label>
+                <button onClick={onRemove}>Remove</button>
+            </div>
+            <div className="property-inputs">
+                <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={toSeconds(content.trimStart)}
+                    onChange={(e) => onPlayback({ trimStart: toMilliseconds(e.target.value) })}
+                    title="Trim start (s)"
+                />
+                <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={toSeconds(content.trimEnd)}
+                    onChange={(e) => onPlayback({ trimEnd: toMilliseconds(e.target.value) })}
+                    title="Trim end (s)"
+                />
+                <label>
+                    <input
+                        type="checkbox"
+                        checked={!!content.loop}
+                        onChange={(e) => onPlayback({ loop: e.target.checked })}
+                    />
+                    Loop
+                </label>
+            </div>
+        </div>
+    );
+};
+
+interface HeaderFooterPropertiesProps {
+    settings: HeaderFooterSettings;
+    onChange: (settings: Partial<HeaderFooterSettings>) => void;
+}
+
+// Header & Footer for the whole deck: date, slide number and footer text
+const HeaderFooterProperties: React.FC<HeaderFooterPropertiesProps> = ({ settings, onChange }) => {
+    const fixed = !settings.dateFormat && settings.fixedDate !== undefined;
+
+    return (
+        <div className="property-group">
+            <label>Header & Footer</label>
+            <div className="property-inputs">
+                <label>
+                    <input
+                        type="checkbox"
+                        checked={settings.dateTime}
+                        onChange={(e) => onChange({ dateTime: e.target.checked })}
+                    />
+                    Date and time
+                </label>
+                <select
+                    value={fixed ? 'fixed' : settings.dateFormat || 'datetime1'}
+                    disabled={!settings.dateTime}
+                    onChange={(e) => onChange(e.target.value === 'fixed'
+                        ? { dateFormat: undefined, fixedDate: settings.fixedDate || new Date().toLocaleDateString('en-US') }
+                        : { dateFormat: e.target.value })}
+                >
+                    {Array.from({ length: 13 }, (_, i) => `datetime${i + 1}`).map(format => (
+                        <option key={format} value={format}>{formatDateField(format, new Date())}</option>
+                    ))}
+                    <option value="fixed">Fixed</option>
+                </select>
+                {fixed && (
+                    <input
+                        type="text"
+                        key={settings.fixedDate}
+                        defaultValue={settings.fixedDate}
+                        disabled={!settings.dateTime}
+                        onBlur={(e) => onChange({ fixedDate: e.target.value })}
+                    />
+                )}
+            </div>
+            <div className="property-inputs">
+                <label>
+                    <input
+                        type="checkbox"
+                        checked={settings.slideNumber}
+                        onChange={(e) => onChange({ slideNumber: e.target.checked })}
+                    />
+                    Slide number
+                </label>
+            </div>
+            <div className="property-inputs">
+                <label>
+                    <input
+                        type="checkbox"
+                        checked={settings.footer}
+                        onChange={(e) => onChange({ footer: e.target.checked })}
+                    />
+                    Footer
+                </label>
+                <input
+                    type="text"
+                    key={settings.footerText}
+                    defaultValue={settings.footerText}
+                    disabled={!settings.footer}
+                    onBlur={(e) => onChange({ footerText: e.target.value })}
+                />
+            </div>
+            <div className="property-inputs">
+                <label>
+                    <input
+                        type="checkbox"
+                        checked={settings.hideOnTitleSlide}
+                        onChange={(e) => onChange({ hideOnTitleSlide: e.target.checked })}
+                    />
+                    Don't show on title slide
+                </label>
+            </div>
+        </div>
+    );
+};
+
+const CORE_PROPERTY_FIELDS: Array<[keyof DocumentMetadata, string]> = [
+    ['title', 'Title'],
+    ['subject', 'Subject'],
+    ['author', 'Author'],
+    ['category', 'Category'],
+    ['description', 'Comments']
+];
+
+interface DocumentPropertiesProps {
+    metadata: DocumentMetadata;
+    onChange: (updates: Partial<DocumentMetadata>) => void;
+    // A null value removes the property
+    onCustomPropertyChange: (name: string, value: CustomProperty['value'] | null, type?: CustomProperty['type']) => void;
+}
+
+// Core and custom document properties; text fields are committed on blur so each edit undoes as one step
+const DocumentProperties: React.FC<DocumentPropertiesProps> = ({ metadata, onChange, onCustomPropertyChange }) => {
+    const [newName, setNewName] = useState('');
+
+    // Date inputs take yyyy-mm-dd; a date that isn't valid shows as empty
+    const valueText = (property: CustomProperty) => {
+        if (property.type === 'date') return toW3CDTF(new Date(property.value as Date))?.slice(0, 10) || '';
+        return String(property.value);
+    };
+
+    return (
+        <div className="property-group">
+            <label>Document Properties</label>
+            {CORE_PROPERTY_FIELDS.map(([key, label]) => (
+                <div className="property-inputs" key={key}>
+                    <input
+                        type="text"
+                        key={String(metadata[key] ?? '')}
+                        defaultValue={String(metadata[key] ?? '')}
+                        onBlur={(e) => {
+                            if (e.target.value !== String(metadata[key] ?? '')) onChange({ [key]: e.target.value });
+                        }}
+                        placeholder={label}
+                        title={label}
+                    />
+                </div>
+            ))}
+            <div className="property-inputs">
+                <input
+                    type="text"
+                    key={metadata.keywords.join(', ')}
+                    defaultValue={metadata.keywords.join(', ')}
+                    onBlur={(e) => {
+                        const keywords = splitKeywords(e.target.value);
+                        if (keywords.join(', ') !== metadata.keywords.join(', ')) onChange({ keywords });
+                    }}
+                    placeholder="Keywords"
+                    title="Keywords"
+                />
+            </div>
+
+            <label>Custom</label>
+            {(metadata.customProperties || []).map(property => (
+                <div className="property-inputs" key={property.name}>
+                    <span>{property.name}</span>
+                    {property.type === 'boolean' ? (
+                        <input
+                            type="checkbox"
+                            checked={!!property.value}
+                            onChange={(e) => onCustomPropertyChange(property.name, e.target.checked, 'boolean')}
+                        />
+                    ) : (
+                        <input
+                            type={property.type === 'date' ? 'date' : property.type === 'string' ? 'text' : 'number'}
+                            key={valueText(property)}
+                            defaultValue={valueText(property)}
+                            onBlur={(e) => {
+                                // A cleared or unreadable date is ignored
+                                const value = parseCustomPropertyValue(property.type, e.target.value);
+                                if (e.target.value !== valueText(property) && value !== undefined) {
+                                    onCustomPropertyChange(property.name, value, property.type);
+                                }
+                            }}
+                        />
+                    )}
+                    <button onClick={() => onCustomPropertyChange(property.name, null)}>Remove</button>
+                </div>
+            ))}
+            <div className="property-inputs">
+                <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder="New property name"
+                />
+                <button
+                    disabled={!newName.trim() || (metadata.customProperties || []).some(property => property.name === newName.trim())}
+                    onClick={() => {
+                        onCustomPropertyChange(newName.trim(), '', 'string');
+                        setNewName('');
+                    }}
+                >
+                    Add
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const DASH_OPTIONS = ['solid', 'sysDot', 'sysDash', 'dash', 'dashDot', 'lgDash', 'lgDashDot', 'lgDashDotDot'];
+const LINE_END_OPTIONS: LineEnd['type'][] = ['none', 'triangle', 'stealth', 'arrow', 'diamond', 'oval'];
+
+interface LinePropertiesProps {
+    line: LineStyle;
+    isLine: boolean;
+    onChange: (line: LineStyle) => void;
+}
+
+// Outline of a shape, or the stroke and arrowheads of a line
+const LineProperties: React.FC<LinePropertiesProps> = ({ line, isLine, onChange }) => {
+    const update = (changes: Partial<LineStyle>) => onChange({ ...line, ...changes });
+    const updateEnd = (key: 'headEnd' | 'tailEnd', type: LineEnd['type']) =>
+        update({ [key]: type === 'none' ? undefined : { ...line[key], type } });
+
+    return (
+        <div className="property-group">
+            <label>{isLine ? 'Line' : 'Outline'}</label>
+            <div className="property-inputs">
+                <input
+                    type="color"
+                    value={line.color || '#000000'}
+                    onChange={(e) => update({ color: e.target.value, none: undefined })}
+                />
+                <input
+                    type="number"
+                    min={0}
+                    step={0.25}
+                    value={line.width ?? 0.75}
+                    onChange={(e) => update({ width: parseFloat(e.target.value) || 0 })}
+                    placeholder="Width (pt)"
+                />
+                <select value={line.dash || 'solid'} onChange={(e) => update({ dash: e.target.value })}>
+                    {DASH_OPTIONS.map(dash => <option key={dash} value={dash}>{dash}</option>)}
+                </select>
+                {!isLine && (
+                    <button onClick={() => update({ none: !line.none })}>{line.none ? 'Show' : 'No Line'}</button>
+                )}
+            </div>
+            {isLine && (
+                <div className="property-inputs">
+                    <select value={line.headEnd?.type || 'none'} onChange={(e) => updateEnd('headEnd', e.target.value as LineEnd['type'])} title="Start">
+                        {LINE_END_OPTIONS.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                    <select value={line.tailEnd?.type || 'none'} onChange={(e) => updateEnd('tailEnd', e.target.value as LineEnd['type'])} title="End">
+                        {LINE_END_OPTIONS.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Starting points for effects switched on in the panel, close to PowerPoint's presets
+const DEFAULT_EFFECTS: Required<ShapeEffects> = {
+    outerShadow: { color: '#00000066', blur: 4, distance: 3, direction: 45 },
+    innerShadow: { color: '#00000080', blur: 5, distance: 4, direction: 45 },
+    glow: { color: '#FFC00099', radius: 8 },
+    softEdge: 5,
+    reflection: { blur: 0.5, distance: 0, startOpacity: 0.5, endOpacity: 0, size: 0.35 }
+};
+
+interface EffectsPropertiesProps {
+    effects: ShapeEffects;
+    onChange: (effects: ShapeEffects) => void;
+}
+
+const EffectsProperties: React.FC<EffectsPropertiesProps> = ({ effects, onChange }) => {
+    const toggle = (key: keyof ShapeEffects) => {
+        const { [key]: current, ...rest } = effects;
+        onChange(current ? rest : { ...effects, [key]: DEFAULT_EFFECTS[key] });
+    };
+
+    return (
+        <div className="property-group">
+            <label>Effects</label>
+            <div className="property-inputs">
+                <label>
+                    <input type="checkbox" checked={!!effects.outerShadow} onChange={() => toggle('outerShadow')} />
+                    Shadow
+                </label>
+                {effects.outerShadow && (
+                    <>
+                        <input
+                            type="number"
+                            min={0}
+                            value={effects.outerShadow.distance}
+                            onChange={(e) => onChange({ ...effects, outerShadow: { ...effects.outerShadow!, distance: parseFloat(e.target.value) || 0 } })}
+                            title="Distance (pt)"
+                        />
+                        <input
+                            type="number"
+                            min={0}
+                            value={effects.outerShadow.blur}
+                            onChange={(e) => onChange({ ...effects, outerShadow: { ...effects.outerShadow!, blur: parseFloat(e.target.value) || 0 } })}
+                            title="Blur (pt)"
+                        />
+                        <input
+                            type="number"
+                            value={effects.outerShadow.direction}
+                            onChange={(e) => onChange({ ...effects, outerShadow: { ...effects.outerShadow!, direction: parseFloat(e.target.value) || 0 } })}
+                            title="Direction (degrees)"
+                        />
+                    </>
+                )}
+            </div>
+            <div className="property-inputs">
+                <label>
+                    <input type="checkbox" checked={!!effects.innerShadow} onChange={() => toggle('innerShadow')} />
+                    Inner Shadow
+                </label>
+            </div>
+            <div className="property-inputs">
+                <label>
+                    <input type="checkbox" checked={!!effects.glow} onChange={() => toggle('glow')} />
+                    Glow
+                </label>
+                {effects.glow && (
+                    <>
+                        <input
+                            type="color"
+                            value={effects.glow.color.substring(0, 7)}
+                            // Keep the glow's transparency when only its color changes
+                            onChange={(e) => onChange({ ...effects, glow: { ...effects.glow!, color: e.target.value + effects.glow!.color.substring(7) } })}
+                        />
+                        <input
+                            type="number"
+                            min={0}
+                            value={effects.glow.radius}
+                            onChange={(e) => onChange({ ...effects, glow: { ...effects.glow!, radius: parseFloat(e.target.value) || 0 } })}
+                            title="Size (pt)"
+                        />
+                    </>
+                )}
+            </div>
+            <div className="property-inputs">
+                <label>
+                    <input type="checkbox" checked={!!effects.softEdge} onChange={() => toggle('softEdge')} />
+                    Soft Edges
+                </label>
+                {!!effects.softEdge && (
+                    <input
+                        type="number"
+                        min={0}
+                        value={effects.softEdge}
+                        onChange={(e) => onChange({ ...effects, softEdge: parseFloat(e.target.value) || 0 })}
+                        title="Size (pt)"
+                    />
+                )}
+            </div>
+            <div className="property-inputs">
+                <label>
+                    <input type="checkbox" checked={!!effects.reflection} onChange={() => toggle('reflection')} />
+                    Reflection
+                </label>
+                {effects.reflection && (
+                    <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={Math.round(effects.reflection.size * 100)}
+                        onChange={(e) => onChange({ ...effects, reflection: { ...effects.reflection!, size: (parseFloat(e.target.value) || 0) / 100 } })}
+                        title="Size (%)"
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
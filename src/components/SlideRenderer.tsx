@@ -1,5 +1,669 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { PPTXSlide, SlideElement, Position } from '../types';
+import { PPTXSlide, SlideElement, Position, GroupContent, TableContent, TableBorder, ChartContent, TextContent, TextParagraph, TextRunStyle, GradientFill, SlideSize, ShapeFill, PatternFill, LineStyle, LineEnd, ShapeContent, LineContent, ShapeEffects, ShadowEffect, ReflectionEffect, ImageContent, ImageCrop, ImageRecolor, MediaContent, TextSpacing } from '../types';
+import { paragraphsFromText, bulletLabels, LEVEL_INDENT } from '../core/RichText';
+import { shapeGeometry, traceShapePath, geometryContainsPoint, pathEndAngles } from '../core/Geometry';
+import { clampCrop, croppedFrame, isCropped, uncroppedRect, NO_CROP } from '../core/Picture';
+import { resolveFields } from '../core/Fields';
+
+// 1 point = 1/72 inch, 1 inch = 96 pixels (web standard)
+const POINTS_TO_PIXELS = 96 / 72;
+
+// Slides are fitted into this editing area, in pixels at scale 1
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 450;
+
+// 16:9 at 13.333" x 7.5", for slides rendered without a document
+const DEFAULT_SLIDE_SIZE: SlideSize = { width: 960, height: 540 };
+
+// Office's default hyperlink color, for decks without a theme
+const DEFAULT_HYPERLINK_COLOR = '#0563C1';
+
+// Office default series colors, used when a chart doesn't specify its own
+const CHART_PALETTE = ['#4472C4', '#ED7D31', '#A5A5A5', '#FFC000', '#5B9BD5', '#70AD47'];
+
+const mapGroupChild = (group: SlideElement, child: SlideElement): SlideElement => {
+    const { childOffset, childExtent } = group.content as GroupContent;
+    const scaleX = childExtent.width ? group.size.width / childExtent.width : 1;
+    const scaleY = childExtent.height ? group.size.height / childExtent.height : 1;
+
+    return {
+        ...child,
+        position: {
+            x: group.position.x + (child.position.x - childOffset.x) * scaleX,
+            y: group.position.y + (child.position.y - childOffset.y) * scaleY
+        },
+        size: {
+            width: child.size.width * scaleX,
+            height: child.size.height * scaleY
+        }
+    };
+};
+
+// Outlines without a width are drawn at PowerPoint's default of 3/4 point
+const DEFAULT_LINE_WIDTH = 0.75;
+
+// How close, in points, a click has to be to a line to hit it
+const LINE_HIT_TOLERANCE = 4;
+
+// a:prstDash presets as dash/gap lengths in multiples of the line width
+const LINE_DASHES: Record<string, number[]> = {
+    solid: [],
+    dot: [1, 3],
+    dash: [4, 3],
+    lgDash: [8, 3],
+    dashDot: [4, 3, 1, 3],
+    lgDashDot: [8, 3, 1, 3],
+    lgDashDotDot: [8, 3, 1, 3, 1, 3],
+    sysDash: [3, 1],
+    sysDot: [1, 1],
+    sysDashDot: [3, 1, 1, 1],
+    sysDashDotDot: [3, 1, 1, 1, 1, 1]
+};
+
+const LINE_CAPS: Record<string, CanvasLineCap> = { flat: 'butt', rnd: 'round', sq: 'square' };
+
+// Strokes of a compound line as [offset of the center, width], in fractions of the full width.
+// Negative offsets are on the outside of a shape, or the left of a line.
+const COMPOUND_STROKES: Record<string, [number, number][]> = {
+    sng: [[0, 1]],
+    dbl: [[-1 / 3, 1 / 3], [1 / 3, 1 / 3]],
+    thickThin: [[-0.2, 0.6], [0.4, 0.2]],
+    thinThick: [[-0.4, 0.2], [0.2, 0.6]],
+    tri: [[-0.4, 0.2], [0, 0.2], [0.4, 0.2]]
+};
+
+// Arrowhead sizes in multiples of the line width
+const LINE_END_SIZES = { sm: 2, med: 3, lg: 5 };
+
+// How close, in points, a click has to be to the edge of a picture being cropped to move that edge
+const CROP_HANDLE_TOLERANCE = 6;
+
+// Link targets come from the deck, so only web and mail links are ever opened
+const OPENABLE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// The URL of an external link when it is safe to open, e.g. not javascript: or file:
+const openableUrl = (url: string): string | null => {
+    try {
+        const parsed = new URL(url);
+        return OPENABLE_LINK_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+    } catch (error) {
+        return null;
+    }
+};
+
+// Radius in pixels of the play button drawn on video and audio
+const PLAY_BUTTON_RADIUS = 18;
+
+// A slide point in the element's own frame, relative to its top-left corner: its rotation around
+// the center is undone and its flips mirror the point back
+const toElementFrame = (element: SlideElement, point: Position): Position => {
+    const x = element.position.x || 0;
+    const y = element.position.y || 0;
+    const width = element.size.width || 0;
+    const height = element.size.height || 0;
+
+    let { x: pointX, y: pointY } = point;
+    if (element.rotation) {
+        const centerX = x + width / 2;
+        const centerY = y + height / 2;
+        const angle = -element.rotation * Math.PI / 180;
+        const dx = pointX - centerX;
+        const dy = pointY - centerY;
+        pointX = centerX + dx * Math.cos(angle) - dy * Math.sin(angle);
+        pointY = centerY + dx * Math.sin(angle) + dy * Math.cos(angle);
+    }
+
+    return {
+        x: element.flipH ? x + width - pointX : pointX - x,
+        y: element.flipV ? y + height - pointY : pointY - y
+    };
+};
+
+// Hit-test in the element's own frame. Shapes and lines are hit on their actual outline.
+const containsPoint = (element: SlideElement, point: Position): boolean => {
+    const width = element.size.width || 0;
+    const height = element.size.height || 0;
+    const local = toElementFrame(element, point);
+
+    if (element.type === 'shape' || element.type === 'line') {
+        const lineWidth = element.style?.line?.width ?? DEFAULT_LINE_WIDTH;
+        const paths = shapeGeometry(element.content as ShapeContent | LineContent, width, height);
+        return geometryContainsPoint(paths, local.x, local.y, Math.max(LINE_HIT_TOLERANCE, lineWidth / 2));
+    }
+
+    return local.x >= 0 && local.x <= width && local.y >= 0 && local.y <= height;
+};
+
+// Whether a slide point is on the play button in the middle of a media element
+const isOnPlayButton = (element: SlideElement, point: Position, pixelsPerPoint: number): boolean => {
+    const local = toElementFrame(element, point);
+    const radius = Math.min(PLAY_BUTTON_RADIUS / pixelsPerPoint, element.size.width / 2, element.size.height / 2);
+    return Math.hypot(local.x - element.size.width / 2, local.y - element.size.height / 2) <= radius;
+};
+
+// The side of a picture's crop whose edge is at the given point, if any
+const cropEdgeAt = (element: SlideElement, point: Position, tolerance: number): keyof ImageCrop | null => {
+    const { width, height } = element.size;
+    const local = toElementFrame(element, point);
+    const withinX = local.x >= -tolerance && local.x <= width + tolerance;
+    const withinY = local.y >= -tolerance && local.y <= height + tolerance;
+
+    if (withinY && Math.abs(local.x) <= tolerance) return 'left';
+    if (withinY && Math.abs(local.x - width) <= tolerance) return 'right';
+    if (withinX && Math.abs(local.y) <= tolerance) return 'top';
+    if (withinX && Math.abs(local.y - height) <= tolerance) return 'bottom';
+    return null;
+};
+
+// Move one side of a picture's crop to the point, measured on the uncropped picture
+const dragCropEdge = (element: SlideElement, edge: keyof ImageCrop, point: Position): ImageCrop => {
+    const crop = (element.content as ImageContent).crop || NO_CROP;
+    const local = toElementFrame(element, point);
+    const full = uncroppedRect(0, 0, element.size.width, element.size.height, crop);
+    const fractionX = (local.x - full.x) / full.width;
+    const fractionY = (local.y - full.y) / full.height;
+
+    const value = { left: fractionX, right: 1 - fractionX, top: fractionY, bottom: 1 - fractionY }[edge];
+    return clampCrop({ ...crop, [edge]: Math.max(0, value) }, edge);
+};
+
+// Stroke an outline in a line style. traceOutline adds the path to the context, moved inwards
+// (or to the right, for lines) by the given number of pixels, so compound lines can be drawn as
+// several parallel strokes.
+const strokeLine = (
+    ctx: CanvasRenderingContext2D,
+    line: LineStyle,
+    pixelsPerPoint: number,
+    traceOutline: (offset: number) => void
+) => {
+    if (line.none || !line.color) return;
+
+    const width = (line.width ?? DEFAULT_LINE_WIDTH) * pixelsPerPoint;
+    const strokes = COMPOUND_STROKES[line.compound || 'sng'] || COMPOUND_STROKES.sng;
+    const dash = (LINE_DASHES[line.dash || 'solid'] || []).map(length => length * width);
+
+    ctx.save();
+    ctx.strokeStyle = line.color;
+    ctx.lineCap = LINE_CAPS[line.cap || 'flat'] || 'butt';
+    ctx.lineJoin = line.join || 'round';
+    ctx.setLineDash(dash);
+    strokes.forEach(([offset, fraction]) => {
+        ctx.beginPath();
+        traceOutline(offset * width);
+        ctx.lineWidth = Math.max(fraction * width, 0.5);
+        ctx.stroke();
+    });
+    ctx.restore();
+};
+
+// Draw an arrowhead with its tip at the given point, pointing along angle (radians).
+// Returns how far the line should stop short of the tip so it doesn't poke through.
+const drawLineEnd = (
+    ctx: CanvasRenderingContext2D,
+    lineEnd: LineEnd,
+    tip: Position,
+    angle: number,
+    lineWidth: number,
+    color: string
+): number => {
+    // Thin lines still get arrowheads big enough to see
+    const base = Math.max(lineWidth, 2);
+    const length = LINE_END_SIZES[lineEnd.length || 'med'] * base;
+    const halfWidth = LINE_END_SIZES[lineEnd.width || 'med'] * base / 2;
+
+    ctx.save();
+    ctx.translate(tip.x, tip.y);
+    ctx.rotate(angle);
+    ctx.fillStyle = color;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = lineWidth;
+    ctx.setLineDash([]);
+    ctx.beginPath();
+
+    let inset = 0;
+    switch (lineEnd.type) {
+        case 'triangle':
+            ctx.moveTo(0, 0);
+            ctx.lineTo(-length, -halfWidth);
+            ctx.lineTo(-length, halfWidth);
+            ctx.closePath();
+            ctx.fill();
+            inset = length;
+            break;
+        case 'stealth':
+            ctx.moveTo(0, 0);
+            ctx.lineTo(-length, -halfWidth);
+            ctx.lineTo(-length * 0.6, 0);
+            ctx.lineTo(-length, halfWidth);
+            ctx.closePath();
+            ctx.fill();
+            inset = length * 0.6;
+            break;
+        case 'diamond':
+            ctx.moveTo(length / 2, 0);
+            ctx.lineTo(0, -halfWidth);
+            ctx.lineTo(-length / 2, 0);
+            ctx.lineTo(0, halfWidth);
+            ctx.closePath();
+            ctx.fill();
+            break;
+        case 'oval':
+            ctx.ellipse(0, 0, length / 2, halfWidth, 0, 0, Math.PI * 2);
+            ctx.fill();
+            break;
+        case 'arrow':
+            // Open arrowhead, drawn with the line's own stroke
+            ctx.lineJoin = 'miter';
+            ctx.moveTo(-length, -halfWidth);
+            ctx.lineTo(0, 0);
+            ctx.lineTo(-length, halfWidth);
+            ctx.stroke();
+            inset = lineWidth / 2;
+            break;
+    }
+
+    ctx.restore();
+    return inset;
+};
+
+// Canvas gradient for a DrawingML gradient over a rectangle. Linear angles run clockwise from the x axis.
+const createGradient = (ctx: CanvasRenderingContext2D, gradient: GradientFill, x: number, y: number, width: number, height: number): CanvasGradient => {
+    const centerX = x + width / 2;
+    const centerY = y + height / 2;
+
+    let canvasGradient: CanvasGradient;
+    if (gradient.type === 'radial') {
+        canvasGradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, Math.hypot(width, height) / 2);
+    } else {
+        const angle = gradient.angle * Math.PI / 180;
+        const dx = Math.cos(angle);
+        const dy = Math.sin(angle);
+        // Half the length of the gradient line, so the end stops touch the rectangle's corners
+        const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+        canvasGradient = ctx.createLinearGradient(centerX - dx * half, centerY - dy * half, centerX + dx * half, centerY + dy * half);
+    }
+
+    gradient.stops.forEach(stop => canvasGradient.addColorStop(Math.min(1, Math.max(0, stop.position)), stop.color));
+    return canvasGradient;
+};
+
+// 8x8 ordered dither thresholds, for the percentage patterns
+const BAYER_8 = [
+    [0, 32, 8, 40, 2, 34, 10, 42], [48, 16, 56, 24, 50, 18, 58, 26],
+    [12, 44, 4, 36, 14, 46, 6, 38], [60, 28, 52, 20, 62, 30, 54, 22],
+    [3, 35, 11, 43, 1, 33, 9, 41], [51, 19, 59, 27, 49, 17, 57, 25],
+    [15, 47, 7, 39, 13, 45, 5, 37], [63, 31, 55, 23, 61, 29, 53, 21]
+];
+
+// Which pixels of an 8x8 pattern tile are drawn in the foreground color. Covers the common
+// a:pattFill presets; the rest fall back to a checkerboard.
+const patternCell = (preset: string): ((x: number, y: number) => boolean) => {
+    const percent = preset.match(/^pct(\d+)$/);
+    if (percent) {
+        const threshold = Number(percent[1]) / 100 * 64;
+        return (x, y) => BAYER_8[y][x] < threshold;
+    }
+
+    // ltHorz, dkHorz, narHorz, dashHorz etc. are variations of the same lines
+    const thickness = /^(dk|wd)/.test(preset) ? 2 : 1;
+    const base = preset.replace(/^(lt|dk|nar|wd|dash)(?=[A-Z])/, '');
+    switch (base.charAt(0).toLowerCase() + base.slice(1)) {
+        case 'horz':
+            return (_x, y) => y % 4 < thickness;
+        case 'vert':
+            return x => x % 4 < thickness;
+        case 'dnDiag':
+            return (x, y) => (x - y + 8) % 4 < thickness;
+        case 'upDiag':
+            return (x, y) => (x + y) % 4 < thickness;
+        case 'cross':
+        case 'smGrid':
+            return (x, y) => x % 4 === 0 || y % 4 === 0;
+        case 'lgGrid':
+            return (x, y) => x === 0 || y === 0;
+        case 'diagCross':
+            return (x, y) => (x + y) % 4 === 0 || (x - y + 8) % 4 === 0;
+        default:
+            return (x, y) => (x + y) % 2 === 0;
+    }
+};
+
+const createPatternFill = (ctx: CanvasRenderingContext2D, pattern: PatternFill): CanvasPattern | null => {
+    const tile = document.createElement('canvas');
+    tile.width = 8;
+    tile.height = 8;
+    const tileCtx = tile.getContext('2d');
+    if (!tileCtx) return null;
+
+    const isForeground = patternCell(pattern.preset);
+    tileCtx.fillStyle = pattern.background;
+    tileCtx.fillRect(0, 0, 8, 8);
+    tileCtx.fillStyle = pattern.foreground;
+    for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+            if (isForeground(x, y)) tileCtx.fillRect(x, y, 1, 1);
+        }
+    }
+
+    return ctx.createPattern(tile, 'repeat');
+};
+
+const createLayer = (width: number, height: number): HTMLCanvasElement => {
+    const layer = document.createElement('canvas');
+    layer.width = Math.max(1, Math.ceil(width));
+    layer.height = Math.max(1, Math.ceil(height));
+    return layer;
+};
+
+// Grayscale and duotone pictures by luminance, mapped between the dark and the light color.
+// Kept per picture, since recoloring goes pixel by pixel.
+const recoloredImages = new WeakMap<HTMLImageElement, Map<string, HTMLCanvasElement>>();
+
+const recolorImage = (image: HTMLImageElement, recolor: ImageRecolor): CanvasImageSource => {
+    const key = JSON.stringify(recolor);
+    const cache = recoloredImages.get(image) || new Map<string, HTMLCanvasElement>();
+    recoloredImages.set(image, cache);
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const layer = createLayer(image.naturalWidth, image.naturalHeight);
+    const ctx = layer.getContext('2d');
+    if (!ctx) return image;
+
+    const channels = (hex: string) => [1, 3, 5].map(offset => parseInt(hex.substring(offset, offset + 2), 16) || 0);
+    const dark = channels(recolor.type === 'duotone' && recolor.dark || '#000000');
+    const light = channels(recolor.type === 'duotone' && recolor.light || '#FFFFFF');
+
+    try {
+        ctx.drawImage(image, 0, 0);
+        const pixels = ctx.getImageData(0, 0, layer.width, layer.height);
+        const data = pixels.data;
+        for (let i = 0; i < data.length; i += 4) {
+            const luminance = (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114) / 255;
+            data[i] = dark[0] + (light[0] - dark[0]) * luminance;
+            data[i + 1] = dark[1] + (light[1] - dark[1]) * luminance;
+            data[i + 2] = dark[2] + (light[2] - dark[2]) * luminance;
+        }
+        ctx.putImageData(pixels, 0, 0);
+    } catch (error) {
+        // Pictures from other origins can't be read back
+        console.warn('SlideRenderer: Could not recolor image:', error);
+        return image;
+    }
+
+    cache.set(key, layer);
+    return layer;
+};
+
+const hasEffects = (effects: ShapeEffects | undefined): effects is ShapeEffects =>
+    !!effects && !!(effects.outerShadow || effects.innerShadow || effects.glow || effects.softEdge || effects.reflection);
+
+// Canvas shadow offsets ignore the current transform, which matches shadows that don't turn with
+// their shape (rotWithShape="0")
+const applyShadowStyle = (ctx: CanvasRenderingContext2D, shadow: ShadowEffect, pixelsPerPoint: number) => {
+    const angle = shadow.direction * Math.PI / 180;
+    ctx.shadowColor = shadow.color;
+    ctx.shadowBlur = shadow.blur * pixelsPerPoint;
+    ctx.shadowOffsetX = Math.cos(angle) * shadow.distance * pixelsPerPoint;
+    ctx.shadowOffsetY = Math.sin(angle) * shadow.distance * pixelsPerPoint;
+};
+
+// How far a layer is moved off the canvas to draw nothing but its shadow
+const SHADOW_ONLY_OFFSET = 100000;
+
+// Draw only the shadow of a layer: the layer itself goes far off the canvas and the shadow
+// offset brings its shadow back
+const drawShadow = (ctx: CanvasRenderingContext2D, layer: HTMLCanvasElement, left: number, top: number, shadow: ShadowEffect, pixelsPerPoint: number) => {
+    ctx.save();
+    const transform = ctx.getTransform();
+    applyShadowStyle(ctx, shadow, pixelsPerPoint);
+    ctx.shadowOffsetX += transform.a * SHADOW_ONLY_OFFSET;
+    ctx.shadowOffsetY += transform.b * SHADOW_ONLY_OFFSET;
+    ctx.translate(-SHADOW_ONLY_OFFSET, 0);
+    ctx.drawImage(layer, left, top);
+    ctx.restore();
+};
+
+// A glow is the layer's silhouette grown by the radius, in the glow color, with softened edges
+const drawGlow = (ctx: CanvasRenderingContext2D, layer: HTMLCanvasElement, left: number, top: number, color: string, radius: number) => {
+    const grown = createLayer(layer.width + radius * 2, layer.height + radius * 2);
+    const grownCtx = grown.getContext('2d');
+    if (!grownCtx) return;
+
+    for (let step = 0; step < 16; step++) {
+        const angle = step * Math.PI / 8;
+        grownCtx.drawImage(layer, radius + Math.cos(angle) * radius, radius + Math.sin(angle) * radius);
+    }
+    grownCtx.globalCompositeOperation = 'source-in';
+    grownCtx.fillStyle = color;
+    grownCtx.fillRect(0, 0, grown.width, grown.height);
+
+    ctx.save();
+    ctx.filter = `blur(${radius / 2}px)`;
+    ctx.drawImage(grown, left - radius, top - radius);
+    ctx.restore();
+};
+
+// Mirror the layer below the element (whose frame starts pad pixels into the layer), fading out
+const drawReflection = (
+    ctx: CanvasRenderingContext2D,
+    layer: HTMLCanvasElement,
+    left: number,
+    top: number,
+    pad: number,
+    height: number,
+    reflection: ReflectionEffect,
+    pixelsPerPoint: number
+) => {
+    const reflected = createLayer(layer.width, layer.height);
+    const reflectedCtx = reflected.getContext('2d');
+    if (!reflectedCtx || !height) return;
+
+    reflectedCtx.translate(0, layer.height);
+    reflectedCtx.scale(1, -1);
+    reflectedCtx.drawImage(layer, 0, 0);
+    reflectedCtx.setTransform(1, 0, 0, 1, 0, 0);
+
+    // After mirroring, the bottom edge of the element is at the top of its frame
+    const size = Math.min(1, Math.max(0, reflection.size));
+    const fade = reflectedCtx.createLinearGradient(0, pad, 0, pad + height);
+    fade.addColorStop(0, `rgba(0, 0, 0, ${reflection.startOpacity})`);
+    fade.addColorStop(size, `rgba(0, 0, 0, ${reflection.endOpacity})`);
+    if (size < 1) fade.addColorStop(Math.min(1, size + 0.001), 'rgba(0, 0, 0, 0)');
+    reflectedCtx.globalCompositeOperation = 'destination-in';
+    reflectedCtx.fillStyle = fade;
+    reflectedCtx.fillRect(0, 0, reflected.width, reflected.height);
+
+    ctx.save();
+    if (reflection.blur) ctx.filter = `blur(${reflection.blur * pixelsPerPoint / 2}px)`;
+    ctx.drawImage(reflected, left, top + height + reflection.distance * pixelsPerPoint);
+    ctx.restore();
+};
+
+interface TextSegment {
+    text: string;
+    font: string;
+    color: string;
+    width: number;
+    fontSize: number;
+    // Font size of the run before super/subscript reduction, used for the baseline shift
+    lineFontSize: number;
+    underline?: boolean;
+    strike?: boolean;
+    baseline?: number;
+}
+
+interface TextLine {
+    segments: TextSegment[];
+    width: number;
+    height: number;
+    ascent: number;
+    // Offset of the text from the left edge of the text box, and the width available after it
+    indent: number;
+    available: number;
+    alignment?: TextParagraph['alignment'];
+    bullet?: { text: string; font: string; color: string; x: number };
+}
+
+interface TextDefaults {
+    fontSize: number;
+    fontFamily: string;
+    bold: boolean;
+    color: string;
+    hyperlinkColor: string;
+}
+
+// a:bodyPr insets PowerPoint uses when a text body sets none, in points
+const DEFAULT_TEXT_INSETS = { left: 7.2, top: 3.6, right: 7.2, bottom: 3.6 };
+
+// Quarter turn of the text for a:bodyPr vert values that stack lines sideways
+const VERTICAL_TEXT_ANGLES: Record<string, number> = { vert: 90, eaVert: 90, wordArtVert: 90, mongolianVert: 90, vert270: -90 };
+
+// Autofit and wrapping a text body lays its lines out with
+interface TextFit {
+    wrap?: boolean;
+    fontScale?: number; // percent
+    lineSpacingReduction?: number; // percent
+}
+
+// Spacing in points, given the height of a single-spaced line
+const spacingPoints = (spacing: TextSpacing | undefined, singleLine: number): number =>
+    spacing?.points ?? (spacing?.percent !== undefined ? singleLine * spacing.percent / 100 : 0);
+
+const runFont = (runStyle: TextRunStyle, defaults: TextDefaults, fontSize: number): string => {
+    const weight = (runStyle.bold ?? defaults.bold) ? 'bold' : 'normal';
+    const fontStyle = runStyle.italic ? 'italic' : 'normal';
+    return `${fontStyle} ${weight} ${fontSize}px ${runStyle.fontFamily || defaults.fontFamily}`;
+};
+
+// Break paragraphs into wrapped lines of individually formatted segments
+const layoutParagraphs = (
+    ctx: CanvasRenderingContext2D,
+    paragraphs: TextParagraph[],
+    defaults: TextDefaults,
+    maxWidth: number,
+    fit: TextFit = {}
+): TextLine[] => {
+    const lines: TextLine[] = [];
+    const labels = bulletLabels(paragraphs);
+    // Normal autofit shrinks the text by its font scale and its line spacing by the reduction
+    const fontScale = (fit.fontScale ?? 100) / 100;
+    const spacingReduction = fit.lineSpacingReduction || 0;
+
+    paragraphs.forEach((paragraph, paragraphIndex) => {
+        const level = paragraph.level || 0;
+        const marginLeft = paragraph.marginLeft ?? level * LEVEL_INDENT;
+        const firstLineX = Math.max(0, marginLeft + (paragraph.indent || 0));
+
+        const newLine = (indent: number): TextLine => ({
+            segments: [],
+            width: 0,
+            height: 0,
+            ascent: 0,
+            indent,
+            available: Math.max(0, maxWidth - indent),
+            alignment: paragraph.alignment
+        });
+
+        let line = newLine(firstLineX);
+
+        // The bullet sits at the first-line indent; the text starts at the margin when the bullet
+        // hangs into it, or right after the bullet otherwise
+        const label = labels[paragraphIndex];
+        if (label && paragraph.bullet) {
+            const firstRunStyle = paragraph.runs.find(run => run.text !== '\n')?.style || {};
+            const textSize = (firstRunStyle.fontSize || defaults.fontSize) * fontScale;
+            const bulletSize = textSize * (paragraph.bullet.size || 100) / 100;
+            const font = runFont({ ...firstRunStyle, fontFamily: paragraph.bullet.fontFamily || firstRunStyle.fontFamily }, defaults, bulletSize);
+            ctx.font = font;
+            const bulletWidth = ctx.measureText(`${label} `).width;
+
+            const textX = marginLeft > firstLineX ? Math.max(marginLeft, firstLineX + bulletWidth) : firstLineX + bulletWidth;
+            line = newLine(textX);
+            line.bullet = {
+                text: label,
+                font,
+                color: paragraph.bullet.color || firstRunStyle.color || defaults.color,
+                x: firstLineX
+            };
+        }
+
+        let wrapped = false;
+        let firstLine = true;
+        let singleLine = 0;
+
+        const finishLine = () => {
+            // Empty lines still take up the height of the default font
+            const tallest = line.segments.reduce((max, segment) => Math.max(max, segment.lineFontSize), 0) || defaults.fontSize * fontScale;
+            singleLine = tallest * 1.2;
+            // Exact spacing keeps its height; proportional spacing is what autofit reduces
+            line.height = paragraph.lineSpacing?.points ??
+                singleLine * Math.max(0, (paragraph.lineSpacing?.percent ?? 100) - spacingReduction) / 100;
+            // Extra spacing goes above the text
+            line.ascent = tallest + line.height - singleLine;
+
+            // Space before the paragraph, except at the top of the text body
+            if (firstLine && paragraphIndex > 0) {
+                const before = spacingPoints(paragraph.spaceBefore, singleLine);
+                line.height += before;
+                line.ascent += before;
+            }
+            firstLine = false;
+            lines.push(line);
+            // Continuation lines align with the margin, under the text rather than the bullet
+            line = newLine(marginLeft);
+        };
+
+        paragraph.runs.forEach(run => {
+            if (run.text === '\n') {
+                finishLine();
+                wrapped = false;
+                return;
+            }
+
+            const runStyle = run.style || {};
+            const lineFontSize = (runStyle.fontSize || defaults.fontSize) * fontScale;
+            // Superscript and subscript runs are drawn smaller
+            const fontSize = runStyle.baseline ? lineFontSize * 2 / 3 : lineFontSize;
+            const font = runFont(runStyle, defaults, fontSize);
+            ctx.font = font;
+
+            // Keep whitespace as separate tokens so lines can break between words
+            run.text.split(/(\s+)/).filter(token => token.length > 0).forEach(token => {
+                const tokenWidth = ctx.measureText(token).width;
+                const isSpace = !token.trim();
+
+                if (fit.wrap !== false && line.width + tokenWidth > line.available && line.segments.length > 0 && !isSpace) {
+                    finishLine();
+                    wrapped = true;
+                }
+                if (isSpace && line.segments.length === 0 && wrapped) {
+                    // Don't start a wrapped line with the space it was broken at
+                    return;
+                }
+
+                line.segments.push({
+                    text: token,
+                    font,
+                    // Links are drawn in the theme's hyperlink color and underlined, as in PowerPoint
+                    color: runStyle.hyperlink ? defaults.hyperlinkColor : runStyle.color || defaults.color,
+                    width: tokenWidth,
+                    fontSize,
+                    lineFontSize,
+                    underline: runStyle.underline || !!runStyle.hyperlink,
+                    strike: runStyle.strike,
+                    baseline: runStyle.baseline
+                });
+                line.width += tokenWidth;
+            });
+        });
+
+        finishLine();
+        lines[lines.length - 1].height += spacingPoints(paragraph.spaceAfter, singleLine);
+    });
+
+    return lines;
+};
 
 interface SlideRendererProps {
     slide: PPTXSlide;
@@ -8,6 +672,13 @@ interface SlideRendererProps {
     onElementUpdate: (elementId: string, updates: Partial<SlideElement>) => void;
     onElementDelete: (elementId: string) => void;
     scale?: number;
+    slideSize?: SlideSize;
+    hyperlinkColor?: string;
+    // Called when a link to another slide is followed (Ctrl/Cmd+click)
+    onSlideLinkClick?: (slideId: string) => void;
+    // Picture in crop mode: dragging its edges crops it, and onImageCrop gets the new crop on release
+    croppingElement?: string;
+    onImageCrop?: (elementId: string, crop: ImageCrop) => void;
 }
 
 export const SlideRenderer: React.FC<SlideRendererProps> = ({
@@ -16,35 +687,45 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
     onElementSelect,
     onElementUpdate,
     onElementDelete,
-    scale = 1
+    scale = 1,
+    slideSize = DEFAULT_SLIDE_SIZE,
+    hyperlinkColor = DEFAULT_HYPERLINK_COLOR,
+    onSlideLinkClick,
+    croppingElement,
+    onImageCrop
 }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [isDragging, setIsDragging] = useState(false);
     const [dragStart, setDragStart] = useState<Position | null>(null);
     const [editingElement, setEditingElement] = useState<string | null>(null);
-    const [fitScale, setFitScale] = useState(1);
-    const [offsetX, setOffsetX] = useState(0);
-    const [offsetY, setOffsetY] = useState(0);
     const [hoveredElement, setHoveredElement] = useState<string | null>(null);
-
-    // Use standard PowerPoint slide dimensions (16:9 aspect ratio)
-    // PowerPoint default: 13.33" x 7.5" = 800 x 450 pixels (scaled down for better fit)
-    const slideWidth = 800 * scale;
-    const slideHeight = 450 * scale;
+    // Crop edge being dragged, and the crop it has made so far
+    const [cropDrag, setCropDrag] = useState<{ edge: keyof ImageCrop; crop: ImageCrop } | null>(null);
+    // Video or audio whose player is open over the slide
+    const [playingMedia, setPlayingMedia] = useState<string | null>(null);
+    // Background and fill images by data URL; the slide is redrawn once one finishes loading
+    const images = useRef<Map<string, HTMLImageElement>>(new Map());
+    const [loadedImages, setLoadedImages] = useState(0);
+
+    // Map the real slide rectangle onto the canvas, keeping its aspect ratio
+    const fitScale = Math.min(
+        CANVAS_WIDTH / (slideSize.width * POINTS_TO_PIXELS),
+        CANVAS_HEIGHT / (slideSize.height * POINTS_TO_PIXELS)
+    );
+    const pixelsPerPoint = POINTS_TO_PIXELS * scale * fitScale;
+    const slideWidth = slideSize.width * pixelsPerPoint;
+    const slideHeight = slideSize.height * pixelsPerPoint;
 
     useEffect(() => {
         console.log('SlideRenderer: useEffect triggered, slide:', slide);
         console.log('SlideRenderer: slide.elements:', slide.elements);
         renderSlide();
-    }, [slide, scale, selectedElement, hoveredElement]);
+    }, [slide, scale, slideSize, hyperlinkColor, selectedElement, hoveredElement, loadedImages, croppingElement, cropDrag, playingMedia]);
 
-    // Additional effect to re-render when fitScale changes
+    // Players don't carry over to another slide
     useEffect(() => {
-        if (fitScale !== 1) {
-            console.log('SlideRenderer: fitScale changed, re-rendering slide');
-            renderSlide();
-        }
-    }, [fitScale]);
+        setPlayingMedia(null);
+    }, [slide.id]);
 
     const renderSlide = () => {
         console.log('SlideRenderer: renderSlide called');
@@ -66,69 +747,13 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
         ctx.clearRect(0, 0, slideWidth, slideHeight);
 
         // Set background
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(0, 0, slideWidth, slideHeight);
+        renderBackground(ctx, slideWidth, slideHeight);
 
         // Add a border to make the canvas visible
         ctx.strokeStyle = '#cccccc';
         ctx.lineWidth = 1;
         ctx.strokeRect(0, 0, slideWidth, slideHeight);
 
-        // Calculate content bounds to center the slide content
-        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-        if (slide.elements && slide.elements.length > 0) {
-            slide.elements.forEach(element => {
-                if (element.position && element.size) {
-                    const POINTS_TO_PIXELS = 96 / 72;
-                    const x = (element.position.x || 0) * POINTS_TO_PIXELS;
-                    const y = (element.position.y || 0) * POINTS_TO_PIXELS;
-                    const width = (element.size.width || 0) * POINTS_TO_PIXELS;
-                    const height = (element.size.height || 0) * POINTS_TO_PIXELS;
-
-                    minX = Math.min(minX, x);
-                    minY = Math.min(minY, y);
-                    maxX = Math.max(maxX, x + width);
-                    maxY = Math.max(maxY, y + height);
-                }
-            });
-        }
-
-        // Calculate offset to center content, but ensure it fits within canvas bounds
-        const contentWidth = maxX - minX;
-        const contentHeight = maxY - minY;
-
-        // Add some padding to ensure content doesn't touch the edges
-        const padding = 20;
-        const targetWidth = slideWidth - (padding * 2);
-        const targetHeight = slideHeight - (padding * 2);
-
-        // Calculate scale to fit content within canvas bounds
-        let scaleX = 1, scaleY = 1;
-        if (contentWidth > targetWidth) {
-            scaleX = targetWidth / contentWidth;
-        }
-        if (contentHeight > targetHeight) {
-            scaleY = targetHeight / contentHeight;
-        }
-
-        // Use the smaller scale to maintain aspect ratio
-        const fitScale = Math.min(scaleX, scaleY, 1); // Don't scale up, only down if needed
-
-        // Calculate offset to center the scaled content
-        const scaledContentWidth = contentWidth * fitScale;
-        const scaledContentHeight = contentHeight * fitScale;
-        const calculatedOffsetX = (slideWidth - scaledContentWidth) / 2 - (minX * fitScale);
-        const calculatedOffsetY = (slideHeight - scaledContentHeight) / 2 - (minY * fitScale);
-
-        // Update the state variables for future renders
-        setFitScale(fitScale);
-        setOffsetX(calculatedOffsetX);
-        setOffsetY(calculatedOffsetY);
-
-        console.log('SlideRenderer: Content bounds:', { minX, minY, maxX, maxY, contentWidth, contentHeight });
-        console.log('SlideRenderer: Fit scale:', fitScale);
-        console.log('SlideRenderer: Centering offset:', { offsetX, offsetY });
-
         // Render slide elements in their z-index order
         if (slide.elements) {
             console.log('SlideRenderer: Rendering', slide.elements.length, 'elements in z-index order');
@@ -147,7 +772,7 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
                     if (element.content?.text && element.content.text.includes('[object Object]')) {
                         console.log(`SlideRenderer: Element ${index} has [object Object] text:`, element.content.text);
                     }
-                    renderElement(ctx, element, calculatedOffsetX, calculatedOffsetY, fitScale);
+                    renderElement(ctx, cropPreview(element));
                 }
             });
         } else {
@@ -155,7 +780,81 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
         }
     };
 
-    const renderElement = (ctx: CanvasRenderingContext2D, element: SlideElement, offsetX: number = 0, offsetY: number = 0, fitScale: number = 1) => {
+    // A picture whose crop is being dragged is drawn as it will be once the edge is let go
+    const cropPreview = (element: SlideElement): SlideElement => {
+        if (!cropDrag || element.id !== croppingElement) return element;
+        return {
+            ...element,
+            ...croppedFrame(element, cropDrag.crop),
+            content: { ...element.content, crop: cropDrag.crop }
+        };
+    };
+
+    // A loaded image for a data URL, or null while it is still loading
+    const getImage = (src: string): HTMLImageElement | null => {
+        let image = images.current.get(src);
+        if (!image) {
+            image = new Image();
+            image.onload = () => setLoadedImages(count => count + 1);
+            image.onerror = () => console.warn('SlideRenderer: Failed to load image');
+            image.src = src;
+            images.current.set(src, image);
+        }
+        return image.complete && image.naturalWidth > 0 ? image : null;
+    };
+
+    // Canvas paint for a shape fill over the given rectangle; null means nothing is drawn
+    const getFillStyle = (
+        ctx: CanvasRenderingContext2D,
+        fill: ShapeFill,
+        x: number,
+        y: number,
+        width: number,
+        height: number
+    ): string | CanvasGradient | CanvasPattern | null => {
+        switch (fill.type) {
+            case 'solid':
+                return fill.color || null;
+            case 'gradient':
+                return fill.gradient ? createGradient(ctx, fill.gradient, x, y, width, height) : null;
+            case 'pattern':
+                return fill.pattern ? createPatternFill(ctx, fill.pattern) : null;
+            case 'image': {
+                const image = fill.imageDataUrl ? getImage(fill.imageDataUrl) : null;
+                const pattern = image ? ctx.createPattern(image, 'no-repeat') : null;
+                // Pictures are stretched over the shape
+                pattern?.setTransform(new DOMMatrix()
+                    .translate(x, y)
+                    .scale(width / image!.naturalWidth, height / image!.naturalHeight));
+                return pattern;
+            }
+            default:
+                return null;
+        }
+    };
+
+    const renderBackground = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+        const background = slide.background;
+
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+        if (!background) return;
+
+        if (background.type === 'image') {
+            const image = getImage(background.value);
+            if (image) {
+                ctx.drawImage(image, 0, 0, width, height);
+            }
+            return;
+        }
+
+        ctx.fillStyle = background.type === 'gradient' && background.gradient
+            ? createGradient(ctx, background.gradient, 0, 0, width, height)
+            : background.value;
+        ctx.fillRect(0, 0, width, height);
+    };
+
+    const renderElement = (ctx: CanvasRenderingContext2D, element: SlideElement) => {
         console.log('SlideRenderer: renderElement called for:', element);
         if (!element || !element.position || !element.size) {
             console.log('SlideRenderer: Element missing position or size:', element);
@@ -164,18 +863,14 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
 
         const isSelected = selectedElement === element.id;
 
-        // Apply scale and convert from PPTX points to pixels
-        // 1 point = 1/72 inch, 1 inch = 96 pixels (web standard)
-        const POINTS_TO_PIXELS = 96 / 72; // Convert points to pixels
-
-        const x = (element.position.x || 0) * POINTS_TO_PIXELS * scale * fitScale + offsetX;
-        const y = (element.position.y || 0) * POINTS_TO_PIXELS * scale * fitScale + offsetY;
-        const width = (element.size.width || 0) * POINTS_TO_PIXELS * scale * fitScale;
-        const height = (element.size.height || 0) * POINTS_TO_PIXELS * scale * fitScale;
+        // Convert from PPTX points to canvas pixels
+        const x = (element.position.x || 0) * pixelsPerPoint;
+        const y = (element.position.y || 0) * pixelsPerPoint;
+        const width = (element.size.width || 0) * pixelsPerPoint;
+        const height = (element.size.height || 0) * pixelsPerPoint;
 
         console.log(`SlideRenderer: Element ${element.type} at (${x}, ${y}) size ${width}x${height}`);
         console.log(`SlideRenderer: Original coords: (${element.position.x}, ${element.position.y}) size ${element.size.width}x${element.size.height}`);
-        console.log(`SlideRenderer: Scale: ${scale}, POINTS_TO_PIXELS: ${96 / 72}`);
 
         // Set styles for selection and hover (only when needed)
         if (isSelected) {
@@ -190,6 +885,34 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
         }
         // No default borders on all elements - let the actual PPTX styling show through
 
+        const transformed = !!element.rotation || !!element.flipH || !!element.flipV;
+        if (transformed) {
+            ctx.save();
+            applyElementTransform(ctx, element, x, y, width, height);
+        }
+
+        const effects = element.style?.effects;
+        if (hasEffects(effects) && element.type !== 'group') {
+            renderWithEffects(ctx, element, effects, x, y, width, height);
+        } else {
+            renderElementBody(ctx, element, x, y, width, height);
+        }
+
+        // Draw selection border
+        if (isSelected) {
+            ctx.strokeRect(x, y, width, height);
+        }
+
+        if (element.id === croppingElement && element.type === 'image') {
+            renderCropOverlay(ctx, element, x, y, width, height);
+        }
+
+        if (transformed) {
+            ctx.restore();
+        }
+    };
+
+    const renderElementBody = (ctx: CanvasRenderingContext2D, element: SlideElement, x: number, y: number, width: number, height: number) => {
         switch (element.type) {
             case 'text':
                 renderTextElement(ctx, element, x, y, width, height);
@@ -197,18 +920,151 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
             case 'image':
                 renderImageElement(ctx, element, x, y, width, height);
                 break;
+            case 'media':
+                renderMediaElement(ctx, element, x, y, width, height);
+                break;
             case 'shape':
                 renderShapeElement(ctx, element, x, y, width, height);
                 break;
+            case 'line':
+                renderLineElement(ctx, element, x, y, width, height);
+                break;
+            case 'group':
+                renderGroupElement(ctx, element);
+                break;
+            case 'table':
+                renderTableElement(ctx, element, x, y, width, height);
+                break;
+            case 'chart':
+                renderChartElement(ctx, element, x, y, width, height);
+                break;
         }
+    };
 
-        // Draw selection border
-        if (isSelected) {
-            ctx.strokeRect(x, y, width, height);
+    // Elements with effects are drawn onto a layer first, so that shadows, glows and reflections
+    // are made from the finished picture of the element rather than from each stroke and fill
+    const renderWithEffects = (
+        ctx: CanvasRenderingContext2D,
+        element: SlideElement,
+        effects: ShapeEffects,
+        x: number,
+        y: number,
+        width: number,
+        height: number
+    ) => {
+        // Room for outlines and arrowheads that reach outside the frame
+        const lineWidth = (element.style?.line?.width ?? DEFAULT_LINE_WIDTH) * pixelsPerPoint;
+        const pad = Math.ceil(lineWidth * LINE_END_SIZES.lg + 2);
+        const layer = createLayer(width + pad * 2, height + pad * 2);
+        const layerCtx = layer.getContext('2d');
+        if (!layerCtx) {
+            renderElementBody(ctx, element, x, y, width, height);
+            return;
+        }
+
+        renderElementBody(layerCtx, element, pad, pad, width, height);
+
+        if (effects.innerShadow) {
+            // Shadow cast into the shape by a ring around its outline, kept to what is already drawn
+            layerCtx.save();
+            layerCtx.beginPath();
+            traceElementOutline(layerCtx, element, pad, pad, width, height);
+            layerCtx.clip();
+            layerCtx.globalCompositeOperation = 'source-atop';
+            applyShadowStyle(layerCtx, effects.innerShadow, pixelsPerPoint);
+            layerCtx.beginPath();
+            layerCtx.rect(-layer.width, -layer.height, layer.width * 3, layer.height * 3);
+            traceElementOutline(layerCtx, element, pad, pad, width, height);
+            layerCtx.fillStyle = '#000000';
+            layerCtx.fill('evenodd');
+            layerCtx.restore();
+        }
+
+        if (effects.softEdge) {
+            // Keep the element where a blurred, slightly shrunk copy of its outline is opaque
+            const radius = effects.softEdge * pixelsPerPoint;
+            layerCtx.save();
+            layerCtx.globalCompositeOperation = 'destination-in';
+            layerCtx.filter = `blur(${radius / 2}px)`;
+            layerCtx.beginPath();
+            traceElementOutline(layerCtx, element, pad, pad, width, height, radius / 2);
+            layerCtx.fillStyle = '#000000';
+            layerCtx.fill();
+            layerCtx.restore();
         }
+
+        const left = x - pad;
+        const top = y - pad;
+        if (effects.glow) {
+            drawGlow(ctx, layer, left, top, effects.glow.color, effects.glow.radius * pixelsPerPoint);
+        }
+        if (effects.outerShadow) {
+            drawShadow(ctx, layer, left, top, effects.outerShadow, pixelsPerPoint);
+        }
+        if (effects.reflection) {
+            drawReflection(ctx, layer, left, top, pad, height, effects.reflection, pixelsPerPoint);
+        }
+        ctx.drawImage(layer, left, top);
     };
 
-    const renderTextElement = (
+    // Add the filled outline of an element to the current path: its geometry for shapes, the frame
+    // otherwise. Insets shrink the outline towards its center.
+    const traceElementOutline = (
+        ctx: CanvasRenderingContext2D,
+        element: SlideElement,
+        x: number,
+        y: number,
+        width: number,
+        height: number,
+        inset: number = 0,
+        filled: boolean = true
+    ) => {
+        if (element.type !== 'shape') {
+            ctx.rect(x + inset, y + inset, Math.max(0, width - 2 * inset), Math.max(0, height - 2 * inset));
+            return;
+        }
+
+        const paths = shapeGeometry(element.content as ShapeContent, element.size.width, element.size.height);
+        // Text isn't mirrored with its shape (see applyElementTransform), so the outline is mirrored
+        // here; a vertical flip has already been drawn as a half turn
+        const mirror = !!element.flipH !== !!element.flipV;
+        const scaleX = width ? Math.max(0, width - 2 * inset) / width : 1;
+        const scaleY = height ? Math.max(0, height - 2 * inset) / height : 1;
+        paths.filter(path => filled ? path.filled : path.stroked).forEach(path => traceShapePath(
+            ctx,
+            path,
+            mirror ? x + width - inset : x + inset,
+            y + inset,
+            (mirror ? -pixelsPerPoint : pixelsPerPoint) * scaleX,
+            pixelsPerPoint * scaleY
+        ));
+    };
+
+    // Rotate around the element's center and mirror for flips. Text isn't mirrored, as in PowerPoint:
+    // a horizontal flip leaves it alone and a vertical flip turns it upside down.
+    const applyElementTransform = (ctx: CanvasRenderingContext2D, element: SlideElement, x: number, y: number, width: number, height: number) => {
+        const hasText = element.type === 'text' || element.type === 'shape';
+        const scaleX = element.flipH && !hasText ? -1 : 1;
+        const scaleY = element.flipV && !hasText ? -1 : 1;
+        const rotation = (element.rotation || 0) + (element.flipV && hasText ? 180 : 0);
+
+        ctx.translate(x + width / 2, y + height / 2);
+        ctx.rotate(rotation * Math.PI / 180);
+        ctx.scale(scaleX, scaleY);
+        ctx.translate(-(x + width / 2), -(y + height / 2));
+    };
+
+    const renderGroupElement = (ctx: CanvasRenderingContext2D, element: SlideElement) => {
+        const content = element.content as GroupContent;
+
+        // Children are drawn in the group's child space, mapped onto the group's current frame
+        // so that moving or resizing the group carries its children along
+        content.children.forEach(child => {
+            renderElement(ctx, mapGroupChild(element, child));
+        });
+    };
+
+    const renderTableElement = (
         ctx: CanvasRenderingContext2D,
         element: SlideElement,
         x: number,
@@ -216,91 +1072,439 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
         width: number,
         height: number
     ) => {
-        const text = element.content.text || '';
-        const style = element.style || {};
+        const table = element.content as TableContent;
+        const totalWidth = table.columns.reduce((sum, w) => sum + w, 0);
+        const totalHeight = table.rows.reduce((sum, row) => sum + row.height, 0);
+        if (!totalWidth || !totalHeight) return;
+
+        // Lay the grid out over the element frame so that resizing stretches the table
+        const columnX = [x];
+        table.columns.forEach(w => columnX.push(columnX[columnX.length - 1] + (w / totalWidth) * width));
+        const rowY = [y];
+        table.rows.forEach(row => rowY.push(rowY[rowY.length - 1] + (row.height / totalHeight) * height));
+
+        table.rows.forEach((row, rowIndex) => {
+            row.cells.forEach((cell, colIndex) => {
+                // Merged-away cells are drawn by the cell that spans them
+                if (cell.hMerge || cell.vMerge) return;
+
+                const lastCol = Math.min(colIndex + (cell.gridSpan || 1), table.columns.length);
+                const lastRow = Math.min(rowIndex + (cell.rowSpan || 1), table.rows.length);
+                const cellX = columnX[colIndex];
+                const cellY = rowY[rowIndex];
+                const cellWidth = columnX[lastCol] - cellX;
+                const cellHeight = rowY[lastRow] - cellY;
+
+                if (cell.fill) {
+                    ctx.fillStyle = cell.fill;
+                    ctx.fillRect(cellX, cellY, cellWidth, cellHeight);
+                }
 
-        // Use actual text color from PPTX, fallback to black only if absolutely necessary
-        const textColor = style.color || '#000000';
-        ctx.fillStyle = textColor;
+                const borders = cell.borders || {};
+                const edges: Array<[TableBorder | undefined, number, number, number, number]> = [
+                    [borders.top, cellX, cellY, cellX + cellWidth, cellY],
+                    [borders.bottom, cellX, cellY + cellHeight, cellX + cellWidth, cellY + cellHeight],
+                    [borders.left, cellX, cellY, cellX, cellY + cellHeight],
+                    [borders.right, cellX + cellWidth, cellY, cellX + cellWidth, cellY + cellHeight]
+                ];
+                edges.forEach(([border, x1, y1, x2, y2]) => {
+                    if (!border) return;
+                    ctx.save();
+                    ctx.strokeStyle = border.color || '#000000';
+                    ctx.lineWidth = border.width * pixelsPerPoint;
+                    ctx.setLineDash([]);
+                    ctx.beginPath();
+                    ctx.moveTo(x1, y1);
+                    ctx.lineTo(x2, y2);
+                    ctx.stroke();
+                    ctx.restore();
+                });
 
-        // Debug: Log the color being used
-        console.log(`SlideRenderer: Text color for "${text}":`, {
-            originalColor: style.color,
-            appliedColor: textColor,
-            fallbackUsed: !style.color
+                if (cell.text) {
+                    const cellElement: SlideElement = {
+                        ...element,
+                        type: 'text',
+                        content: { text: cell.text, paragraphs: cell.paragraphs },
+                        style: cell.style
+                    };
+                    renderTextElement(ctx, cellElement, cellX, cellY, cellWidth, cellHeight);
+                }
+            });
         });
+    };
 
-        // Use actual font properties from PPTX
-        const fontSize = style.fontSize || 14;
-        const fontFamily = style.fontFamily || 'Arial';
-        const fontWeight = style.fontWeight || 'normal';
-        ctx.font = `${fontWeight} ${fontSize}px ${fontFamily}`;
+    const renderChartElement = (
+        ctx: CanvasRenderingContext2D,
+        element: SlideElement,
+        x: number,
+        y: number,
+        width: number,
+        height: number
+    ) => {
+        const chart = element.content as ChartContent;
+        const fontSize = Math.max(8, Math.min(12, height / 25));
 
-        // Use actual text alignment from PPTX instead of hardcoded center
-        const alignment = style.alignment || 'left';
-        ctx.textAlign = alignment;
-        ctx.textBaseline = 'top'; // Use top baseline for more accurate positioning
+        ctx.save();
+        ctx.setLineDash([]);
+        ctx.font = `${fontSize}px Arial`;
+        ctx.textBaseline = 'middle';
 
-        console.log(`SlideRenderer: Rendering text "${text}" with color ${textColor}, alignment ${alignment}, font ${fontWeight} ${fontSize}px ${fontFamily} at (${x}, ${y})`);
+        let top = y + 8;
+        if (chart.title) {
+            ctx.fillStyle = '#404040';
+            ctx.font = `bold ${fontSize * 1.3}px Arial`;
+            ctx.textAlign = 'center';
+            ctx.fillText(chart.title, x + width / 2, top + fontSize);
+            ctx.font = `${fontSize}px Arial`;
+            top += fontSize * 2.5;
+        }
 
-        // Calculate text position based on alignment
-        let textX: number;
-        let textY: number;
+        // Legend along the bottom: slices for pies, series otherwise
+        const legendItems = chart.chartType === 'pie'
+            ? chart.categories.map((name, i) => ({ name, color: chart.series[0]?.pointColors?.[i] || CHART_PALETTE[i % CHART_PALETTE.length] }))
+            : chart.series.map((series, i) => ({ name: series.name, color: series.color || CHART_PALETTE[i % CHART_PALETTE.length] }));
+        const legendY = y + height - fontSize * 1.5;
+        const legendWidth = legendItems.reduce((sum, item) => sum + ctx.measureText(item.name).width + fontSize * 2.5, 0);
+        let legendX = x + Math.max(0, (width - legendWidth) / 2);
+        ctx.textAlign = 'left';
+        legendItems.forEach(item => {
+            ctx.fillStyle = item.color;
+            ctx.fillRect(legendX, legendY - fontSize / 3, fontSize * 0.7, fontSize * 0.7);
+            ctx.fillStyle = '#595959';
+            ctx.fillText(item.name, legendX + fontSize, legendY);
+            legendX += ctx.measureText(item.name).width + fontSize * 2.5;
+        });
 
-        switch (alignment) {
-            case 'left':
-                textX = x + 5; // Small left margin
-                break;
-            case 'center':
-                textX = x + width / 2;
-                break;
-            case 'right':
-                textX = x + width - 5; // Small right margin
-                break;
-            default:
-                textX = x + 5;
+        const plotBottom = legendY - fontSize * 1.5;
+
+        if (chart.chartType === 'pie') {
+            const values = chart.series[0]?.values || [];
+            const total = values.reduce((sum: number, v) => sum + Math.abs(v ?? 0), 0);
+            const radius = Math.max(0, Math.min(width - 16, plotBottom - top) / 2);
+            const centerX = x + width / 2;
+            const centerY = top + (plotBottom - top) / 2;
+            let angle = -Math.PI / 2;
+
+            values.forEach((value, i) => {
+                if (!total || value === null) return;
+                const sweep = (Math.abs(value) / total) * Math.PI * 2;
+                ctx.beginPath();
+                ctx.moveTo(centerX, centerY);
+                ctx.arc(centerX, centerY, radius, angle, angle + sweep);
+                ctx.closePath();
+                ctx.fillStyle = chart.series[0].pointColors?.[i] || CHART_PALETTE[i % CHART_PALETTE.length];
+                ctx.fill();
+                ctx.strokeStyle = '#ffffff';
+                ctx.lineWidth = 1;
+                ctx.stroke();
+                angle += sweep;
+            });
+
+            ctx.restore();
+            return;
+        }
+
+        const horizontal = chart.chartType === 'bar' && chart.barDirection === 'bar';
+        const stacked = chart.grouping === 'stacked' || chart.grouping === 'percentStacked';
+        const pointCount = Math.max(chart.categories.length, ...chart.series.map(s => s.values.length), 1);
+
+        // Stacked and percent-stacked bars plot cumulative values, each starting where the series below ended.
+        // Missing points (null) are gaps: they aren't drawn, and add nothing to the stack.
+        const plotted = chart.series.map(series => series.values.slice());
+        const bases = chart.series.map(series => series.values.map(() => 0));
+        if (stacked && chart.chartType !== 'scatter') {
+            for (let i = 0; i < pointCount; i++) {
+                const total = chart.series.reduce((sum, s) => sum + Math.abs(s.values[i] || 0), 0) || 1;
+                const scale = (value: number) => chart.grouping === 'percentStacked' ? (value / total) * 100 : value;
+                let running = 0;
+                plotted.forEach((values, s) => {
+                    const value = chart.series[s].values[i];
+                    bases[s][i] = scale(running);
+                    running += value || 0;
+                    values[i] = value === null || value === undefined ? null : scale(running);
+                });
+            }
         }
 
-        // Start text from top with small top margin
-        textY = y + 5;
+        const allValues = plotted.flat().filter((value): value is number => value !== null && value !== undefined);
+        const minValue = Math.min(0, ...allValues);
+        const maxValue = Math.max(0, ...allValues) || 1;
+        const range = maxValue - minValue || 1;
 
-        // Handle text wrapping for multi-line text
-        const lines = text.split('\n');
-        const lineHeight = fontSize * 1.2;
+        const labelWidth = ctx.measureText(String(Math.round(maxValue))).width + 8;
+        const plotLeft = x + labelWidth + 4;
+        const plotRight = x + width - 8;
+        const plotTop = top;
+        const plotHeight = Math.max(0, plotBottom - fontSize * 1.5 - plotTop);
+        const plotWidth = Math.max(0, plotRight - plotLeft);
 
-        // Calculate total text height and center vertically if there's space
-        const totalTextHeight = lines.length * lineHeight;
-        if (totalTextHeight < height - 10) { // If text is shorter than container
-            textY = y + (height - totalTextHeight) / 2; // Center vertically
+        // Value axis gridlines
+        ctx.strokeStyle = '#d9d9d9';
+        ctx.lineWidth = 1;
+        ctx.fillStyle = '#595959';
+        for (let step = 0; step <= 4; step++) {
+            const value = minValue + (range * step) / 4;
+            ctx.beginPath();
+            if (horizontal) {
+                const gx = plotLeft + (plotWidth * step) / 4;
+                ctx.moveTo(gx, plotTop);
+                ctx.lineTo(gx, plotTop + plotHeight);
+                ctx.textAlign = 'center';
+                ctx.fillText(String(Math.round(value * 100) / 100), gx, plotTop + plotHeight + fontSize);
+            } else {
+                const gy = plotTop + plotHeight - (plotHeight * step) / 4;
+                ctx.moveTo(plotLeft, gy);
+                ctx.lineTo(plotRight, gy);
+                ctx.textAlign = 'right';
+                ctx.fillText(String(Math.round(value * 100) / 100), plotLeft - 4, gy);
+            }
+            ctx.stroke();
         }
 
-        lines.forEach((line: string, index: number) => {
-            const lineY = textY + index * lineHeight;
+        const valueToY = (value: number) => plotTop + plotHeight - ((value - minValue) / range) * plotHeight;
+        const valueToX = (value: number) => plotLeft + ((value - minValue) / range) * plotWidth;
+        const slot = (horizontal ? plotHeight : plotWidth) / pointCount;
+
+        // Category labels
+        if (chart.chartType !== 'scatter') {
+            chart.categories.forEach((category, i) => {
+                if (horizontal) {
+                    ctx.textAlign = 'right';
+                    ctx.fillText(category, plotLeft - 4, plotTop + slot * (i + 0.5));
+                } else {
+                    ctx.textAlign = 'center';
+                    ctx.fillText(category, plotLeft + slot * (i + 0.5), plotTop + plotHeight + fontSize);
+                }
+            });
+        }
 
-            // Handle long lines by wrapping
-            if (ctx.measureText(line).width > width * 0.9) {
-                // Simple word wrapping
-                const words = line.split(' ');
-                let currentLine = '';
-                let currentY = lineY;
+        plotted.forEach((values, s) => {
+            const color = chart.series[s].color || CHART_PALETTE[s % CHART_PALETTE.length];
+            ctx.fillStyle = color;
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 2;
 
-                words.forEach((word: string) => {
-                    const testLine = currentLine + word + ' ';
-                    if (ctx.measureText(testLine).width > width * 0.9 && currentLine) {
-                        ctx.fillText(currentLine.trim(), textX, currentY);
-                        currentLine = word + ' ';
-                        currentY += lineHeight;
+            if (chart.chartType === 'bar') {
+                const barCount = stacked ? 1 : plotted.length;
+                const barSize = (slot * 0.7) / barCount;
+                values.forEach((value, i) => {
+                    if (value === null) return;
+                    const base = bases[s][i];
+                    const offset = slot * (i + 0.15) + (stacked ? 0 : barSize * s);
+                    if (horizontal) {
+                        const x1 = valueToX(Math.min(base, value));
+                        ctx.fillRect(x1, plotTop + offset, Math.abs(valueToX(value) - valueToX(base)), barSize);
                     } else {
-                        currentLine = testLine;
+                        const y1 = valueToY(Math.max(base, value));
+                        ctx.fillRect(plotLeft + offset, y1, barSize, Math.abs(valueToY(base) - valueToY(value)));
                     }
                 });
+                return;
+            }
 
-                if (currentLine.trim()) {
-                    ctx.fillText(currentLine.trim(), textX, currentY);
+            // Scatter series are placed by their own X values, everything else by category slot
+            const xValues = chart.chartType === 'scatter' ? chart.series[s].xValues : undefined;
+            const knownX = xValues?.filter((value): value is number => value !== null) || [];
+            const xMin = knownX.length > 0 ? Math.min(...knownX) : 0;
+            const xRange = knownX.length > 0 ? (Math.max(...knownX) - xMin) || 1 : 1;
+            // Points without a value (or a scatter point without an X value) are left out
+            const points = values.map((value, i) => {
+                const xValue = xValues ? xValues[i] : undefined;
+                if (value === null || xValue === null) return null;
+                return {
+                    index: i,
+                    px: xValue !== undefined
+                        ? plotLeft + (plotWidth * (xValue - xMin)) / xRange
+                        : plotLeft + slot * (i + 0.5),
+                    py: valueToY(value)
+                };
+            });
+            const drawn = points.filter((point): point is NonNullable<typeof point> => point !== null);
+
+            if (chart.chartType === 'area') {
+                if (drawn.length === 0) return;
+                ctx.globalAlpha = 0.8;
+                ctx.beginPath();
+                drawn.forEach((point, i) => (i === 0 ? ctx.moveTo(point.px, point.py) : ctx.lineTo(point.px, point.py)));
+                for (let i = drawn.length - 1; i >= 0; i--) {
+                    ctx.lineTo(drawn[i].px, valueToY(bases[s][drawn[i].index]));
+                }
+                ctx.closePath();
+                ctx.fill();
+                ctx.globalAlpha = 1;
+                return;
+            }
+
+            // Lines break at gaps rather than bridging them
+            if (chart.chartType === 'line') {
+                ctx.beginPath();
+                points.forEach((point, i) => {
+                    if (!point) return;
+                    if (i === 0 || !points[i - 1]) {
+                        ctx.moveTo(point.px, point.py);
+                    } else {
+                        ctx.lineTo(point.px, point.py);
+                    }
+                });
+                ctx.stroke();
+            }
+
+            drawn.forEach(point => {
+                ctx.beginPath();
+                ctx.arc(point.px, point.py, 3, 0, Math.PI * 2);
+                ctx.fill();
+            });
+        });
+
+        // Axes
+        ctx.strokeStyle = '#bfbfbf';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(plotLeft, plotTop);
+        ctx.lineTo(plotLeft, plotTop + plotHeight);
+        ctx.lineTo(plotRight, plotTop + plotHeight);
+        ctx.stroke();
+
+        ctx.restore();
+    };
+
+    const renderTextElement = (
+        ctx: CanvasRenderingContext2D,
+        element: SlideElement,
+        frameX: number,
+        frameY: number,
+        frameWidth: number,
+        frameHeight: number
+    ) => {
+        // Lay text out in slide points so font sizes keep their proportion to the slide
+        ctx.save();
+        ctx.translate(frameX, frameY);
+        ctx.scale(pixelsPerPoint, pixelsPerPoint);
+
+        const content = element.content as Partial<TextContent>;
+        const body = content.body || {};
+
+        // The text box is the frame less the body's insets
+        let x = body.leftInset ?? DEFAULT_TEXT_INSETS.left;
+        let y = body.topInset ?? DEFAULT_TEXT_INSETS.top;
+        let width = Math.max(0, frameWidth / pixelsPerPoint - x - (body.rightInset ?? DEFAULT_TEXT_INSETS.right));
+        let height = Math.max(0, frameHeight / pixelsPerPoint - y - (body.bottomInset ?? DEFAULT_TEXT_INSETS.bottom));
+
+        // Vertical text is laid out in the box turned a quarter, its lines running down the shape
+        const verticalAngle = VERTICAL_TEXT_ANGLES[body.vertical || ''];
+        if (verticalAngle) {
+            ctx.translate(x + width / 2, y + height / 2);
+            ctx.rotate(verticalAngle * Math.PI / 180);
+            [width, height] = [height, width];
+            x = -width / 2;
+            y = -height / 2;
+        }
+
+        const style = element.style || {};
+        // Slide numbers and dates show their current value rather than the one last saved
+        const paragraphs = resolveFields(content.paragraphs || paragraphsFromText(content.text || ''), { slideNumber: slide.slideNumber });
+
+        // Element style supplies the defaults that runs don't override
+        const defaults = {
+            fontSize: style.fontSize || 14,
+            fontFamily: style.fontFamily || 'Arial',
+            bold: style.fontWeight === 'bold',
+            color: style.color || '#000000',
+            hyperlinkColor
+        };
+
+        const columnCount = Math.max(1, body.columns || 1);
+        const columnSpacing = columnCount > 1 ? body.columnSpacing || 0 : 0;
+        const columnWidth = Math.max(0, (width - columnSpacing * (columnCount - 1)) / columnCount);
+        const lines = layoutParagraphs(ctx, paragraphs, defaults, columnWidth, {
+            wrap: body.wrap,
+            fontScale: body.autofit === 'normal' ? body.fontScale : undefined,
+            lineSpacingReduction: body.autofit === 'normal' ? body.lineSpacingReduction : undefined
+        });
+
+        // Columns fill up one after another; the last one takes whatever is left
+        const columns: TextLine[][] = [[]];
+        let columnHeight = 0;
+        lines.forEach(line => {
+            if (columnHeight + line.height > height && columns[columns.length - 1].length > 0 && columns.length < columnCount) {
+                columns.push([]);
+                columnHeight = 0;
+            }
+            columns[columns.length - 1].push(line);
+            columnHeight += line.height;
+        });
+        const totalTextHeight = Math.max(...columns.map(column => column.reduce((sum, line) => sum + line.height, 0)));
+
+        // Anchoring places the text in the box; overflowing text spills out past the far side, or
+        // both sides when centered, as in PowerPoint
+        const anchorTop = body.anchor === 'bottom' ? y + height - totalTextHeight
+            : body.anchor === 'middle' ? y + (height - totalTextHeight) / 2
+            : y;
+
+        ctx.save();
+        ctx.setLineDash([]);
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'alphabetic';
+
+        columns.forEach((column, columnIndex) => column.reduce((lineTop, line) => {
+            const columnLeft = x + columnIndex * (columnWidth + columnSpacing);
+            drawTextLine(ctx, line, line.alignment || style.alignment || 'left', columnLeft, lineTop);
+            return lineTop + line.height;
+        }, anchorTop));
+
+        ctx.restore();
+        ctx.restore();
+    };
+
+    // One laid-out line of text, its box starting at `left` and its top at `lineTop`
+    const drawTextLine = (ctx: CanvasRenderingContext2D, line: TextLine, alignment: string, left: number, lineTop: number) => {
+        const lineLeft = left + line.indent;
+        let segmentX: number;
+        switch (alignment) {
+            case 'center':
+                segmentX = lineLeft + (line.available - line.width) / 2;
+                break;
+            case 'right':
+                segmentX = lineLeft + line.available - line.width;
+                break;
+            default:
+                segmentX = lineLeft;
+        }
+
+        // Place the baseline so that the tallest run on the line fits above it
+        const baselineY = lineTop + line.ascent;
+
+        if (line.bullet) {
+            ctx.font = line.bullet.font;
+            ctx.fillStyle = line.bullet.color;
+            ctx.fillText(line.bullet.text, left + line.bullet.x, baselineY);
+        }
+
+        line.segments.forEach(segment => {
+            const shift = segment.baseline ? -(segment.baseline / 100) * segment.lineFontSize : 0;
+            ctx.font = segment.font;
+            ctx.fillStyle = segment.color;
+            ctx.fillText(segment.text, segmentX, baselineY + shift);
+
+            if (segment.underline || segment.strike) {
+                ctx.strokeStyle = segment.color;
+                ctx.lineWidth = Math.max(1, segment.fontSize / 15);
+                if (segment.underline) {
+                    ctx.beginPath();
+                    ctx.moveTo(segmentX, baselineY + shift + 2);
+                    ctx.lineTo(segmentX + segment.width, baselineY + shift + 2);
+                    ctx.stroke();
+                }
+                if (segment.strike) {
+                    const strikeY = baselineY + shift - segment.fontSize * 0.3;
+                    ctx.beginPath();
+                    ctx.moveTo(segmentX, strikeY);
+                    ctx.lineTo(segmentX + segment.width, strikeY);
+                    ctx.stroke();
                 }
-            } else {
-                ctx.fillText(line, textX, lineY);
             }
+
+            segmentX += segment.width;
         });
     };
 
@@ -320,20 +1524,27 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
         const imageId = (element.content as any).imageId;
 
         if (imageDataUrl) {
-            // We have actual image data! Load and render it
-            console.log('SlideRenderer: Loading actual image from data URL');
-            const img = new Image();
-            img.onload = () => {
-                // Clear the area first
-                ctx.clearRect(x, y, width, height);
-                // Draw the actual image
-                ctx.drawImage(img, x, y, width, height);
-            };
-            img.onerror = () => {
-                console.warn('SlideRenderer: Failed to load image from data URL');
-                drawImagePlaceholder(ctx, x, y, width, height, imageId || 'Unknown');
-            };
-            img.src = imageDataUrl;
+            // Drawn from the image cache, so the picture lands inside the element's transform and
+            // effects; the slide is redrawn once it has loaded
+            const image = getImage(imageDataUrl);
+            if (image) {
+                const { crop, transparency, recolor } = element.content as ImageContent;
+                // The whole picture is laid out around the frame and cut to it
+                const full = uncroppedRect(x, y, width, height, crop);
+                ctx.save();
+                if (isCropped(crop)) {
+                    ctx.beginPath();
+                    ctx.rect(x, y, width, height);
+                    ctx.clip();
+                }
+                if (transparency) {
+                    ctx.globalAlpha *= 1 - transparency;
+                }
+                ctx.drawImage(recolor ? recolorImage(image, recolor) : image, full.x, full.y, full.width, full.height);
+                ctx.restore();
+            } else {
+                drawImagePlaceholder(ctx, x, y, width, height, `Loading: ${imageId || 'Unknown'}`);
+            }
             return;
         }
 
@@ -348,6 +1559,96 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
         drawImagePlaceholder(ctx, x, y, width, height, `Loading: ${imageId || 'Unknown'}`);
     };
 
+    // Video and audio show their poster frame, or a dark panel when they have none, with a play button
+    const renderMediaElement = (
+        ctx: CanvasRenderingContext2D,
+        element: SlideElement,
+        x: number,
+        y: number,
+        width: number,
+        height: number
+    ) => {
+        const content = element.content as MediaContent;
+        if (content.imageDataUrl) {
+            renderImageElement(ctx, element, x, y, width, height);
+        } else {
+            ctx.fillStyle = '#202020';
+            ctx.fillRect(x, y, width, height);
+            ctx.fillStyle = '#bbbbbb';
+            ctx.font = '12px Arial';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'top';
+            ctx.fillText(content.mediaType === 'audio' ? 'Audio' : 'Video', x + width / 2, y + 6);
+        }
+
+        if (element.id === playingMedia) return;
+
+        const radius = Math.min(PLAY_BUTTON_RADIUS, width / 2, height / 2);
+        const centerX = x + width / 2;
+        const centerY = y + height / 2;
+        ctx.save();
+        ctx.setLineDash([]);
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = '#ffffff';
+        ctx.beginPath();
+        ctx.moveTo(centerX - radius * 0.35, centerY - radius * 0.5);
+        ctx.lineTo(centerX + radius * 0.55, centerY);
+        ctx.lineTo(centerX - radius * 0.35, centerY + radius * 0.5);
+        ctx.closePath();
+        ctx.fill();
+        ctx.restore();
+    };
+
+    // The cropped-away part of a picture in crop mode, faded, with bars on the edges that can be dragged
+    const renderCropOverlay = (
+        ctx: CanvasRenderingContext2D,
+        element: SlideElement,
+        x: number,
+        y: number,
+        width: number,
+        height: number
+    ) => {
+        const { imageDataUrl, crop } = element.content as ImageContent;
+        const image = imageDataUrl ? getImage(imageDataUrl) : null;
+        const full = uncroppedRect(x, y, width, height, crop);
+
+        ctx.save();
+        ctx.setLineDash([]);
+        if (image && isCropped(crop)) {
+            ctx.beginPath();
+            ctx.rect(full.x, full.y, full.width, full.height);
+            ctx.rect(x, y, width, height);
+            ctx.clip('evenodd');
+            ctx.globalAlpha = 0.35;
+            ctx.drawImage(image, full.x, full.y, full.width, full.height);
+            ctx.globalAlpha = 1;
+            ctx.strokeStyle = 'rgba(0, 0, 0, 0.5)';
+            ctx.lineWidth = 1;
+            ctx.strokeRect(full.x, full.y, full.width, full.height);
+        }
+        ctx.restore();
+
+        ctx.save();
+        ctx.setLineDash([]);
+        ctx.strokeStyle = '#000000';
+        ctx.lineWidth = 4;
+        const bar = Math.min(20, width / 3, height / 3);
+        ctx.beginPath();
+        ctx.moveTo(x + width / 2 - bar / 2, y);
+        ctx.lineTo(x + width / 2 + bar / 2, y);
+        ctx.moveTo(x + width / 2 - bar / 2, y + height);
+        ctx.lineTo(x + width / 2 + bar / 2, y + height);
+        ctx.moveTo(x, y + height / 2 - bar / 2);
+        ctx.lineTo(x, y + height / 2 + bar / 2);
+        ctx.moveTo(x + width, y + height / 2 - bar / 2);
+        ctx.lineTo(x + width, y + height / 2 + bar / 2);
+        ctx.stroke();
+        ctx.restore();
+    };
+
     const drawImagePlaceholder = (
         ctx: CanvasRenderingContext2D,
         x: number,
@@ -384,20 +1685,24 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
         console.log('SlideRenderer: Shape style:', style);
         console.log('SlideRenderer: Shape content:', element.content);
 
-        // Only render background if it has a color from PPTX
-        if (style.backgroundColor) {
-            ctx.fillStyle = style.backgroundColor;
-            ctx.fillRect(x, y, width, height);
+        const tracePaths = (filled: boolean, inset: number = 0) =>
+            traceElementOutline(ctx, element, x, y, width, height, inset, filled);
+
+        // Only render a fill the PPTX specifies - without one the shape stays transparent
+        const fill: ShapeFill | undefined = style.fill || (style.backgroundColor ? { type: 'solid', color: style.backgroundColor } : undefined);
+        const fillStyle = fill ? getFillStyle(ctx, fill, x, y, width, height) : null;
+        if (fillStyle) {
+            ctx.fillStyle = fillStyle;
+            ctx.beginPath();
+            tracePaths(true);
+            ctx.fill();
         }
-        // No hardcoded fallback colors - let it be transparent if no color specified
 
-        // Only render border if it has properties from PPTX
-        if (style.borderColor && style.borderWidth) {
-            ctx.strokeStyle = style.borderColor;
-            ctx.lineWidth = style.borderWidth;
-            ctx.strokeRect(x, y, width, height);
+        // Only render an outline the PPTX specifies - there are no hardcoded fallback borders
+        const line: LineStyle | undefined = style.line || (style.borderColor ? { color: style.borderColor, width: style.borderWidth } : undefined);
+        if (line) {
+            strokeLine(ctx, line, pixelsPerPoint, inset => tracePaths(false, inset));
         }
-        // No hardcoded fallback borders
 
         // Text content - render text INSIDE the shape
         if (element.content.text && element.content.text.trim()) {
@@ -408,33 +1713,114 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
 
 
 
-    const handleMouseDown = (e: React.MouseEvent) => {
+    // Lines run from the top-left to the bottom-right corner of their frame; flips are
+    // already applied by the element transform. Elbow and curved connectors follow their preset.
+    const renderLineElement = (
+        ctx: CanvasRenderingContext2D,
+        element: SlideElement,
+        x: number,
+        y: number,
+        width: number,
+        height: number
+    ) => {
+        const line: LineStyle = element.style?.line || { color: element.style?.borderColor || '#000000', width: element.style?.borderWidth };
+        if (line.none || !line.color) return;
+
+        const lineWidth = (line.width ?? DEFAULT_LINE_WIDTH) * pixelsPerPoint;
+        const [path] = shapeGeometry(element.content as LineContent, element.size.width, element.size.height);
+        const straight = !path || path.segments.length === 2;
+        const angles = straight ? null : pathEndAngles(path);
+        const angle = angles ? angles.end : Math.atan2(height, width);
+        const length = Math.hypot(width, height);
+
+        // Arrowheads first, so the line can stop where they begin
+        const headInset = line.headEnd && line.headEnd.type !== 'none'
+            ? drawLineEnd(ctx, line.headEnd, { x, y }, angles ? angles.start : angle + Math.PI, lineWidth, line.color)
+            : 0;
+        const tailInset = line.tailEnd && line.tailEnd.type !== 'none'
+            ? drawLineEnd(ctx, line.tailEnd, { x: x + width, y: y + height }, angle, lineWidth, line.color)
+            : 0;
+
+        if (!straight) {
+            strokeLine(ctx, line, pixelsPerPoint, () => traceShapePath(ctx, path, x, y, pixelsPerPoint));
+            return;
+        }
+        if (headInset + tailInset >= length) return;
+
+        const cos = length ? width / length : 1;
+        const sin = length ? height / length : 0;
+        strokeLine(ctx, line, pixelsPerPoint, offset => {
+            // Offsets move the line along its normal
+            const normalX = -sin * offset;
+            const normalY = cos * offset;
+            ctx.moveTo(x + cos * headInset + normalX, y + sin * headInset + normalY);
+            ctx.lineTo(x + width - cos * tailInset + normalX, y + height - sin * tailInset + normalY);
+        });
+    };
+
+    // Tooltip for a linked shape under the mouse
+    const hoveredLinkTitle = (): string | undefined => {
+        const link = slide.elements.find(e => e.id === hoveredElement)?.hyperlink;
+        if (!link) return undefined;
+
+        const target = link.tooltip || link.url || (link.slideId ? 'Another slide' : link.action);
+        return `${target}\nCtrl+click to follow link`;
+    };
+
+    // Convert mouse coordinates to PPTX points on the slide
+    const toSlidePoint = (e: React.MouseEvent): Position | null => {
         const rect = canvasRef.current?.getBoundingClientRect();
-        if (!rect) return;
+        if (!rect) return null;
 
-        // Convert mouse coordinates to canvas coordinates
-        const mouseX = e.clientX - rect.left;
-        const mouseY = e.clientY - rect.top;
+        return {
+            x: (e.clientX - rect.left) / pixelsPerPoint,
+            y: (e.clientY - rect.top) / pixelsPerPoint
+        };
+    };
 
-        // Convert canvas coordinates back to PPTX coordinates
-        const POINTS_TO_PIXELS = 96 / 72;
-        const pptxX = (mouseX - offsetX) / (POINTS_TO_PIXELS * fitScale);
-        const pptxY = (mouseY - offsetY) / (POINTS_TO_PIXELS * fitScale);
+    const handleMouseDown = (e: React.MouseEvent) => {
+        const point = toSlidePoint(e);
+        if (!point) return;
+        const { x: pptxX, y: pptxY } = point;
+
+        // In crop mode, the edges of the picture move its crop
+        const cropping = slide.elements.find(element => element.id === croppingElement);
+        if (cropping?.type === 'image') {
+            const edge = cropEdgeAt(cropping, point, CROP_HANDLE_TOLERANCE);
+            if (edge) {
+                setCropDrag({ edge, crop: (cropping.content as ImageContent).crop || NO_CROP });
+                return;
+            }
+        }
 
         // Find clicked element using PPTX coordinates
-        const clickedElement = slide.elements.find(element => {
-            const elementX = element.position.x || 0;
-            const elementY = element.position.y || 0;
-            const elementWidth = element.size.width || 0;
-            const elementHeight = element.size.height || 0;
-
-            return (
-                pptxX >= elementX &&
-                pptxX <= elementX + elementWidth &&
-                pptxY >= elementY &&
-                pptxY <= elementY + elementHeight
-            );
-        });
+        const clickedElement = slide.elements.find(element => containsPoint(element, point));
+
+        // Ctrl/Cmd+click follows a shape's link instead of selecting it, like in PowerPoint
+        const link = clickedElement?.hyperlink;
+        if (link && (e.ctrlKey || e.metaKey)) {
+            if (link.url) {
+                const url = openableUrl(link.url);
+                if (url) {
+                    window.open(url, '_blank', 'noopener');
+                } else {
+                    console.warn('SlideRenderer: Not opening link with unsupported protocol:', link.url);
+                }
+            } else if (link.slideId) {
+                onSlideLinkClick?.(link.slideId);
+            }
+            return;
+        }
+
+        // The play button opens the media's player instead of starting a drag
+        const source = clickedElement?.type === 'media'
+            ? (clickedElement.content as MediaContent).mediaDataUrl || (clickedElement.content as MediaContent).mediaUrl
+            : undefined;
+        if (clickedElement && source && isOnPlayButton(clickedElement, point, pixelsPerPoint)) {
+            onElementSelect(clickedElement.id);
+            setPlayingMedia(clickedElement.id);
+            return;
+        }
 
         if (clickedElement) {
             console.log('SlideRenderer: Element clicked:', clickedElement.id, 'at PPTX coords:', { pptxX, pptxY });
@@ -449,46 +1835,24 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
 
     const handleMouseMove = (e: React.MouseEvent) => {
         // Handle dragging if we're in drag mode
-        if (isDragging && dragStart && selectedElement) {
-            const rect = canvasRef.current?.getBoundingClientRect();
-            if (!rect) return;
+        const point = toSlidePoint(e);
+        if (!point) return;
 
-            const x = (e.clientX - rect.left) / scale - dragStart.x;
-            const y = (e.clientY - rect.top) / scale - dragStart.y;
+        const cropping = slide.elements.find(element => element.id === croppingElement);
+        if (cropDrag && cropping) {
+            setCropDrag({ ...cropDrag, crop: dragCropEdge(cropping, cropDrag.edge, point) });
+            return;
+        }
 
+        if (isDragging && dragStart && selectedElement) {
             onElementUpdate(selectedElement, {
-                position: { x, y }
+                position: { x: point.x - dragStart.x, y: point.y - dragStart.y }
             });
             return;
         }
 
-        // Handle hover detection
-        const rect = canvasRef.current?.getBoundingClientRect();
-        if (!rect) return;
-
-        // Convert mouse coordinates to canvas coordinates
-        const mouseX = e.clientX - rect.left;
-        const mouseY = e.clientY - rect.top;
-
-        // Convert canvas coordinates back to PPTX coordinates
-        const POINTS_TO_PIXELS = 96 / 72;
-        const pptxX = (mouseX - offsetX) / (POINTS_TO_PIXELS * fitScale);
-        const pptxY = (mouseY - offsetY) / (POINTS_TO_PIXELS * fitScale);
-
-        // Find hovered element using PPTX coordinates
-        const hoveredElement = slide.elements.find(element => {
-            const elementX = element.position.x || 0;
-            const elementY = element.position.y || 0;
-            const elementWidth = element.size.width || 0;
-            const elementHeight = element.size.height || 0;
-
-            return (
-                pptxX >= elementX &&
-                pptxX <= elementX + elementWidth &&
-                pptxY >= elementY &&
-                pptxY <= elementY + elementHeight
-            );
-        });
+        // Handle hover detection, in PPTX coordinates
+        const hoveredElement = slide.elements.find(element => containsPoint(element, point));
 
         if (hoveredElement) {
             setHoveredElement(hoveredElement.id);
@@ -498,6 +1862,10 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
     };
 
     const handleMouseUp = () => {
+        if (cropDrag && croppingElement) {
+            onImageCrop?.(croppingElement, cropDrag.crop);
+            setCropDrag(null);
+        }
         setIsDragging(false);
         setDragStart(null);
     };
@@ -517,8 +1885,68 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
         }
     };
 
+    // Player over a media element's frame: videos fill it, audio controls sit along its bottom edge.
+    // Playback starts and stops at the media's trim points.
+    const renderMediaPlayer = () => {
+        const element = slide.elements.find(e => e.id === playingMedia);
+        if (!element) return null;
+
+        const content = element.content as MediaContent;
+        const start = (content.trimStart || 0) / 1000;
+        const end = content.trimEnd ? content.trimEnd / 1000 : undefined;
+        const isAudio = content.mediaType === 'audio';
+        const width = element.size.width * pixelsPerPoint;
+        const height = element.size.height * pixelsPerPoint;
+        const playerHeight = isAudio ? Math.min(height, 40) : height;
+
+        const handleTimeUpdate = (e: React.SyntheticEvent<HTMLMediaElement>) => {
+            const player = e.currentTarget;
+            if (end === undefined || player.currentTime < end) return;
+            if (content.loop) {
+                player.currentTime = start;
+            } else {
+                player.pause();
+            }
+        };
+        const props = {
+            src: content.mediaDataUrl || content.mediaUrl,
+            controls: true,
+            autoPlay: true,
+            loop: !!content.loop && end === undefined,
+            onLoadedMetadata: (e: React.SyntheticEvent<HTMLMediaElement>) => { e.currentTarget.currentTime = start; },
+            onTimeUpdate: handleTimeUpdate,
+            style: { width: '100%', height: '100%', display: 'block', background: isAudio ? 'transparent' : '#000000' }
+        };
+
+        return (
+            <div
+                className="media-player"
+                style={{
+                    position: 'absolute',
+                    // The canvas border is 1px wide
+                    left: 1 + element.position.x * pixelsPerPoint,
+                    top: 1 + element.position.y * pixelsPerPoint + height - playerHeight,
+                    width,
+                    height: playerHeight,
+                    transform: element.rotation ? `rotate(${element.rotation}deg)` : undefined,
+                    transformOrigin: `50% ${height / 2 - (height - playerHeight)}px`,
+                    zIndex: 10
+                }}
+            >
+                {isAudio ? <audio {...props} /> : <video {...props} />}
+                <button
+                    onClick={() => setPlayingMedia(null)}
+                    title="Close player"
+                    style={{ position: 'absolute', top: 2, right: 2 }}
+                >
+                    ×
+                </button>
+            </div>
+        );
+    };
+
     return (
-        <div className="slide-renderer">
+        <div className="slide-renderer" style={{ position: 'relative' }}>
             <canvas
                 ref={canvasRef}
                 width={slideWidth}
@@ -530,12 +1958,15 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
                 onDoubleClick={handleDoubleClick}
                 onKeyDown={handleKeyDown}
                 tabIndex={0}
+                title={hoveredLinkTitle()}
                 style={{
                     border: '1px solid #ccc',
                     cursor: isDragging ? 'grabbing' : (hoveredElement ? 'pointer' : 'default')
                 }}
             />
 
+            {renderMediaPlayer()}
+
             {editingElement && (() => {
                 const element = slide.elements.find(e => e.id === editingElement);
                 if (!element) return null;
@@ -544,7 +1975,7 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
                     <TextEditor
                         element={element}
                         onSave={(text) => {
-                            onElementUpdate(editingElement, { content: { text } });
+                            onElementUpdate(editingElement, { content: { ...element.content, text } });
                             setEditingElement(null);
                         }}
                         onCancel={() => setEditingElement(null)}
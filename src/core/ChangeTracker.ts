@@ -15,11 +15,9 @@ export class ChangeTracker {
         slideId: string,
         previousState: any,
         newState: any,
-        description: string
+        description: string,
+        property?: string
     ): void {
-        // Remove any changes after the current index (for redo functionality)
-        this.changes = this.changes.slice(0, this.currentIndex + 1);
-
         const change: ChangeRecord = {
             id: this.generateChangeId(),
             timestamp: new Date(),
@@ -30,6 +28,32 @@ export class ChangeTracker {
             newState,
             description
         };
+        if (property) {
+            change.property = property;
+        }
+
+        this.pushChange(change);
+    }
+
+    // Record several changes that undo and redo together, e.g. every element touched by a slide resize
+    recordChangeGroup(changes: Array<Omit<ChangeRecord, 'id' | 'timestamp'>>, description: string): void {
+        const timestamp = new Date();
+        const group: ChangeRecord = {
+            id: this.generateChangeId(),
+            timestamp,
+            type: 'update',
+            elementId: '',
+            slideId: '',
+            description,
+            changes: changes.map(change => ({ ...change, id: this.generateChangeId(), timestamp }))
+        };
+
+        this.pushChange(group);
+    }
+
+    private pushChange(change: ChangeRecord): void {
+        // Remove any changes after the current index (for redo functionality)
+        this.changes = this.changes.slice(0, this.currentIndex + 1);
 
         this.changes.push(change);
         this.currentIndex++;
@@ -112,6 +136,16 @@ export class ChangeTracker {
 
     // Helper method to apply a change to a document
     applyChange(document: PPTXDocument, change: ChangeRecord): void {
+        if (change.changes) {
+            change.changes.forEach(child => this.applyChange(document, child));
+            return;
+        }
+
+        if (change.property) {
+            this.setProperty(document, change, change.newState);
+            return;
+        }
+
         const slide = document.slides.find(s => s.id === change.slideId);
         if (!slide) return;
 
@@ -144,6 +178,16 @@ export class ChangeTracker {
 
     // Helper method to revert a change in a document
     revertChange(document: PPTXDocument, change: ChangeRecord): void {
+        if (change.changes) {
+            [...change.changes].reverse().forEach(child => this.revertChange(document, child));
+            return;
+        }
+
+        if (change.property) {
+            this.setProperty(document, change, change.previousState);
+            return;
+        }
+
         const slide = document.slides.find(s => s.id === change.slideId);
         if (!slide) return;
 
@@ -175,6 +219,26 @@ export class ChangeTracker {
         }
     }
 
+    // Slide and document properties are restored from a copy, so the record stays untouched
+    private setProperty(document: PPTXDocument, change: ChangeRecord, state: any): void {
+        // The slide order is recorded as slide ids; the slides themselves are only rearranged
+        if (change.property === 'slideOrder' && !change.slideId) {
+            const order: string[] = state || [];
+            document.slides.sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
+            document.slides.forEach((slide, index) => slide.slideNumber = index + 1);
+            return;
+        }
+
+        const target: any = change.slideId ? document.slides.find(s => s.id === change.slideId) : document;
+        if (!target || !change.property) return;
+
+        if (state === undefined) {
+            delete target[change.property];
+        } else {
+            target[change.property] = structuredClone(state);
+        }
+    }
+
     // Get a summary of changes
     getChangeSummary(): {
         totalChanges: number;
@@ -0,0 +1,79 @@
+import { CustomProperty } from '../types';
+
+// Custom property values by their vt: element. Types not listed here (vectors, blobs, ...) aren't
+// loaded, and are left in custom.xml as they are.
+const VALUE_TYPES: { [tagName: string]: CustomProperty['type'] } = {
+    'vt:lpwstr': 'string',
+    'vt:lpstr': 'string',
+    'vt:bstr': 'string',
+    'vt:i1': 'integer',
+    'vt:i2': 'integer',
+    'vt:i4': 'integer',
+    'vt:i8': 'integer',
+    'vt:int': 'integer',
+    'vt:ui1': 'integer',
+    'vt:ui2': 'integer',
+    'vt:ui4': 'integer',
+    'vt:ui8': 'integer',
+    'vt:uint': 'integer',
+    'vt:r4': 'number',
+    'vt:r8': 'number',
+    'vt:decimal': 'number',
+    'vt:bool': 'boolean',
+    'vt:filetime': 'date',
+    'vt:date': 'date'
+};
+
+// What each type is written as
+export const CUSTOM_PROPERTY_TAGS: { [type in CustomProperty['type']]: string } = {
+    string: 'vt:lpwstr',
+    integer: 'vt:i4',
+    number: 'vt:r8',
+    boolean: 'vt:bool',
+    date: 'vt:filetime'
+};
+
+export const customPropertyType = (tagName: string): CustomProperty['type'] | undefined => VALUE_TYPES[tagName];
+
+// Dates as core.xml and custom.xml store them, in UTC to the second; undefined for an invalid date
+export const toW3CDTF = (date: Date): string | undefined =>
+    isNaN(date.getTime()) ? undefined : date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+// The value of a custom property read from its vt: element or typed in, or undefined for a date
+// that can't be read (an empty or malformed one)
+export const parseCustomPropertyValue = (type: CustomProperty['type'], text: string): CustomProperty['value'] | undefined => {
+    switch (type) {
+        case 'integer': return parseInt(text, 10) || 0;
+        case 'number': return parseFloat(text) || 0;
+        case 'boolean': return text === 'true' || text === '1';
+        case 'date': {
+            const date = new Date(text.trim());
+            return text.trim() && !isNaN(date.getTime()) ? date : undefined;
+        }
+        default: return text;
+    }
+};
+
+// The text of a custom property's vt: element; an invalid date is written empty
+export const customPropertyText = (property: CustomProperty): string => {
+    const { type, value } = property;
+    switch (type) {
+        case 'integer': return String(Math.round(Number(value)) || 0);
+        case 'number': return String(Number(value) || 0);
+        case 'boolean': return value ? 'true' : 'false';
+        case 'date': return toW3CDTF(value instanceof Date ? value : new Date(value as string)) || '';
+        default: return String(value);
+    }
+};
+
+// The type a value is stored as when none is given
+export const inferCustomPropertyType = (value: CustomProperty['value']): CustomProperty['type'] => {
+    if (typeof value === 'boolean') return 'boolean';
+    if (value instanceof Date) return 'date';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return 'string';
+};
+
+// Keywords are kept as one string; PowerPoint users separate them with commas or semicolons
+export const splitKeywords = (keywords: string): string[] =>
+    keywords.split(/[,;]/).map(keyword => keyword.trim()).filter(keyword => keyword.length > 0);
@@ -0,0 +1,13 @@
+import { GroupContent, SlideElement } from '../types';
+
+// Element ids name the slide part and the shape's p:cNvPr id, e.g. "ppt/slides/slide2.xml#4",
+// so they survive reloading and reordering the shape tree
+export const toElementId = (partPath: string, shapeId: string): string => `${partPath}#${shapeId}`;
+
+// Highest p:cNvPr id in a shape tree, group children included
+export const maxShapeId = (elements: SlideElement[]): number =>
+    elements.reduce((max, element) => {
+        const own = parseInt(element.shapeId || '0', 10) || 0;
+        const children = element.type === 'group' ? maxShapeId((element.content as GroupContent).children || []) : 0;
+        return Math.max(max, own, children);
+    }, 0);
@@ -0,0 +1,60 @@
+import { TextField, TextParagraph } from '../types';
+
+// What a field's text depends on
+export interface FieldContext {
+    slideNumber: number;
+    date?: Date;
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+// The date and time formats PowerPoint offers as datetime1 to datetime13, in their en-US form
+export const formatDateField = (type: string, date: Date): string => {
+    const day = date.getDate();
+    const month = MONTHS[date.getMonth()];
+    const year = date.getFullYear();
+    const shortDate = `${date.getMonth() + 1}/${day}/${year}`;
+    const hours12 = date.getHours() % 12 || 12;
+    const meridiem = date.getHours() < 12 ? 'AM' : 'PM';
+    const minutes = pad(date.getMinutes());
+    const seconds = pad(date.getSeconds());
+
+    switch (type) {
+        case 'datetime2': return `${DAYS[date.getDay()]}, ${month} ${day}, ${year}`;
+        case 'datetime3': return `${day} ${month} ${year}`;
+        case 'datetime4': return `${month} ${day}, ${year}`;
+        case 'datetime5': return `${day}-${month.slice(0, 3)}-${pad(year % 100)}`;
+        case 'datetime6': return `${month} ${pad(year % 100)}`;
+        case 'datetime7': return `${month.slice(0, 3)}-${pad(year % 100)}`;
+        case 'datetime8': return `${shortDate} ${hours12}:${minutes} ${meridiem}`;
+        case 'datetime9': return `${shortDate} ${hours12}:${minutes}:${seconds} ${meridiem}`;
+        case 'datetime10': return `${pad(date.getHours())}:${minutes}`;
+        case 'datetime11': return `${pad(date.getHours())}:${minutes}:${seconds}`;
+        case 'datetime12': return `${hours12}:${minutes} ${meridiem}`;
+        case 'datetime13': return `${hours12}:${minutes}:${seconds} ${meridiem}`;
+        default: return shortDate;
+    }
+};
+
+// Current text of a field, or undefined for fields whose text isn't computed (it then stays as saved)
+export const fieldText = (field: TextField, context: FieldContext): string | undefined => {
+    if (field.type === 'slidenum') return String(context.slideNumber);
+    if (field.type.startsWith('datetime')) return formatDateField(field.type, context.date || new Date());
+    return undefined;
+};
+
+// Paragraphs with the text of their field runs brought up to date; unchanged paragraphs are returned as they are
+export const resolveFields = (paragraphs: TextParagraph[], context: FieldContext): TextParagraph[] =>
+    paragraphs.map(paragraph => {
+        if (!paragraph.runs.some(run => run.field)) return paragraph;
+        return {
+            ...paragraph,
+            runs: paragraph.runs.map(run => {
+                const text = run.field ? fieldText(run.field, context) : undefined;
+                return text === undefined || text === run.text ? run : { ...run, text };
+            })
+        };
+    });
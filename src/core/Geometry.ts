@@ -0,0 +1,804 @@
+import { ShapeContent, CustomGeometry, GeometryPath } from '../types';
+
+// Outlines of shapes, in points relative to the top-left corner of the shape's frame.
+// Arcs are ellipse segments between two parametric angles (radians), as canvas draws them.
+export type PathSegment =
+    | { type: 'M' | 'L'; x: number; y: number }
+    | { type: 'Q'; cx: number; cy: number; x: number; y: number }
+    | { type: 'C'; c1x: number; c1y: number; c2x: number; c2y: number; x: number; y: number }
+    | { type: 'A'; cx: number; cy: number; rx: number; ry: number; start: number; end: number; anticlockwise: boolean }
+    | { type: 'Z' };
+
+export interface ShapePath {
+    segments: PathSegment[];
+    filled: boolean;
+    stroked: boolean;
+}
+
+// Anything paths can be traced into: a canvas context or a Path2D
+export interface PathTarget {
+    moveTo(x: number, y: number): void;
+    lineTo(x: number, y: number): void;
+    quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void;
+    bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void;
+    ellipse(x: number, y: number, radiusX: number, radiusY: number, rotation: number, startAngle: number, endAngle: number, anticlockwise?: boolean): void;
+    closePath(): void;
+}
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+// The parametric angle of the point an ellipse's radius at the given visual angle points to
+const ellipseAngle = (wR: number, hR: number, angle: number): number =>
+    Math.atan2(wR * Math.sin(angle), hR * Math.cos(angle));
+
+// Builds one path with DrawingML's drawing commands; angles are degrees, clockwise from the x axis
+class PathBuilder {
+    private segments: PathSegment[] = [];
+    private x = 0;
+    private y = 0;
+
+    constructor(private filled = true, private stroked = true) {}
+
+    moveTo(x: number, y: number): this {
+        this.segments.push({ type: 'M', x, y });
+        this.x = x;
+        this.y = y;
+        return this;
+    }
+
+    lineTo(x: number, y: number): this {
+        this.segments.push({ type: 'L', x, y });
+        this.x = x;
+        this.y = y;
+        return this;
+    }
+
+    quadTo(cx: number, cy: number, x: number, y: number): this {
+        this.segments.push({ type: 'Q', cx, cy, x, y });
+        this.x = x;
+        this.y = y;
+        return this;
+    }
+
+    cubicTo(c1x: number, c1y: number, c2x: number, c2y: number, x: number, y: number): this {
+        this.segments.push({ type: 'C', c1x, c1y, c2x, c2y, x, y });
+        this.x = x;
+        this.y = y;
+        return this;
+    }
+
+    // a:arcTo: continue along an ellipse from the current point, which sits at startAngle on it
+    arcTo(wR: number, hR: number, startAngle: number, swingAngle: number): this {
+        if (!swingAngle) return this;
+
+        const start = ellipseAngle(wR, hR, toRadians(startAngle));
+        let end = ellipseAngle(wR, hR, toRadians(startAngle + swingAngle));
+        // Keep the direction and the number of turns of the swing
+        const turns = Math.floor(Math.abs(swingAngle) / 360);
+        if (swingAngle > 0) {
+            while (end <= start) end += Math.PI * 2;
+            end += turns * Math.PI * 2;
+        } else {
+            while (end >= start) end -= Math.PI * 2;
+            end -= turns * Math.PI * 2;
+        }
+        if (Math.abs(swingAngle) % 360 === 0) {
+            end = start + Math.sign(swingAngle) * Math.PI * 2 * Math.max(1, turns);
+        }
+
+        const cx = this.x - wR * Math.cos(start);
+        const cy = this.y - hR * Math.sin(start);
+        this.segments.push({ type: 'A', cx, cy, rx: wR, ry: hR, start, end, anticlockwise: swingAngle < 0 });
+        this.x = cx + wR * Math.cos(end);
+        this.y = cy + hR * Math.sin(end);
+        return this;
+    }
+
+    close(): this {
+        this.segments.push({ type: 'Z' });
+        return this;
+    }
+
+    build(): ShapePath {
+        return { segments: this.segments, filled: this.filled, stroked: this.stroked };
+    }
+}
+
+const polygon = (points: number[][], filled = true): ShapePath => {
+    const path = new PathBuilder(filled);
+    points.forEach(([x, y], index) => index === 0 ? path.moveTo(x, y) : path.lineTo(x, y));
+    return path.close().build();
+};
+
+const ellipse = (x: number, y: number, width: number, height: number, clockwise = true): ShapePath =>
+    new PathBuilder()
+        .moveTo(x, y + height / 2)
+        .arcTo(width / 2, height / 2, 180, clockwise ? 360 : -360)
+        .close()
+        .build();
+
+const pin = (min: number, value: number, max: number): number => Math.max(min, Math.min(max, value));
+
+// Rectangle with rounded corners, radii clockwise from the top-left
+const roundedRect = (width: number, height: number, radii: number[], snip = false): ShapePath => {
+    const [topLeft, topRight, bottomRight, bottomLeft] = radii;
+    const path = new PathBuilder().moveTo(0, topLeft);
+    const corner = (radius: number, startAngle: number, x: number, y: number) => {
+        if (!radius) return;
+        if (snip) {
+            path.lineTo(x, y);
+        } else {
+            path.arcTo(radius, radius, startAngle, 90);
+        }
+    };
+
+    corner(topLeft, 180, topLeft, 0);
+    path.lineTo(width - topRight, 0);
+    corner(topRight, 270, width, topRight);
+    path.lineTo(width, height - bottomRight);
+    corner(bottomRight, 0, width - bottomRight, height);
+    path.lineTo(bottomLeft, height);
+    corner(bottomLeft, 90, 0, height - bottomLeft);
+    return path.close().build();
+};
+
+// Regular polygon or star inscribed in the frame, starting at the top
+const radialPoints = (width: number, height: number, count: number, innerRatio?: number): number[][] => {
+    const points: number[][] = [];
+    const steps = innerRatio === undefined ? count : count * 2;
+    for (let i = 0; i < steps; i++) {
+        const angle = -Math.PI / 2 + i * Math.PI * 2 / steps;
+        const ratio = innerRatio !== undefined && i % 2 === 1 ? innerRatio : 1;
+        points.push([width / 2 + Math.cos(angle) * width / 2 * ratio, height / 2 + Math.sin(angle) * height / 2 * ratio]);
+    }
+    return points;
+};
+
+// Callout body with a pointer to (tipX, tipY), which is outside the body on one of its sides
+const rectCallout = (width: number, height: number, tipX: number, tipY: number, radius: number): ShapePath => {
+    const dx = tipX - width / 2;
+    const dy = tipY - height / 2;
+    // The side facing the tip carries the pointer, between 5/12 and 7/12 of its length
+    const vertical = Math.abs(dy) * width > Math.abs(dx) * height;
+    const insideX = tipX >= 0 && tipX <= width;
+    const insideY = tipY >= 0 && tipY <= height;
+    const side = insideX && insideY ? null : vertical ? (dy < 0 ? 'top' : 'bottom') : (dx < 0 ? 'left' : 'right');
+
+    const path = new PathBuilder().moveTo(0, radius);
+    const corner = (startAngle: number) => { if (radius) path.arcTo(radius, radius, startAngle, 90); };
+
+    corner(180);
+    if (side === 'top') {
+        path.lineTo(width * 5 / 12, 0).lineTo(tipX, tipY).lineTo(width * 7 / 12, 0);
+    }
+    path.lineTo(width - radius, 0);
+    corner(270);
+    if (side === 'right') {
+        path.lineTo(width, height * 5 / 12).lineTo(tipX, tipY).lineTo(width, height * 7 / 12);
+    }
+    path.lineTo(width, height - radius);
+    corner(0);
+    if (side === 'bottom') {
+        path.lineTo(width * 7 / 12, height).lineTo(tipX, tipY).lineTo(width * 5 / 12, height);
+    }
+    path.lineTo(radius, height);
+    corner(90);
+    if (side === 'left') {
+        path.lineTo(0, height * 7 / 12).lineTo(tipX, tipY).lineTo(0, height * 5 / 12);
+    }
+    return path.close().build();
+};
+
+// Arrow along the x axis pointing right, in a frame of the given length and thickness;
+// shaft is the shaft's share of the thickness and head the head's length
+const arrowPoints = (length: number, thickness: number, shaft: number, head: number, doubleHeaded = false): number[][] => {
+    const y1 = thickness / 2 - shaft / 2;
+    const y2 = thickness / 2 + shaft / 2;
+    const x2 = length - head;
+    const points = [[doubleHeaded ? head : 0, y1], [x2, y1], [x2, 0], [length, thickness / 2], [x2, thickness], [x2, y2], [doubleHeaded ? head : 0, y2]];
+    if (doubleHeaded) {
+        points.push([head, thickness], [0, thickness / 2], [head, 0]);
+    }
+    return points;
+};
+
+type Adjust = (name: string, fallback: number) => number;
+type PresetGeometry = (w: number, h: number, adj: Adjust) => ShapePath[];
+
+// Scale a path drawn on a w x h grid of 21600 units, as many flowchart presets are specified
+const grid = (w: number, h: number) => (points: number[][]) => points.map(([x, y]) => [x * w / 21600, y * h / 21600]);
+
+// Presets from DrawingML's presetShapeDefinitions, with their default adjustment values.
+// Adjustments are in 1/100000 of the shorter side (or of the width or height) unless noted.
+const PRESETS: { [name: string]: PresetGeometry } = {
+    rect: (w, h) => [polygon([[0, 0], [w, 0], [w, h], [0, h]])],
+    roundRect: (w, h, adj) => {
+        const radius = Math.min(w, h) * pin(0, adj('adj', 16667), 50000) / 100000;
+        return [roundedRect(w, h, [radius, radius, radius, radius])];
+    },
+    round1Rect: (w, h, adj) => {
+        const radius = Math.min(w, h) * pin(0, adj('adj', 16667), 50000) / 100000;
+        return [roundedRect(w, h, [0, radius, 0, 0])];
+    },
+    round2SameRect: (w, h, adj) => {
+        const top = Math.min(w, h) * pin(0, adj('adj1', 16667), 50000) / 100000;
+        const bottom = Math.min(w, h) * pin(0, adj('adj2', 0), 50000) / 100000;
+        return [roundedRect(w, h, [top, top, bottom, bottom])];
+    },
+    round2DiagRect: (w, h, adj) => {
+        const first = Math.min(w, h) * pin(0, adj('adj1', 16667), 50000) / 100000;
+        const second = Math.min(w, h) * pin(0, adj('adj2', 0), 50000) / 100000;
+        return [roundedRect(w, h, [first, second, first, second])];
+    },
+    snip1Rect: (w, h, adj) => {
+        const size = Math.min(w, h) * pin(0, adj('adj', 16667), 50000) / 100000;
+        return [roundedRect(w, h, [0, size, 0, 0], true)];
+    },
+    snip2SameRect: (w, h, adj) => {
+        const top = Math.min(w, h) * pin(0, adj('adj1', 16667), 50000) / 100000;
+        const bottom = Math.min(w, h) * pin(0, adj('adj2', 0), 50000) / 100000;
+        return [roundedRect(w, h, [top, top, bottom, bottom], true)];
+    },
+    snip2DiagRect: (w, h, adj) => {
+        const first = Math.min(w, h) * pin(0, adj('adj1', 0), 50000) / 100000;
+        const second = Math.min(w, h) * pin(0, adj('adj2', 16667), 50000) / 100000;
+        return [roundedRect(w, h, [first, second, first, second], true)];
+    },
+    ellipse: (w, h) => [ellipse(0, 0, w, h)],
+    triangle: (w, h, adj) => [polygon([[w * pin(0, adj('adj', 50000), 100000) / 100000, 0], [w, h], [0, h]])],
+    rtTriangle: (w, h) => [polygon([[0, 0], [w, h], [0, h]])],
+    diamond: (w, h) => [polygon([[w / 2, 0], [w, h / 2], [w / 2, h], [0, h / 2]])],
+    parallelogram: (w, h, adj) => {
+        const x = Math.min(w, Math.min(w, h) * adj('adj', 25000) / 100000);
+        return [polygon([[x, 0], [w, 0], [w - x, h], [0, h]])];
+    },
+    trapezoid: (w, h, adj) => {
+        const x = Math.min(w / 2, Math.min(w, h) * adj('adj', 25000) / 100000);
+        return [polygon([[0, h], [x, 0], [w - x, 0], [w, h]])];
+    },
+    pentagon: (w, h, adj) => {
+        // hf and vf stretch the pentagon so it fills the frame
+        const rx = w / 2 * adj('hf', 105146) / 100000;
+        const ry = h / 2 * adj('vf', 110557) / 100000;
+        const cy = h / 2 * adj('vf', 110557) / 100000;
+        const x1 = rx * Math.cos(toRadians(18));
+        const x2 = rx * Math.cos(toRadians(54));
+        const y1 = cy - ry * Math.sin(toRadians(18));
+        const y2 = cy + ry * Math.sin(toRadians(54));
+        return [polygon([[w / 2 - x1, y1], [w / 2, 0], [w / 2 + x1, y1], [w / 2 + x2, y2], [w / 2 - x2, y2]])];
+    },
+    hexagon: (w, h, adj) => {
+        const x = Math.min(w / 2, Math.min(w, h) * adj('adj', 25000) / 100000);
+        return [polygon([[0, h / 2], [x, 0], [w - x, 0], [w, h / 2], [w - x, h], [x, h]])];
+    },
+    heptagon: (w, h) => [polygon(radialPoints(w, h, 7))],
+    octagon: (w, h, adj) => {
+        const x = Math.min(w, h) * pin(0, adj('adj', 29289), 50000) / 100000;
+        return [polygon([[0, x], [x, 0], [w - x, 0], [w, x], [w, h - x], [w - x, h], [x, h], [0, h - x]])];
+    },
+    decagon: (w, h) => [polygon(radialPoints(w, h, 10))],
+    dodecagon: (w, h) => [polygon(radialPoints(w, h, 12))],
+    plus: (w, h, adj) => {
+        const x = Math.min(w, h) * pin(0, adj('adj', 25000), 50000) / 100000;
+        return [polygon([
+            [0, x], [x, x], [x, 0], [w - x, 0], [w - x, x], [w, x],
+            [w, h - x], [w - x, h - x], [w - x, h], [x, h], [x, h - x], [0, h - x]
+        ])];
+    },
+    star4: (w, h, adj) => [polygon(radialPoints(w, h, 4, adj('adj', 12500) / 50000))],
+    star5: (w, h, adj) => [polygon(radialPoints(w, h, 5, adj('adj', 19098) / 50000))],
+    star6: (w, h, adj) => [polygon(radialPoints(w, h, 6, adj('adj', 28868) / 50000))],
+    star7: (w, h, adj) => [polygon(radialPoints(w, h, 7, adj('adj', 34601) / 50000))],
+    star8: (w, h, adj) => [polygon(radialPoints(w, h, 8, adj('adj', 38250) / 50000))],
+    star10: (w, h, adj) => [polygon(radialPoints(w, h, 10, adj('adj', 42533) / 50000))],
+    star12: (w, h, adj) => [polygon(radialPoints(w, h, 12, adj('adj', 37500) / 50000))],
+    star16: (w, h, adj) => [polygon(radialPoints(w, h, 16, adj('adj', 37500) / 50000))],
+    star24: (w, h, adj) => [polygon(radialPoints(w, h, 24, adj('adj', 37500) / 50000))],
+    star32: (w, h, adj) => [polygon(radialPoints(w, h, 32, adj('adj', 37500) / 50000))],
+    chevron: (w, h, adj) => {
+        const x = Math.min(w, Math.min(w, h) * adj('adj', 50000) / 100000);
+        return [polygon([[0, 0], [w - x, 0], [w, h / 2], [w - x, h], [0, h], [x, h / 2]])];
+    },
+    homePlate: (w, h, adj) => {
+        const x = Math.min(w, Math.min(w, h) * adj('adj', 50000) / 100000);
+        return [polygon([[0, 0], [w - x, 0], [w, h / 2], [w - x, h], [0, h]])];
+    },
+    rightArrow: (w, h, adj) => [polygon(arrowPoints(w, h, h * pin(0, adj('adj1', 50000), 100000) / 100000, Math.min(w, Math.min(w, h) * adj('adj2', 50000) / 100000)))],
+    leftArrow: (w, h, adj) => [polygon(arrowPoints(w, h, h * pin(0, adj('adj1', 50000), 100000) / 100000, Math.min(w, Math.min(w, h) * adj('adj2', 50000) / 100000))
+        .map(([x, y]) => [w - x, y]))],
+    downArrow: (w, h, adj) => [polygon(arrowPoints(h, w, w * pin(0, adj('adj1', 50000), 100000) / 100000, Math.min(h, Math.min(w, h) * adj('adj2', 50000) / 100000))
+        .map(([x, y]) => [y, x]))],
+    upArrow: (w, h, adj) => [polygon(arrowPoints(h, w, w * pin(0, adj('adj1', 50000), 100000) / 100000, Math.min(h, Math.min(w, h) * adj('adj2', 50000) / 100000))
+        .map(([x, y]) => [y, h - x]))],
+    leftRightArrow: (w, h, adj) => [polygon(arrowPoints(w, h, h * pin(0, adj('adj1', 50000), 100000) / 100000, Math.min(w / 2, Math.min(w, h) * adj('adj2', 50000) / 100000), true))],
+    upDownArrow: (w, h, adj) => [polygon(arrowPoints(h, w, w * pin(0, adj('adj1', 50000), 100000) / 100000, Math.min(h / 2, Math.min(w, h) * adj('adj2', 50000) / 100000), true)
+        .map(([x, y]) => [y, x]))],
+    notchedRightArrow: (w, h, adj) => {
+        const shaft = h * pin(0, adj('adj1', 50000), 100000) / 100000;
+        const head = Math.min(w, Math.min(w, h) * adj('adj2', 50000) / 100000);
+        // The notch is as deep as the head is steep
+        const notch = (shaft / 2) * head / (h / 2);
+        return [polygon([...arrowPoints(w, h, shaft, head), [notch, h / 2]])];
+    },
+    wedgeRectCallout: (w, h, adj) =>
+        [rectCallout(w, h, w / 2 + w * adj('adj1', -20833) / 100000, h / 2 + h * adj('adj2', 62500) / 100000, 0)],
+    wedgeRoundRectCallout: (w, h, adj) =>
+        [rectCallout(w, h, w / 2 + w * adj('adj1', -20833) / 100000, h / 2 + h * adj('adj2', 62500) / 100000,
+            Math.min(w, h) * pin(0, adj('adj3', 16667), 50000) / 100000)],
+    wedgeEllipseCallout: (w, h, adj) => {
+        const tipX = w / 2 + w * adj('adj1', -20833) / 100000;
+        const tipY = h / 2 + h * adj('adj2', 62500) / 100000;
+        // The pointer leaves the ellipse 10 degrees either side of the direction of the tip
+        const angle = Math.atan2((tipY - h / 2) / h, (tipX - w / 2) / w) * 180 / Math.PI;
+        const path = new PathBuilder();
+        const pointAt = (degrees: number) => {
+            const t = ellipseAngle(w / 2, h / 2, toRadians(degrees));
+            return [w / 2 + w / 2 * Math.cos(t), h / 2 + h / 2 * Math.sin(t)];
+        };
+        const [startX, startY] = pointAt(angle + 10);
+        path.moveTo(startX, startY).arcTo(w / 2, h / 2, angle + 10, 340).lineTo(tipX, tipY);
+        return [path.close().build()];
+    },
+    cloud: (w, h) => {
+        // A ring of bumps around an ellipse
+        const bumps = 10;
+        const path = new PathBuilder();
+        const points = radialPoints(w * 0.86, h * 0.8, bumps).map(([x, y]) => [x + w * 0.07, y + h * 0.1]);
+        points.forEach(([x, y], index) => {
+            const [nextX, nextY] = points[(index + 1) % bumps];
+            const midX = (x + nextX) / 2;
+            const midY = (y + nextY) / 2;
+            // Push the control point outwards from the center
+            const controlX = midX + (midX - w / 2) * 0.35;
+            const controlY = midY + (midY - h / 2) * 0.35;
+            if (index === 0) path.moveTo(x, y);
+            path.quadTo(controlX, controlY, nextX, nextY);
+        });
+        return [path.close().build()];
+    },
+    heart: (w, h) => {
+        const path = new PathBuilder()
+            .moveTo(w / 2, h / 4)
+            .cubicTo(w / 2 + w * 10 / 48, -h / 3, w / 2 + w * 49 / 48, h / 4, w / 2, h)
+            .cubicTo(w / 2 - w * 49 / 48, h / 4, w / 2 - w * 10 / 48, -h / 3, w / 2, h / 4);
+        return [path.close().build()];
+    },
+    lightningBolt: (w, h) => [polygon(grid(w, h)([
+        [8472, 0], [12860, 6080], [11050, 6797], [16577, 12007], [14767, 12877], [21600, 21600],
+        [10012, 14915], [12222, 13987], [5022, 9705], [7602, 8382], [0, 3890]
+    ]))],
+    donut: (w, h, adj) => {
+        const thickness = Math.min(w, h) * pin(0, adj('adj', 25000), 50000) / 100000;
+        // The hole runs the other way round, so it stays empty when filled
+        const hole = ellipse(thickness, thickness, w - thickness * 2, h - thickness * 2, false);
+        const outer = ellipse(0, 0, w, h);
+        return [{ ...outer, segments: [...outer.segments, ...hole.segments] }];
+    },
+    frame: (w, h, adj) => {
+        const thickness = Math.min(w, h) * pin(0, adj('adj1', 12500), 50000) / 100000;
+        return [{
+            segments: [
+                ...polygon([[0, 0], [w, 0], [w, h], [0, h]]).segments,
+                ...polygon([[thickness, thickness], [thickness, h - thickness], [w - thickness, h - thickness], [w - thickness, thickness]]).segments
+            ],
+            filled: true,
+            stroked: true
+        }];
+    },
+    can: (w, h, adj) => {
+        const lid = Math.min(h / 2, Math.min(w, h) * adj('adj', 25000) / 200000);
+        const body = new PathBuilder()
+            .moveTo(0, lid).arcTo(w / 2, lid, 180, 180)
+            .lineTo(w, h - lid).arcTo(w / 2, lid, 0, 180)
+            .close().build();
+        // Front edge of the lid
+        const rim = new PathBuilder(false).moveTo(0, lid).arcTo(w / 2, lid, 180, -180).build();
+        return [body, rim];
+    },
+    cube: (w, h, adj) => {
+        const depth = Math.min(w, h) * pin(0, adj('adj', 25000), 100000) / 100000;
+        return [
+            polygon([[0, depth], [w - depth, depth], [w - depth, h], [0, h]]),
+            polygon([[0, depth], [depth, 0], [w, 0], [w - depth, depth]]),
+            polygon([[w - depth, depth], [w, 0], [w, h - depth], [w - depth, h]])
+        ];
+    },
+    foldedCorner: (w, h, adj) => {
+        const fold = Math.min(w, h) * pin(0, adj('adj', 16667), 50000) / 100000;
+        return [
+            polygon([[0, 0], [w, 0], [w, h - fold], [w - fold, h], [0, h]]),
+            polygon([[w - fold, h], [w - fold * 0.8, h - fold * 0.8], [w, h - fold]])
+        ];
+    },
+    // Angles are in 60000ths of a degree
+    pie: (w, h, adj) => {
+        const start = adj('adj1', 0) / 60000;
+        const end = adj('adj2', 16200000) / 60000;
+        const swing = ((end - start) % 360 + 360) % 360 || 360;
+        const t = ellipseAngle(w / 2, h / 2, toRadians(start));
+        const path = new PathBuilder()
+            .moveTo(w / 2 + w / 2 * Math.cos(t), h / 2 + h / 2 * Math.sin(t))
+            .arcTo(w / 2, h / 2, start, swing)
+            .lineTo(w / 2, h / 2);
+        return [path.close().build()];
+    },
+    chord: (w, h, adj) => {
+        const start = adj('adj1', 2700000) / 60000;
+        const end = adj('adj2', 16200000) / 60000;
+        const swing = ((end - start) % 360 + 360) % 360 || 360;
+        const t = ellipseAngle(w / 2, h / 2, toRadians(start));
+        const path = new PathBuilder()
+            .moveTo(w / 2 + w / 2 * Math.cos(t), h / 2 + h / 2 * Math.sin(t))
+            .arcTo(w / 2, h / 2, start, swing);
+        return [path.close().build()];
+    },
+    arc: (w, h, adj) => {
+        const start = adj('adj1', 16200000) / 60000;
+        const end = adj('adj2', 0) / 60000;
+        const swing = ((end - start) % 360 + 360) % 360 || 360;
+        const t = ellipseAngle(w / 2, h / 2, toRadians(start));
+        const path = new PathBuilder(false)
+            .moveTo(w / 2 + w / 2 * Math.cos(t), h / 2 + h / 2 * Math.sin(t))
+            .arcTo(w / 2, h / 2, start, swing);
+        return [path.build()];
+    },
+    blockArc: (w, h, adj) => {
+        const start = adj('adj1', 10800000) / 60000;
+        const end = adj('adj2', 0) / 60000;
+        const thickness = Math.min(w, h) * pin(0, adj('adj3', 25000), 50000) / 100000;
+        const swing = ((end - start) % 360 + 360) % 360 || 360;
+        const innerW = w / 2 - thickness;
+        const innerH = h / 2 - thickness;
+        const t = ellipseAngle(w / 2, h / 2, toRadians(start));
+        const inner = ellipseAngle(innerW, innerH, toRadians(end));
+        const path = new PathBuilder()
+            .moveTo(w / 2 + w / 2 * Math.cos(t), h / 2 + h / 2 * Math.sin(t))
+            .arcTo(w / 2, h / 2, start, swing)
+            .lineTo(w / 2 + innerW * Math.cos(inner), h / 2 + innerH * Math.sin(inner));
+        if (innerW > 0 && innerH > 0) path.arcTo(innerW, innerH, end, -swing);
+        return [path.close().build()];
+    },
+    leftBracket: (w, h, adj) => {
+        const radius = Math.min(h / 2, Math.min(w, h) * adj('adj', 8333) / 100000);
+        return [new PathBuilder(false).moveTo(w, h).arcTo(w, radius, 90, 90).lineTo(0, radius).arcTo(w, radius, 180, 90).build()];
+    },
+    rightBracket: (w, h, adj) => {
+        const radius = Math.min(h / 2, Math.min(w, h) * adj('adj', 8333) / 100000);
+        return [new PathBuilder(false).moveTo(0, 0).arcTo(w, radius, 270, 90).lineTo(w, h - radius).arcTo(w, radius, 0, 90).build()];
+    },
+    bracketPair: (w, h, adj) => {
+        const radius = Math.min(w, h) * pin(0, adj('adj', 16667), 50000) / 100000;
+        return [
+            new PathBuilder(false).moveTo(radius, h).arcTo(radius, radius, 90, 90).lineTo(0, radius).arcTo(radius, radius, 180, 90).build(),
+            new PathBuilder(false).moveTo(w - radius, 0).arcTo(radius, radius, 270, 90).lineTo(w, h - radius).arcTo(radius, radius, 0, 90).build()
+        ];
+    },
+    flowChartTerminator: (w, h) => {
+        const radius = w * 3475 / 21600;
+        const path = new PathBuilder()
+            .moveTo(radius, 0).lineTo(w - radius, 0).arcTo(radius, h / 2, 270, 180)
+            .lineTo(radius, h).arcTo(radius, h / 2, 90, 180);
+        return [path.close().build()];
+    },
+    flowChartData: (w, h) => [polygon([[w / 5, 0], [w, 0], [w * 4 / 5, h], [0, h]])],
+    flowChartDocument: (w, h) => {
+        const path = new PathBuilder()
+            .moveTo(0, 0).lineTo(w, 0).lineTo(w, h * 17322 / 21600)
+            .cubicTo(w / 2, h * 17322 / 21600, w / 2, h * 23922 / 21600, 0, h * 20172 / 21600);
+        return [path.close().build()];
+    },
+    flowChartPredefinedProcess: (w, h) => [
+        polygon([[0, 0], [w, 0], [w, h], [0, h]]),
+        new PathBuilder(false).moveTo(w / 8, 0).lineTo(w / 8, h).moveTo(w * 7 / 8, 0).lineTo(w * 7 / 8, h).build()
+    ],
+    flowChartManualInput: (w, h) => [polygon([[0, h / 5], [w, 0], [w, h], [0, h]])],
+    flowChartManualOperation: (w, h) => [polygon([[0, 0], [w, 0], [w * 4 / 5, h], [w / 5, h]])],
+    flowChartPreparation: (w, h) => [polygon([[0, h / 2], [w / 5, 0], [w * 4 / 5, 0], [w, h / 2], [w * 4 / 5, h], [w / 5, h]])],
+    flowChartOffpageConnector: (w, h) => [polygon([[0, 0], [w, 0], [w, h * 4 / 5], [w / 2, h], [0, h * 4 / 5]])],
+    flowChartExtract: (w, h) => [polygon([[w / 2, 0], [w, h], [0, h]])],
+    flowChartMerge: (w, h) => [polygon([[0, 0], [w, 0], [w / 2, h]])],
+    flowChartDelay: (w, h) => {
+        const path = new PathBuilder().moveTo(0, 0).lineTo(w / 2, 0).arcTo(w / 2, h / 2, 270, 180).lineTo(0, h);
+        return [path.close().build()];
+    },
+    // Lines and connectors: open paths from the top-left to the bottom-right corner
+    line: (w, h) => [new PathBuilder(false).moveTo(0, 0).lineTo(w, h).build()],
+    bentConnector2: (w, h) => [new PathBuilder(false).moveTo(0, 0).lineTo(w, 0).lineTo(w, h).build()],
+    bentConnector3: (w, h, adj) => {
+        const x = w * adj('adj1', 50000) / 100000;
+        return [new PathBuilder(false).moveTo(0, 0).lineTo(x, 0).lineTo(x, h).lineTo(w, h).build()];
+    },
+    curvedConnector3: (w, h, adj) => {
+        const x = w * adj('adj1', 50000) / 100000;
+        return [new PathBuilder(false)
+            .moveTo(0, 0)
+            .cubicTo(x / 2, 0, x, h / 4, x, h / 2)
+            .cubicTo(x, h * 3 / 4, (x + w) / 2, h, w, h)
+            .build()];
+    }
+};
+
+// Presets that are drawn exactly like another one
+const PRESET_ALIASES: { [name: string]: string } = {
+    flowChartProcess: 'rect',
+    flowChartAlternateProcess: 'roundRect',
+    flowChartDecision: 'diamond',
+    flowChartConnector: 'ellipse',
+    cloudCallout: 'cloud',
+    straightConnector1: 'line',
+    bentConnector4: 'bentConnector3',
+    bentConnector5: 'bentConnector3',
+    curvedConnector2: 'curvedConnector3',
+    curvedConnector4: 'curvedConnector3',
+    curvedConnector5: 'curvedConnector3'
+};
+
+// DrawingML guide variables every formula can use; angles are in 60000ths of a degree
+const builtInGuides = (w: number, h: number): Map<string, number> => {
+    const ss = Math.min(w, h);
+    const guides = new Map<string, number>([
+        ['l', 0], ['t', 0], ['r', w], ['b', h], ['w', w], ['h', h],
+        ['hc', w / 2], ['vc', h / 2], ['ss', ss], ['ls', Math.max(w, h)],
+        ['cd2', 10800000], ['cd4', 5400000], ['cd8', 2700000],
+        ['3cd4', 16200000], ['3cd8', 8100000], ['5cd8', 13500000], ['7cd8', 18900000]
+    ]);
+    [2, 3, 4, 5, 6, 8, 10, 12, 16, 32].forEach(divisor => {
+        guides.set(`wd${divisor}`, w / divisor);
+        guides.set(`hd${divisor}`, h / divisor);
+        guides.set(`ssd${divisor}`, ss / divisor);
+    });
+    return guides;
+};
+
+const ANGLE_UNIT = 60000 * 180 / Math.PI; // 60000ths of a degree per radian
+
+// Evaluate a guide formula such as "*/ w adj 100000" against the guides defined so far
+export const evaluateFormula = (formula: string, guides: Map<string, number>): number => {
+    const [operator, ...args] = formula.trim().split(/\s+/);
+    const [a, b, c] = args.map(arg => guides.get(arg) ?? (parseFloat(arg) || 0));
+
+    switch (operator) {
+        case 'val': return a;
+        case '*/': return c ? a * b / c : 0;
+        case '+-': return a + b - c;
+        case '+/': return c ? (a + b) / c : 0;
+        case '?:': return a > 0 ? b : c;
+        case 'abs': return Math.abs(a);
+        case 'at2': return Math.atan2(b, a) * ANGLE_UNIT;
+        case 'cat2': return a * Math.cos(Math.atan2(c, b));
+        case 'sat2': return a * Math.sin(Math.atan2(c, b));
+        case 'cos': return a * Math.cos(b / ANGLE_UNIT);
+        case 'sin': return a * Math.sin(b / ANGLE_UNIT);
+        case 'tan': return a * Math.tan(b / ANGLE_UNIT);
+        case 'max': return Math.max(a, b);
+        case 'min': return Math.min(a, b);
+        case 'mod': return Math.sqrt(a * a + b * b + c * c);
+        case 'pin': return b < a ? a : b > c ? c : b;
+        case 'sqrt': return Math.sqrt(a);
+        default:
+            console.warn('Geometry: Unknown formula operator:', operator);
+            return 0;
+    }
+};
+
+// Paths of an a:custGeom for a shape of the given size in points. Formulas work in EMU, like the XML.
+const customGeometryPaths = (geometry: CustomGeometry, width: number, height: number, adjustments: { [name: string]: number } = {}): ShapePath[] => {
+    const guides = builtInGuides(width * 12700, height * 12700);
+    geometry.adjustments.forEach(guide => guides.set(guide.name, adjustments[guide.name] ?? evaluateFormula(guide.formula, guides)));
+    geometry.guides.forEach(guide => guides.set(guide.name, evaluateFormula(guide.formula, guides)));
+    const value = (token: string): number => guides.get(token) ?? (parseFloat(token) || 0);
+
+    return geometry.paths.map((geometryPath: GeometryPath) => {
+        // Path coordinates are in the path's own space, or EMU when it doesn't define one
+        const scaleX = geometryPath.width ? width / geometryPath.width : 1 / 12700;
+        const scaleY = geometryPath.height ? height / geometryPath.height : 1 / 12700;
+        const path = new PathBuilder(geometryPath.fill !== 'none', geometryPath.stroke !== false);
+        const x = (token: string) => value(token) * scaleX;
+        const y = (token: string) => value(token) * scaleY;
+
+        geometryPath.commands.forEach(command => {
+            switch (command.type) {
+                case 'moveTo':
+                    path.moveTo(x(command.points[0].x), y(command.points[0].y));
+                    break;
+                case 'lnTo':
+                    path.lineTo(x(command.points[0].x), y(command.points[0].y));
+                    break;
+                case 'quadBezTo': {
+                    const [control, end] = command.points;
+                    path.quadTo(x(control.x), y(control.y), x(end.x), y(end.y));
+                    break;
+                }
+                case 'cubicBezTo': {
+                    const [first, second, end] = command.points;
+                    path.cubicTo(x(first.x), y(first.y), x(second.x), y(second.y), x(end.x), y(end.y));
+                    break;
+                }
+                case 'arcTo':
+                    path.arcTo(
+                        value(command.widthRadius) * scaleX,
+                        value(command.heightRadius) * scaleY,
+                        value(command.startAngle) / 60000,
+                        value(command.swingAngle) / 60000
+                    );
+                    break;
+                case 'close':
+                    path.close();
+                    break;
+            }
+        });
+
+        return path.build();
+    });
+};
+
+// The outline of a shape at the given size (points). Unknown presets are drawn as rectangles.
+export const shapeGeometry = (content: Partial<ShapeContent> | undefined, width: number, height: number): ShapePath[] => {
+    const adjustments = content?.adjustments || {};
+    if (content?.customGeometry) {
+        return customGeometryPaths(content.customGeometry, width, height, adjustments);
+    }
+
+    const shapeType = content?.shapeType || 'rect';
+    const preset = PRESETS[PRESET_ALIASES[shapeType] || shapeType] || PRESETS.rect;
+    return preset(width, height, (name, fallback) => adjustments[name] ?? fallback);
+};
+
+// Add a path to a canvas context or Path2D, offset to (x, y) and scaled from points
+export const traceShapePath = (target: PathTarget, path: ShapePath, x: number, y: number, scaleX: number, scaleY: number = scaleX) => {
+    path.segments.forEach(segment => {
+        switch (segment.type) {
+            case 'M':
+                target.moveTo(x + segment.x * scaleX, y + segment.y * scaleY);
+                break;
+            case 'L':
+                target.lineTo(x + segment.x * scaleX, y + segment.y * scaleY);
+                break;
+            case 'Q':
+                target.quadraticCurveTo(x + segment.cx * scaleX, y + segment.cy * scaleY, x + segment.x * scaleX, y + segment.y * scaleY);
+                break;
+            case 'C':
+                target.bezierCurveTo(
+                    x + segment.c1x * scaleX, y + segment.c1y * scaleY,
+                    x + segment.c2x * scaleX, y + segment.c2y * scaleY,
+                    x + segment.x * scaleX, y + segment.y * scaleY
+                );
+                break;
+            case 'A': {
+                // A negative scale mirrors the arc, which turns it the other way round
+                const reversed = (scaleX < 0) !== (scaleY < 0);
+                const start = Math.atan2(Math.sin(segment.start) * Math.sign(scaleY), Math.cos(segment.start) * Math.sign(scaleX));
+                const end = start + (segment.end - segment.start) * (reversed ? -1 : 1);
+                target.ellipse(
+                    x + segment.cx * scaleX, y + segment.cy * scaleY,
+                    Math.abs(segment.rx * scaleX), Math.abs(segment.ry * scaleY),
+                    0, start, end, reversed ? !segment.anticlockwise : segment.anticlockwise
+                );
+                break;
+            }
+            case 'Z':
+                target.closePath();
+                break;
+        }
+    });
+};
+
+// Approximate a path by polylines, one per subpath, for hit-testing
+const flattenPath = (path: ShapePath): Array<{ points: number[][]; closed: boolean }> => {
+    const polylines: Array<{ points: number[][]; closed: boolean }> = [];
+    let current: { points: number[][]; closed: boolean } | null = null;
+    let last = [0, 0];
+
+    const add = (point: number[]) => {
+        if (!current) {
+            current = { points: [last], closed: false };
+            polylines.push(current);
+        }
+        current.points.push(point);
+        last = point;
+    };
+
+    path.segments.forEach(segment => {
+        switch (segment.type) {
+            case 'M':
+                current = { points: [[segment.x, segment.y]], closed: false };
+                polylines.push(current);
+                last = [segment.x, segment.y];
+                break;
+            case 'L':
+                add([segment.x, segment.y]);
+                break;
+            case 'Q': {
+                const [x0, y0] = last;
+                for (let i = 1; i <= 16; i++) {
+                    const t = i / 16;
+                    const u = 1 - t;
+                    add([u * u * x0 + 2 * u * t * segment.cx + t * t * segment.x, u * u * y0 + 2 * u * t * segment.cy + t * t * segment.y]);
+                }
+                break;
+            }
+            case 'C': {
+                const [x0, y0] = last;
+                for (let i = 1; i <= 16; i++) {
+                    const t = i / 16;
+                    const u = 1 - t;
+                    add([
+                        u * u * u * x0 + 3 * u * u * t * segment.c1x + 3 * u * t * t * segment.c2x + t * t * t * segment.x,
+                        u * u * u * y0 + 3 * u * u * t * segment.c1y + 3 * u * t * t * segment.c2y + t * t * t * segment.y
+                    ]);
+                }
+                break;
+            }
+            case 'A': {
+                const steps = Math.max(8, Math.ceil(Math.abs(segment.end - segment.start) / (Math.PI / 16)));
+                for (let i = 0; i <= steps; i++) {
+                    const angle = segment.start + (segment.end - segment.start) * i / steps;
+                    add([segment.cx + segment.rx * Math.cos(angle), segment.cy + segment.ry * Math.sin(angle)]);
+                }
+                break;
+            }
+            case 'Z':
+                if (current) {
+                    current.closed = true;
+                    last = current.points[0];
+                    current = null;
+                }
+                break;
+        }
+    });
+
+    return polylines;
+};
+
+const distanceToSegment = (px: number, py: number, [x1, y1]: number[], [x2, y2]: number[]): number => {
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared ? Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSquared)) : 0;
+    return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+};
+
+// Whether a point (points, relative to the frame) is inside a filled path or within tolerance of an outline
+export const geometryContainsPoint = (paths: ShapePath[], x: number, y: number, tolerance: number = 0): boolean =>
+    paths.some(path => {
+        const polylines = flattenPath(path);
+
+        if (path.filled) {
+            // Non-zero winding, as canvas fills, so holes drawn the other way round stay empty
+            let winding = 0;
+            polylines.forEach(({ points }) => {
+                points.forEach((from, index) => {
+                    const to = points[(index + 1) % points.length];
+                    if (from[1] <= y) {
+                        if (to[1] > y && (to[0] - from[0]) * (y - from[1]) - (x - from[0]) * (to[1] - from[1]) > 0) winding++;
+                    } else if (to[1] <= y && (to[0] - from[0]) * (y - from[1]) - (x - from[0]) * (to[1] - from[1]) < 0) {
+                        winding--;
+                    }
+                });
+            });
+            if (winding !== 0) return true;
+        }
+
+        return tolerance > 0 && polylines.some(({ points, closed }) =>
+            points.some((point, index) => {
+                const next = index + 1 < points.length ? points[index + 1] : closed ? points[0] : null;
+                return next !== null && distanceToSegment(x, y, point, next) <= tolerance;
+            }));
+    });
+
+// Direction (radians) a path leaves its first point and enters its last one, for arrowheads
+export const pathEndAngles = (path: ShapePath): { start: number; end: number } | null => {
+    const [polyline] = flattenPath(path);
+    if (!polyline || polyline.points.length < 2) return null;
+
+    const points = polyline.points.filter((point, index) =>
+        index === 0 || point[0] !== polyline.points[index - 1][0] || point[1] !== polyline.points[index - 1][1]);
+    if (points.length < 2) return null;
+
+    const [first, second] = points;
+    const [beforeLast, last] = points.slice(-2);
+    return {
+        start: Math.atan2(first[1] - second[1], first[0] - second[0]),
+        end: Math.atan2(last[1] - beforeLast[1], last[0] - beforeLast[0])
+    };
+};
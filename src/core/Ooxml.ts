@@ -0,0 +1,17 @@
+// Identifiers from OOXML and PowerPoint's extensions to it, shared by reading and writing a deck
+
+// PowerPoint 2010 extensions: p14:media in a media shape's p:nvPr, p14:sectionLst in presentation.xml
+export const P14_NS = 'http://schemas.microsoft.com/office/powerpoint/2010/main';
+export const MEDIA_EXTENSION_URI = '{DAA4B4D4-6D71-4841-9C94-3DE7FCFB9230}';
+export const SECTION_LIST_URI = '{521415D9-36F7-43E2-AB2F-B90AF26B5E84}';
+
+// Click actions: jumping to another slide, and playing video and audio
+export const SLIDE_JUMP_ACTION = 'ppaction://hlinksldjump';
+export const MEDIA_ACTION = 'ppaction://media';
+
+// GUIDs in braces, as OOXML identifies fields and sections
+export const newGuid = (): string =>
+    '{' + 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+        const random = Math.floor(Math.random() * 16);
+        return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16).toUpperCase();
+    }) + '}';
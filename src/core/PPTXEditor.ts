@@ -1,9 +1,26 @@
-import { PPTXParser } from './PPTXParser';
+import { PPTXParser, definedProperties } from './PPTXParser';
 import { PPTXExporter } from './PPTXExporter';
 import { ChangeTracker } from './ChangeTracker';
-import { PPTXDocument, PPTXSlide, SlideElement, EditorState, EditorOptions, ChangeRecord } from '../types';
+import { PPTXDocument, PPTXSlide, SlideElement, Position, EditorState, EditorOptions, ChangeRecord, TableContent, TextContent, TextParagraph, TextRun, TextRunStyle, TextBullet, TextBodyProperties, TextSpacing, Hyperlink, SlideBackground, SlideSize, GroupContent, LineStyle, LineContent, ImageContent, ImageCrop, ImageRecolor, MediaContent, HeaderFooterSettings, DocumentMetadata, CustomProperty, SlideSection } from '../types';
+import { paragraphsFromText, paragraphsToText, LEVEL_INDENT, MAX_LEVEL } from './RichText';
+import { clampCrop, croppedFrame, isCropped, NO_CROP } from './Picture';
+import { toElementId, maxShapeId } from './ElementId';
+import { newGuid } from './Ooxml';
+import { formatDateField } from './Fields';
+import { inferCustomPropertyType } from './DocumentProperties';
 import JSZip from 'jszip';
 
+// Read a file into a data URL, the form media and pictures are kept in
+const readAsDataUrl = async (file: Blob): Promise<string> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const chunks: string[] = [];
+    // In slices, so large files don't overflow the argument list
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        chunks.push(String.fromCharCode(...bytes.subarray(i, i + 0x8000)));
+    }
+    return `data:${file.type || 'application/octet-stream'};base64,${btoa(chunks.join(''))}`;
+};
+
 export class PPTXEditor {
     private parser: PPTXParser;
     private exporter: PPTXExporter | null = null;
@@ -12,6 +29,8 @@ export class PPTXEditor {
     private originalZip: JSZip | null = null;
     private state: EditorState;
     private options: EditorOptions;
+    // Highest p:cNvPr id used on each slide, so ids of deleted shapes aren't handed out again
+    private lastShapeIds: Map<string, number> = new Map();
 
     constructor(options: EditorOptions = {}) {
         this.parser = new PPTXParser();
@@ -49,6 +68,8 @@ export class PPTXEditor {
             // Parse the PPTX
             this.document = await this.parser.parsePPTX(file);
 
+            this.lastShapeIds = new Map(this.document.slides.map(slide => [slide.id, maxShapeId(slide.elements)]));
+
             // Initialize the exporter
             if (this.originalZip && this.document) {
                 this.exporter = new PPTXExporter(this.originalZip, this.document);
@@ -115,12 +136,179 @@ export class PPTXEditor {
         if (!slide) return;
 
         const element = slide.elements.find(e => e.id === elementId);
-        if (!element || element.type !== 'text') return;
+        if (!element || (element.type !== 'text' && element.type !== 'shape')) return;
+
+        const previousState = this.cloneElement(element);
+        const content = element.content as TextContent;
+        // Unchanged lines keep their run formatting
+        content.paragraphs = paragraphsFromText(newText, previousState.content.paragraphs);
+        content.text = newText;
+
+        this.recordChange('update', elementId, slide.id, previousState, this.cloneElement(element), `Updated text: "${newText}"`);
+    }
+
+    // Replace the formatted paragraphs of a text body
+    updateTextParagraphs(elementId: string, paragraphs: TextParagraph[], description: string = 'Updated text formatting'): void {
+        if (!this.document) return;
+
+        const slide = this.getCurrentSlide();
+        if (!slide) return;
+
+        const element = slide.elements.find(e => e.id === elementId);
+        if (!element || (element.type !== 'text' && element.type !== 'shape')) return;
+
+        const previousState = this.cloneElement(element);
+        const content = element.content as TextContent;
+        content.paragraphs = paragraphs;
+        content.text = paragraphsToText(paragraphs);
+
+        this.recordChange('update', elementId, slide.id, previousState, this.cloneElement(element), description);
+    }
+
+    // Change the formatting of a single run
+    updateTextRunStyle(elementId: string, paragraphIndex: number, runIndex: number, style: Partial<TextRunStyle>): void {
+        this.editParagraph(elementId, paragraphIndex, paragraph => {
+            const run = paragraph.runs[runIndex];
+            if (!run) return false;
+
+            run.style = { ...run.style, ...style };
+        }, 'Updated text formatting');
+    }
+
+    // Link a run to a URL or another slide, or remove its link (null)
+    setRunHyperlink(elementId: string, paragraphIndex: number, runIndex: number, hyperlink: Hyperlink | null): void {
+        this.editParagraph(elementId, paragraphIndex, paragraph => {
+            const run = paragraph.runs[runIndex];
+            if (!run || (!hyperlink && !run.style?.hyperlink)) return false;
+
+            run.style = { ...run.style };
+            if (hyperlink) {
+                run.style.hyperlink = { ...hyperlink };
+            } else {
+                delete run.style.hyperlink;
+            }
+        }, hyperlink ? `Linked text to ${this.describeHyperlink(hyperlink)}` : 'Removed text link');
+    }
+
+    // Link a whole element to a URL or another slide, or remove its link (null)
+    setElementHyperlink(elementId: string, hyperlink: Hyperlink | null): void {
+        if (!this.document) return;
+
+        const slide = this.getCurrentSlide();
+        if (!slide) return;
+
+        const element = slide.elements.find(e => e.id === elementId);
+        if (!element || (!hyperlink && !element.hyperlink)) return;
+
+        const previousState = this.cloneElement(element);
+        if (hyperlink) {
+            element.hyperlink = { ...hyperlink };
+        } else {
+            delete element.hyperlink;
+        }
+
+        this.recordChange('update', elementId, slide.id, previousState, this.cloneElement(element),
+            hyperlink ? `Linked element to ${this.describeHyperlink(hyperlink)}` : 'Removed element link');
+    }
+
+    private describeHyperlink(hyperlink: Hyperlink): string {
+        if (hyperlink.slideId) {
+            const slide = this.document?.slides.find(s => s.id === hyperlink.slideId);
+            return slide ? `slide ${slide.slideNumber}` : hyperlink.slideId;
+        }
+        return hyperlink.url || hyperlink.action || 'link';
+    }
+
+    // Move a paragraph one outline level up (less indented)
+    promoteParagraph(elementId: string, paragraphIndex: number): void {
+        this.changeParagraphLevel(elementId, paragraphIndex, -1);
+    }
+
+    // Move a paragraph one outline level down (more indented)
+    demoteParagraph(elementId: string, paragraphIndex: number): void {
+        this.changeParagraphLevel(elementId, paragraphIndex, 1);
+    }
+
+    // Set or clear (null) the bullet of a paragraph
+    setParagraphBullet(elementId: string, paragraphIndex: number, bullet: TextBullet | null): void {
+        this.editParagraph(elementId, paragraphIndex, paragraph => {
+            if (bullet) {
+                paragraph.bullet = { ...bullet };
+            } else {
+                paragraph.bullet = { type: 'none' };
+            }
+        }, bullet ? `Changed bullet style to ${bullet.type}` : 'Removed bullet');
+    }
+
+    // Set line spacing and the space before and after a paragraph; null goes back to the inherited spacing
+    setParagraphSpacing(
+        elementId: string,
+        paragraphIndex: number,
+        spacing: { lineSpacing?: TextSpacing | null; spaceBefore?: TextSpacing | null; spaceAfter?: TextSpacing | null }
+    ): void {
+        this.editParagraph(elementId, paragraphIndex, paragraph => {
+            (['lineSpacing', 'spaceBefore', 'spaceAfter'] as const).forEach(key => {
+                const value = spacing[key];
+                if (value === undefined) return;
+                if (value) {
+                    paragraph[key] = { ...value };
+                } else {
+                    delete paragraph[key];
+                }
+            });
+        }, 'Changed paragraph spacing');
+    }
+
+    // Change the insets, anchoring, wrapping, columns or autofit of a text body. Undefined values
+    // go back to PowerPoint's defaults; shrinking only applies to normal autofit.
+    updateTextBody(elementId: string, body: Partial<TextBodyProperties>): void {
+        if (!this.document) return;
+
+        const slide = this.getCurrentSlide();
+        if (!slide) return;
+
+        const element = slide.elements.find(e => e.id === elementId);
+        if (!element || (element.type !== 'text' && element.type !== 'shape')) return;
+
+        const previousState = this.cloneElement(element);
+        const content = element.content as TextContent;
+        const updated: TextBodyProperties = { ...content.body, ...body };
+        if (updated.autofit !== 'normal') {
+            delete updated.fontScale;
+            delete updated.lineSpacingReduction;
+        }
+        (Object.keys(updated) as Array<keyof TextBodyProperties>).forEach(key => {
+            if (updated[key] === undefined) delete updated[key];
+        });
+        content.body = updated;
+
+        this.recordChange('update', elementId, slide.id, previousState, this.cloneElement(element), 'Changed text layout');
+    }
+
+    private changeParagraphLevel(elementId: string, paragraphIndex: number, delta: number): void {
+        this.editParagraph(elementId, paragraphIndex, paragraph => {
+            const level = paragraph.level || 0;
+            const newLevel = Math.max(0, Math.min(MAX_LEVEL, level + delta));
+            if (newLevel === level) return false;
+
+            paragraph.level = newLevel;
+            // An explicit margin moves along with the level; otherwise the level default applies
+            if (paragraph.marginLeft !== undefined) {
+                paragraph.marginLeft = Math.max(0, paragraph.marginLeft + (newLevel - level) * LEVEL_INDENT);
+            }
+        }, delta < 0 ? 'Promoted paragraph' : 'Demoted paragraph');
+    }
+
+    // Apply an edit to a copy of one paragraph; the edit returns false when there is nothing to change
+    private editParagraph(elementId: string, paragraphIndex: number, edit: (paragraph: TextParagraph) => boolean | void, description: string): void {
+        const element = this.getCurrentSlide()?.elements.find(e => e.id === elementId);
+        const paragraphs = (element?.content as TextContent | undefined)?.paragraphs;
+        if (!paragraphs?.[paragraphIndex]) return;
 
-        const previousState = { ...element };
-        element.content.text = newText;
+        const updated = structuredClone(paragraphs);
+        if (edit(updated[paragraphIndex]) === false) return;
 
-        this.recordChange('update', elementId, slide.id, previousState, element, `Updated text: "${newText}"`);
+        this.updateTextParagraphs(elementId, updated, description);
     }
 
     // Update element position
@@ -133,11 +321,11 @@ export class PPTXEditor {
         const element = slide.elements.find(e => e.id === elementId);
         if (!element) return;
 
-        const previousState = { ...element };
+        const previousState = this.copyForChange(element);
         element.position.x = x;
         element.position.y = y;
 
-        this.recordChange('update', elementId, slide.id, previousState, element, `Moved element to (${x}, ${y})`);
+        this.recordChange('update', elementId, slide.id, previousState, this.copyForChange(element), `Moved element to (${x}, ${y})`);
     }
 
     // Update element size
@@ -150,11 +338,30 @@ export class PPTXEditor {
         const element = slide.elements.find(e => e.id === elementId);
         if (!element) return;
 
-        const previousState = { ...element };
+        const previousState = this.copyForChange(element);
         element.size.width = width;
         element.size.height = height;
 
-        this.recordChange('update', elementId, slide.id, previousState, element, `Resized element to ${width}x${height}`);
+        this.recordChange('update', elementId, slide.id, previousState, this.copyForChange(element), `Resized element to ${width}x${height}`);
+    }
+
+    // Rotate an element (degrees clockwise) and optionally change its flips
+    updateElementRotation(elementId: string, rotation: number, flips: { flipH?: boolean; flipV?: boolean } = {}): void {
+        if (!this.document) return;
+
+        const slide = this.getCurrentSlide();
+        if (!slide) return;
+
+        const element = slide.elements.find(e => e.id === elementId);
+        if (!element) return;
+
+        const previousState = this.cloneElement(element);
+        // Keep the angle within one turn, so 370 and 10 end up the same
+        element.rotation = ((rotation % 360) + 360) % 360;
+        if (flips.flipH !== undefined) element.flipH = flips.flipH;
+        if (flips.flipV !== undefined) element.flipV = flips.flipV;
+
+        this.recordChange('update', elementId, slide.id, previousState, this.cloneElement(element), `Rotated element to ${element.rotation}°`);
     }
 
     // Update element style
@@ -167,10 +374,510 @@ export class PPTXEditor {
         const element = slide.elements.find(e => e.id === elementId);
         if (!element) return;
 
-        const previousState = { ...element };
+        const previousState = this.cloneElement(element);
         element.style = { ...element.style, ...style };
+        // A plain background color replaces whatever fill the shape had, and a solid fill sets the color
+        if (style?.backgroundColor && !style.fill) {
+            element.style.fill = { type: 'solid', color: style.backgroundColor };
+        } else if (style?.fill) {
+            element.style.backgroundColor = style.fill.type === 'solid' ? style.fill.color : undefined;
+            // A color changed away from the theme color it was taken from no longer follows the theme
+            const previousFill = previousState.style?.fill;
+            const { schemeColor, ...ownColor } = style.fill;
+            if (schemeColor && previousFill?.schemeColor === schemeColor &&
+                style.fill.color?.substring(0, 7).toUpperCase() !== previousFill.color?.substring(0, 7).toUpperCase()) {
+                element.style.fill = ownColor;
+            }
+        }
+        // Likewise the border color and width are the outline's color and width
+        if (style?.line) {
+            element.style.borderColor = style.line.none ? undefined : style.line.color;
+            element.style.borderWidth = style.line.none ? undefined : style.line.width;
+        } else if (style?.borderColor !== undefined || style?.borderWidth !== undefined) {
+            element.style.line = definedProperties({
+                ...element.style.line,
+                none: undefined,
+                color: element.style.borderColor,
+                width: element.style.borderWidth
+            });
+        }
+
+        this.recordChange('update', elementId, slide.id, previousState, this.cloneElement(element), 'Updated element style');
+    }
+
+    // Update the text of a single table cell
+    updateTableCellText(elementId: string, row: number, column: number, newText: string): void {
+        if (!this.document) return;
+
+        const slide = this.getCurrentSlide();
+        if (!slide) return;
+
+        const element = slide.elements.find(e => e.id === elementId);
+        if (!element || element.type !== 'table') return;
+
+        const cell = (element.content as TableContent).rows[row]?.cells[column];
+        if (!cell) return;
+
+        const previousState = this.cloneElement(element);
+        cell.paragraphs = paragraphsFromText(newText, cell.paragraphs);
+        cell.text = newText;
+
+        this.recordChange('update', elementId, slide.id, previousState, this.cloneElement(element), `Updated table cell (${row + 1}, ${column + 1}): "${newText}"`);
+    }
+
+    // Change the current slide's background
+    updateSlideBackground(background: SlideBackground): void {
+        if (!this.document) return;
+
+        const slide = this.getCurrentSlide();
+        if (!slide) return;
+
+        const previousState = slide.background ? structuredClone(slide.background) : undefined;
+        slide.background = structuredClone(background);
+
+        this.recordChange('update', '', slide.id, previousState, structuredClone(background), `Changed slide background to ${background.type}`, 'background');
+    }
+
+    // Speaker notes of the current slide, as plain text
+    getSlideNotes(): string {
+        return this.getCurrentSlide()?.notes?.text || '';
+    }
+
+    // Replace the current slide's speaker notes; unchanged lines keep their formatting
+    updateSlideNotes(text: string): void {
+        if (!this.document) return;
+
+        const slide = this.getCurrentSlide();
+        if (!slide || (slide.notes?.text || '') === text) return;
+
+        const previousState = slide.notes ? structuredClone(slide.notes) : undefined;
+        const paragraphs = paragraphsFromText(text, slide.notes?.paragraphs);
+        slide.notes = { text: paragraphsToText(paragraphs), paragraphs };
+
+        this.recordChange('update', '', slide.id, previousState, structuredClone(slide.notes), 'Updated speaker notes', 'notes');
+    }
+
+    // Replace the current slide's notes with formatted paragraphs
+    updateSlideNotesParagraphs(paragraphs: TextParagraph[]): void {
+        if (!this.document) return;
+
+        const slide = this.getCurrentSlide();
+        if (!slide) return;
+
+        const previousState = slide.notes ? structuredClone(slide.notes) : undefined;
+        slide.notes = { text: paragraphsToText(paragraphs), paragraphs: structuredClone(paragraphs) };
+
+        this.recordChange('update', '', slide.id, previousState, structuredClone(slide.notes), 'Updated speaker notes formatting', 'notes');
+    }
+
+    // Hide a slide from (or show it again in) slide show
+    setSlideHidden(slideId: string, hidden: boolean): void {
+        if (!this.document) return;
+
+        const slide = this.document.slides.find(s => s.id === slideId);
+        if (!slide || !!slide.hidden === hidden) return;
+
+        const previousState = slide.hidden;
+        slide.hidden = hidden;
+
+        this.recordChange('update', '', slide.id, previousState, hidden, `${hidden ? 'Hid' : 'Showed'} slide ${slide.slideNumber}`, 'hidden');
+    }
+
+    // The deck's sections, each with its slides in order
+    getSections(): SlideSection[] {
+        return structuredClone(this.document?.sections || []);
+    }
+
+    // Start a new section at a slide (the current one by default), like PowerPoint's Add Section: the slides
+    // from there to the end of their section move into it. Returns the new section's id.
+    addSection(name: string, firstSlideId?: string): string | null {
+        if (!this.document) return null;
+
+        const slideId = firstSlideId || this.getCurrentSlide()?.id;
+        const id = newGuid();
+        this.editSections(sections => {
+            // Slides before the first section are kept in a default one, as in PowerPoint
+            const addedDefault = sections.length === 0 && this.document!.slides.length > 0;
+            if (addedDefault) {
+                sections.push({ id: newGuid(), name: 'Default Section', slideIds: this.document!.slides.map(slide => slide.id) });
+            }
+
+            const owner = sections.find(section => !!slideId && section.slideIds.includes(slideId));
+            if (!owner) {
+                sections.push({ id, name, slideIds: [] });
+                return;
+            }
+
+            const slideIds = owner.slideIds.splice(owner.slideIds.indexOf(slideId!));
+            sections.splice(sections.indexOf(owner) + 1, 0, { id, name, slideIds });
+            if (addedDefault && owner.slideIds.length === 0) {
+                sections.splice(sections.indexOf(owner), 1);
+            }
+        }, `Added section "${name}"`);
+
+        return id;
+    }
+
+    renameSection(sectionId: string, name: string): void {
+        this.editSections(sections => {
+            const section = sections.find(candidate => candidate.id === sectionId);
+            if (!section || section.name === name) return false;
+            section.name = name;
+        }, `Renamed section to "${name}"`);
+    }
+
+    // Remove a section but keep its slides: they join the section before it (or after it, for the
+    // first one). Removing the last section leaves the deck without sections.
+    deleteSection(sectionId: string): void {
+        this.editSections(sections => {
+            const index = sections.findIndex(section => section.id === sectionId);
+            if (index === -1) return false;
+
+            const [section] = sections.splice(index, 1);
+            if (index > 0) {
+                sections[index - 1].slideIds.push(...section.slideIds);
+            } else if (sections.length > 0) {
+                sections[0].slideIds.unshift(...section.slideIds);
+            }
+        }, 'Removed section');
+    }
+
+    // Move a section, with its slides, to another position in the section list
+    moveSection(sectionId: string, toIndex: number): void {
+        this.editSections(sections => {
+            const index = sections.findIndex(section => section.id === sectionId);
+            const target = Math.max(0, Math.min(sections.length - 1, toIndex));
+            if (index === -1 || index === target) return false;
+
+            const [section] = sections.splice(index, 1);
+            sections.splice(target, 0, section);
+        }, 'Moved section');
+    }
+
+    // Move a slide into a section, at the given position among its slides (at the end by default)
+    moveSlideToSection(slideId: string, sectionId: string, position?: number): void {
+        this.editSections(sections => {
+            const target = sections.find(section => section.id === sectionId);
+            const source = sections.find(section => section.slideIds.includes(slideId));
+            if (!target || !source) return false;
+
+            source.slideIds.splice(source.slideIds.indexOf(slideId), 1);
+            const index = position === undefined ? target.slideIds.length : Math.max(0, Math.min(target.slideIds.length, position));
+            target.slideIds.splice(index, 0, slideId);
+        }, 'Moved slide');
+    }
+
+    // Edit a copy of the sections and record it, with the slide order that follows from it, as one
+    // undo step. The edit returns false when there is nothing to do.
+    private editSections(edit: (sections: SlideSection[]) => boolean | void, description: string): void {
+        if (!this.document) return;
+
+        const previousSections = this.document.sections && structuredClone(this.document.sections);
+        const previousOrder = this.document.slides.map(slide => slide.id);
+        const sections = structuredClone(this.document.sections || []);
+        if (edit(sections) === false) return;
+
+        const order = sections.length > 0 ? sections.flatMap(section => section.slideIds) : previousOrder;
+        const orderChanged = order.join('\n') !== previousOrder.join('\n');
+        if (!orderChanged && JSON.stringify(sections) === JSON.stringify(previousSections || [])) return;
+
+        const changes: Array<Omit<ChangeRecord, 'id' | 'timestamp'>> = [{
+            type: 'update',
+            elementId: '',
+            slideId: '',
+            previousState: previousSections,
+            newState: sections.length > 0 ? structuredClone(sections) : undefined,
+            description,
+            property: 'sections'
+        }];
+        if (orderChanged) {
+            changes.push({ type: 'update', elementId: '', slideId: '', previousState: previousOrder, newState: order, description, property: 'slideOrder' });
+        }
+
+        // The current slide stays current wherever it moves to
+        const current = this.getCurrentSlide();
+        if (sections.length > 0) {
+            this.document.sections = sections;
+        } else {
+            delete this.document.sections;
+        }
+        this.document.slides.sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
+        this.document.slides.forEach((slide, index) => slide.slideNumber = index + 1);
+        if (current) this.state.currentSlide = this.document.slides.indexOf(current);
+
+        this.recordChangeGroup(changes, description);
+    }
+
+    // Document properties, including the custom ones
+    getMetadata(): DocumentMetadata | null {
+        return this.document ? structuredClone(this.document.metadata) : null;
+    }
+
+    // Change core document properties (title, author, keywords, ...)
+    updateMetadata(updates: Partial<Omit<DocumentMetadata, 'customProperties' | 'modified'>>): void {
+        this.editMetadata(metadata => {
+            Object.assign(metadata, updates);
+        }, 'Changed document properties');
+    }
+
+    // Add or change a custom property. Without a type, it follows the value: text, whole or
+    // decimal number, yes/no or date.
+    setCustomProperty(name: string, value: CustomProperty['value'], type: CustomProperty['type'] = inferCustomPropertyType(value)): void {
+        // Invalid dates can't be stored
+        if (!name.trim() || (value instanceof Date && isNaN(value.getTime()))) return;
+
+        this.editMetadata(metadata => {
+            const properties = metadata.customProperties = metadata.customProperties || [];
+            const existing = properties.find(property => property.name === name);
+            if (existing) {
+                existing.type = type;
+                existing.value = value;
+            } else {
+                properties.push({ name, type, value });
+            }
+        }, `Set custom property "${name}"`);
+    }
+
+    removeCustomProperty(name: string): void {
+        this.editMetadata(metadata => {
+            const properties = metadata.customProperties || [];
+            const index = properties.findIndex(property => property.name === name);
+            if (index === -1) return false;
+            properties.splice(index, 1);
+        }, `Removed custom property "${name}"`);
+    }
+
+    // Edit a copy of the metadata and record it as one document change, unless nothing changed
+    // or the edit returns false
+    private editMetadata(edit: (metadata: DocumentMetadata) => boolean | void, description: string): void {
+        if (!this.document) return;
+
+        const previousState = structuredClone(this.document.metadata);
+        const metadata = structuredClone(this.document.metadata);
+        if (edit(metadata) === false || JSON.stringify(metadata) === JSON.stringify(previousState)) return;
+
+        this.document.metadata = metadata;
+        this.recordChange('update', '', '', previousState, structuredClone(metadata), description, 'metadata');
+    }
+
+    // Change the slide size of the whole deck. With scaleContent, every element is scaled
+    // (keeping its proportions) and centered so the content fits the new size. Layouts and masters
+    // are not rescaled: placeholders that took their frame from the layout get the scaled frame
+    // written on the slide, and so do footers added later.
+    setSlideSize(width: number, height: number, options: { scaleContent?: boolean; type?: string } = {}): void {
+        if (!this.document) return;
+
+        const previousSize = this.document.slideSize ? { ...this.document.slideSize } : undefined;
+        const newSize: SlideSize = { width, height, type: options.type || 'custom' };
+        const description = `Changed slide size to ${Math.round(width)}x${Math.round(height)}pt`;
+
+        const changes: Array<Omit<ChangeRecord, 'id' | 'timestamp'>> = [{
+            type: 'update',
+            elementId: '',
+            slideId: '',
+            previousState: previousSize,
+            newState: { ...newSize },
+            description,
+            property: 'slideSize'
+        }];
+
+        if (options.scaleContent && previousSize && previousSize.width > 0 && previousSize.height > 0) {
+            const factor = Math.min(width / previousSize.width, height / previousSize.height);
+            const offset = { x: (width - previousSize.width * factor) / 2, y: (height - previousSize.height * factor) / 2 };
+
+            this.document.slides.forEach(slide => {
+                slide.elements.forEach(element => {
+                    const previousState = this.copyForChange(element);
+                    this.scaleElement(element, factor, offset);
+
+                    changes.push({
+                        type: 'update',
+                        elementId: element.id,
+                        slideId: slide.id,
+                        previousState,
+                        newState: this.copyForChange(element),
+                        description: 'Scaled element to the new slide size'
+                    });
+                });
+
+                // The templates footers are added from, so they land where the scaled layout would put them
+                if (slide.footerPlaceholders) {
+                    const previousState = structuredClone(slide.footerPlaceholders);
+                    slide.footerPlaceholders.forEach(element => this.scaleElement(element, factor, offset));
+                    changes.push({
+                        type: 'update',
+                        elementId: '',
+                        slideId: slide.id,
+                        previousState,
+                        newState: structuredClone(slide.footerPlaceholders),
+                        description,
+                        property: 'footerPlaceholders'
+                    });
+                }
+            });
+        }
+
+        this.document.slideSize = newSize;
+        this.recordChangeGroup(changes, description);
+    }
+
+    private scaleElement(element: SlideElement, factor: number, offset: Position): void {
+        element.position = { x: element.position.x * factor + offset.x, y: element.position.y * factor + offset.y };
+        element.size = { width: element.size.width * factor, height: element.size.height * factor };
+        this.scaleElementText(element, factor);
+        this.scaleElementLines(element, factor);
+    }
+
+    // Font sizes follow the content when a slide is scaled
+    private scaleElementText(element: SlideElement, factor: number): void {
+        const scaleParagraphs = (paragraphs: TextParagraph[] | undefined) => paragraphs?.forEach(paragraph => {
+            paragraph.runs.forEach(run => {
+                if (run.style?.fontSize) run.style.fontSize *= factor;
+            });
+        });
+
+        if (element.style?.fontSize) element.style.fontSize *= factor;
+
+        if (element.type === 'group') {
+            (element.content as GroupContent).children.forEach(child => this.scaleElementText(child, factor));
+        } else if (element.type === 'table') {
+            (element.content as TableContent).rows.forEach(row => row.cells.forEach(cell => {
+                if (cell.style?.fontSize) cell.style.fontSize *= factor;
+                scaleParagraphs(cell.paragraphs);
+            }));
+        } else {
+            scaleParagraphs(element.content?.paragraphs);
+        }
+    }
+
+    // Outlines and borders keep their weight relative to the content. A line's endpoints are the
+    // corners of its frame, so they have already moved with it.
+    private scaleElementLines(element: SlideElement, factor: number): void {
+        const { line, borderWidth } = element.style || {};
+        // New style objects, as image and media snapshots share theirs (see copyForChange)
+        if (line?.width !== undefined) {
+            element.style = { ...element.style, line: { ...line, width: line.width * factor } };
+        }
+        if (borderWidth !== undefined) {
+            element.style = { ...element.style, borderWidth: borderWidth * factor };
+        }
 
-        this.recordChange('update', elementId, slide.id, previousState, element, 'Updated element style');
+        if (element.type === 'group') {
+            (element.content as GroupContent).children.forEach(child => this.scaleElementLines(child, factor));
+        }
+    }
+
+    // The deck's Header & Footer settings
+    getHeaderFooter(): HeaderFooterSettings | null {
+        return this.document?.headerFooter ? { ...this.document.headerFooter } : null;
+    }
+
+    // Apply Header & Footer settings to every slide, like PowerPoint's "Apply to All": footer placeholders
+    // are copied from the layout where they are turned on, updated where they exist and removed where turned off
+    setHeaderFooter(settings: Partial<HeaderFooterSettings>): void {
+        if (!this.document) return;
+
+        const previous = this.document.headerFooter;
+        const next: HeaderFooterSettings = {
+            slideNumber: false,
+            footer: false,
+            footerText: '',
+            dateTime: false,
+            hideOnTitleSlide: false,
+            ...previous,
+            ...settings
+        };
+        if (previous && JSON.stringify(previous) === JSON.stringify(next)) return;
+        const description = 'Changed header and footer';
+
+        const changes: Array<Omit<ChangeRecord, 'id' | 'timestamp'>> = [{
+            type: 'update',
+            elementId: '',
+            slideId: '',
+            previousState: previous ? { ...previous } : undefined,
+            newState: { ...next },
+            description,
+            property: 'headerFooter'
+        }];
+
+        this.document.slides.forEach((slide, index) => {
+            const isTitleSlide = slide.elements.some(element => element.placeholder?.type === 'ctrTitle');
+            const shown: { [type: string]: boolean } = { dt: next.dateTime, ftr: next.footer, sldNum: next.slideNumber };
+
+            Object.keys(shown).forEach(type => {
+                const existing = slide.elements.filter(element => element.placeholder?.type === type);
+
+                if (!shown[type] || (next.hideOnTitleSlide && isTitleSlide)) {
+                    existing.forEach(element => {
+                        slide.elements.splice(slide.elements.indexOf(element), 1);
+                        changes.push({ type: 'delete', elementId: element.id, slideId: slide.id, previousState: element, newState: null, description });
+                        if (this.state.selectedElement === element.id) this.deselectElement();
+                    });
+                    return;
+                }
+
+                const runs = this.footerRuns(type, next, index + 1);
+                if (existing.length === 0) {
+                    // Placeholders the layout doesn't have can't be shown on its slides
+                    const template = slide.footerPlaceholders?.find(element => element.placeholder?.type === type);
+                    if (!template) return;
+
+                    const { elementId, shapeId } = this.allocateShapeId(slide);
+                    const element: SlideElement = { ...this.cloneElement(template), id: elementId, shapeId };
+                    this.setFooterRuns(element, runs);
+                    slide.elements.push(element);
+                    changes.push({ type: 'add', elementId, slideId: slide.id, previousState: null, newState: this.cloneElement(element), description });
+                    return;
+                }
+
+                existing.forEach(element => {
+                    const previousState = this.cloneElement(element);
+                    if (!this.setFooterRuns(element, runs)) return;
+                    changes.push({ type: 'update', elementId: element.id, slideId: slide.id, previousState, newState: this.cloneElement(element), description });
+                });
+            });
+        });
+
+        this.document.headerFooter = next;
+        this.recordChangeGroup(changes, description);
+    }
+
+    // What a footer placeholder shows: the footer text, a date (updating or fixed) or the slide number
+    private footerRuns(type: string, settings: HeaderFooterSettings, slideNumber: number): TextRun[] {
+        if (type === 'ftr') return [{ text: settings.footerText }];
+        if (type === 'sldNum') return [{ text: String(slideNumber), field: { type: 'slidenum' } }];
+        if (!settings.dateFormat && settings.fixedDate !== undefined) return [{ text: settings.fixedDate }];
+
+        const format = settings.dateFormat || 'datetime1';
+        return [{ text: formatDateField(format, new Date()), field: { type: format } }];
+    }
+
+    // Put runs into a footer placeholder in the formatting of its first run. Fields of the same
+    // type are kept as they are. Returns whether anything changed.
+    private setFooterRuns(element: SlideElement, runs: TextRun[]): boolean {
+        const content = element.content as TextContent;
+        const current = (content.paragraphs || []).flatMap(paragraph => paragraph.runs);
+        const unchanged = (content.paragraphs || []).length === 1 && current.length === runs.length &&
+            runs.every((run, index) => run.field
+                ? current[index].field?.type === run.field.type
+                : !current[index].field && current[index].text === run.text);
+        if (unchanged) return false;
+
+        const first = content.paragraphs?.[0];
+        const style = first?.runs[0]?.style;
+        const paragraphs: TextParagraph[] = [{
+            ...first,
+            runs: runs.map(run => (style ? { ...run, style: { ...style } } : { ...run }))
+        }];
+        element.content = { ...content, text: paragraphsToText(paragraphs), paragraphs };
+        return true;
+    }
+
+    // Images and media keep sharing their (possibly large) data; everything else is copied deeply
+    private copyForChange(element: SlideElement): SlideElement {
+        return element.type === 'image' || element.type === 'media'
+            ? { ...element, position: { ...element.position }, size: { ...element.size } }
+            : this.cloneElement(element);
     }
 
     // Add a new text element
@@ -180,14 +887,16 @@ export class PPTXEditor {
         const slide = this.getCurrentSlide();
         if (!slide) throw new Error('No current slide');
 
-        const elementId = `text-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        const { elementId, shapeId } = this.allocateShapeId(slide);
 
         const newElement: SlideElement = {
             id: elementId,
             type: 'text',
+            shapeId,
+            name: `TextBox ${parseInt(shapeId) - 1}`,
             position: { x, y },
             size: { width, height },
-            content: { text },
+            content: { text, paragraphs: paragraphsFromText(text) },
             style: {
                 fontSize: 14,
                 fontFamily: 'Arial',
@@ -208,11 +917,13 @@ export class PPTXEditor {
         const slide = this.getCurrentSlide();
         if (!slide) throw new Error('No current slide');
 
-        const elementId = `image-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        const { elementId, shapeId } = this.allocateShapeId(slide);
 
         const newElement: SlideElement = {
             id: elementId,
             type: 'image',
+            shapeId,
+            name: `Picture ${parseInt(shapeId) - 1}`,
             position: { x, y },
             size: { width, height },
             content: {
@@ -228,6 +939,263 @@ export class PPTXEditor {
         return elementId;
     }
 
+    // Add a line from (x1, y1) to (x2, y2), in points. Pass head/tail ends in the style for arrows.
+    addLineElement(x1: number, y1: number, x2: number, y2: number, line: LineStyle = {}): string {
+        if (!this.document) throw new Error('No document loaded');
+
+        const slide = this.getCurrentSlide();
+        if (!slide) throw new Error('No current slide');
+
+        const { elementId, shapeId } = this.allocateShapeId(slide);
+        const lineStyle: LineStyle = { color: '#000000', width: 1, ...line };
+        const content: LineContent = { shapeType: 'straightConnector1' };
+        const isArrow = !!(lineStyle.headEnd || lineStyle.tailEnd);
+
+        const newElement: SlideElement = {
+            id: elementId,
+            type: 'line',
+            shapeId,
+            name: `${isArrow ? 'Straight Arrow Connector' : 'Straight Connector'} ${parseInt(shapeId) - 1}`,
+            position: { x: 0, y: 0 },
+            size: { width: 0, height: 0 },
+            content,
+            style: {
+                line: lineStyle,
+                borderColor: lineStyle.color,
+                borderWidth: lineStyle.width
+            }
+        };
+        this.applyLineEndpoints(newElement, x1, y1, x2, y2);
+
+        slide.elements.push(newElement);
+        this.recordChange('add', elementId, slide.id, null, newElement, isArrow ? 'Added arrow' : 'Added line');
+
+        return elementId;
+    }
+
+    // A p:cNvPr id for a new element on the slide, numbered on from the highest one used so far like
+    // PowerPoint does, and the element id that goes with it
+    private allocateShapeId(slide: PPTXSlide): { elementId: string; shapeId: string } {
+        const next = Math.max(this.lastShapeIds.get(slide.id) || 0, maxShapeId(slide.elements)) + 1;
+        this.lastShapeIds.set(slide.id, next);
+        return { elementId: toElementId(slide.partPath || slide.id, String(next)), shapeId: String(next) };
+    }
+
+    // Move the ends of a line or connector, in points
+    setLineEndpoints(elementId: string, x1: number, y1: number, x2: number, y2: number): void {
+        if (!this.document) return;
+
+        const slide = this.getCurrentSlide();
+        if (!slide) return;
+
+        const element = slide.elements.find(e => e.id === elementId);
+        if (!element || element.type !== 'line') return;
+
+        const previousState = this.cloneElement(element);
+        this.applyLineEndpoints(element, x1, y1, x2, y2);
+        // A moved end no longer sits on the shape it was glued to
+        const content = element.content as LineContent;
+        delete content.startConnection;
+        delete content.endConnection;
+
+        this.recordChange('update', elementId, slide.id, previousState, this.cloneElement(element), 'Moved line ends');
+    }
+
+    // Change part of the outline of a shape, or the stroke of a line. Undefined values remove a setting.
+    updateLineStyle(elementId: string, line: Partial<LineStyle>): void {
+        if (!this.document) return;
+
+        const slide = this.getCurrentSlide();
+        if (!slide) return;
+
+        const element = slide.elements.find(e => e.id === elementId);
+        if (!element) return;
+
+        const previousState = this.cloneElement(element);
+        // Settings the update cleared are dropped, rather than kept as undefined
+        const lineStyle = definedProperties({ ...element.style?.line, ...line });
+        element.style = {
+            ...element.style,
+            line: lineStyle,
+            borderColor: lineStyle.none ? undefined : lineStyle.color,
+            borderWidth: lineStyle.none ? undefined : lineStyle.width
+        };
+
+        this.recordChange('update', elementId, slide.id, previousState, this.cloneElement(element), 'Updated line style');
+    }
+
+    // Lines are stored as a frame between the two points, flipped when they run up or to the left
+    private applyLineEndpoints(element: SlideElement, x1: number, y1: number, x2: number, y2: number): void {
+        element.position = { x: Math.min(x1, x2), y: Math.min(y1, y2) };
+        element.size = { width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+        element.flipH = x2 < x1;
+        element.flipV = y2 < y1;
+    }
+
+    // Crop a picture (null removes the crop). The frame follows the crop, so the visible part of the
+    // picture keeps its size and place on the slide.
+    cropImage(elementId: string, crop: ImageCrop | null): void {
+        if (!this.document) return;
+
+        const slide = this.getCurrentSlide();
+        if (!slide) return;
+
+        const element = slide.elements.find(e => e.id === elementId);
+        if (!element || element.type !== 'image') return;
+
+        const previousState = this.copyForChange(element);
+        const nextCrop = clampCrop(crop || NO_CROP);
+        const { position, size } = croppedFrame(element, nextCrop);
+        // A new content object, as the change records share the old one (see copyForChange)
+        const content: ImageContent = { ...(element.content as ImageContent) };
+
+        element.position = position;
+        element.size = size;
+        if (isCropped(nextCrop)) {
+            content.crop = nextCrop;
+        } else {
+            delete content.crop;
+        }
+        element.content = content;
+
+        this.recordChange('update', elementId, slide.id, previousState, this.copyForChange(element), crop ? 'Cropped picture' : 'Removed picture crop');
+    }
+
+    // Change a picture's transparency (0..1) or recoloring; a null recolor shows the original colors
+    updateImageAdjustments(elementId: string, adjustments: { transparency?: number; recolor?: ImageRecolor | null }): void {
+        if (!this.document) return;
+
+        const slide = this.getCurrentSlide();
+        if (!slide) return;
+
+        const element = slide.elements.find(e => e.id === elementId);
+        if (!element || element.type !== 'image') return;
+
+        const previousState = this.copyForChange(element);
+        const content: ImageContent = { ...(element.content as ImageContent) };
+
+        if (adjustments.transparency !== undefined) {
+            const transparency = Math.min(1, Math.max(0, adjustments.transparency));
+            if (transparency > 0) {
+                content.transparency = transparency;
+            } else {
+                delete content.transparency;
+            }
+        }
+        if (adjustments.recolor !== undefined) {
+            if (adjustments.recolor) {
+                content.recolor = { ...adjustments.recolor };
+            } else {
+                delete content.recolor;
+            }
+        }
+        element.content = content;
+
+        this.recordChange('update', elementId, slide.id, previousState, this.copyForChange(element), 'Adjusted picture');
+    }
+
+    // Insert a video or audio file, with an optional poster frame shown while it isn't playing
+    async addMediaElement(file: File | Blob, x: number, y: number, width: number, height: number, posterDataUrl?: string): Promise<string> {
+        if (!this.document) throw new Error('No document loaded');
+
+        const slide = this.getCurrentSlide();
+        if (!slide) throw new Error('No current slide');
+
+        const mediaDataUrl = await readAsDataUrl(file);
+        const { elementId, shapeId } = this.allocateShapeId(slide);
+        const content: MediaContent = {
+            mediaType: file.type.startsWith('audio/') ? 'audio' : 'video',
+            mimeType: file.type || undefined,
+            mediaDataUrl,
+            imageDataUrl: posterDataUrl,
+            altText: ''
+        };
+
+        const newElement: SlideElement = {
+            id: elementId,
+            type: 'media',
+            shapeId,
+            // PowerPoint names media shapes after their file
+            name: file instanceof File ? file.name : `${content.mediaType === 'audio' ? 'Audio' : 'Video'} ${parseInt(shapeId) - 1}`,
+            position: { x, y },
+            size: { width, height },
+            content,
+            style: {}
+        };
+
+        slide.elements.push(newElement);
+        this.recordChange('add', elementId, slide.id, null, newElement, `Added ${content.mediaType}`);
+
+        return elementId;
+    }
+
+    // Swap the video or audio of a media element for another file. Trimming belonged to the old
+    // media and is dropped; the poster frame and looping stay.
+    async replaceMedia(elementId: string, file: File | Blob): Promise<void> {
+        if (!this.document) return;
+
+        const slide = this.getCurrentSlide();
+        if (!slide) return;
+
+        const element = slide.elements.find(e => e.id === elementId);
+        if (!element || element.type !== 'media') return;
+
+        const mediaDataUrl = await readAsDataUrl(file);
+        const previousState = this.cloneElement(element);
+        const content = element.content as MediaContent;
+
+        content.mediaType = file.type.startsWith('audio/') ? 'audio' : 'video';
+        content.mimeType = file.type || undefined;
+        content.mediaDataUrl = mediaDataUrl;
+        delete content.mediaPath;
+        delete content.mediaUrl;
+        delete content.trimStart;
+        delete content.trimEnd;
+
+        this.recordChange('update', elementId, slide.id, previousState, this.cloneElement(element), `Replaced ${content.mediaType}`);
+    }
+
+    // Change trimming (milliseconds) and looping of a media element; undefined values are left as they are
+    updateMediaPlayback(elementId: string, playback: { trimStart?: number; trimEnd?: number; loop?: boolean }): void {
+        if (!this.document) return;
+
+        const slide = this.getCurrentSlide();
+        if (!slide) return;
+
+        const element = slide.elements.find(e => e.id === elementId);
+        if (!element || element.type !== 'media') return;
+
+        const previousState = this.cloneElement(element);
+        const content = element.content as MediaContent;
+
+        (['trimStart', 'trimEnd'] as const).forEach(key => {
+            const value = playback[key];
+            if (value === undefined) return;
+            if (value > 0) {
+                content[key] = value;
+            } else {
+                delete content[key];
+            }
+        });
+        if (playback.loop !== undefined) {
+            if (playback.loop) {
+                content.loop = true;
+            } else {
+                delete content.loop;
+            }
+        }
+
+        this.recordChange('update', elementId, slide.id, previousState, this.cloneElement(element), 'Changed media playback');
+    }
+
+    // Take a video or audio off the slide
+    removeMedia(elementId: string): void {
+        const element = this.getCurrentSlide()?.elements.find(e => e.id === elementId);
+        if (element?.type !== 'media') return;
+
+        this.deleteElement(elementId);
+    }
+
     // Delete an element
     deleteElement(elementId: string): void {
         if (!this.document) return;
@@ -326,6 +1294,11 @@ export class PPTXEditor {
         return this.changeTracker.getChangeSummary();
     }
 
+    // Deep copy for change records, so later edits don't leak into the recorded states
+    private cloneElement(element: SlideElement): SlideElement {
+        return structuredClone(element);
+    }
+
     // Update internal state
     private updateState(): void {
         this.state.changes = this.changeTracker.getChangeHistory();
@@ -340,11 +1313,20 @@ export class PPTXEditor {
         slideId: string,
         previousState: any,
         newState: any,
-        description: string
+        description: string,
+        property?: string
     ): void {
         if (!this.options.enableUndoRedo) return;
 
-        this.changeTracker.recordChange(type, elementId, slideId, previousState, newState, description);
+        this.changeTracker.recordChange(type, elementId, slideId, previousState, newState, description, property);
+        this.updateState();
+    }
+
+    // Record several changes as a single undo step
+    private recordChangeGroup(changes: Array<Omit<ChangeRecord, 'id' | 'timestamp'>>, description: string): void {
+        if (!this.options.enableUndoRedo) return;
+
+        this.changeTracker.recordChangeGroup(changes, description);
         this.updateState();
     }
 
@@ -371,13 +1353,19 @@ export class PPTXEditor {
 
                 // Restore changes
                 parsed.changes.forEach((change: ChangeRecord) => {
+                    if (change.changes) {
+                        this.changeTracker.recordChangeGroup(change.changes, change.description);
+                        return;
+                    }
+
                     this.changeTracker.recordChange(
                         change.type,
                         change.elementId,
                         change.slideId,
                         change.previousState,
                         change.newState,
-                        change.description
+                        change.description,
+                        change.property
                     );
                 });
 
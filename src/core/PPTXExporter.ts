@@ -1,15 +1,307 @@
 import JSZip from 'jszip';
-import { PPTXDocument, PPTXSlide, SlideElement } from '../types';
+import { PPTXDocument, PPTXSlide, SlideElement, Position, Size, SlideBackground, GradientFill, SlideSize, GroupContent, TableContent, TextContent, TextParagraph, TextRunStyle, TextBullet, Hyperlink, ShapeFill, LineStyle, LineEnd, LineContent, ShapeEffects, ShadowEffect, ImageContent, MediaContent, TextBodyProperties, TextSpacing, DocumentMetadata, SlideSection } from '../types';
+import { paragraphsFromText } from './RichText';
+import { fieldText } from './Fields';
+import { newGuid, P14_NS, MEDIA_EXTENSION_URI, SECTION_LIST_URI, SLIDE_JUMP_ACTION, MEDIA_ACTION } from './Ooxml';
+import { CUSTOM_PROPERTY_TAGS, customPropertyText, customPropertyType, toW3CDTF } from './DocumentProperties';
+
+const DRAWINGML_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const PRESENTATIONML_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CONTENT_TYPES_NS = 'http://schemas.openxmlformats.org/package/2006/content-types';
+const CORE_PROPERTIES_NS = 'http://schemas.openxmlformats.org/package/2006/metadata/core-properties';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const DCTERMS_NS = 'http://purl.org/dc/terms/';
+const XSI_NS = 'http://www.w3.org/2001/XMLSchema-instance';
+const CUSTOM_PROPERTIES_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/custom-properties';
+const VT_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes';
+
+const IMAGE_RELATIONSHIP = `${RELATIONSHIPS_NS}/image`;
+const SLIDE_RELATIONSHIP = `${RELATIONSHIPS_NS}/slide`;
+const NOTES_SLIDE_RELATIONSHIP = `${RELATIONSHIPS_NS}/notesSlide`;
+const NOTES_MASTER_RELATIONSHIP = `${RELATIONSHIPS_NS}/notesMaster`;
+const THEME_RELATIONSHIP = `${RELATIONSHIPS_NS}/theme`;
+const HYPERLINK_RELATIONSHIP = `${RELATIONSHIPS_NS}/hyperlink`;
+const VIDEO_RELATIONSHIP = `${RELATIONSHIPS_NS}/video`;
+const AUDIO_RELATIONSHIP = `${RELATIONSHIPS_NS}/audio`;
+const MEDIA_RELATIONSHIP = 'http://schemas.microsoft.com/office/2007/relationships/media';
+const CORE_PROPERTIES_RELATIONSHIP = 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties';
+const CUSTOM_PROPERTIES_RELATIONSHIP = `${RELATIONSHIPS_NS}/custom-properties`;
+
+// Black 1x1 PNG, the poster frame of media inserted without one
+const BLANK_POSTER = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGNgYGAAAAAEAAH2FzhVAAAAAElFTkSuQmCC';
+
+const NOTES_SLIDE_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.notesSlide+xml';
+const NOTES_MASTER_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.notesMaster+xml';
+const THEME_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.theme+xml';
+const CORE_PROPERTIES_CONTENT_TYPE = 'application/vnd.openxmlformats-package.core-properties+xml';
+const CUSTOM_PROPERTIES_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.custom-properties+xml';
+
+// The format id every custom property is stored under
+const CUSTOM_PROPERTY_FMTID = '{D5CDD505-2E9C-101B-9397-08002B2CF9AE}';
+
+// Core properties and the core.xml elements they are written to
+const CORE_PROPERTIES: Array<[keyof DocumentMetadata, string, string]> = [
+    ['title', 'dc:title', DC_NS],
+    ['subject', 'dc:subject', DC_NS],
+    ['author', 'dc:creator', DC_NS],
+    ['keywords', 'cp:keywords', CORE_PROPERTIES_NS],
+    ['description', 'dc:description', DC_NS],
+    ['lastModifiedBy', 'cp:lastModifiedBy', CORE_PROPERTIES_NS],
+    ['revision', 'cp:revision', CORE_PROPERTIES_NS],
+    ['category', 'cp:category', CORE_PROPERTIES_NS],
+    ['created', 'dcterms:created', DCTERMS_NS]
+];
+
+const PART_NAMESPACES = `xmlns:a="${DRAWINGML_NS}" xmlns:r="${RELATIONSHIPS_NS}" xmlns:p="${PRESENTATIONML_NS}"`;
+
+// Placeholders of a notes page: the slide thumbnail and the notes text below it
+const notesShapes = (withFrames: boolean): string =>
+    '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/>' +
+    '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg" idx="2"/></p:nvPr></p:nvSpPr>' +
+    (withFrames ? '<p:spPr><a:xfrm><a:off x="685800" y="1143000"/><a:ext cx="5486400" cy="3086100"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>' : '<p:spPr/>') +
+    '</p:sp>' +
+    '<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" sz="quarter" idx="3"/></p:nvPr></p:nvSpPr>' +
+    (withFrames ? '<p:spPr><a:xfrm><a:off x="685800" y="4400550"/><a:ext cx="5486400" cy="3600450"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>' : '<p:spPr/>') +
+    '<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="en-US"/></a:p></p:txBody></p:sp>';
+
+const MEDIA_EXTENSIONS: { [mimeType: string]: string } = {
+    'image/png': 'png', 'image/jpeg': 'jpeg', 'image/gif': 'gif', 'image/bmp': 'bmp',
+    'image/svg+xml': 'svg', 'image/tiff': 'tiff', 'image/webp': 'webp', 'image/x-emf': 'emf', 'image/x-wmf': 'wmf',
+    'video/mp4': 'mp4', 'video/quicktime': 'mov', 'video/x-ms-wmv': 'wmv', 'video/x-msvideo': 'avi', 'video/webm': 'webm',
+    'video/mpeg': 'mpg', 'video/ogg': 'ogv',
+    'audio/mpeg': 'mp3', 'audio/mp4': 'm4a', 'audio/x-m4a': 'm4a', 'audio/wav': 'wav', 'audio/x-wav': 'wav', 'audio/x-ms-wma': 'wma',
+    'audio/aac': 'aac', 'audio/ogg': 'ogg', 'audio/flac': 'flac', 'audio/midi': 'mid',
+    'application/octet-stream': 'bin'
+};
+
+// XMLSerializer drops the XML declaration, which Office expects to find
+const serializeXML = (xmlDoc: Document, originalXml: string): string => {
+    const declaration = originalXml.match(/^\s*<\?xml[^>]*\?>/)?.[0].trim();
+    const body = new XMLSerializer().serializeToString(xmlDoc);
+    return declaration && !body.startsWith('<?xml') ? `${declaration}\n${body}` : body;
+};
+
+const ALIGNMENT_VALUES: { [key: string]: string } = { left: 'l', center: 'ctr', right: 'r', justify: 'just' };
+const ANCHOR_VALUES: { [key: string]: string } = { top: 't', middle: 'ctr', bottom: 'b' };
+
+// p:spPr children that the schema places after the fill
+const SPPR_AFTER_FILL = ['a:ln', 'a:effectLst', 'a:effectDag', 'a:scene3d', 'a:sp3d', 'a:extLst'];
+
+const FILL_TAGS = ['a:noFill', 'a:solidFill', 'a:gradFill', 'a:blipFill', 'a:pattFill', 'a:grpFill'];
+
+// Children of a:ln, in schema order
+const LINE_JOIN_TAGS = ['a:round', 'a:bevel', 'a:miter'];
+const LN_AFTER_FILL = ['a:prstDash', 'a:custDash', ...LINE_JOIN_TAGS, 'a:headEnd', 'a:tailEnd', 'a:extLst'];
+const LN_AFTER_DASH = [...LINE_JOIN_TAGS, 'a:headEnd', 'a:tailEnd', 'a:extLst'];
+const LN_AFTER_JOIN = ['a:headEnd', 'a:tailEnd', 'a:extLst'];
+const SPPR_AFTER_LINE = ['a:effectLst', 'a:effectDag', 'a:scene3d', 'a:sp3d', 'a:extLst'];
+const SPPR_AFTER_EFFECTS = ['a:effectDag', 'a:scene3d', 'a:sp3d', 'a:extLst'];
+
+// Children of a:effectLst, in schema order
+const EFFECT_TAGS = ['a:blur', 'a:fillOverlay', 'a:glow', 'a:innerShdw', 'a:outerShdw', 'a:prstShdw', 'a:reflection', 'a:softEdge'];
+
+// Children of a:blip, in schema order
+const BLIP_EFFECT_TAGS = [
+    'a:alphaBiLevel', 'a:alphaCeiling', 'a:alphaFloor', 'a:alphaInv', 'a:alphaMod', 'a:alphaModFix', 'a:alphaRepl', 'a:biLevel',
+    'a:blur', 'a:clrChange', 'a:clrRepl', 'a:duotone', 'a:fillOverlay', 'a:grayscl', 'a:hsl', 'a:lum', 'a:tint', 'a:extLst'
+];
+const BLIPFILL_AFTER_SRCRECT = ['a:tile', 'a:stretch'];
+
+const COLOR_TAGS = ['a:scrgbClr', 'a:srgbClr', 'a:hslClr', 'a:sysClr', 'a:schemeClr', 'a:prstClr'];
+
+const BULLET_TAGS = [
+    'a:buClrTx', 'a:buClr', 'a:buSzTx', 'a:buSzPct', 'a:buSzPts',
+    'a:buFontTx', 'a:buFont', 'a:buNone', 'a:buAutoNum', 'a:buChar', 'a:buBlip'
+];
+
+// a:pPr children that the schema places after the bullet properties
+const PPR_AFTER_BULLET = ['a:tabLst', 'a:defRPr', 'a:extLst'];
+const PPR_SPACING: Array<['lineSpacing' | 'spaceBefore' | 'spaceAfter', string]> = [
+    ['lineSpacing', 'a:lnSpc'], ['spaceBefore', 'a:spcBef'], ['spaceAfter', 'a:spcAft']
+];
+
+// a:bodyPr children that the schema places after the autofit choice
+const AUTOFIT_TAGS = ['a:noAutofit', 'a:normAutofit', 'a:spAutoFit'];
+const BODYPR_AFTER_AUTOFIT = ['a:scene3d', 'a:sp3d', 'a:flatTx', 'a:extLst'];
+
+// a:rPr children that the schema places after the fill and after a:latin
+const RPR_AFTER_LATIN = ['a:ea', 'a:cs', 'a:sym', 'a:hlinkClick', 'a:hlinkMouseOver', 'a:rtl', 'a:extLst'];
+const RPR_AFTER_HYPERLINK = ['a:hlinkMouseOver', 'a:rtl', 'a:extLst'];
+const RPR_AFTER_FILL = ['a:effectLst', 'a:effectDag', 'a:highlight', 'a:uLnTx', 'a:uLn', 'a:uFillTx', 'a:uFill', 'a:latin', ...RPR_AFTER_LATIN];
+
+// Points back to EMU: 1 point = 12700 EMU
+const toEmu = (points: number): number => Math.round(points * 12700);
+
+// An attribute of a:bodyPr, a:pPr or a:rPr and how it's written from the property it holds, with format typed per property
+interface XmlAttribute<T> {
+    key: keyof T;
+    attribute: string;
+    format: (properties: T) => string;
+}
+
+const attributeOf = <T>() => <K extends keyof T>(
+    key: K, attribute: string, format: (value: NonNullable<T[K]>) => string
+): XmlAttribute<T> => ({ key, attribute, format: properties => format(properties[key]!) });
+
+const bodyAttribute = attributeOf<TextBodyProperties>();
+const paragraphAttribute = attributeOf<TextParagraph>();
+const runAttribute = attributeOf<TextRunStyle>();
+
+const BODY_ATTRIBUTES = [
+    bodyAttribute('leftInset', 'lIns', value => String(toEmu(value))),
+    bodyAttribute('topInset', 'tIns', value => String(toEmu(value))),
+    bodyAttribute('rightInset', 'rIns', value => String(toEmu(value))),
+    bodyAttribute('bottomInset', 'bIns', value => String(toEmu(value))),
+    bodyAttribute('anchor', 'anchor', value => ANCHOR_VALUES[value]),
+    bodyAttribute('wrap', 'wrap', value => value ? 'square' : 'none'),
+    bodyAttribute('vertical', 'vert', value => value),
+    bodyAttribute('columns', 'numCol', value => String(value)),
+    bodyAttribute('columnSpacing', 'spcCol', value => String(toEmu(value)))
+];
+
+const PARAGRAPH_ATTRIBUTES = [
+    paragraphAttribute('alignment', 'algn', value => ALIGNMENT_VALUES[value]),
+    paragraphAttribute('level', 'lvl', value => String(value)),
+    paragraphAttribute('marginLeft', 'marL', value => String(toEmu(value))),
+    paragraphAttribute('indent', 'indent', value => String(toEmu(value)))
+];
+
+const RUN_ATTRIBUTES = [
+    runAttribute('bold', 'b', value => (value ? '1' : '0')),
+    runAttribute('italic', 'i', value => (value ? '1' : '0')),
+    runAttribute('underline', 'u', value => (value ? 'sng' : 'none')),
+    runAttribute('strike', 'strike', value => (value ? 'sngStrike' : 'noStrike')),
+    runAttribute('fontSize', 'sz', value => String(Math.round(value * 100))),
+    runAttribute('baseline', 'baseline', value => String(Math.round(value * 1000)))
+];
 
 export class PPTXExporter {
     private zip: JSZip;
     private originalZip: JSZip;
     private document: PPTXDocument;
+    // Text bodies as they were loaded, so export only rewrites the ones that were edited
+    private originalParagraphs: Map<string, TextParagraph[]>;
+    // Frames as loaded; placeholders without an xfrm got theirs from the layout
+    private originalFrames: Map<string, { position: Position; size: Size }>;
+    private originalBackgrounds: Map<string, SlideBackground | undefined>;
+    private originalSlideSize?: SlideSize;
+    private originalSlideOrder: string[];
+    private originalSections: SlideSection[];
+    private originalNotes: Map<string, TextParagraph[] | undefined>;
+    private originalHidden: Map<string, boolean>;
+    private originalMetadata: DocumentMetadata;
+    private originalHyperlinks: Map<string, Hyperlink | undefined>;
+    private originalFills: Map<string, ShapeFill | undefined>;
+    private originalLines: Map<string, LineStyle | undefined>;
+    private originalEffects: Map<string, ShapeEffects | undefined>;
+    private originalBodies: Map<string, TextBodyProperties>;
+    private originalPictures: Map<string, string>;
+    private originalMedia: Map<string, MediaContent>;
+    // Each slide's top-level shapes as loaded, to find the ones deleted since
+    private originalShapes: Map<string, Array<{ elementId: string; shapeId: string }>>;
+    // Frames of the layout's footer placeholders by slide and type, as the layout has them
+    private originalFooterFrames: Map<string, { position: Position; size: Size }>;
+    // Which of the slide's shapes with its p:cNvPr id each element was loaded from, in document
+    // order, the order the parser lists them in. Ids should be unique on a slide, but shapes copied
+    // by other tools sometimes share one.
+    private originalOccurrences: Map<string, number>;
+    // Relationship ids of the hyperlink targets of the part being written, see prepareHyperlinks
+    private hyperlinkRelationships: Map<string, string> = new Map();
+    // Relationship ids of changed picture fills by data URL, see prepareFillImages
+    private fillImageRelationships: Map<string, string> = new Map();
+    // Relationship ids of new or replaced media by element id, see prepareMedia
+    private mediaRelationships: Map<string, { media: string; link: string; poster?: string }> = new Map();
+    // Id of the slide being written, see snapshotKey
+    private slideId = '';
 
     constructor(originalZip: JSZip, document: PPTXDocument) {
         this.zip = new JSZip();
         this.originalZip = originalZip;
         this.document = document;
+        this.originalParagraphs = new Map();
+        this.originalFrames = new Map();
+        this.originalHyperlinks = new Map();
+        this.originalFills = new Map();
+        this.originalLines = new Map();
+        this.originalEffects = new Map();
+        this.originalBodies = new Map();
+        this.originalPictures = new Map();
+        this.originalMedia = new Map();
+        this.originalOccurrences = new Map();
+        this.originalFooterFrames = new Map();
+        for (const slide of document.slides) {
+            this.snapshotParagraphs(slide.id, slide.elements);
+            slide.footerPlaceholders?.forEach(footer => this.originalFooterFrames.set(
+                this.snapshotKey(footer.placeholder?.type || '', slide.id),
+                { position: { ...footer.position }, size: { ...footer.size } }
+            ));
+            const occurrences = new Map<string, number>();
+            for (const element of this.collectElements(slide.elements)) {
+                const key = this.snapshotKey(element.id, slide.id);
+                if (element.originalData && element.shapeId) {
+                    const occurrence = occurrences.get(element.shapeId) || 0;
+                    occurrences.set(element.shapeId, occurrence + 1);
+                    this.originalOccurrences.set(key, occurrence);
+                }
+                this.originalFrames.set(key, { position: { ...element.position }, size: { ...element.size } });
+                this.originalHyperlinks.set(key, element.hyperlink && { ...element.hyperlink });
+                this.originalFills.set(key, this.getFill(element));
+                this.originalLines.set(key, this.getLine(element));
+                this.originalEffects.set(key, element.style?.effects && structuredClone(element.style.effects));
+                this.originalBodies.set(key, { ...element.content?.body });
+                if (element.type === 'image' || element.type === 'media') {
+                    this.originalPictures.set(key, this.getPictureAdjustments(element));
+                }
+                if (element.type === 'media') {
+                    this.originalMedia.set(key, this.getMediaSettings(element));
+                }
+            }
+        }
+        this.originalSlideSize = document.slideSize && { ...document.slideSize };
+        this.originalSlideOrder = document.slides.map(slide => slide.id);
+        this.originalSections = structuredClone(document.sections || []);
+        this.originalBackgrounds = new Map(document.slides.map(slide => [slide.id, slide.background && { ...slide.background }]));
+        this.originalShapes = new Map(document.slides.map(slide => [
+            slide.id,
+            slide.elements
+                .filter(element => element.originalData && element.shapeId)
+                .map(element => ({ elementId: element.id, shapeId: element.shapeId! }))
+        ]));
+        this.originalHidden = new Map(document.slides.map(slide => [slide.id, !!slide.hidden]));
+        this.originalNotes = new Map(document.slides.map(slide => [slide.id, slide.notes && structuredClone(slide.notes.paragraphs)]));
+        this.originalMetadata = structuredClone(document.metadata);
+    }
+
+    // Elements including the children of groups
+    private collectElements(elements: SlideElement[]): SlideElement[] {
+        return elements.flatMap(element => element.type === 'group'
+            ? [element, ...this.collectElements((element.content as GroupContent).children)]
+            : [element]);
+    }
+
+    private snapshotParagraphs(slideId: string, elements: SlideElement[]): void {
+        for (const element of elements) {
+            if (element.type === 'group') {
+                this.snapshotParagraphs(slideId, (element.content as GroupContent).children);
+            } else if (element.type === 'table') {
+                (element.content as TableContent).rows.forEach((row, rowIndex) => {
+                    row.cells.forEach((cell, cellIndex) => {
+                        if (cell.paragraphs) {
+                            this.originalParagraphs.set(this.snapshotKey(`${element.id}:${rowIndex}:${cellIndex}`, slideId), structuredClone(cell.paragraphs));
+                        }
+                    });
+                });
+            } else if (element.content?.paragraphs) {
+                this.originalParagraphs.set(this.snapshotKey(element.id, slideId), structuredClone(element.content.paragraphs));
+            }
+        }
+    }
+
+    // Element snapshots are keyed by slide as well, so that equal element ids on different slides can't collide
+    private snapshotKey(elementId: string, slideId: string = this.slideId): string {
+        return `${slideId}/${elementId}`;
     }
 
     async exportPPTX(): Promise<Blob> {
@@ -20,6 +312,9 @@ export class PPTXExporter {
             // Update slides with edited content
             await this.updateSlides();
 
+            // Update deck-wide settings in presentation.xml
+            await this.updatePresentation();
+
             // Update presentation metadata
             await this.updateMetadata();
 
@@ -33,6 +328,9 @@ export class PPTXExporter {
     }
 
     private async copyOriginalStructure(): Promise<void> {
+        // Start from a fresh package, so parts added by an earlier export don't linger
+        this.zip = new JSZip();
+
         // Copy all files from the original ZIP
         const files = this.originalZip.files;
 
@@ -50,10 +348,137 @@ export class PPTXExporter {
         }
     }
 
+    private async updatePresentation(): Promise<void> {
+        try {
+            const presentationPath = 'ppt/presentation.xml';
+            const originalXml = await this.zip.file(presentationPath)?.async('string');
+            if (!originalXml) return;
+
+            const xmlDoc = new DOMParser().parseFromString(originalXml, 'text/xml');
+            let changed = false;
+
+            const slideSize = this.document.slideSize;
+            if (slideSize && JSON.stringify(slideSize) !== JSON.stringify(this.originalSlideSize)) {
+                this.updateSlideSize(xmlDoc, slideSize);
+                changed = true;
+            }
+
+            const order = this.document.slides.map(slide => slide.id);
+            const sections = this.document.sections || [];
+            const orderChanged = order.join('\n') !== this.originalSlideOrder.join('\n');
+            if (orderChanged || JSON.stringify(sections) !== JSON.stringify(this.originalSections)) {
+                const slideIdNodes = await this.getSlideIdNodes(xmlDoc);
+                if (orderChanged) {
+                    this.updateSlideOrder(xmlDoc, slideIdNodes);
+                }
+                this.updateSections(xmlDoc, sections, slideIdNodes);
+                changed = true;
+            }
+
+            if (changed) {
+                this.zip.file(presentationPath, serializeXML(xmlDoc, originalXml));
+            }
+        } catch (error) {
+            console.warn('Warning: Could not update presentation.xml:', error);
+        }
+    }
+
+    // The p:sldId entry of each slide, by slide id
+    private async getSlideIdNodes(xmlDoc: Document): Promise<Map<string, Element>> {
+        const relsXml = await this.zip.file(this.getRelsPath('ppt/presentation.xml'))?.async('string');
+        const relationships = relsXml ? Array.from(new DOMParser().parseFromString(relsXml, 'text/xml').getElementsByTagName('Relationship')) : [];
+        const sldIdLst = this.getChild(xmlDoc.documentElement, 'p:sldIdLst');
+
+        const nodes = new Map<string, Element>();
+        (sldIdLst ? this.getChildren(sldIdLst, 'p:sldId') : []).forEach(sldId => {
+            const target = relationships.find(rel => rel.getAttribute('Id') === sldId.getAttribute('r:id'))?.getAttribute('Target');
+            if (!target) return;
+            const partPath = target.startsWith('/') ? target.substring(1) : `ppt/${target}`;
+            const slide = this.document.slides.find(candidate => candidate.partPath === partPath);
+            if (slide) nodes.set(slide.id, sldId);
+        });
+        return nodes;
+    }
+
+    // Put p:sldIdLst in the order of the document's slides
+    private updateSlideOrder(xmlDoc: Document, slideIdNodes: Map<string, Element>): void {
+        const sldIdLst = this.getChild(xmlDoc.documentElement, 'p:sldIdLst');
+        if (!sldIdLst) return;
+
+        this.document.slides.forEach(slide => {
+            const sldId = slideIdNodes.get(slide.id);
+            if (sldId) sldIdLst.appendChild(sldId);
+        });
+    }
+
+    // Rewrite the p14:sectionLst extension from the document's sections; a deck without sections loses it
+    private updateSections(xmlDoc: Document, sections: SlideSection[], slideIdNodes: Map<string, Element>): void {
+        const presentation = xmlDoc.documentElement;
+        let extLst = this.getChild(presentation, 'p:extLst');
+        let ext = extLst ? this.getChildren(extLst, 'p:ext').find(candidate => candidate.getAttribute('uri') === SECTION_LIST_URI) : undefined;
+
+        if (sections.length === 0) {
+            if (extLst && ext) {
+                extLst.removeChild(ext);
+                if (this.getChildren(extLst, 'p:ext').length === 0) presentation.removeChild(extLst);
+            }
+            return;
+        }
+
+        if (!extLst) {
+            // The extension list closes p:presentation
+            extLst = xmlDoc.createElementNS(PRESENTATIONML_NS, 'p:extLst');
+            presentation.appendChild(extLst);
+        }
+        if (!ext) {
+            // PowerPoint lists the sections first
+            ext = xmlDoc.createElementNS(PRESENTATIONML_NS, 'p:ext');
+            ext.setAttribute('uri', SECTION_LIST_URI);
+            extLst.insertBefore(ext, extLst.firstChild);
+        }
+        while (ext.firstChild) ext.removeChild(ext.firstChild);
+
+        const sectionLst = xmlDoc.createElementNS(P14_NS, 'p14:sectionLst');
+        sections.forEach(section => {
+            const sectionNode = xmlDoc.createElementNS(P14_NS, 'p14:section');
+            sectionNode.setAttribute('name', section.name);
+            sectionNode.setAttribute('id', section.id);
+            const slideList = xmlDoc.createElementNS(P14_NS, 'p14:sldIdLst');
+            section.slideIds.forEach(slideId => {
+                const id = slideIdNodes.get(slideId)?.getAttribute('id');
+                if (!id) return;
+                const sldId = xmlDoc.createElementNS(P14_NS, 'p14:sldId');
+                sldId.setAttribute('id', id);
+                slideList.appendChild(sldId);
+            });
+            sectionNode.appendChild(slideList);
+            sectionLst.appendChild(sectionNode);
+        });
+        ext.appendChild(sectionLst);
+    }
+
+    private updateSlideSize(xmlDoc: Document, slideSize: SlideSize): void {
+        const presentation = xmlDoc.documentElement;
+        let sldSz = this.getChild(presentation, 'p:sldSz');
+        if (!sldSz) {
+            // p:sldSz follows the master, notes master, handout master and slide id lists
+            sldSz = xmlDoc.createElementNS(PRESENTATIONML_NS, 'p:sldSz');
+            this.insertChild(presentation, sldSz, ['p:notesSz', 'p:smartTags', 'p:embeddedFontLst', 'p:custShowLst', 'p:photoAlbum', 'p:custDataLst', 'p:kinsoku', 'p:defaultTextStyle', 'p:modifyVerifier', 'p:extLst']);
+        }
+
+        sldSz.setAttribute('cx', String(toEmu(slideSize.width)));
+        sldSz.setAttribute('cy', String(toEmu(slideSize.height)));
+        if (slideSize.type && slideSize.type !== 'custom') {
+            sldSz.setAttribute('type', slideSize.type);
+        } else {
+            sldSz.removeAttribute('type');
+        }
+    }
+
     private async updateSlide(slide: PPTXSlide): Promise<void> {
         try {
-            // Find the slide file path
-            const slidePath = this.findSlidePath(slide.slideNumber);
+            // Slides created in the editor have no part yet
+            const slidePath = slide.partPath;
             if (!slidePath) return;
 
             // Get the original slide XML
@@ -61,60 +486,1533 @@ export class PPTXExporter {
             if (!originalSlideXml) return;
 
             // Parse and update the slide XML
-            const updatedSlideXml = this.updateSlideXML(originalSlideXml, slide);
+            const updatedSlideXml = await this.updateSlideXML(originalSlideXml, slide, slidePath);
 
             // Update the slide file
             this.zip.file(slidePath, updatedSlideXml);
+
+            await this.updateNotes(slide, slidePath);
         } catch (error) {
             console.warn(`Warning: Could not update slide ${slide.slideNumber}:`, error);
         }
     }
 
-    private findSlidePath(slideNumber: number): string | null {
-        // This is a simplified approach - in a real implementation, you'd need to
-        // parse the presentation.xml.rels to find the exact slide paths
-        return `ppt/slides/slide${slideNumber}.xml`;
+    private async updateSlideXML(originalXml: string, slide: PPTXSlide, slidePath: string): Promise<string> {
+        // Edit the slide through the DOM so that untouched markup is preserved as-is
+        const xmlDoc = new DOMParser().parseFromString(originalXml, 'text/xml');
+        this.slideId = slide.id;
+
+        await this.prepareHyperlinks(slidePath, this.collectHyperlinks(slide.elements));
+        await this.prepareFillImages(slidePath, slide.elements);
+        await this.prepareMedia(slidePath, slide.elements);
+        for (const element of slide.elements) {
+            this.updateElementXML(xmlDoc, element);
+        }
+        // After the updates, as removing shapes changes which node of a shared id is which
+        this.removeDeletedElements(xmlDoc, slide);
+        // Lines and media added in the editor don't exist in the slide yet
+        for (const element of slide.elements) {
+            if (element.type === 'line' && !element.originalData) {
+                this.addConnectorNode(xmlDoc, element);
+            } else if (element.type === 'media' && !element.originalData) {
+                this.addMediaNode(xmlDoc, element);
+            } else if (element.placeholder && !element.originalData) {
+                this.addPlaceholderNode(xmlDoc, slide, element);
+            }
+        }
+        this.refreshFields(xmlDoc, this.document.slides.indexOf(slide) + 1);
+
+        if (!!slide.hidden !== this.originalHidden.get(slide.id)) {
+            // show defaults to true, so visible slides simply drop the attribute
+            this.setOptionalAttribute(xmlDoc.documentElement, 'show', slide.hidden ? '0' : null);
+        }
+
+        // Inherited backgrounds stay inherited until they are changed
+        if (!this.backgroundsEqual(slide.background, this.originalBackgrounds.get(slide.id))) {
+            await this.updateBackground(xmlDoc, slide.background, slidePath);
+        }
+
+        return serializeXML(xmlDoc, originalXml);
     }
 
-    private updateSlideXML(originalXml: string, slide: PPTXSlide): string {
-        // This is a simplified XML update - in a real implementation, you'd use
-        // a proper XML parser to maintain the exact structure
+    // Write speaker notes into the slide's notes slide, creating one when the slide had no notes
+    private async updateNotes(slide: PPTXSlide, slidePath: string): Promise<void> {
+        const notes = slide.notes;
+        const original = this.originalNotes.get(slide.id);
+        if (!notes || JSON.stringify(notes.paragraphs) === JSON.stringify(original)) return;
+        if (!slide.notesPath && !notes.text) return;
 
-        let updatedXml = originalXml;
+        const notesPath = slide.notesPath || await this.createNotesSlide(slidePath);
+        const originalXml = await this.zip.file(notesPath)?.async('string');
+        if (!originalXml) return;
 
-        // Update text elements
-        for (const element of slide.elements) {
-            if (element.type === 'text') {
-                updatedXml = this.updateTextElement(updatedXml, element);
-            } else if (element.type === 'image') {
-                updatedXml = this.updateImageElement(updatedXml, element);
-            } else if (element.type === 'shape') {
-                updatedXml = this.updateShapeElement(updatedXml, element);
+        const xmlDoc = new DOMParser().parseFromString(originalXml, 'text/xml');
+        const spTree = xmlDoc.getElementsByTagName('p:spTree')[0];
+        if (!spTree) return;
+
+        let body = this.getChildren(spTree, 'p:sp').find(shape => shape.getElementsByTagName('p:ph')[0]?.getAttribute('type') === 'body');
+        if (!body) {
+            // Borrow the body placeholder from a fresh notes page
+            const template = new DOMParser().parseFromString(`<p:spTree ${PART_NAMESPACES}>${notesShapes(false)}</p:spTree>`, 'text/xml');
+            const templateBody = this.getChildren(template.documentElement, 'p:sp')[1];
+            const usedIds = Array.from(xmlDoc.getElementsByTagName('p:cNvPr')).map(node => parseInt(node.getAttribute('id') || '0', 10));
+            this.getChild(this.getChild(templateBody, 'p:nvSpPr')!, 'p:cNvPr')!.setAttribute('id', String(Math.max(0, ...usedIds) + 1));
+            body = xmlDoc.importNode(templateBody, true) as Element;
+            spTree.appendChild(body);
+        }
+
+        const txBody = this.getChild(body, 'p:txBody') || body.appendChild(xmlDoc.createElementNS(PRESENTATIONML_NS, 'p:txBody')) as Element;
+        if (!this.getChild(txBody, 'a:bodyPr')) {
+            txBody.insertBefore(xmlDoc.createElementNS(DRAWINGML_NS, 'a:bodyPr'), txBody.firstChild);
+        }
+        await this.prepareHyperlinks(notesPath, this.collectRunHyperlinks(notes.paragraphs));
+        this.updateTextBody(txBody, notes, original);
+
+        this.zip.file(notesPath, serializeXML(xmlDoc, originalXml));
+    }
+
+    // Add an empty notes slide for a slide and wire up its relationships; returns its part path
+    private async createNotesSlide(slidePath: string): Promise<string> {
+        const notesMasterPath = await this.ensureNotesMaster();
+
+        let index = 1;
+        while (this.zip.file(`ppt/notesSlides/notesSlide${index}.xml`)) index++;
+        const notesPath = `ppt/notesSlides/notesSlide${index}.xml`;
+
+        this.zip.file(notesPath, '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+            `<p:notes ${PART_NAMESPACES}><p:cSld><p:spTree>${notesShapes(false)}</p:spTree></p:cSld>` +
+            '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>');
+        await this.ensurePartContentType(notesPath, NOTES_SLIDE_CONTENT_TYPE);
+
+        if (notesMasterPath) {
+            await this.addRelationship(notesPath, NOTES_MASTER_RELATIONSHIP, this.getRelativeTarget(notesPath, notesMasterPath));
+        }
+        await this.addRelationship(notesPath, SLIDE_RELATIONSHIP, this.getRelativeTarget(notesPath, slidePath));
+        await this.addRelationship(slidePath, NOTES_SLIDE_RELATIONSHIP, this.getRelativeTarget(slidePath, notesPath));
+
+        return notesPath;
+    }
+
+    // Notes slides need a notes master; decks that never had notes don't have one yet
+    private async ensureNotesMaster(): Promise<string | null> {
+        const presentationPath = 'ppt/presentation.xml';
+        const relsXml = await this.zip.file(this.getRelsPath(presentationPath))?.async('string');
+        const existing = relsXml && Array.from(new DOMParser().parseFromString(relsXml, 'text/xml').getElementsByTagName('Relationship'))
+            .find(rel => rel.getAttribute('Type')?.endsWith('/notesMaster'));
+        if (existing) {
+            const target = existing.getAttribute('Target') || '';
+            return target.startsWith('/') ? target.substring(1) : `ppt/${target}`;
+        }
+
+        const presentationXml = await this.zip.file(presentationPath)?.async('string');
+        if (!presentationXml) return null;
+
+        const notesMasterPath = 'ppt/notesMasters/notesMaster1.xml';
+        this.zip.file(notesMasterPath, '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+            `<p:notesMaster ${PART_NAMESPACES}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${notesShapes(true)}</p:spTree></p:cSld>` +
+            '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/></p:notesMaster>');
+        await this.ensurePartContentType(notesMasterPath, NOTES_MASTER_CONTENT_TYPE);
+
+        // A master owns its theme, so the notes master gets a copy of the deck's theme
+        const themeXml = await this.zip.file('ppt/theme/theme1.xml')?.async('string');
+        if (themeXml) {
+            let index = 1;
+            while (this.zip.file(`ppt/theme/theme${index}.xml`)) index++;
+            const themePath = `ppt/theme/theme${index}.xml`;
+            this.zip.file(themePath, themeXml);
+            await this.ensurePartContentType(themePath, THEME_CONTENT_TYPE);
+            await this.addRelationship(notesMasterPath, THEME_RELATIONSHIP, this.getRelativeTarget(notesMasterPath, themePath));
+        }
+
+        const relationshipId = await this.addRelationship(presentationPath, NOTES_MASTER_RELATIONSHIP, this.getRelativeTarget(presentationPath, notesMasterPath));
+
+        // p:notesMasterIdLst sits right after the slide master list
+        const xmlDoc = new DOMParser().parseFromString(presentationXml, 'text/xml');
+        const idList = xmlDoc.createElementNS(PRESENTATIONML_NS, 'p:notesMasterIdLst');
+        const notesMasterId = xmlDoc.createElementNS(PRESENTATIONML_NS, 'p:notesMasterId');
+        notesMasterId.setAttributeNS(RELATIONSHIPS_NS, 'r:id', relationshipId);
+        idList.appendChild(notesMasterId);
+        this.insertChild(xmlDoc.documentElement, idList, ['p:handoutMasterIdLst', 'p:sldIdLst', 'p:sldSz', 'p:notesSz', 'p:smartTags', 'p:embeddedFontLst', 'p:custShowLst', 'p:photoAlbum', 'p:custDataLst', 'p:kinsoku', 'p:defaultTextStyle', 'p:modifyVerifier', 'p:extLst']);
+        this.zip.file(presentationPath, serializeXML(xmlDoc, presentationXml));
+
+        return notesMasterPath;
+    }
+
+    private collectHyperlinks(elements: SlideElement[]): Hyperlink[] {
+        return this.collectElements(elements).flatMap(element => {
+            const links = element.hyperlink ? [element.hyperlink] : [];
+            if (element.type === 'table') {
+                (element.content as TableContent).rows.forEach(row => row.cells.forEach(cell => {
+                    links.push(...this.collectRunHyperlinks(cell.paragraphs || []));
+                }));
+            } else if (element.content?.paragraphs) {
+                links.push(...this.collectRunHyperlinks(element.content.paragraphs));
+            }
+            return links;
+        });
+    }
+
+    private collectRunHyperlinks(paragraphs: TextParagraph[]): Hyperlink[] {
+        return paragraphs.flatMap(paragraph => paragraph.runs.flatMap(run => run.style?.hyperlink ? [run.style.hyperlink] : []));
+    }
+
+    // URLs and slide jumps go through relationships of the part; find or add one per target up front,
+    // so the (synchronous) DOM writers can look the ids up
+    private async prepareHyperlinks(partPath: string, hyperlinks: Hyperlink[]): Promise<void> {
+        this.hyperlinkRelationships = new Map();
+
+        const relsXml = await this.zip.file(this.getRelsPath(partPath))?.async('string');
+        const relationships = relsXml
+            ? Array.from(new DOMParser().parseFromString(relsXml, 'text/xml').getElementsByTagName('Relationship'))
+            : [];
+
+        for (const hyperlink of hyperlinks) {
+            const key = this.getHyperlinkKey(hyperlink);
+            if (!key || this.hyperlinkRelationships.has(key)) continue;
+
+            const type = hyperlink.url ? HYPERLINK_RELATIONSHIP : SLIDE_RELATIONSHIP;
+            let target = hyperlink.url;
+            if (hyperlink.slideId) {
+                const targetPath = this.document.slides.find(slide => slide.id === hyperlink.slideId)?.partPath;
+                if (!targetPath) continue;
+                target = this.getRelativeTarget(partPath, targetPath);
+            }
+            if (!target) continue;
+
+            const existing = relationships.find(rel => rel.getAttribute('Type') === type && rel.getAttribute('Target') === target);
+            const id = existing?.getAttribute('Id') ||
+                await this.addRelationship(partPath, type, target, hyperlink.url ? 'External' : undefined);
+            this.hyperlinkRelationships.set(key, id);
+        }
+    }
+
+    private getHyperlinkKey(hyperlink: Hyperlink): string | null {
+        if (hyperlink.url) return `url:${hyperlink.url}`;
+        if (hyperlink.slideId) return `slide:${hyperlink.slideId}`;
+        return null;
+    }
+
+    // a:hlinkClick for a link; null when its target (e.g. a deleted slide) can't be written
+    private createHyperlinkNode(doc: Document, hyperlink: Hyperlink): Element | null {
+        const key = this.getHyperlinkKey(hyperlink);
+        const relationshipId = key ? this.hyperlinkRelationships.get(key) : '';
+        if (relationshipId === undefined) return null;
+
+        const hlinkClick = doc.createElementNS(DRAWINGML_NS, 'a:hlinkClick');
+        hlinkClick.setAttributeNS(RELATIONSHIPS_NS, 'r:id', relationshipId);
+        const action = hyperlink.slideId ? SLIDE_JUMP_ACTION : hyperlink.action;
+        if (action) hlinkClick.setAttribute('action', action);
+        if (hyperlink.tooltip) hlinkClick.setAttribute('tooltip', hyperlink.tooltip);
+        return hlinkClick;
+    }
+
+    private backgroundsEqual(a: SlideBackground | undefined, b: SlideBackground | undefined): boolean {
+        if (!a || !b) return a === b;
+        return a.type === b.type && a.value === b.value && JSON.stringify(a.gradient) === JSON.stringify(b.gradient);
+    }
+
+    private async updateBackground(xmlDoc: Document, background: SlideBackground | undefined, slidePath: string): Promise<void> {
+        const cSld = xmlDoc.getElementsByTagName('p:cSld')[0];
+        if (!cSld) return;
+
+        const existing = this.getChild(cSld, 'p:bg');
+        if (existing) cSld.removeChild(existing);
+
+        // Without a background of its own the slide falls back to its layout
+        if (!background) return;
+
+        const fill = await this.createBackgroundFill(xmlDoc, background, slidePath);
+        if (!fill) return;
+
+        const bg = xmlDoc.createElementNS(PRESENTATIONML_NS, 'p:bg');
+        const bgPr = xmlDoc.createElementNS(PRESENTATIONML_NS, 'p:bgPr');
+        bgPr.appendChild(fill);
+        bgPr.appendChild(xmlDoc.createElementNS(DRAWINGML_NS, 'a:effectLst'));
+        bg.appendChild(bgPr);
+        cSld.insertBefore(bg, cSld.firstElementChild);
+    }
+
+    private async createBackgroundFill(doc: Document, background: SlideBackground, slidePath: string): Promise<Element | null> {
+        if (background.type === 'gradient' && background.gradient) {
+            return this.createGradientFill(doc, background.gradient);
+        }
+
+        if (background.type === 'image') {
+            const imagePath = this.findOriginalImagePath(background) || await this.addMediaPart(background.value, 'image');
+            if (!imagePath) return null;
+
+            const relationshipId = await this.addRelationship(slidePath, IMAGE_RELATIONSHIP, this.getRelativeTarget(slidePath, imagePath));
+            return this.createBlipFill(doc, relationshipId);
+        }
+
+        const solidFill = doc.createElementNS(DRAWINGML_NS, 'a:solidFill');
+        solidFill.appendChild(this.createColorNode(doc, background.value));
+        return solidFill;
+    }
+
+    // A stretched picture fill
+    private createBlipFill(doc: Document, relationshipId: string): Element {
+        const blipFill = doc.createElementNS(DRAWINGML_NS, 'a:blipFill');
+        blipFill.setAttribute('dpi', '0');
+        blipFill.setAttribute('rotWithShape', '1');
+        const blip = doc.createElementNS(DRAWINGML_NS, 'a:blip');
+        blip.setAttributeNS(RELATIONSHIPS_NS, 'r:embed', relationshipId);
+        const stretch = doc.createElementNS(DRAWINGML_NS, 'a:stretch');
+        stretch.appendChild(doc.createElementNS(DRAWINGML_NS, 'a:fillRect'));
+        blipFill.appendChild(blip);
+        blipFill.appendChild(doc.createElementNS(DRAWINGML_NS, 'a:srcRect'));
+        blipFill.appendChild(stretch);
+        return blipFill;
+    }
+
+    // The fill an element is drawn with; a bare backgroundColor counts as a solid fill
+    private getFill(element: SlideElement): ShapeFill | undefined {
+        const style = element.style;
+        if (style?.fill) return structuredClone(style.fill);
+        return style?.backgroundColor ? { type: 'solid', color: style.backgroundColor } : undefined;
+    }
+
+    // Picture fills need a relationship (and possibly a new media part) before the DOM is written
+    private async prepareFillImages(partPath: string, elements: SlideElement[]): Promise<void> {
+        this.fillImageRelationships = new Map();
+
+        for (const element of this.collectElements(elements)) {
+            const fill = this.getFill(element);
+            if (fill?.type !== 'image' || !fill.imageDataUrl || this.fillImageRelationships.has(fill.imageDataUrl)) continue;
+            if (JSON.stringify(fill) === JSON.stringify(this.originalFills.get(this.snapshotKey(element.id)))) continue;
+
+            // Pictures that came from the package keep pointing at their media part
+            const fromPackage = Array.from(this.originalFills.values())
+                .some(original => original?.imagePath === fill.imagePath && original?.imageDataUrl === fill.imageDataUrl);
+            const imagePath = (fill.imagePath && fromPackage ? fill.imagePath : null) || await this.addMediaPart(fill.imageDataUrl, 'image');
+            if (!imagePath) continue;
+
+            const relationshipId = await this.addRelationship(partPath, IMAGE_RELATIONSHIP, this.getRelativeTarget(partPath, imagePath));
+            this.fillImageRelationships.set(fill.imageDataUrl, relationshipId);
+        }
+    }
+
+    // Replace the fill in spPr when it differs from the one the element was loaded with
+    private updateFill(spPr: Element | null, element: SlideElement): void {
+        if (!spPr) return;
+
+        const fill = this.getFill(element);
+        if (JSON.stringify(fill) === JSON.stringify(this.originalFills.get(this.snapshotKey(element.id)))) return;
+
+        const fillNode = fill ? this.createShapeFill(spPr.ownerDocument, fill, this.getSchemeColorNode(spPr)) : null;
+        // A fill that can't be written (e.g. a picture that failed to load) leaves the markup alone
+        if (fill && !fillNode) return;
+
+        this.getChildren(spPr, ...FILL_TAGS).forEach(node => spPr.removeChild(node));
+        if (fillNode) {
+            this.insertChild(spPr, fillNode, SPPR_AFTER_FILL);
+        }
+    }
+
+    private createShapeFill(doc: Document, fill: ShapeFill, originalSchemeColor?: Element | null): Element | null {
+        switch (fill.type) {
+            case 'none':
+                return doc.createElementNS(DRAWINGML_NS, 'a:noFill');
+            case 'solid': {
+                if (!fill.color) return null;
+                const solidFill = doc.createElementNS(DRAWINGML_NS, 'a:solidFill');
+                solidFill.appendChild(fill.schemeColor
+                    ? this.createSchemeColorNode(doc, fill.schemeColor, fill.color, originalSchemeColor)
+                    : this.createColorNode(doc, fill.color));
+                return solidFill;
+            }
+            case 'gradient':
+                return fill.gradient ? this.createGradientFill(doc, fill.gradient) : null;
+            case 'pattern': {
+                if (!fill.pattern) return null;
+                const pattFill = doc.createElementNS(DRAWINGML_NS, 'a:pattFill');
+                pattFill.setAttribute('prst', fill.pattern.preset);
+                const fgClr = doc.createElementNS(DRAWINGML_NS, 'a:fgClr');
+                fgClr.appendChild(this.createColorNode(doc, fill.pattern.foreground));
+                const bgClr = doc.createElementNS(DRAWINGML_NS, 'a:bgClr');
+                bgClr.appendChild(this.createColorNode(doc, fill.pattern.background));
+                pattFill.appendChild(fgClr);
+                pattFill.appendChild(bgClr);
+                return pattFill;
+            }
+            case 'image': {
+                const relationshipId = fill.imageDataUrl ? this.fillImageRelationships.get(fill.imageDataUrl) : undefined;
+                return relationshipId ? this.createBlipFill(doc, relationshipId) : null;
+            }
+            default:
+                return null;
+        }
+    }
+
+    // An unchanged image keeps pointing at the media part it was loaded from
+    private findOriginalImagePath(background: SlideBackground): string | undefined {
+        if (!background.imagePath) return undefined;
+
+        for (const original of this.originalBackgrounds.values()) {
+            if (original?.imagePath === background.imagePath && original.value === background.value) {
+                return background.imagePath;
+            }
+        }
+        return undefined;
+    }
+
+    private createGradientFill(doc: Document, gradient: GradientFill): Element {
+        const gradFill = doc.createElementNS(DRAWINGML_NS, 'a:gradFill');
+        gradFill.setAttribute('rotWithShape', '1');
+
+        const gsLst = doc.createElementNS(DRAWINGML_NS, 'a:gsLst');
+        gradient.stops.forEach(stop => {
+            const gs = doc.createElementNS(DRAWINGML_NS, 'a:gs');
+            gs.setAttribute('pos', String(Math.round(stop.position * 100000)));
+            gs.appendChild(this.createColorNode(doc, stop.color));
+            gsLst.appendChild(gs);
+        });
+        gradFill.appendChild(gsLst);
+
+        if (gradient.type === 'radial') {
+            const path = doc.createElementNS(DRAWINGML_NS, 'a:path');
+            path.setAttribute('path', 'circle');
+            const fillToRect = doc.createElementNS(DRAWINGML_NS, 'a:fillToRect');
+            ['l', 't', 'r', 'b'].forEach(side => fillToRect.setAttribute(side, '50000'));
+            path.appendChild(fillToRect);
+            gradFill.appendChild(path);
+        } else {
+            const lin = doc.createElementNS(DRAWINGML_NS, 'a:lin');
+            lin.setAttribute('ang', String(Math.round(gradient.angle * 60000)));
+            lin.setAttribute('scaled', '0');
+            gradFill.appendChild(lin);
+        }
+
+        return gradFill;
+    }
+
+    private updateElementXML(xmlDoc: Document, element: SlideElement): void {
+        const node = this.findShapeNode(xmlDoc, element);
+        if (!node) return;
+
+        if (element.type === 'text') {
+            this.updateTextElement(node, element);
+        } else if (element.type === 'image') {
+            this.updateImageElement(node, element);
+        } else if (element.type === 'shape') {
+            this.updateShapeElement(node, element);
+        } else if (element.type === 'group') {
+            this.updateGroupElement(xmlDoc, node, element);
+        } else if (element.type === 'table') {
+            this.updateTableElement(node, element);
+        } else if (element.type === 'chart') {
+            // The chart itself is in its own part; only the frame is placed on the slide
+            this.updateTransform(node, element, 'p:xfrm');
+        } else if (element.type === 'line') {
+            this.updateLineElement(node, element);
+        } else if (element.type === 'media') {
+            this.updateMediaElement(node, element);
+        }
+
+        if (JSON.stringify(element.hyperlink) !== JSON.stringify(this.originalHyperlinks.get(this.snapshotKey(element.id)))) {
+            this.updateElementHyperlink(node, element.hyperlink);
+        }
+    }
+
+    // Shape-level links live in the non-visual properties: p:nvSpPr/p:cNvPr/a:hlinkClick
+    private updateElementHyperlink(node: Element, hyperlink: Hyperlink | undefined): void {
+        const nvPr = Array.from(node.childNodes).find(
+            (child): child is Element => child.nodeType === Node.ELEMENT_NODE && (child as Element).tagName.startsWith('p:nv')
+        );
+        const cNvPr = nvPr ? this.getChild(nvPr, 'p:cNvPr') : null;
+        if (!cNvPr) return;
+
+        this.getChildren(cNvPr, 'a:hlinkClick').forEach(link => cNvPr.removeChild(link));
+        const hlinkClick = hyperlink ? this.createHyperlinkNode(node.ownerDocument, hyperlink) : null;
+        if (hlinkClick) {
+            this.insertChild(cNvPr, hlinkClick, ['a:hlinkHover', 'a:extLst']);
+        }
+    }
+
+    // Locate the p:sp/p:pic/p:grpSp node of an element through its p:cNvPr id
+    private findShapeNode(xmlDoc: Document, element: SlideElement): Element | null {
+        // Elements added in the editor have no node in the original slide yet
+        const shapeId = element.originalData ? element.shapeId : undefined;
+        return shapeId ? this.findShapeNodeById(xmlDoc, shapeId, this.originalOccurrences.get(this.snapshotKey(element.id))) : null;
+    }
+
+    private findShapeNodeById(xmlDoc: Document, shapeId: string, occurrence: number = 0): Element | null {
+        // The shape tree's own p:nvGrpSpPr isn't a shape
+        const cNvPr = Array.from(xmlDoc.getElementsByTagName('p:cNvPr'))
+            .filter(node => node.getAttribute('id') === shapeId && node.parentElement?.parentElement?.tagName !== 'p:spTree')[occurrence];
+
+        return cNvPr?.parentElement?.parentElement || null;
+    }
+
+    // Take shapes deleted in the editor off the slide, along with the animations and media
+    // timing that target them; PowerPoint repairs files whose timing points at missing shapes.
+    // This applies to every kind of shape, so deleting anything round-trips, not just media.
+    private removeDeletedElements(xmlDoc: Document, slide: PPTXSlide): void {
+        const remaining = new Set(slide.elements.map(element => element.id));
+        const removed = (this.originalShapes.get(slide.id) || []).filter(shape => !remaining.has(shape.elementId));
+        if (removed.length === 0) return;
+
+        // Find every node before taking any away, since shapes that share an id are told apart by their order
+        const nodes = removed.map(shape =>
+            this.findShapeNodeById(xmlDoc, shape.shapeId, this.originalOccurrences.get(this.snapshotKey(shape.elementId))));
+
+        // A deleted group takes its children with it, and animations may target any of them
+        const deleted: string[] = [];
+        nodes.forEach(node => {
+            if (!node) return;
+            deleted.push(...Array.from(node.getElementsByTagName('p:cNvPr')).map(cNvPr => cNvPr.getAttribute('id') || ''));
+            node.parentNode?.removeChild(node);
+        });
+
+        const timing = xmlDoc.getElementsByTagName('p:timing')[0];
+        if (!timing) return;
+
+        Array.from(timing.getElementsByTagName('p:spTgt'))
+            .filter(target => deleted.includes(target.getAttribute('spid') || ''))
+            .forEach(target => {
+                // The whole timing node the target belongs to goes, then any branch left empty by it
+                let node: Node | null = target;
+                while (node && !['p:par', 'p:video', 'p:audio'].includes((node as Element).tagName)) node = node.parentNode;
+                while (node && node.parentNode) {
+                    const parent: Node = node.parentNode;
+                    parent.removeChild(node);
+                    const isEmptyList = (parent as Element).tagName === 'p:childTnLst' && !(parent as Element).firstElementChild;
+                    const owner = isEmptyList ? parent.parentNode : null;
+                    // The root time node stays, even when it has nothing left to run
+                    if (!owner || (owner as Element).getAttribute('nodeType') === 'tmRoot') break;
+                    node = owner.parentNode && ['p:par', 'p:seq'].includes((owner.parentNode as Element).tagName) ? owner.parentNode : null;
+                }
+            });
+        Array.from(timing.getElementsByTagName('p:bldLst')).forEach(bldLst => {
+            Array.from(bldLst.childNodes)
+                .filter(build => build.nodeType === Node.ELEMENT_NODE && deleted.includes((build as Element).getAttribute('spid') || ''))
+                .forEach(build => bldLst.removeChild(build));
+        });
+    }
+
+    private updateTextElement(node: Element, element: SlideElement): void {
+        this.updateTransform(this.getChild(node, 'p:spPr'), element);
+        this.updateFill(this.getChild(node, 'p:spPr'), element);
+        this.updateLine(this.getChild(node, 'p:spPr'), element);
+        this.updateEffects(this.getChild(node, 'p:spPr'), element);
+        this.updateBodyProperties(this.getChild(node, 'p:txBody'), element);
+        this.updateTextBody(this.getChild(node, 'p:txBody'), element.content as TextContent, this.originalParagraphs.get(this.snapshotKey(element.id)));
+    }
+
+    private updateImageElement(node: Element, element: SlideElement): void {
+        this.updateTransform(this.getChild(node, 'p:spPr'), element);
+        this.updateEffects(this.getChild(node, 'p:spPr'), element);
+        this.updatePicture(this.getChild(node, 'p:blipFill'), element);
+    }
+
+    private getMediaSettings(element: SlideElement): MediaContent {
+        const { mediaType, mediaPath, mediaUrl, trimStart, trimEnd, loop } = element.content as MediaContent;
+        return { mediaType, mediaPath, mediaUrl, trimStart, trimEnd, loop, altText: '' };
+    }
+
+    // New media and media whose file was replaced need parts and relationships before the DOM is
+    // written: the media part is both embedded (p14:media) and linked (a:videoFile/a:audioFile)
+    private async prepareMedia(partPath: string, elements: SlideElement[]): Promise<void> {
+        this.mediaRelationships = new Map();
+
+        for (const element of this.collectElements(elements)) {
+            if (element.type !== 'media') continue;
+
+            const content = element.content as MediaContent;
+            const isNew = !element.originalData;
+            // Replacing the file drops the reference to the part or link it was loaded from
+            const replaced = !isNew && !content.mediaPath && !content.mediaUrl;
+            if ((!isNew && !replaced) || !content.mediaDataUrl) continue;
+
+            const mediaPath = await this.addMediaPart(content.mediaDataUrl, 'media');
+            if (!mediaPath) continue;
+
+            const target = this.getRelativeTarget(partPath, mediaPath);
+            const media = await this.addRelationship(partPath, MEDIA_RELATIONSHIP, target);
+            const link = await this.addRelationship(partPath, content.mediaType === 'audio' ? AUDIO_RELATIONSHIP : VIDEO_RELATIONSHIP, target);
+
+            let poster: string | undefined;
+            if (isNew) {
+                const posterPath = await this.addMediaPart(content.imageDataUrl || BLANK_POSTER, 'image');
+                if (posterPath) poster = await this.addRelationship(partPath, IMAGE_RELATIONSHIP, this.getRelativeTarget(partPath, posterPath));
+            }
+
+            this.mediaRelationships.set(element.id, { media, link, poster });
+        }
+    }
+
+    private updateMediaElement(node: Element, element: SlideElement): void {
+        this.updateImageElement(node, element);
+
+        const nvPr = node.getElementsByTagName('p:nvPr')[0];
+        if (!nvPr) return;
+
+        const content = element.content as MediaContent;
+        const relationships = this.mediaRelationships.get(element.id);
+        if (relationships) {
+            // The file reference changes kind along with the media
+            this.getChildren(nvPr, 'a:videoFile', 'a:audioFile', 'a:quickTimeFile').forEach(file => nvPr.removeChild(file));
+            const mediaFile = node.ownerDocument.createElementNS(DRAWINGML_NS, content.mediaType === 'audio' ? 'a:audioFile' : 'a:videoFile');
+            mediaFile.setAttributeNS(RELATIONSHIPS_NS, 'r:link', relationships.link);
+            this.insertChild(nvPr, mediaFile, ['p:custDataLst', 'p:extLst']);
+        }
+
+        const original = this.originalMedia.get(this.snapshotKey(element.id));
+        const trimChanged = content.trimStart !== original?.trimStart || content.trimEnd !== original?.trimEnd;
+        if (relationships || trimChanged) {
+            this.updateMediaExtension(nvPr, content, relationships?.media);
+        }
+
+        if (!!content.loop !== !!original?.loop && element.shapeId) {
+            this.updateMediaTiming(node.ownerDocument, element.shapeId, content);
+        }
+    }
+
+    // p14:media: the embedded media part and its trimming
+    private updateMediaExtension(nvPr: Element, content: MediaContent, relationshipId?: string): void {
+        const doc = nvPr.ownerDocument;
+        let extLst = this.getChild(nvPr, 'p:extLst');
+        if (!extLst) {
+            // The extension list closes p:nvPr
+            extLst = doc.createElementNS(PRESENTATIONML_NS, 'p:extLst');
+            nvPr.appendChild(extLst);
+        }
+        let media = Array.from(extLst.getElementsByTagName('p14:media'))[0];
+        if (!media) {
+            if (!relationshipId) return;
+            const ext = doc.createElementNS(PRESENTATIONML_NS, 'p:ext');
+            ext.setAttribute('uri', MEDIA_EXTENSION_URI);
+            media = doc.createElementNS(P14_NS, 'p14:media');
+            ext.appendChild(media);
+            extLst.appendChild(ext);
+        }
+        if (relationshipId) {
+            media.setAttributeNS(RELATIONSHIPS_NS, 'r:embed', relationshipId);
+        }
+
+        Array.from(media.childNodes)
+            .filter(child => child.nodeType === Node.ELEMENT_NODE && (child as Element).tagName === 'p14:trim')
+            .forEach(trim => media.removeChild(trim));
+        if (content.trimStart || content.trimEnd) {
+            const trim = doc.createElementNS(P14_NS, 'p14:trim');
+            if (content.trimStart) trim.setAttribute('st', String(content.trimStart));
+            if (content.trimEnd) trim.setAttribute('end', String(content.trimEnd));
+            // Trimming comes before p14:fade and p14:bmkLst
+            media.insertBefore(trim, media.firstChild);
+        }
+    }
+
+    // Looping lives in the slide timing, as the repeat count of the media's p:video/p:audio node.
+    // Media without a node get one that waits to be started by a click on the media.
+    private updateMediaTiming(xmlDoc: Document, shapeId: string, content: MediaContent): void {
+        const targets = Array.from(xmlDoc.getElementsByTagName('p:spTgt')).filter(target => target.getAttribute('spid') === shapeId);
+        const mediaNode = targets
+            .map(target => target.parentNode?.parentNode as Element | null)
+            .find(node => node?.tagName === 'p:cMediaNode');
+        let timeNode = mediaNode ? this.getChild(mediaNode, 'p:cTn') : null;
+
+        if (!timeNode) {
+            if (!content.loop) return;
+            const rootList = this.getMediaTimingRoot(xmlDoc);
+            if (!rootList) return;
+
+            const usedIds = Array.from(xmlDoc.getElementsByTagName('p:cTn')).map(node => parseInt(node.getAttribute('id') || '0', 10) || 0);
+            const tag = content.mediaType === 'audio' ? 'p:audio' : 'p:video';
+            const template = new DOMParser().parseFromString(
+                `<p:childTnLst ${PART_NAMESPACES}><${tag}><p:cMediaNode vol="80000">` +
+                `<p:cTn id="${Math.max(1, ...usedIds) + 1}" fill="hold"${content.mediaType === 'video' ? ' display="0"' : ''}>` +
+                '<p:stCondLst><p:cond delay="indefinite"/></p:stCondLst></p:cTn>' +
+                `<p:tgtEl><p:spTgt spid="${shapeId}"/></p:tgtEl>` +
+                `</p:cMediaNode></${tag}></p:childTnLst>`,
+                'text/xml'
+            );
+            const node = xmlDoc.importNode(template.getElementsByTagName(tag)[0], true) as Element;
+            rootList.appendChild(node);
+            timeNode = node.getElementsByTagName('p:cTn')[0];
+        }
+
+        this.setOptionalAttribute(timeNode, 'repeatCount', content.loop ? 'indefinite' : null);
+    }
+
+    // Child list of the slide's root time node, creating p:timing when the slide has no timing yet
+    private getMediaTimingRoot(xmlDoc: Document): Element | null {
+        const existing = Array.from(xmlDoc.getElementsByTagName('p:cTn')).find(node => node.getAttribute('nodeType') === 'tmRoot');
+        if (existing) return this.getOrCreatePresentationChild(existing, 'p:childTnLst', []);
+        if (xmlDoc.getElementsByTagName('p:timing')[0]) return null;
+
+        const template = new DOMParser().parseFromString(
+            `<p:sld ${PART_NAMESPACES}><p:timing><p:tnLst><p:par>` +
+            '<p:cTn id="1" dur="indefinite" restart="never" nodeType="tmRoot"><p:childTnLst/></p:cTn>' +
+            '</p:par></p:tnLst></p:timing></p:sld>',
+            'text/xml'
+        );
+        const timing = xmlDoc.importNode(template.getElementsByTagName('p:timing')[0], true) as Element;
+        this.insertChild(xmlDoc.documentElement, timing, ['p:extLst']);
+        return timing.getElementsByTagName('p:childTnLst')[0];
+    }
+
+    // Write a new video or audio as a p:pic that plays when clicked, in front of the existing shapes
+    private addMediaNode(xmlDoc: Document, element: SlideElement): void {
+        const spTree = xmlDoc.getElementsByTagName('p:spTree')[0];
+        const relationships = this.mediaRelationships.get(element.id);
+        if (!spTree || !relationships?.poster) return;
+
+        const content = element.content as MediaContent;
+        const shapeId = this.freeShapeId(xmlDoc, element);
+
+        const template = new DOMParser().parseFromString(
+            `<p:spTree ${PART_NAMESPACES}>` +
+            '<p:pic><p:nvPicPr>' +
+            `<p:cNvPr id="${shapeId}" name=""><a:hlinkClick r:id="" action="${MEDIA_ACTION}"/></p:cNvPr>` +
+            '<p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr>' +
+            `<p:nvPr><${content.mediaType === 'audio' ? 'a:audioFile' : 'a:videoFile'} r:link="${relationships.link}"/></p:nvPr>` +
+            '</p:nvPicPr>' +
+            `<p:blipFill><a:blip r:embed="${relationships.poster}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+            '<p:spPr><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>' +
+            '</p:pic></p:spTree>',
+            'text/xml'
+        );
+        const node = xmlDoc.importNode(template.getElementsByTagName('p:pic')[0], true) as Element;
+        this.insertChild(spTree, node, ['p:extLst']);
+        node.getElementsByTagName('p:cNvPr')[0].setAttribute('name', element.name || `Media ${shapeId - 1}`);
+
+        const nvPr = node.getElementsByTagName('p:nvPr')[0];
+        this.updateMediaExtension(nvPr, content, relationships.media);
+        const spPr = this.getChild(node, 'p:spPr')!;
+        this.updateTransform(spPr, element);
+        this.updateEffects(spPr, element);
+        this.updatePicture(this.getChild(node, 'p:blipFill'), element);
+        if (content.loop) {
+            this.updateMediaTiming(xmlDoc, String(shapeId), content);
+        }
+    }
+
+    private getPictureAdjustments(element: SlideElement): string {
+        const { crop, transparency, recolor } = element.content as ImageContent;
+        return JSON.stringify({ crop, transparency, recolor });
+    }
+
+    // Crop (a:srcRect), transparency (a:alphaModFix) and recoloring of a picture. Each is only
+    // rewritten when it was changed, so other picture effects on the a:blip are left alone.
+    private updatePicture(blipFill: Element | null, element: SlideElement): void {
+        if (!blipFill) return;
+
+        const original = JSON.parse(this.originalPictures.get(this.snapshotKey(element.id)) || '{}');
+        const { crop, transparency, recolor } = element.content as ImageContent;
+        const doc = blipFill.ownerDocument;
+        const percent = (value: number) => String(Math.round(value * 100000));
+
+        if (JSON.stringify(crop) !== JSON.stringify(original.crop)) {
+            this.getChildren(blipFill, 'a:srcRect').forEach(srcRect => blipFill.removeChild(srcRect));
+            const srcRect = doc.createElementNS(DRAWINGML_NS, 'a:srcRect');
+            if (crop) {
+                // Sides that aren't cropped are left out, as PowerPoint writes them
+                this.setOptionalAttribute(srcRect, 'l', crop.left ? percent(crop.left) : null);
+                this.setOptionalAttribute(srcRect, 't', crop.top ? percent(crop.top) : null);
+                this.setOptionalAttribute(srcRect, 'r', crop.right ? percent(crop.right) : null);
+                this.setOptionalAttribute(srcRect, 'b', crop.bottom ? percent(crop.bottom) : null);
+            }
+            this.insertChild(blipFill, srcRect, BLIPFILL_AFTER_SRCRECT);
+        }
+
+        const blip = this.getChild(blipFill, 'a:blip');
+        if (!blip) return;
+
+        const effectAfter = (tagName: string) => BLIP_EFFECT_TAGS.slice(BLIP_EFFECT_TAGS.indexOf(tagName) + 1);
+
+        if (transparency !== original.transparency) {
+            this.getChildren(blip, 'a:alphaModFix').forEach(alphaModFix => blip.removeChild(alphaModFix));
+            if (transparency) {
+                const alphaModFix = doc.createElementNS(DRAWINGML_NS, 'a:alphaModFix');
+                alphaModFix.setAttribute('amt', percent(1 - transparency));
+                this.insertChild(blip, alphaModFix, effectAfter('a:alphaModFix'));
+            }
+        }
+
+        if (JSON.stringify(recolor) !== JSON.stringify(original.recolor)) {
+            this.getChildren(blip, 'a:grayscl', 'a:duotone').forEach(effect => blip.removeChild(effect));
+            if (recolor?.type === 'grayscale') {
+                this.insertChild(blip, doc.createElementNS(DRAWINGML_NS, 'a:grayscl'), effectAfter('a:grayscl'));
+            } else if (recolor?.type === 'duotone') {
+                const duotone = doc.createElementNS(DRAWINGML_NS, 'a:duotone');
+                duotone.appendChild(this.createColorNode(doc, recolor.dark || '#000000'));
+                duotone.appendChild(this.createColorNode(doc, recolor.light || '#FFFFFF'));
+                this.insertChild(blip, duotone, effectAfter('a:duotone'));
             }
         }
+    }
+
+    private updateShapeElement(node: Element, element: SlideElement): void {
+        this.updateTransform(this.getChild(node, 'p:spPr'), element);
+        this.updateFill(this.getChild(node, 'p:spPr'), element);
+        this.updateLine(this.getChild(node, 'p:spPr'), element);
+        this.updateEffects(this.getChild(node, 'p:spPr'), element);
+        this.updateBodyProperties(this.getChild(node, 'p:txBody'), element);
+        this.updateTextBody(this.getChild(node, 'p:txBody'), element.content as TextContent, this.originalParagraphs.get(this.snapshotKey(element.id)));
+    }
+
+    private updateLineElement(node: Element, element: SlideElement): void {
+        this.updateTransform(this.getChild(node, 'p:spPr'), element);
+        this.updateLine(this.getChild(node, 'p:spPr'), element);
+        this.updateEffects(this.getChild(node, 'p:spPr'), element);
+
+        // Ends that were moved off the shapes they were glued to lose their connection
+        const content = element.content as LineContent;
+        const cNvCxnSpPr = node.getElementsByTagName('p:cNvCxnSpPr')[0];
+        if (cNvCxnSpPr) {
+            if (!content.startConnection) this.getChildren(cNvCxnSpPr, 'a:stCxn').forEach(child => cNvCxnSpPr.removeChild(child));
+            if (!content.endConnection) this.getChildren(cNvCxnSpPr, 'a:endCxn').forEach(child => cNvCxnSpPr.removeChild(child));
+        }
+    }
+
+    // Write the text of every slide number and date field as it is now. Other fields keep their saved text.
+    private refreshFields(xmlDoc: Document, slideNumber: number): void {
+        Array.from(xmlDoc.getElementsByTagName('a:fld')).forEach(fld => {
+            const text = fieldText({ type: fld.getAttribute('type') || '' }, { slideNumber });
+            if (text === undefined) return;
+
+            let t = this.getChild(fld, 'a:t');
+            if (!t) {
+                t = xmlDoc.createElementNS(DRAWINGML_NS, 'a:t');
+                fld.appendChild(t);
+            }
+            if (t.textContent !== text) t.textContent = text;
+        });
+    }
+
+    // Write a footer placeholder copied from the layout as a p:sp. It inherits everything
+    // from the layout, so only its text and a frame that was moved away are written.
+    private addPlaceholderNode(xmlDoc: Document, slide: PPTXSlide, element: SlideElement): void {
+        const spTree = xmlDoc.getElementsByTagName('p:spTree')[0];
+        const placeholder = element.placeholder;
+        if (!spTree || !placeholder) return;
+
+        const shapeId = this.freeShapeId(xmlDoc, element);
+        const type = placeholder.type !== 'obj' ? ` type="${placeholder.type}"` : '';
+        const idx = placeholder.idx !== undefined ? ` idx="${placeholder.idx}"` : '';
+        const template = new DOMParser().parseFromString(
+            `<p:spTree ${PART_NAMESPACES}>` +
+            '<p:sp><p:nvSpPr>' +
+            `<p:cNvPr id="${shapeId}" name=""/>` +
+            '<p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr>' +
+            `<p:nvPr><p:ph${type}${idx}/></p:nvPr>` +
+            '</p:nvSpPr><p:spPr/>' +
+            '<p:txBody><a:bodyPr/><a:lstStyle/></p:txBody>' +
+            '</p:sp></p:spTree>',
+            'text/xml'
+        );
+        const node = xmlDoc.importNode(template.getElementsByTagName('p:sp')[0], true) as Element;
+        this.insertChild(spTree, node, ['p:extLst']);
+        node.getElementsByTagName('p:cNvPr')[0].setAttribute('name', element.name || '');
+
+        // Compared with the layout as it is in the file; scaling the slide size doesn't rewrite it
+        const layout = this.originalFooterFrames.get(this.snapshotKey(placeholder.type, slide.id));
+        const moved = !layout || !!element.rotation || !!element.flipH || !!element.flipV ||
+            [[element.position.x, layout.position.x], [element.position.y, layout.position.y],
+                [element.size.width, layout.size.width], [element.size.height, layout.size.height]]
+                .some(([value, inherited]) => toEmu(value) !== toEmu(inherited));
+        if (moved) {
+            this.updateTransform(this.getChild(node, 'p:spPr'), element);
+        }
+
+        // Formatting comes from the layout; only the text and fields are the slide's own
+        const content = element.content as TextContent;
+        const paragraphs = (content.paragraphs || paragraphsFromText(content.text || '')).map(paragraph => ({
+            runs: paragraph.runs.map(run => run.field ? { text: run.text, field: run.field } : { text: run.text })
+        }));
+        this.updateTextBody(this.getChild(node, 'p:txBody'), { text: content.text || '', paragraphs });
+    }
 
-        return updatedXml;
+    // The editor hands out ids that are free on the slide; anything else gets the next one up
+    private freeShapeId(xmlDoc: Document, element: SlideElement): number {
+        const usedIds = Array.from(xmlDoc.getElementsByTagName('p:cNvPr')).map(node => parseInt(node.getAttribute('id') || '0', 10) || 0);
+        const ownId = parseInt(element.shapeId || '0', 10);
+        return ownId > 0 && !usedIds.includes(ownId) ? ownId : Math.max(0, ...usedIds) + 1;
     }
 
-    private updateTextElement(xml: string, element: SlideElement): string {
-        // Find and update text content
-        // This is a simplified approach - in reality, you'd need proper XML parsing
-        const textPattern = new RegExp(`<a:t[^>]*>.*?</a:t>`, 'g');
-        const replacement = `<a:t>${element.content.text}</a:t>`;
+    // Write a new line as a p:cxnSp, in front of the shapes already on the slide
+    private addConnectorNode(xmlDoc: Document, element: SlideElement): void {
+        const spTree = xmlDoc.getElementsByTagName('p:spTree')[0];
+        if (!spTree) return;
+
+        const content = element.content as LineContent;
+        const line = this.getLine(element);
+        const shapeId = this.freeShapeId(xmlDoc, element);
+        const isArrow = !!(line?.headEnd || line?.tailEnd);
+        const name = element.name || `${isArrow ? 'Straight Arrow Connector' : 'Straight Connector'} ${shapeId - 1}`;
 
-        return xml.replace(textPattern, replacement);
+        const template = new DOMParser().parseFromString(
+            `<p:spTree ${PART_NAMESPACES}>` +
+            '<p:cxnSp><p:nvCxnSpPr>' +
+            `<p:cNvPr id="${shapeId}" name=""/>` +
+            '<p:cNvCxnSpPr/><p:nvPr/>' +
+            '</p:nvCxnSpPr>' +
+            `<p:spPr><a:prstGeom prst="${content.shapeType || 'line'}"><a:avLst/></a:prstGeom></p:spPr>` +
+            '</p:cxnSp></p:spTree>',
+            'text/xml'
+        );
+        const node = xmlDoc.importNode(template.getElementsByTagName('p:cxnSp')[0], true) as Element;
+        this.insertChild(spTree, node, ['p:extLst']);
+        node.getElementsByTagName('p:cNvPr')[0].setAttribute('name', name);
+
+        const spPr = this.getChild(node, 'p:spPr')!;
+        this.updateTransform(spPr, element);
+        this.updateLine(spPr, element);
+        this.updateEffects(spPr, element);
+        if (element.hyperlink) {
+            this.updateElementHyperlink(node, element.hyperlink);
+        }
     }
 
-    private updateImageElement(xml: string, _element: SlideElement): string {
-        // Update image properties if needed
-        // This would involve updating the image dimensions, position, etc.
-        return xml;
+    // The outline an element is drawn with; bare border settings count as a solid line
+    private getLine(element: SlideElement): LineStyle | undefined {
+        const style = element.style;
+        if (style?.line) return structuredClone(style.line);
+        return style?.borderColor ? { color: style.borderColor, width: style.borderWidth } : undefined;
     }
 
-    private updateShapeElement(xml: string, _element: SlideElement): string {
-        // Update shape properties if needed
-        // This would involve updating the shape dimensions, position, etc.
-        return xml;
+    // Rewrite the a:ln in spPr when the outline differs from the one the element was loaded with.
+    // Only the settings the editor knows about are replaced; anything else in a:ln is kept.
+    private updateLine(spPr: Element | null, element: SlideElement): void {
+        if (!spPr) return;
+
+        const line = this.getLine(element);
+        if (JSON.stringify(line) === JSON.stringify(this.originalLines.get(this.snapshotKey(element.id)))) return;
+
+        if (!line) {
+            // Back to whatever the theme's line reference says
+            this.getChildren(spPr, 'a:ln').forEach(ln => spPr.removeChild(ln));
+            return;
+        }
+
+        const doc = spPr.ownerDocument;
+        const ln = this.getOrCreateChild(spPr, 'a:ln', SPPR_AFTER_LINE);
+
+        this.setOptionalAttribute(ln, 'w', line.width !== undefined ? String(toEmu(line.width)) : null);
+        this.setOptionalAttribute(ln, 'cap', line.cap || null);
+        this.setOptionalAttribute(ln, 'cmpd', line.compound || null);
+
+        this.getChildren(ln, ...FILL_TAGS, 'a:prstDash', 'a:custDash', ...LINE_JOIN_TAGS, 'a:headEnd', 'a:tailEnd')
+            .forEach(child => ln.removeChild(child));
+
+        if (line.none) {
+            this.insertChild(ln, doc.createElementNS(DRAWINGML_NS, 'a:noFill'), LN_AFTER_FILL);
+        } else if (line.color) {
+            const solidFill = doc.createElementNS(DRAWINGML_NS, 'a:solidFill');
+            solidFill.appendChild(this.createColorNode(doc, line.color));
+            this.insertChild(ln, solidFill, LN_AFTER_FILL);
+        }
+
+        if (line.dash) {
+            const prstDash = doc.createElementNS(DRAWINGML_NS, 'a:prstDash');
+            prstDash.setAttribute('val', line.dash);
+            this.insertChild(ln, prstDash, LN_AFTER_DASH);
+        }
+
+        if (line.join) {
+            const join = doc.createElementNS(DRAWINGML_NS, `a:${line.join}`);
+            if (line.join === 'miter') join.setAttribute('lim', '800000');
+            this.insertChild(ln, join, LN_AFTER_JOIN);
+        }
+
+        if (line.headEnd) this.insertChild(ln, this.createLineEnd(doc, 'a:headEnd', line.headEnd), ['a:tailEnd', 'a:extLst']);
+        if (line.tailEnd) this.insertChild(ln, this.createLineEnd(doc, 'a:tailEnd', line.tailEnd), ['a:extLst']);
+    }
+
+    // Write changed effects into the shape's own a:effectLst. Effects are updated in place, so
+    // settings the editor doesn't model (alignment, scaling) survive. An empty list is kept on
+    // purpose: it switches off the effects the theme would otherwise apply.
+    private updateEffects(spPr: Element | null, element: SlideElement): void {
+        if (!spPr) return;
+
+        const effects = element.style?.effects || {};
+        if (JSON.stringify(element.style?.effects) === JSON.stringify(this.originalEffects.get(this.snapshotKey(element.id)))) return;
+
+        const doc = spPr.ownerDocument;
+        this.getChildren(spPr, 'a:effectDag').forEach(dag => spPr.removeChild(dag));
+        const effectLst = this.getOrCreateChild(spPr, 'a:effectLst', SPPR_AFTER_EFFECTS);
+
+        // Get or create (or drop) one effect, keeping the schema order
+        const effectNode = (tagName: string, present: boolean): Element | null => {
+            const existing = this.getChild(effectLst, tagName);
+            if (!present) {
+                if (existing) effectLst.removeChild(existing);
+                return null;
+            }
+            if (existing) return existing;
+
+            const created = doc.createElementNS(DRAWINGML_NS, tagName);
+            this.insertChild(effectLst, created, EFFECT_TAGS.slice(EFFECT_TAGS.indexOf(tagName) + 1));
+            return created;
+        };
+        const setColor = (node: Element, color: string) => {
+            this.getChildren(node, ...COLOR_TAGS).forEach(child => node.removeChild(child));
+            node.appendChild(this.createColorNode(doc, color));
+        };
+        const writeShadow = (node: Element | null, shadow: ShadowEffect | undefined) => {
+            if (!node || !shadow) return;
+            node.setAttribute('blurRad', String(toEmu(shadow.blur)));
+            node.setAttribute('dist', String(toEmu(shadow.distance)));
+            node.setAttribute('dir', String(Math.round(((shadow.direction % 360) + 360) % 360 * 60000)));
+            // The editor draws shadows that keep their direction when the shape turns
+            if (!node.hasAttribute('rotWithShape') && node.tagName === 'a:outerShdw') node.setAttribute('rotWithShape', '0');
+            setColor(node, shadow.color);
+        };
+
+        const glow = effectNode('a:glow', !!effects.glow);
+        if (glow && effects.glow) {
+            glow.setAttribute('rad', String(toEmu(effects.glow.radius)));
+            setColor(glow, effects.glow.color);
+        }
+
+        writeShadow(effectNode('a:innerShdw', !!effects.innerShadow), effects.innerShadow);
+        writeShadow(effectNode('a:outerShdw', !!effects.outerShadow), effects.outerShadow);
+        // A preset shadow is replaced by the editor's own
+        if (effects.outerShadow) effectNode('a:prstShdw', false);
+
+        const reflection = effectNode('a:reflection', !!effects.reflection);
+        if (reflection && effects.reflection) {
+            const isNew = !reflection.hasAttribute('sy');
+            reflection.setAttribute('blurRad', String(toEmu(effects.reflection.blur)));
+            reflection.setAttribute('dist', String(toEmu(effects.reflection.distance)));
+            reflection.setAttribute('stA', String(Math.round(effects.reflection.startOpacity * 100000)));
+            reflection.setAttribute('endA', String(Math.round(effects.reflection.endOpacity * 100000)));
+            reflection.setAttribute('endPos', String(Math.round(effects.reflection.size * 100000)));
+            if (isNew) {
+                // Mirrored below the shape, as PowerPoint's reflection presets are
+                reflection.setAttribute('dir', '5400000');
+                reflection.setAttribute('sy', '-100000');
+                reflection.setAttribute('algn', 'bl');
+                reflection.setAttribute('rotWithShape', '0');
+            }
+        }
+
+        const softEdge = effectNode('a:softEdge', !!effects.softEdge);
+        if (softEdge && effects.softEdge) {
+            softEdge.setAttribute('rad', String(toEmu(effects.softEdge)));
+        }
+    }
+
+    private createLineEnd(doc: Document, tagName: string, lineEnd: LineEnd): Element {
+        const end = doc.createElementNS(DRAWINGML_NS, tagName);
+        end.setAttribute('type', lineEnd.type);
+        if (lineEnd.width) end.setAttribute('w', lineEnd.width);
+        if (lineEnd.length) end.setAttribute('len', lineEnd.length);
+        return end;
+    }
+
+    private updateTableElement(node: Element, element: SlideElement): void {
+        // Graphic frames carry their transform directly in p:xfrm
+        this.updateTransform(node, element, 'p:xfrm');
+
+        const tbl = node.getElementsByTagName('a:tbl')[0];
+        if (!tbl) return;
+
+        const table = element.content as TableContent;
+        const rowNodes = Array.from(tbl.childNodes)
+            .filter((child): child is Element => child.nodeType === Node.ELEMENT_NODE && (child as Element).tagName === 'a:tr');
+
+        table.rows.forEach((row, rowIndex) => {
+            const rowNode = rowNodes[rowIndex];
+            if (!rowNode) return;
+
+            const cellNodes = Array.from(rowNode.childNodes)
+                .filter((child): child is Element => child.nodeType === Node.ELEMENT_NODE && (child as Element).tagName === 'a:tc');
+
+            row.cells.forEach((cell, cellIndex) => {
+                const cellNode = cellNodes[cellIndex];
+                if (cellNode) {
+                    this.updateTextBody(this.getChild(cellNode, 'a:txBody'), cell, this.originalParagraphs.get(this.snapshotKey(`${element.id}:${rowIndex}:${cellIndex}`)));
+                }
+            });
+        });
+    }
+
+    private updateGroupElement(xmlDoc: Document, node: Element, element: SlideElement): void {
+        const content = element.content as GroupContent;
+        const xfrm = this.updateTransform(this.getChild(node, 'p:grpSpPr'), element);
+
+        // Children are written in the group's child space, so chOff/chExt must follow it
+        if (xfrm) {
+            this.setXfrmChild(xfrm, 'a:chOff', {
+                x: toEmu(content.childOffset.x),
+                y: toEmu(content.childOffset.y)
+            });
+            this.setXfrmChild(xfrm, 'a:chExt', {
+                cx: toEmu(content.childExtent.width),
+                cy: toEmu(content.childExtent.height)
+            });
+        }
+
+        for (const child of content.children) {
+            this.updateElementXML(xmlDoc, child);
+        }
+    }
+
+    // Write position and size back to the xfrm inside spPr (or a graphic frame).
+    // Returns the xfrm node, or null if nothing was written.
+    private updateTransform(spPr: Element | null, element: SlideElement, xfrmTag: string = 'a:xfrm'): Element | null {
+        if (!spPr) return null;
+
+        const off = { x: toEmu(element.position.x), y: toEmu(element.position.y) };
+        const ext = { cx: toEmu(element.size.width), cy: toEmu(element.size.height) };
+
+        // Rotation is in 60,000ths of a degree, kept within one turn
+        const rot = (Math.round((element.rotation || 0) * 60000) % 21600000 + 21600000) % 21600000;
+        const transformed = rot !== 0 || !!element.flipH || !!element.flipV;
+
+        let xfrm = this.getChild(spPr, xfrmTag);
+        if (!xfrm) {
+            // Without an xfrm the shape inherits its placement; only override it when it was moved or turned
+            if (off.x === 0 && off.y === 0 && ext.cx === 0 && ext.cy === 0 && !transformed) return null;
+            const original = this.originalFrames.get(this.snapshotKey(element.id));
+            if (original && !transformed &&
+                toEmu(original.position.x) === off.x && toEmu(original.position.y) === off.y &&
+                toEmu(original.size.width) === ext.cx && toEmu(original.size.height) === ext.cy) {
+                return null;
+            }
+
+            // A graphic frame's p:xfrm sits between its non-visual properties and a:graphic
+            xfrm = spPr.ownerDocument.createElementNS(xfrmTag === 'p:xfrm' ? PRESENTATIONML_NS : DRAWINGML_NS, xfrmTag);
+            this.insertChild(spPr, xfrm, xfrmTag === 'p:xfrm' ? ['a:graphic'] : []);
+        }
+
+        this.setXfrmChild(xfrm, 'a:off', off);
+        this.setXfrmChild(xfrm, 'a:ext', ext);
+
+        // Zero and false are the defaults, so drop them rather than writing them out
+        this.setOptionalAttribute(xfrm, 'rot', rot ? String(rot) : null);
+        this.setOptionalAttribute(xfrm, 'flipH', element.flipH ? '1' : null);
+        this.setOptionalAttribute(xfrm, 'flipV', element.flipV ? '1' : null);
+
+        return xfrm;
+    }
+
+    private setOptionalAttribute(node: Element, name: string, value: string | null): void {
+        if (value === null) {
+            node.removeAttribute(name);
+        } else {
+            node.setAttribute(name, value);
+        }
+    }
+
+    private setXfrmChild(xfrm: Element, tagName: string, attributes: { [name: string]: number }): void {
+        let child = this.getChild(xfrm, tagName);
+        if (!child) {
+            child = xfrm.ownerDocument.createElementNS(DRAWINGML_NS, tagName);
+            xfrm.appendChild(child);
+        }
+
+        for (const [name, value] of Object.entries(attributes)) {
+            child.setAttribute(name, String(value));
+        }
+    }
+
+    private updateTextBody(txBody: Element | null, content: Partial<TextContent>, original?: TextParagraph[]): void {
+        if (!txBody || typeof content.text !== 'string') return;
+
+        const paragraphs = content.paragraphs || paragraphsFromText(content.text, original);
+
+        // Leave the markup untouched unless the text or its formatting actually changed
+        if (original && JSON.stringify(original) === JSON.stringify(paragraphs)) return;
+
+        const paragraphNodes = this.getChildren(txBody, 'a:p');
+        const runNodes = paragraphNodes.map(p => this.getRunNodes(p));
+
+        paragraphs.forEach((paragraph, index) => {
+            let paragraphNode = paragraphNodes[index];
+            // New paragraphs start as a copy of the last one, so they pick up its formatting
+            const templateIndex = paragraphNode ? index : paragraphNodes.length - 1;
+            const originalParagraph = original?.[templateIndex];
+
+            if (!paragraphNode) {
+                paragraphNode = paragraphNodes.length > 0
+                    ? paragraphNodes[paragraphNodes.length - 1].cloneNode(true) as Element
+                    : txBody.ownerDocument.createElementNS(DRAWINGML_NS, 'a:p');
+                txBody.appendChild(paragraphNode);
+                paragraphNodes.push(paragraphNode);
+                runNodes.push(this.getRunNodes(paragraphNode));
+            } else if (originalParagraph && JSON.stringify(originalParagraph) === JSON.stringify(paragraph)) {
+                return;
+            }
+
+            this.writeParagraph(paragraphNode, paragraph, runNodes[index], originalParagraph);
+        });
+
+        paragraphNodes.slice(paragraphs.length).forEach(paragraphNode => txBody.removeChild(paragraphNode));
+    }
+
+    // Write the a:bodyPr settings that were changed; inherited ones that weren't stay inherited
+    private updateBodyProperties(txBody: Element | null, element: SlideElement): void {
+        const bodyPr = txBody ? this.getChild(txBody, 'a:bodyPr') : null;
+        if (!bodyPr) return;
+
+        const body: TextBodyProperties = element.content?.body || {};
+        const original = this.originalBodies.get(this.snapshotKey(element.id)) || {};
+
+        BODY_ATTRIBUTES.forEach(({ key, attribute, format }) => {
+            if (body[key] === original[key]) return;
+            this.setOptionalAttribute(bodyPr, attribute, body[key] === undefined ? null : format(body));
+        });
+
+        if (body.autofit === original.autofit && body.fontScale === original.fontScale &&
+            body.lineSpacingReduction === original.lineSpacingReduction) return;
+
+        this.getChildren(bodyPr, ...AUTOFIT_TAGS).forEach(child => bodyPr.removeChild(child));
+        if (!body.autofit) return;
+
+        const autofit = bodyPr.ownerDocument.createElementNS(DRAWINGML_NS,
+            body.autofit === 'shape' ? 'a:spAutoFit' : body.autofit === 'normal' ? 'a:normAutofit' : 'a:noAutofit');
+        if (body.autofit === 'normal') {
+            // Thousandths of a percent
+            if (body.fontScale !== undefined && body.fontScale !== 100) autofit.setAttribute('fontScale', String(Math.round(body.fontScale * 1000)));
+            if (body.lineSpacingReduction) autofit.setAttribute('lnSpcReduction', String(Math.round(body.lineSpacingReduction * 1000)));
+        }
+        this.insertChild(bodyPr, autofit, BODYPR_AFTER_AUTOFIT);
+    }
+
+    // Rebuild the runs of a paragraph. Each run starts from the run node at the same position
+    // (or the last one), and only the properties that differ from that run are rewritten.
+    private writeParagraph(paragraphNode: Element, paragraph: TextParagraph, templateRuns: Element[], original?: TextParagraph): void {
+        const doc = paragraphNode.ownerDocument;
+
+        PARAGRAPH_ATTRIBUTES.forEach(({ key, attribute, format }) => {
+            if (paragraph[key] === original?.[key]) return;
+
+            const pPr = this.getOrCreateChild(paragraphNode, 'a:pPr', []);
+            if (paragraph[key] === undefined) {
+                pPr.removeAttribute(attribute);
+            } else {
+                pPr.setAttribute(attribute, format(paragraph));
+            }
+        });
+
+        if (JSON.stringify(paragraph.bullet) !== JSON.stringify(original?.bullet)) {
+            this.writeBullet(this.getOrCreateChild(paragraphNode, 'a:pPr', []), paragraph.bullet);
+        }
+
+        PPR_SPACING.forEach(([key, tagName], index) => {
+            if (JSON.stringify(paragraph[key]) === JSON.stringify(original?.[key])) return;
+
+            const pPr = this.getOrCreateChild(paragraphNode, 'a:pPr', []);
+            const followingTags = [...PPR_SPACING.slice(index + 1).map(([, tag]) => tag), ...BULLET_TAGS, ...PPR_AFTER_BULLET];
+            this.writeSpacing(pPr, tagName, paragraph[key], followingTags);
+        });
+
+        templateRuns.forEach(run => paragraphNode.removeChild(run));
+        const endParaRPr = this.getChild(paragraphNode, 'a:endParaRPr');
+
+        paragraph.runs.forEach((run, index) => {
+            const templateIndex = Math.min(index, templateRuns.length - 1);
+            const template = templateRuns[templateIndex];
+            const originalRun = original?.runs[templateIndex];
+            const baseStyle = originalRun?.style || {};
+
+            // Unchanged fields are kept as they are; their text is refreshed with the rest of the slide
+            if (template?.tagName === 'a:fld' && run.field && run.field.type === originalRun?.field?.type &&
+                JSON.stringify(baseStyle) === JSON.stringify(run.style || {})) {
+                paragraphNode.insertBefore(template.cloneNode(true), endParaRPr);
+                return;
+            }
+
+            const runNode = doc.createElementNS(DRAWINGML_NS, run.field ? 'a:fld' : run.text === '\n' ? 'a:br' : 'a:r');
+            if (run.field) {
+                runNode.setAttribute('id', run.field.id || newGuid());
+                runNode.setAttribute('type', run.field.type);
+            }
+
+            const templateRPr = template ? this.getChild(template, 'a:rPr') : null;
+            const rPr = doc.createElementNS(DRAWINGML_NS, 'a:rPr');
+            const source = templateRPr || (template ? null : endParaRPr);
+            if (source) {
+                Array.from(source.attributes).forEach(attr => rPr.setAttribute(attr.name, attr.value));
+                Array.from(source.childNodes).forEach(child => rPr.appendChild(child.cloneNode(true)));
+            }
+            this.applyRunStyle(rPr, run.style || {}, source ? baseStyle : {});
+            runNode.appendChild(rPr);
+
+            if (run.text !== '\n' || run.field) {
+                const t = doc.createElementNS(DRAWINGML_NS, 'a:t');
+                t.textContent = run.text;
+                runNode.appendChild(t);
+            }
+
+            paragraphNode.insertBefore(runNode, endParaRPr);
+        });
+    }
+
+    private writeSpacing(pPr: Element, tagName: string, spacing: TextSpacing | undefined, followingTags: string[]): void {
+        this.getChildren(pPr, tagName).forEach(child => pPr.removeChild(child));
+        if (!spacing || (spacing.percent === undefined && spacing.points === undefined)) return;
+
+        const doc = pPr.ownerDocument;
+        const node = doc.createElementNS(DRAWINGML_NS, tagName);
+        const value = doc.createElementNS(DRAWINGML_NS, spacing.percent !== undefined ? 'a:spcPct' : 'a:spcPts');
+        // Thousandths of a percent, or hundredths of a point
+        value.setAttribute('val', String(Math.round(spacing.percent !== undefined ? spacing.percent * 1000 : spacing.points! * 100)));
+        node.appendChild(value);
+        this.insertChild(pPr, node, followingTags);
+    }
+
+    private writeBullet(pPr: Element, bullet: TextBullet | undefined): void {
+        this.getChildren(pPr, ...BULLET_TAGS).forEach(child => pPr.removeChild(child));
+        if (!bullet) return;
+
+        const doc = pPr.ownerDocument;
+        const nodes: Element[] = [];
+
+        if (bullet.type !== 'none') {
+            if (bullet.color) {
+                const buClr = doc.createElementNS(DRAWINGML_NS, 'a:buClr');
+                buClr.appendChild(this.createColorNode(doc, bullet.color));
+                nodes.push(buClr);
+            }
+            if (bullet.size) {
+                const buSzPct = doc.createElementNS(DRAWINGML_NS, 'a:buSzPct');
+                buSzPct.setAttribute('val', String(Math.round(bullet.size * 1000)));
+                nodes.push(buSzPct);
+            }
+            if (bullet.fontFamily) {
+                const buFont = doc.createElementNS(DRAWINGML_NS, 'a:buFont');
+                buFont.setAttribute('typeface', bullet.fontFamily);
+                nodes.push(buFont);
+            }
+        }
+
+        if (bullet.type === 'char') {
+            const buChar = doc.createElementNS(DRAWINGML_NS, 'a:buChar');
+            buChar.setAttribute('char', bullet.char || '\u2022');
+            nodes.push(buChar);
+        } else if (bullet.type === 'autoNumber') {
+            const buAutoNum = doc.createElementNS(DRAWINGML_NS, 'a:buAutoNum');
+            buAutoNum.setAttribute('type', bullet.scheme || 'arabicPeriod');
+            if (bullet.startAt && bullet.startAt !== 1) {
+                buAutoNum.setAttribute('startAt', String(bullet.startAt));
+            }
+            nodes.push(buAutoNum);
+        } else {
+            nodes.push(doc.createElementNS(DRAWINGML_NS, 'a:buNone'));
+        }
+
+        nodes.forEach(node => this.insertChild(pPr, node, PPR_AFTER_BULLET));
+    }
+
+    private applyRunStyle(rPr: Element, style: TextRunStyle, baseStyle: TextRunStyle): void {
+        RUN_ATTRIBUTES.forEach(({ key, attribute, format }) => {
+            if (style[key] === baseStyle[key]) return;
+            if (style[key] === undefined) {
+                rPr.removeAttribute(attribute);
+            } else {
+                rPr.setAttribute(attribute, format(style));
+            }
+        });
+
+        if (style.color !== baseStyle.color) {
+            this.getChildren(rPr, ...FILL_TAGS).forEach(fill => rPr.removeChild(fill));
+            if (style.color) {
+                const solidFill = rPr.ownerDocument.createElementNS(DRAWINGML_NS, 'a:solidFill');
+                solidFill.appendChild(this.createColorNode(rPr.ownerDocument, style.color));
+                this.insertChild(rPr, solidFill, RPR_AFTER_FILL);
+            }
+        }
+
+        if (style.fontFamily !== baseStyle.fontFamily) {
+            const latin = this.getChild(rPr, 'a:latin');
+            if (!style.fontFamily) {
+                if (latin) rPr.removeChild(latin);
+            } else {
+                this.getOrCreateChild(rPr, 'a:latin', RPR_AFTER_LATIN).setAttribute('typeface', style.fontFamily);
+            }
+        }
+
+        if (JSON.stringify(style.hyperlink) !== JSON.stringify(baseStyle.hyperlink)) {
+            this.getChildren(rPr, 'a:hlinkClick').forEach(link => rPr.removeChild(link));
+            const hlinkClick = style.hyperlink ? this.createHyperlinkNode(rPr.ownerDocument, style.hyperlink) : null;
+            if (hlinkClick) {
+                this.insertChild(rPr, hlinkClick, RPR_AFTER_HYPERLINK);
+            }
+        }
+    }
+
+    // #RRGGBB or #RRGGBBAA; transparency goes into an a:alpha modifier
+    private createColorNode(doc: Document, color: string): Element {
+        const hex = color.replace('#', '').toUpperCase();
+        const srgbClr = doc.createElementNS(DRAWINGML_NS, 'a:srgbClr');
+        srgbClr.setAttribute('val', hex.substring(0, 6));
+
+        if (hex.length === 8) {
+            const alpha = doc.createElementNS(DRAWINGML_NS, 'a:alpha');
+            alpha.setAttribute('val', String(Math.round(parseInt(hex.substring(6), 16) / 255 * 100000)));
+            srgbClr.appendChild(alpha);
+        }
+
+        return srgbClr;
+    }
+
+    // The a:schemeClr of a solid fill in spPr, if it has one
+    private getSchemeColorNode(spPr: Element): Element | null {
+        const solidFill = this.getChild(spPr, 'a:solidFill');
+        return solidFill ? this.getChild(solidFill, 'a:schemeClr') : null;
+    }
+
+    // A theme color reference, so the fill follows theme changes; the alpha comes from the resolved color.
+    // A reference to the same theme color as before keeps its other modifiers (lumMod, lumOff and so on).
+    private createSchemeColorNode(doc: Document, schemeColor: string, color: string, original?: Element | null): Element {
+        let schemeClr: Element;
+        if (original?.getAttribute('val') === schemeColor) {
+            schemeClr = original.cloneNode(true) as Element;
+            this.getChildren(schemeClr, 'a:alpha').forEach(alpha => schemeClr.removeChild(alpha));
+        } else {
+            schemeClr = doc.createElementNS(DRAWINGML_NS, 'a:schemeClr');
+            schemeClr.setAttribute('val', schemeColor);
+        }
+
+        const alpha = this.createColorNode(doc, color).firstChild;
+        if (alpha) schemeClr.appendChild(alpha);
+        return schemeClr;
+    }
+
+    private getRunNodes(paragraph: Element): Element[] {
+        return this.getChildren(paragraph, 'a:r', 'a:br', 'a:fld');
+    }
+
+    private getChildren(node: Element, ...tagNames: string[]): Element[] {
+        return Array.from(node.childNodes).filter(
+            (child): child is Element => child.nodeType === Node.ELEMENT_NODE && tagNames.includes((child as Element).tagName)
+        );
+    }
+
+    private getOrCreateChild(node: Element, tagName: string, followingTags: string[]): Element {
+        let child = this.getChild(node, tagName);
+        if (!child) {
+            child = node.ownerDocument.createElementNS(DRAWINGML_NS, tagName);
+            this.insertChild(node, child, followingTags);
+        }
+        return child;
+    }
+
+    private getOrCreatePresentationChild(node: Element, tagName: string, followingTags: string[]): Element {
+        let child = this.getChild(node, tagName);
+        if (!child) {
+            child = node.ownerDocument.createElementNS(PRESENTATIONML_NS, tagName);
+            this.insertChild(node, child, followingTags);
+        }
+        return child;
+    }
+
+    // Insert a child before the first sibling that the schema orders after it
+    private insertChild(node: Element, child: Element, followingTags: string[]): void {
+        const next = followingTags.length === 0
+            ? node.firstElementChild
+            : this.getChildren(node, ...followingTags)[0] || null;
+        node.insertBefore(child, next);
+    }
+
+    private getChild(node: Element, tagName: string): Element | null {
+        return Array.from(node.childNodes).find(
+            (child): child is Element => child.nodeType === Node.ELEMENT_NODE && (child as Element).tagName === tagName
+        ) || null;
+    }
+
+    // Add a relationship to a part's .rels file (creating it if needed) and return the new id
+    private async addRelationship(partPath: string, type: string, target: string, targetMode?: string): Promise<string> {
+        const relsPath = this.getRelsPath(partPath);
+        const relsXml = await this.zip.file(relsPath)?.async('string') ||
+            `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}"></Relationships>`;
+        const relsDoc = new DOMParser().parseFromString(relsXml, 'text/xml');
+
+        const usedIds = new Set(Array.from(relsDoc.getElementsByTagName('Relationship')).map(rel => rel.getAttribute('Id')));
+        let index = usedIds.size + 1;
+        while (usedIds.has(`rId${index}`)) index++;
+        const id = `rId${index}`;
+
+        const relationship = relsDoc.createElementNS(PACKAGE_RELATIONSHIPS_NS, 'Relationship');
+        relationship.setAttribute('Id', id);
+        relationship.setAttribute('Type', type);
+        relationship.setAttribute('Target', target);
+        if (targetMode) relationship.setAttribute('TargetMode', targetMode);
+        relsDoc.documentElement.appendChild(relationship);
+
+        this.zip.file(relsPath, serializeXML(relsDoc, relsXml));
+        return id;
+    }
+
+    // Store a data URL as a new part under ppt/media and return its path
+    private async addMediaPart(dataUrl: string, baseName: string): Promise<string | null> {
+        const match = dataUrl.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+        if (!match) {
+            console.warn('PPTXExporter: Not a data URL, cannot embed media');
+            return null;
+        }
+
+        const [, mimeType, base64, data] = match;
+        const extension = MEDIA_EXTENSIONS[mimeType] || mimeType.split('/')[1];
+
+        let index = 1;
+        while (this.zip.file(`ppt/media/${baseName}${index}.${extension}`)) index++;
+        const mediaPath = `ppt/media/${baseName}${index}.${extension}`;
+
+        this.zip.file(mediaPath, base64 ? data : decodeURIComponent(data), { base64: !!base64 });
+        await this.ensureContentType(extension, mimeType);
+        return mediaPath;
+    }
+
+    // Register a Default content type for a file extension, unless it is already known
+    private async ensureContentType(extension: string, contentType: string): Promise<void> {
+        const typesPath = '[Content_Types].xml';
+        const typesXml = await this.zip.file(typesPath)?.async('string');
+        if (!typesXml) return;
+
+        const typesDoc = new DOMParser().parseFromString(typesXml, 'text/xml');
+        const known = Array.from(typesDoc.getElementsByTagName('Default'))
+            .some(entry => entry.getAttribute('Extension')?.toLowerCase() === extension.toLowerCase());
+        if (known) return;
+
+        const entry = typesDoc.createElementNS(CONTENT_TYPES_NS, 'Default');
+        entry.setAttribute('Extension', extension);
+        entry.setAttribute('ContentType', contentType);
+        typesDoc.documentElement.insertBefore(entry, typesDoc.documentElement.firstElementChild);
+
+        this.zip.file(typesPath, serializeXML(typesDoc, typesXml));
+    }
+
+    // Register an Override content type for a single part
+    private async ensurePartContentType(partPath: string, contentType: string): Promise<void> {
+        const typesPath = '[Content_Types].xml';
+        const typesXml = await this.zip.file(typesPath)?.async('string');
+        if (!typesXml) return;
+
+        const typesDoc = new DOMParser().parseFromString(typesXml, 'text/xml');
+        const partName = `/${partPath}`;
+        const known = Array.from(typesDoc.getElementsByTagName('Override'))
+            .some(entry => entry.getAttribute('PartName') === partName);
+        if (known) return;
+
+        const entry = typesDoc.createElementNS(CONTENT_TYPES_NS, 'Override');
+        entry.setAttribute('PartName', partName);
+        entry.setAttribute('ContentType', contentType);
+        typesDoc.documentElement.appendChild(entry);
+
+        this.zip.file(typesPath, serializeXML(typesDoc, typesXml));
+    }
+
+    // ppt/slides/slide1.xml -> ppt/slides/_rels/slide1.xml.rels
+    private getRelsPath(partPath: string): string {
+        const separator = partPath.lastIndexOf('/');
+        // The package itself ('') has its relationships in _rels/.rels
+        if (separator === -1) return `_rels/${partPath}.rels`;
+        return `${partPath.substring(0, separator)}/_rels/${partPath.substring(separator + 1)}.rels`;
+    }
+
+    // Relationship target of one part as seen from another, e.g. ../media/image1.png
+    private getRelativeTarget(fromPart: string, toPart: string): string {
+        const from = fromPart.split('/').slice(0, -1);
+        const to = toPart.split('/');
+
+        let common = 0;
+        while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+
+        return [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/');
     }
 
     private async updateMetadata(): Promise<void> {
@@ -124,51 +2022,140 @@ export class PPTXExporter {
 
             // Update core.xml
             await this.updateCoreXml();
+
+            // Update custom.xml
+            await this.updateCustomXml();
         } catch (error) {
             console.warn('Warning: Could not update metadata:', error);
         }
     }
 
+    // Older files keep a title and subject in app.xml as well; they are updated where present
     private async updateAppXml(): Promise<void> {
         const appXmlPath = 'docProps/app.xml';
         const appXml = await this.zip.file(appXmlPath)?.async('string');
+        if (!appXml) return;
 
-        if (appXml) {
-            // Update the title and other properties
-            let updatedXml = appXml;
+        const xmlDoc = new DOMParser().parseFromString(appXml, 'text/xml');
+        let changed = false;
+        ([['title', 'Title'], ['subject', 'Subject']] as const).forEach(([key, tagName]) => {
+            const node = this.getChild(xmlDoc.documentElement, tagName);
+            if (!node || this.document.metadata[key] === this.originalMetadata[key]) return;
+            node.textContent = this.document.metadata[key];
+            changed = true;
+        });
 
-            if (this.document.metadata.title) {
-                updatedXml = updatedXml.replace(
-                    /<Title>.*?<\/Title>/,
-                    `<Title>${this.document.metadata.title}</Title>`
-                );
-            }
+        if (changed) {
+            this.zip.file(appXmlPath, serializeXML(xmlDoc, appXml));
+        }
+    }
+
+    // Write the core properties that were edited, and the time of this save as the modified date
+    private async updateCoreXml(): Promise<void> {
+        const coreXmlPath = 'docProps/core.xml';
+        const metadata = this.document.metadata;
+        const changed = CORE_PROPERTIES.filter(([key]) => JSON.stringify(metadata[key]) !== JSON.stringify(this.originalMetadata[key]));
+
+        let coreXml = await this.zip.file(coreXmlPath)?.async('string');
+        if (!coreXml) {
+            // Packages without core properties only get them once one is set
+            if (changed.length === 0) return;
+            coreXml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+                `<cp:coreProperties xmlns:cp="${CORE_PROPERTIES_NS}" xmlns:dc="${DC_NS}" xmlns:dcterms="${DCTERMS_NS}" xmlns:xsi="${XSI_NS}"></cp:coreProperties>`;
+            await this.ensurePartContentType(coreXmlPath, CORE_PROPERTIES_CONTENT_TYPE);
+            await this.addRelationship('', CORE_PROPERTIES_RELATIONSHIP, coreXmlPath);
+        }
 
-            if (this.document.metadata.subject) {
-                updatedXml = updatedXml.replace(
-                    /<Subject>.*?<\/Subject>/,
-                    `<Subject>${this.document.metadata.subject}</Subject>`
-                );
+        const xmlDoc = new DOMParser().parseFromString(coreXml, 'text/xml');
+        changed.forEach(([key, tagName, namespace]) => {
+            const value = metadata[key];
+            let text: string | undefined;
+            if (Array.isArray(value)) {
+                text = value.join(', ');
+            } else if (key === 'created') {
+                text = value ? toW3CDTF(new Date(value as Date)) : undefined;
+            } else if (value !== undefined) {
+                text = String(value);
             }
+            this.setCoreProperty(xmlDoc, tagName, namespace, text);
+        });
+        this.setCoreProperty(xmlDoc, 'dcterms:modified', DCTERMS_NS, toW3CDTF(new Date())!);
 
-            this.zip.file(appXmlPath, updatedXml);
+        this.zip.file(coreXmlPath, serializeXML(xmlDoc, coreXml));
+    }
+
+    // Set the text of a core.xml element, adding it if needed; undefined removes it.
+    // Text content is escaped when the document is serialized.
+    private setCoreProperty(xmlDoc: Document, tagName: string, namespace: string, text: string | undefined): void {
+        const root = xmlDoc.documentElement;
+        let node = this.getChild(root, tagName);
+        if (text === undefined) {
+            if (node) root.removeChild(node);
+            return;
+        }
+
+        if (!node) {
+            node = xmlDoc.createElementNS(namespace, tagName);
+            // Dates say which format they are in
+            if (namespace === DCTERMS_NS) node.setAttributeNS(XSI_NS, 'xsi:type', 'dcterms:W3CDTF');
+            root.appendChild(node);
         }
+        node.textContent = text;
     }
 
-    private async updateCoreXml(): Promise<void> {
-        const coreXmlPath = 'docProps/core.xml';
-        const coreXml = await this.zip.file(coreXmlPath)?.async('string');
-
-        if (coreXml) {
-            // Update the modified date
-            const now = new Date().toISOString();
-            const updatedXml = coreXml.replace(
-                /<dcterms:modified>.*?<\/dcterms:modified>/,
-                `<dcterms:modified>${now}</dcterms:modified>`
-            );
+    // Write the custom properties that were added, changed or removed. Properties of types the
+    // editor doesn't load stay as they are.
+    private async updateCustomXml(): Promise<void> {
+        const customXmlPath = 'docProps/custom.xml';
+        const properties = this.document.metadata.customProperties || [];
+        const original = this.originalMetadata.customProperties || [];
+        if (JSON.stringify(properties) === JSON.stringify(original)) return;
 
-            this.zip.file(coreXmlPath, updatedXml);
+        let customXml = await this.zip.file(customXmlPath)?.async('string');
+        if (!customXml) {
+            customXml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+                `<Properties xmlns="${CUSTOM_PROPERTIES_NS}" xmlns:vt="${VT_NS}"></Properties>`;
+            await this.ensurePartContentType(customXmlPath, CUSTOM_PROPERTIES_CONTENT_TYPE);
+            await this.addRelationship('', CUSTOM_PROPERTIES_RELATIONSHIP, customXmlPath);
         }
+
+        const xmlDoc = new DOMParser().parseFromString(customXml, 'text/xml');
+        const root = xmlDoc.documentElement;
+        const findNode = (name: string) => this.getChildren(root, 'property').find(node => node.getAttribute('name') === name);
+
+        original
+            .filter(property => !properties.some(current => current.name === property.name))
+            .forEach(property => {
+                const node = findNode(property.name);
+                if (node) root.removeChild(node);
+            });
+
+        properties.forEach(property => {
+            const before = original.find(candidate => candidate.name === property.name);
+            if (before && JSON.stringify(before) === JSON.stringify(property)) return;
+
+            let node = findNode(property.name);
+            if (!node) {
+                // pids start at 2 and are unique within the part
+                const pids = this.getChildren(root, 'property').map(other => parseInt(other.getAttribute('pid') || '0', 10) || 0);
+                node = xmlDoc.createElementNS(CUSTOM_PROPERTIES_NS, 'property');
+                node.setAttribute('fmtid', CUSTOM_PROPERTY_FMTID);
+                node.setAttribute('pid', String(Math.max(1, ...pids) + 1));
+                node.setAttribute('name', property.name);
+                root.appendChild(node);
+            }
+
+            // The value keeps its vt: element (e.g. vt:lpstr) as long as its type stays the same
+            const current = Array.from(node.childNodes).find((child): child is Element => child.nodeType === Node.ELEMENT_NODE);
+            const tagName = current && customPropertyType(current.tagName) === property.type ? current.tagName : CUSTOM_PROPERTY_TAGS[property.type];
+            while (node.firstChild) node.removeChild(node.firstChild);
+
+            const value = xmlDoc.createElementNS(VT_NS, tagName);
+            value.textContent = customPropertyText(property);
+            node.appendChild(value);
+        });
+
+        this.zip.file(customXmlPath, serializeXML(xmlDoc, customXml));
     }
 
     // Alternative export method using PptxGenJS for better compatibility
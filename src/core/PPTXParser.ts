@@ -1,5 +1,9 @@
 import JSZip from 'jszip';
-import { PPTXDocument, PPTXSlide, SlideElement, Position, Size, ElementStyle } from '../types';
+import { PPTXDocument, PPTXSlide, SlideElement, Position, Size, ElementStyle, GroupContent, TableContent, TableRow, TableCell, TableCellBorders, ChartContent, ChartSeries, ChartType, TextContent, ShapeContent, TextParagraph, TextRun, TextRunStyle, TextBullet, TextBodyProperties, ElementPlaceholder, HeaderFooterSettings, TextSpacing, Hyperlink, PresentationTheme, ThemeColors, ThemeFonts, SlideBackground, GradientFill, GradientStop, ShapeFill, LineStyle, LineEnd, LineContent, CustomGeometry, GeometryGuide, GeometryPath, GeometryPoint, ShapeEffects, ShadowEffect, ImageContent, ImageCrop, ImageRecolor, MediaContent, CustomProperty, SlideSection } from '../types';
+import { paragraphsToText } from './RichText';
+import { toElementId } from './ElementId';
+import { MEDIA_ACTION, SECTION_LIST_URI, SLIDE_JUMP_ACTION } from './Ooxml';
+import { customPropertyType, parseCustomPropertyValue, splitKeywords } from './DocumentProperties';
 
 // Browser-compatible XML parser using DOMParser
 const parseXML = (xmlString: string): Document => {
@@ -36,12 +40,17 @@ const xmlToObject = (xml: Document): any => {
         const elementNodes = children.filter(child => child.nodeType === Node.ELEMENT_NODE);
 
         if (textNodes.length > 0 && elementNodes.length === 0) {
-            // Only text content
+            // Only text content. Run text keeps its whitespace, it is significant between runs.
+            if (element.tagName === 'a:t') {
+                return textNodes.map(textNode => textNode.textContent || '').join('');
+            }
             return textNodes.map(textNode => textNode.textContent?.trim() || '').join('');
         }
 
         // Group elements by tag name
         const groupedElements: { [key: string]: any[] } = {};
+        // Grouping loses the interleaving of different tags (e.g. a:r and a:br), so keep it in $$
+        const orderedElements: Array<{ name: string; value: any }> = [];
         elementNodes.forEach(child => {
             const childObj = processNode(child);
             if (childObj !== null) {
@@ -50,6 +59,7 @@ const xmlToObject = (xml: Document): any => {
                     groupedElements[tagName] = [];
                 }
                 groupedElements[tagName].push(childObj);
+                orderedElements.push({ name: tagName, value: childObj });
             }
         });
 
@@ -58,15 +68,176 @@ const xmlToObject = (xml: Document): any => {
             obj[tagName] = groupedElements[tagName];
         });
 
+        if (orderedElements.length > 0) {
+            obj.$$ = orderedElements;
+        }
+
         return obj;
     };
 
     return processNode(xml.documentElement);
 };
 
+// Formatting a slide inherits for one outline level (a:lvl1pPr .. a:lvl9pPr)
+interface LevelStyle {
+    paragraph: Partial<Pick<TextParagraph, 'alignment' | 'marginLeft' | 'indent' | 'bullet' | 'lineSpacing' | 'spaceBefore' | 'spaceAfter'>>;
+    run: TextRunStyle;
+}
+
+// A placeholder shape on a slide layout or slide master
+interface PlaceholderDefinition {
+    type: string;
+    idx?: string;
+    position?: Position;
+    size?: Size;
+    fill?: ShapeFill;
+    body?: TextBodyProperties;
+    levels: LevelStyle[];
+}
+
+// Everything a slide inherits through its layout and that layout's master
+interface LayoutChain {
+    layoutPath: string;
+    layoutName: string;
+    layoutPlaceholders: PlaceholderDefinition[];
+    masterPlaceholders: PlaceholderDefinition[];
+    // The layout's date, footer and slide number placeholder shapes
+    footerShapes: any[];
+    textStyles: { title: LevelStyle[]; body: LevelStyle[]; other: LevelStyle[] };
+    theme: PresentationTheme;
+    themePath?: string;
+    colorMap: ColorMap;
+    background?: SlideBackground;
+}
+
+// p:clrMap: which scheme color bg1/tx1/bg2/tx2 (and the rest) stand for
+type ColorMap = { [name: string]: string };
+
+// What a:schemeClr references resolve against; phClr is the color a theme style reference supplies
+interface ThemeContext {
+    theme: PresentationTheme;
+    colorMap: ColorMap;
+    placeholderColor?: string;
+}
+
+// Walking one slide's shape tree: parse order, the slide part, and the element ids handed out so far
+interface ShapeTreeCounter {
+    next: number;
+    partPath: string;
+    ids: Set<string>;
+}
+
+const DEFAULT_COLOR_MAP: ColorMap = {
+    bg1: 'lt1', tx1: 'dk1', bg2: 'lt2', tx2: 'dk2',
+    accent1: 'accent1', accent2: 'accent2', accent3: 'accent3',
+    accent4: 'accent4', accent5: 'accent5', accent6: 'accent6',
+    hlink: 'hlink', folHlink: 'folHlink'
+};
+
+// a:clrScheme entries and where they live in PresentationTheme
+const SCHEME_COLOR_KEYS: { [schemeName: string]: keyof ThemeColors } = {
+    dk1: 'primary', lt1: 'secondary', dk2: 'dark2', lt2: 'light2',
+    accent1: 'accent1', accent2: 'accent2', accent3: 'accent3',
+    accent4: 'accent4', accent5: 'accent5', accent6: 'accent6',
+    hlink: 'hyperlink', folHlink: 'followedHyperlink'
+};
+
+// Office palette, used until (or unless) the deck's own theme is read
+const DEFAULT_THEME: PresentationTheme = {
+    colors: {
+        primary: '#000000',
+        secondary: '#FFFFFF',
+        dark2: '#1F4E79',
+        light2: '#F2F2F2',
+        accent1: '#4472C4',
+        accent2: '#ED7D31',
+        accent3: '#A5A5A5',
+        accent4: '#FFC000',
+        accent5: '#5B9BD5',
+        accent6: '#70AD47',
+        hyperlink: '#0563C1',
+        followedHyperlink: '#954F72'
+    },
+    fonts: {
+        major: 'Calibri',
+        minor: 'Calibri'
+    }
+};
+
+const COLOR_TAGS = ['a:srgbClr', 'a:schemeClr', 'a:sysClr', 'a:hslClr', 'a:scrgbClr'];
+
+// Channels are 0..1 throughout
+const rgbToHsl = (r: number, g: number, b: number): [number, number, number] => {
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+    if (max === min) return [0, 0, l];
+
+    const d = max - min;
+    const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    let h;
+    if (max === r) {
+        h = (g - b) / d + (g < b ? 6 : 0);
+    } else if (max === g) {
+        h = (b - r) / d + 2;
+    } else {
+        h = (r - g) / d + 4;
+    }
+    return [h / 6, s, l];
+};
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+    if (s === 0) return [l, l, l];
+
+    const hueToChannel = (p: number, q: number, t: number): number => {
+        if (t < 0) t += 1;
+        if (t > 1) t -= 1;
+        if (t < 1 / 6) return p + (q - p) * 6 * t;
+        if (t < 1 / 2) return q;
+        if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+        return p;
+    };
+
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    return [hueToChannel(p, q, h + 1 / 3), hueToChannel(p, q, h), hueToChannel(p, q, h - 1 / 3)];
+};
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const toHexByte = (value: number): string => Math.round(clamp01(value) * 255).toString(16).padStart(2, '0').toUpperCase();
+
+const rgbToHex = (r: number, g: number, b: number): string => `#${toHexByte(r)}${toHexByte(g)}${toHexByte(b)}`;
+
+const OUTLINE_LEVELS = 9;
+
+// A cached chart value; points missing from the cache (or not numbers) are null rather than 0
+const chartNumber = (value: string | number): number | null =>
+    String(value).trim() === '' || isNaN(Number(value)) ? null : Number(value);
+
+const FOOTER_PLACEHOLDERS = ['dt', 'ftr', 'sldNum'];
+
+const TEXT_ANCHORS: { [value: string]: TextBodyProperties['anchor'] } = { t: 'top', ctr: 'middle', b: 'bottom' };
+
+// Copy only the properties that are actually set, so undefined never masks an inherited value
+export const definedProperties = <T extends object>(value: T): Partial<T> =>
+    Object.fromEntries(Object.entries(value).filter(([, property]) => property !== undefined)) as Partial<T>;
+
 export class PPTXParser {
     private zip: JSZip;
     private document: PPTXDocument;
+    // Parsed layout/master parts, shared by all slides that use them
+    private partCache: Map<string, any> = new Map();
+    private layoutChains: Map<string, LayoutChain | null> = new Map();
+    private themes: Map<string, PresentationTheme> = new Map();
+    // Theme and color map that a:schemeClr and +mj-lt style references currently resolve against
+    private themeContext: ThemeContext = { theme: DEFAULT_THEME, colorMap: DEFAULT_COLOR_MAP };
+    // a:effectStyleLst entries of each theme, see applyEffects
+    private themeEffectStyles: WeakMap<PresentationTheme, any[]> = new WeakMap();
+    private documentThemeContext: ThemeContext = this.themeContext;
+    // Relationships that a:hlinkClick r:ids currently resolve against, and slide ids by part path for jumps
+    private hyperlinkContext: { partPath: string; relationships: any[] } | null = null;
+    private slideIdsByPath: Map<string, string> = new Map();
 
     constructor() {
         this.zip = new JSZip();
@@ -96,12 +267,17 @@ export class PPTXParser {
             // Parse presentation properties
             await this.parsePresentationProperties();
 
-            // Parse slides
-            await this.parseSlides();
+            // Parse the slide size every slide is laid out on
+            await this.parseSlideSize();
 
-            // Parse theme and styles
+            // Parse theme and styles first, slide colors and fonts refer to it
             await this.parseTheme();
 
+            // Parse slides
+            await this.parseSlides();
+            await this.parseSections();
+            this.document.headerFooter = this.parseHeaderFooter(this.document.slides);
+
             return this.document;
         } catch (error) {
             console.error('Error parsing PPTX:', error);
@@ -109,6 +285,36 @@ export class PPTXParser {
         }
     }
 
+    // The deck's Header & Footer settings, read off the footer placeholders of its slides
+    private parseHeaderFooter(slides: PPTXSlide[]): HeaderFooterSettings {
+        const placeholders = (type: string) => slides.flatMap(slide => slide.elements.filter(element => element.placeholder?.type === type));
+        const footer = placeholders('ftr')[0];
+        const date = placeholders('dt')[0];
+        const dateField = (date?.content as TextContent | undefined)?.paragraphs
+            ?.flatMap(paragraph => paragraph.runs)
+            .find(run => run.field?.type.startsWith('datetime'))?.field;
+
+        // Title slides are left out when none of them has a footer but other slides do
+        const hasFooters = (slide: PPTXSlide) => slide.elements.some(element => FOOTER_PLACEHOLDERS.includes(element.placeholder?.type || ''));
+        const isTitleSlide = (slide: PPTXSlide) => slide.elements.some(element => element.placeholder?.type === 'ctrTitle');
+        const titleSlides = slides.filter(isTitleSlide);
+
+        const settings: HeaderFooterSettings = {
+            slideNumber: placeholders('sldNum').length > 0,
+            footer: !!footer,
+            footerText: footer?.content?.text || '',
+            dateTime: !!date,
+            hideOnTitleSlide: titleSlides.length > 0 && !titleSlides.some(hasFooters) && slides.some(hasFooters)
+        };
+        if (dateField) {
+            settings.dateFormat = dateField.type;
+        } else if (date) {
+            settings.fixedDate = date.content?.text || '';
+        }
+
+        return settings;
+    }
+
     private async parsePresentationProperties(): Promise<void> {
         try {
             const appXml = await this.zip.file('docProps/app.xml')?.async('string');
@@ -117,12 +323,12 @@ export class PPTXParser {
             if (appXml) {
                 try {
                     const xmlDoc = parseXML(appXml);
-                    const result = xmlToObject(xmlDoc);
-                    if (result.Properties) {
-                        const props = result.Properties;
+                    // xmlToObject gives the root element's content
+                    if (xmlDoc.documentElement?.tagName === 'Properties') {
+                        const props = xmlToObject(xmlDoc);
                         this.document.metadata.title = props.Title?.[0] || '';
                         this.document.metadata.subject = props.Subject?.[0] || '';
-                        this.document.metadata.keywords = props.Keywords?.[0]?.split(',') || [];
+                        this.document.metadata.keywords = typeof props.Keywords?.[0] === 'string' ? splitKeywords(props.Keywords[0]) : [];
                     }
                 } catch (err) {
                     console.warn('Error parsing app.xml:', err);
@@ -132,22 +338,84 @@ export class PPTXParser {
             if (coreXml) {
                 try {
                     const xmlDoc = parseXML(coreXml);
-                    const result = xmlToObject(xmlDoc);
-                    if (result['cp:coreProperties']) {
-                        const core = result['cp:coreProperties'];
-                        this.document.metadata.author = core['dc:creator']?.[0] || '';
-                        this.document.metadata.created = core['dcterms:created']?.[0] ? new Date(core['dcterms:created'][0]) : new Date();
-                        this.document.metadata.modified = core['dcterms:modified']?.[0] ? new Date(core['dcterms:modified'][0]) : new Date();
+                    if (xmlDoc.documentElement?.tagName === 'cp:coreProperties') {
+                        const core = xmlToObject(xmlDoc);
+                        // Empty elements come through as objects
+                        const text = (key: string): string | undefined => typeof core[key]?.[0] === 'string' ? core[key][0] : undefined;
+                        const metadata = this.document.metadata;
+                        // core.xml is where PowerPoint keeps these; app.xml only supplies them for older files
+                        metadata.title = text('dc:title') ?? metadata.title;
+                        metadata.subject = text('dc:subject') ?? metadata.subject;
+                        const keywords = text('cp:keywords');
+                        if (keywords !== undefined) metadata.keywords = splitKeywords(keywords);
+                        metadata.author = text('dc:creator') || '';
+                        metadata.created = text('dcterms:created') ? new Date(text('dcterms:created')!) : new Date();
+                        metadata.modified = text('dcterms:modified') ? new Date(text('dcterms:modified')!) : new Date();
+
+                        const description = text('dc:description');
+                        const lastModifiedBy = text('cp:lastModifiedBy');
+                        const category = text('cp:category');
+                        const revision = parseInt(text('cp:revision') || '', 10);
+                        if (description !== undefined) metadata.description = description;
+                        if (lastModifiedBy !== undefined) metadata.lastModifiedBy = lastModifiedBy;
+                        if (category !== undefined) metadata.category = category;
+                        if (!isNaN(revision)) metadata.revision = revision;
                     }
                 } catch (err) {
                     console.warn('Error parsing core.xml:', err);
                 }
             }
+
+            const customProperties = await this.parseCustomProperties();
+            if (customProperties.length > 0) {
+                this.document.metadata.customProperties = customProperties;
+            }
         } catch (error) {
             console.warn('Warning: Could not parse presentation properties:', error);
         }
     }
 
+    // Custom document properties from docProps/custom.xml, in the order they are stored
+    private async parseCustomProperties(): Promise<CustomProperty[]> {
+        try {
+            const customXml = await this.zip.file('docProps/custom.xml')?.async('string');
+            if (!customXml) return [];
+
+            const properties: any[] = xmlToObject(parseXML(customXml))?.property || [];
+            return properties.flatMap(property => {
+                const name = property.$?.name;
+                const tagName = Object.keys(property).find(key => key.startsWith('vt:'));
+                const type = tagName ? customPropertyType(tagName) : undefined;
+                if (!name || !tagName || !type) return [];
+
+                const text = property[tagName][0];
+                const value = parseCustomPropertyValue(type, typeof text === 'string' ? text : '');
+                // Unreadable dates aren't loaded, so they stay in custom.xml as they are
+                return value === undefined ? [] : [{ name, type, value }];
+            });
+        } catch (error) {
+            console.warn('Warning: Could not parse custom properties:', error);
+            return [];
+        }
+    }
+
+    private async parseSlideSize(): Promise<void> {
+        try {
+            const presentation = await this.readPart('ppt/presentation.xml');
+            const sldSz = presentation?.['p:sldSz']?.[0]?.$;
+
+            // PowerPoint's default for new decks: 16:9 at 13.333" x 7.5"
+            const EMU_TO_POINTS = 72 / 914400;
+            this.document.slideSize = {
+                width: parseInt(sldSz?.cx || '12192000') * EMU_TO_POINTS,
+                height: parseInt(sldSz?.cy || '6858000') * EMU_TO_POINTS,
+                type: sldSz?.type || 'custom'
+            };
+        } catch (error) {
+            console.warn('Warning: Could not parse slide size:', error);
+        }
+    }
+
     private async parseSlides(): Promise<void> {
         try {
             // Get slide relationships
@@ -174,17 +442,27 @@ export class PPTXParser {
                 const relationships = result.Relationship || [];
                 console.log('PPTXParser: All relationships:', relationships);
 
-                const slideRels = relationships.filter((rel: any) =>
-                    rel.$.Target?.includes('slide') &&
-                    !rel.$.Target?.includes('slideMaster') &&
-                    !rel.$.Target?.includes('slideLayout')
-                );
+                const slideRels = relationships.filter((rel: any) => rel.$?.Type?.endsWith('/slide'));
                 console.log('PPTXParser: Slide relationships found:', slideRels.length);
                 console.log('PPTXParser: Slide relationship details:', slideRels);
 
-                for (let i = 0; i < slideRels.length; i++) {
-                    const slideRel = slideRels[i];
-                    const slidePath = `ppt/${slideRel.$.Target}`;
+                // Presentation order is the order of p:sldIdLst, not the order of the relationships
+                const presentation = await this.readPart('ppt/presentation.xml');
+                const slideIds: any[] = presentation?.['p:sldIdLst']?.[0]?.['p:sldId'] || [];
+                const orderedRels = slideIds.length > 0
+                    ? slideIds
+                        .map((slideId: any) => slideRels.find((rel: any) => rel.$.Id === slideId.$?.['r:id']))
+                        .filter((rel: any) => rel)
+                    : slideRels;
+
+                // Links to other slides need the ids of slides that haven't been parsed yet
+                this.slideIdsByPath = new Map(orderedRels.map((rel: any, i: number) =>
+                    [this.resolveRelativePath('ppt/presentation.xml', rel.$.Target), `slide-${i + 1}`] as [string, string]
+                ));
+
+                for (let i = 0; i < orderedRels.length; i++) {
+                    const slideRel = orderedRels[i];
+                    const slidePath = this.resolveRelativePath('ppt/presentation.xml', slideRel.$.Target);
                     console.log(`PPTXParser: Processing slide ${i + 1} at path:`, slidePath);
 
                     try {
@@ -209,6 +487,51 @@ export class PPTXParser {
         }
     }
 
+    // Sections from the p14:sectionLst extension of presentation.xml. They refer to slides by their p:sldId id.
+    private async parseSections(): Promise<void> {
+        try {
+            const presentation = await this.readPart('ppt/presentation.xml');
+            const extension = (presentation?.['p:extLst']?.[0]?.['p:ext'] || []).find((ext: any) => ext.$?.uri === SECTION_LIST_URI);
+            const sectionNodes: any[] = extension?.['p14:sectionLst']?.[0]?.['p14:section'] || [];
+            if (sectionNodes.length === 0) return;
+
+            // p:sldId id -> r:id -> slide part -> slide
+            const relationships: any[] = (await this.readPart('ppt/_rels/presentation.xml.rels'))?.Relationship || [];
+            const slideIdsBySldId = new Map<string, string>();
+            (presentation?.['p:sldIdLst']?.[0]?.['p:sldId'] || []).forEach((sldId: any) => {
+                const relationship = relationships.find(rel => rel.$?.Id === sldId.$?.['r:id']);
+                const slideId = relationship && this.slideIdsByPath.get(this.resolveRelativePath('ppt/presentation.xml', relationship.$.Target));
+                if (slideId) slideIdsBySldId.set(sldId.$.id, slideId);
+            });
+
+            const sections: SlideSection[] = sectionNodes.map((node: any) => ({
+                id: node.$?.id || '',
+                name: node.$?.name || '',
+                slideIds: (node['p14:sldIdLst']?.[0]?.['p14:sldId'] || [])
+                    .map((sldId: any) => slideIdsBySldId.get(sldId.$?.id))
+                    .filter((slideId: string | undefined): slideId is string => !!slideId)
+            }));
+
+            // Slides no section lists join the section of the slide before them
+            const slides = this.document.slides;
+            slides.forEach((slide, index) => {
+                if (sections.some(section => section.slideIds.includes(slide.id))) return;
+                const previous = slides.slice(0, index).reverse().find(other => sections.some(section => section.slideIds.includes(other.id)));
+                const section = previous ? sections.find(candidate => candidate.slideIds.includes(previous.id))! : sections[0];
+                section.slideIds.splice(previous ? section.slideIds.indexOf(previous.id) + 1 : 0, 0, slide.id);
+            });
+
+            // Sections are consecutive runs of slides, so their order is the deck order
+            const order = sections.flatMap(section => section.slideIds);
+            slides.sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
+            slides.forEach((slide, index) => slide.slideNumber = index + 1);
+
+            this.document.sections = sections;
+        } catch (error) {
+            console.warn('Warning: Could not parse sections:', error);
+        }
+    }
+
     private async parseSlide(slidePath: string, slideNumber: number): Promise<PPTXSlide | null> {
         try {
             console.log(`PPTXParser: Attempting to parse slide at path: ${slidePath}`);
@@ -225,7 +548,8 @@ export class PPTXParser {
                 id: `slide-${slideNumber}`,
                 slideNumber,
                 elements: [],
-                layout: 'default'
+                layout: 'default',
+                partPath: slidePath
             };
 
             try {
@@ -241,77 +565,60 @@ export class PPTXParser {
                     return null;
                 }
 
-                // Parse slide layout
-                const layout = slideData['p:sldLayoutId']?.[0]?.$?.id;
-                if (layout) {
-                    slide.layout = layout;
+                // show="0" hides the slide in slide show
+                const show = result.$?.show;
+                if (show === '0' || show === 'false') {
+                    slide.hidden = true;
                 }
 
                 // Parse slide elements in their EXACT original order from the XML
+                // The layout chain decides which theme and color map the slide's colors resolve against
+                const slideRelPath = slidePath.replace('ppt/slides/', 'ppt/slides/_rels/').replace('.xml', '.xml.rels');
+                const layoutChain = await this.loadLayoutChain(slidePath, slideRelPath);
+                this.themeContext = this.documentThemeContext;
+                if (layoutChain) {
+                    slide.layout = layoutChain.layoutName || layoutChain.layoutPath;
+                    slide.layoutPath = layoutChain.layoutPath;
+                    this.themeContext = { theme: layoutChain.theme, colorMap: layoutChain.colorMap };
+                }
+
+                // A slide may override the master's color mapping
+                const colorMapOverride = result['p:clrMapOvr']?.[0]?.['a:overrideClrMapping']?.[0];
+                if (colorMapOverride) {
+                    this.themeContext = { ...this.themeContext, colorMap: this.parseColorMap(colorMapOverride) };
+                }
+
+                // Without its own p:bg the slide shows the layout's or master's background
+                const background = await this.parseBackground(slideData, slidePath, layoutChain?.themePath) || layoutChain?.background;
+                if (background) {
+                    // Image data URLs are shared between slides rather than copied
+                    slide.background = background.gradient
+                        ? { ...background, gradient: structuredClone(background.gradient) }
+                        : { ...background };
+                }
+
+                await this.parseNotes(slide, slidePath, slideRelPath);
+
                 const spTree = slideData['p:spTree']?.[0];
                 if (spTree) {
                     console.log('PPTXParser: spTree keys:', Object.keys(spTree));
 
                     // PowerPoint stores elements in spTree in the correct z-index order
-                    // We need to preserve this order by processing them in sequence
-                    const allElements: Array<{ element: SlideElement, originalIndex: number }> = [];
-                    let globalIndex = 0;
-
-                    // Get ALL child nodes from spTree in their original XML order
-                    // This preserves PowerPoint's intended z-index layering
-                    const allChildNodes = Object.keys(spTree).filter(key =>
-                        key.startsWith('p:') &&
-                        Array.isArray(spTree[key]) &&
-                        spTree[key].length > 0
-                    );
-
-                    console.log('PPTXParser: All child node types found:', allChildNodes);
-
-                    // Process each node type in the order they appear in the XML
-                    allChildNodes.forEach(nodeType => {
-                        const nodes = spTree[nodeType] || [];
-                        console.log(`PPTXParser: Processing ${nodeType} nodes:`, nodes.length);
-
-                        nodes.forEach((node: any) => {
-                            let element: SlideElement | null = null;
-
-                            switch (nodeType) {
-                                case 'p:sp':
-                                    element = this.parseShapeElement(node, globalIndex);
-                                    break;
-                                case 'p:pic':
-                                    element = this.parsePictureElement(node, globalIndex);
-                                    break;
-                                case 'p:txBox':
-                                    element = this.parseTextBoxElement(node, globalIndex);
-                                    break;
-                                default:
-                                    console.log(`PPTXParser: Unknown node type: ${nodeType}, skipping`);
-                                    return;
-                            }
-
-                            if (element) {
-                                // Store the original processing order as z-index
-                                (element as any).zIndex = globalIndex;
-                                allElements.push({ element, originalIndex: globalIndex });
-                                globalIndex++;
-                            }
-                        });
-                    });
-
-                    console.log('PPTXParser: Found total elements:', allElements.length);
-
-                    // Sort elements by their original index to maintain z-index order
-                    allElements.sort((a, b) => a.originalIndex - b.originalIndex);
-
-                    // Extract just the elements in the correct order
-                    slide.elements = allElements.map(item => item.element);
+                    this.hyperlinkContext = { partPath: slidePath, relationships: await this.readRelationships(slideRelPath) };
+                    slide.elements = this.parseShapeTree(spTree, { next: 0, partPath: slidePath, ids: new Set() });
+                    this.hyperlinkContext = null;
+                    this.applyMediaTiming(slide.elements, result['p:timing']?.[0]);
 
                     console.log('PPTXParser: Final elements array with z-index order:', slide.elements.map((el) => ({ id: el.id, type: el.type, zIndex: (el as any).zIndex })));
 
                     // Now resolve image relationships and load actual image data
                     // Each slide has its own relationship file in the _rels folder
-                    const slideRelPath = slidePath.replace('ppt/slides/', 'ppt/slides/_rels/').replace('.xml', '.xml.rels');
+
+                    // Placeholders take whatever they don't specify from the layout and master
+                    if (layoutChain) {
+                        this.applyPlaceholderInheritance(slide.elements, layoutChain);
+                        slide.footerPlaceholders = this.parseFooterPlaceholders(layoutChain);
+                    }
                     console.log('PPTXParser: About to resolve image data for slide:', slide.id, 'using rels path:', slideRelPath);
 
                     // Check if the relationship file exists
@@ -319,6 +626,9 @@ export class PPTXParser {
                     if (relsFileExists) {
                         console.log('PPTXParser: Relationship file exists, resolving image data...');
                         await this.resolveImageData(slide, slideRelPath);
+                        await this.resolveChartData(slide, slidePath, slideRelPath);
+                        await this.resolveMediaData(slide, slidePath, slideRelPath);
+                        await this.resolveFillImages(slide, slidePath, slideRelPath);
                     } else {
                         console.warn('PPTXParser: Relationship file does not exist:', slideRelPath);
                         // Try alternative path
@@ -328,6 +638,9 @@ export class PPTXParser {
                         if (altRelsFile) {
                             console.log('PPTXParser: Alternative relationship file exists, resolving image data...');
                             await this.resolveImageData(slide, altPath);
+                            await this.resolveChartData(slide, slidePath, altPath);
+                            await this.resolveMediaData(slide, slidePath, altPath);
+                            await this.resolveFillImages(slide, slidePath, altPath);
                         } else {
                             console.warn('PPTXParser: Alternative relationship file also does not exist:', altPath);
 
@@ -353,6 +666,231 @@ export class PPTXParser {
         }
     }
 
+    // Speaker notes are the body placeholder of the slide's notes slide
+    private async parseNotes(slide: PPTXSlide, slidePath: string, slideRelPath: string): Promise<void> {
+        try {
+            const relationships = await this.readRelationships(slideRelPath);
+            const notesRelationship = relationships.find((rel: any) => rel.$?.Type?.endsWith('/notesSlide'));
+            if (!notesRelationship) return;
+
+            const notesPath = this.resolveRelativePath(slidePath, notesRelationship.$.Target);
+            const notes = await this.readPart(notesPath);
+            if (!notes) {
+                console.warn('PPTXParser: Notes slide not found:', notesPath);
+                return;
+            }
+
+            slide.notesPath = notesPath;
+            const shapes = notes['p:cSld']?.[0]?.['p:spTree']?.[0]?.['p:sp'] || [];
+            const body = shapes.find((shape: any) =>
+                shape['p:nvSpPr']?.[0]?.['p:nvPr']?.[0]?.['p:ph']?.[0]?.$?.type === 'body'
+            );
+            const txBody = body?.['p:txBody']?.[0];
+            if (!txBody) return;
+
+            this.hyperlinkContext = { partPath: notesPath, relationships: await this.readRelationships(this.getRelsPath(notesPath)) };
+            const paragraphs = this.parseParagraphs(txBody);
+            this.hyperlinkContext = null;
+            slide.notes = { text: paragraphsToText(paragraphs), paragraphs };
+        } catch (error) {
+            console.warn('PPTXParser: Error parsing notes for', slidePath, error);
+        }
+    }
+
+    private parseShapeTree(spTree: any, counter: ShapeTreeCounter): SlideElement[] {
+        const elements: SlideElement[] = [];
+
+        // Walk the tree in document order, which is the z-order: grouping the nodes by tag would put
+        // every picture above the shapes after it. Group properties are not shapes.
+        const childNodes: Array<{ name: string; value: any }> = (spTree.$$ || [])
+            .filter(({ name }: { name: string }) => name !== 'p:nvGrpSpPr' && name !== 'p:grpSpPr');
+
+        childNodes.forEach(({ name: nodeType, value: node }) => {
+            let element: SlideElement | null = null;
+            const index = counter.next++;
+
+            switch (nodeType) {
+                case 'p:sp':
+                    element = this.parseShapeElement(node, index);
+                    break;
+                case 'p:pic':
+                    element = this.parsePictureElement(node, index);
+                    break;
+                case 'p:txBox':
+                    element = this.parseTextBoxElement(node, index);
+                    break;
+                case 'p:grpSp':
+                    element = this.parseGroupElement(node, index, counter);
+                    break;
+                case 'p:graphicFrame':
+                    element = this.parseGraphicFrameElement(node, index);
+                    break;
+                case 'p:cxnSp':
+                    element = this.parseConnectorElement(node, index);
+                    break;
+                default:
+                    console.log(`PPTXParser: Unknown node type: ${nodeType}, skipping`);
+                    return;
+            }
+
+            if (element) {
+                this.applyTransformAttributes(element, node);
+                const nvPrKey = Object.keys(node).find(key => key.startsWith('p:nv') && key.endsWith('Pr'));
+                const cNvPr = nvPrKey ? node[nvPrKey]?.[0]?.['p:cNvPr']?.[0] : undefined;
+                this.applyIdentity(element, cNvPr, counter);
+                const placeholder = this.parsePlaceholder(node);
+                if (placeholder) {
+                    element.placeholder = placeholder;
+                }
+                const hyperlink = this.parseHyperlink(cNvPr?.['a:hlinkClick']?.[0]);
+                // Media carry a click action that starts playback, which isn't a link
+                if (hyperlink && !(element.type === 'media' && hyperlink.action === MEDIA_ACTION)) {
+                    element.hyperlink = hyperlink;
+                }
+                // Store the document order as z-index
+                (element as any).zIndex = index;
+                elements.push(element);
+            }
+        });
+
+        console.log('PPTXParser: Found total elements:', elements.length);
+
+        return elements;
+    }
+
+    // p:nvPr/p:ph of a shape, picture or graphic frame
+    private parsePlaceholder(node: any): ElementPlaceholder | undefined {
+        const nvPrKey = Object.keys(node || {}).find(key => key.startsWith('p:nv') && key.endsWith('Pr'));
+        const ph = nvPrKey ? node[nvPrKey]?.[0]?.['p:nvPr']?.[0]?.['p:ph']?.[0] : undefined;
+        if (!ph) return undefined;
+
+        const placeholder: ElementPlaceholder = { type: ph.$?.type || 'obj' };
+        if (ph.$?.idx !== undefined) placeholder.idx = ph.$.idx;
+        return placeholder;
+    }
+
+    // The layout's footer placeholders as slide elements, styled as they would be on the slide
+    private parseFooterPlaceholders(chain: LayoutChain): SlideElement[] {
+        const elements = chain.footerShapes.flatMap((shape: any, index: number) => {
+            const element = this.parseShapeElement(shape, index);
+            if (!element) return [];
+            element.placeholder = this.parsePlaceholder(shape);
+            element.name = shape['p:nvSpPr']?.[0]?.['p:cNvPr']?.[0]?.$?.name;
+            return [element];
+        });
+
+        this.applyPlaceholderInheritance(elements, chain);
+        // They aren't part of the slide until copied onto it
+        elements.forEach(element => delete element.originalData);
+        return elements;
+    }
+
+    // Name the element after its slide part and p:cNvPr id. Shapes without an id, or with one that
+    // is already taken on the slide, keep their place in the parse order in the id instead.
+    private applyIdentity(element: SlideElement, cNvPr: any, counter: ShapeTreeCounter): void {
+        const attrs = cNvPr?.$ || {};
+        let id = toElementId(counter.partPath, attrs.id || element.id);
+        if (counter.ids.has(id)) {
+            id = toElementId(counter.partPath, `${attrs.id}-${element.id}`);
+        }
+        counter.ids.add(id);
+
+        element.id = id;
+        if (attrs.id) element.shapeId = attrs.id;
+        if (attrs.name) element.name = attrs.name;
+        if (attrs.descr) element.description = attrs.descr;
+    }
+
+    private parseGroupElement(group: any, index: number, counter: ShapeTreeCounter): SlideElement | null {
+        try {
+            const grpSpPr = group['p:grpSpPr']?.[0];
+            if (!grpSpPr) return null;
+
+            const position = this.parsePosition(grpSpPr);
+            const size = this.parseSize(grpSpPr);
+
+            // Children are positioned in the group's own coordinate space (a:chOff/a:chExt)
+            const xfrm = grpSpPr['a:xfrm']?.[0];
+            const EMU_TO_POINTS = 72 / 914400;
+            const chOff = xfrm?.['a:chOff']?.[0]?.$;
+            const chExt = xfrm?.['a:chExt']?.[0]?.$;
+            const childOffset: Position = chOff
+                ? { x: parseInt(chOff.x || '0') * EMU_TO_POINTS, y: parseInt(chOff.y || '0') * EMU_TO_POINTS }
+                : { ...position };
+            const childExtent: Size = chExt
+                ? { width: parseInt(chExt.cx || '0') * EMU_TO_POINTS, height: parseInt(chExt.cy || '0') * EMU_TO_POINTS }
+                : { ...size };
+
+            const children = this.parseShapeTree(group, counter);
+
+            // Map the children onto the slide so they land where PowerPoint draws them
+            children.forEach(child => this.mapElementToFrame(child, childOffset, childExtent, position, size));
+
+            const content: GroupContent = {
+                children,
+                childOffset: { ...position },
+                childExtent: { ...size }
+            };
+
+            const element: SlideElement = {
+                id: `group-${index}`,
+                type: 'group',
+                position,
+                size,
+                content,
+                style: {},
+                originalData: group
+            };
+
+            return element;
+        } catch (error) {
+            console.warn('Warning: Could not parse group element:', error);
+            return null;
+        }
+    }
+
+    // Rotation and flips sit on the xfrm itself rather than on a:off/a:ext
+    private applyTransformAttributes(element: SlideElement, node: any): void {
+        const xfrm = node['p:spPr']?.[0]?.['a:xfrm']?.[0] ||
+            node['p:grpSpPr']?.[0]?.['a:xfrm']?.[0] ||
+            node['p:xfrm']?.[0];
+        const attributes = xfrm?.$;
+        if (!attributes) return;
+
+        const rotation = parseInt(attributes.rot || '0', 10) / 60000;
+        if (rotation) {
+            element.rotation = rotation;
+        }
+        if (attributes.flipH === '1' || attributes.flipH === 'true') {
+            element.flipH = true;
+        }
+        if (attributes.flipV === '1' || attributes.flipV === 'true') {
+            element.flipV = true;
+        }
+    }
+
+    private mapElementToFrame(element: SlideElement, fromOffset: Position, fromExtent: Size, toOffset: Position, toExtent: Size): void {
+        const scaleX = fromExtent.width ? toExtent.width / fromExtent.width : 1;
+        const scaleY = fromExtent.height ? toExtent.height / fromExtent.height : 1;
+
+        element.position = {
+            x: toOffset.x + (element.position.x - fromOffset.x) * scaleX,
+            y: toOffset.y + (element.position.y - fromOffset.y) * scaleY
+        };
+        element.size = {
+            width: element.size.width * scaleX,
+            height: element.size.height * scaleY
+        };
+
+        // Nested groups carry their own child space, which moves along with them
+        if (element.type === 'group') {
+            const content = element.content as GroupContent;
+            content.children.forEach(child => this.mapElementToFrame(child, fromOffset, fromExtent, toOffset, toExtent));
+            content.childOffset = { ...element.position };
+            content.childExtent = { ...element.size };
+        }
+    }
+
     private parseShapeElement(shape: any, index: number): SlideElement | null {
         try {
             const spPr = shape['p:spPr']?.[0];
@@ -363,13 +901,26 @@ export class PPTXParser {
             const position = this.parsePosition(spPr);
             const size = this.parseSize(spPr);
 
-            let textContent = '';
-            if (txBody) {
-                textContent = this.parseTextContent(txBody);
-                // Only log if we get [object Object] or empty text
-                if (textContent === '[object Object]' || textContent === '') {
-                    console.log(`PPTXParser: Element ${index} - PROBLEM: textContent="${textContent}", txBody:`, txBody);
-                }
+            const paragraphs = txBody ? this.parseParagraphs(txBody) : [];
+            const prstGeom = spPr['a:prstGeom']?.[0];
+            const custGeom = spPr['a:custGeom']?.[0];
+            const content: ShapeContent = {
+                shapeType: prstGeom?.$?.prst || (custGeom ? 'custom' : 'rect'),
+                text: paragraphsToText(paragraphs),
+                paragraphs
+            };
+
+            const body = this.parseTextBody(txBody);
+            if (body) {
+                content.body = body;
+            }
+
+            const adjustments = this.parseAdjustments(prstGeom);
+            if (adjustments) {
+                content.adjustments = adjustments;
+            }
+            if (custGeom) {
+                content.customGeometry = this.parseCustomGeometry(custGeom);
             }
 
             const element: SlideElement = {
@@ -377,11 +928,8 @@ export class PPTXParser {
                 type: 'shape',
                 position,
                 size,
-                content: {
-                    shapeType: spPr['a:prstGeom']?.[0]?.$.prst || 'rect',
-                    text: textContent
-                },
-                style: this.parseElementStyle(spPr, txBody),
+                content,
+                style: this.parseElementStyle(spPr, txBody, shape['p:style']?.[0]),
                 originalData: shape
             };
 
@@ -392,6 +940,115 @@ export class PPTXParser {
         }
     }
 
+    // a:avLst of a preset: the shape's own adjustment values, e.g. the corner size of a roundRect
+    private parseAdjustments(geometry: any): { [name: string]: number } | undefined {
+        const guides = this.parseGuides(geometry?.['a:avLst']?.[0]);
+        if (guides.length === 0) return undefined;
+
+        const adjustments: { [name: string]: number } = {};
+        guides.forEach(guide => {
+            const [operator, value] = guide.formula.split(/\s+/);
+            if (operator === 'val' && !isNaN(parseFloat(value))) {
+                adjustments[guide.name] = parseFloat(value);
+            }
+        });
+        return adjustments;
+    }
+
+    private parseGuides(list: any): GeometryGuide[] {
+        return (list?.['a:gd'] || [])
+            .filter((gd: any) => gd?.$?.name && gd.$.fmla)
+            .map((gd: any) => ({ name: gd.$.name, formula: gd.$.fmla }));
+    }
+
+    private parseCustomGeometry(custGeom: any): CustomGeometry {
+        const paths: GeometryPath[] = (custGeom['a:pathLst']?.[0]?.['a:path'] || []).map((pathNode: any) => {
+            const attributes = pathNode.$ || {};
+            const path: GeometryPath = { commands: [] };
+            if (attributes.w) path.width = parseInt(attributes.w);
+            if (attributes.h) path.height = parseInt(attributes.h);
+            if (attributes.fill) path.fill = attributes.fill;
+            if (attributes.stroke !== undefined) path.stroke = attributes.stroke !== '0' && attributes.stroke !== 'false';
+
+            // Commands have to stay in document order
+            const points = (command: any): GeometryPoint[] => (command['a:pt'] || []).map((pt: any) => ({ x: pt.$.x, y: pt.$.y }));
+            (pathNode.$$ || []).forEach(({ name, value: command }: { name: string; value: any }) => {
+                switch (name) {
+                    case 'a:moveTo':
+                    case 'a:lnTo':
+                        path.commands.push({ type: name === 'a:moveTo' ? 'moveTo' : 'lnTo', points: [points(command)[0]] });
+                        break;
+                    case 'a:quadBezTo': {
+                        const [control, end] = points(command);
+                        path.commands.push({ type: 'quadBezTo', points: [control, end] });
+                        break;
+                    }
+                    case 'a:cubicBezTo': {
+                        const [first, second, end] = points(command);
+                        path.commands.push({ type: 'cubicBezTo', points: [first, second, end] });
+                        break;
+                    }
+                    case 'a:arcTo':
+                        path.commands.push({
+                            type: 'arcTo',
+                            widthRadius: command.$.wR,
+                            heightRadius: command.$.hR,
+                            startAngle: command.$.stAng,
+                            swingAngle: command.$.swAng
+                        });
+                        break;
+                    case 'a:close':
+                        path.commands.push({ type: 'close' });
+                        break;
+                }
+            });
+
+            return path;
+        });
+
+        return {
+            adjustments: this.parseGuides(custGeom['a:avLst']?.[0]),
+            guides: this.parseGuides(custGeom['a:gdLst']?.[0]),
+            paths
+        };
+    }
+
+    private parseConnectorElement(connector: any, index: number): SlideElement | null {
+        try {
+            const spPr = connector['p:spPr']?.[0];
+            if (!spPr) return null;
+
+            const content: LineContent = {
+                shapeType: spPr['a:prstGeom']?.[0]?.$.prst || 'line'
+            };
+
+            // Shapes the connector is glued to
+            const cNvCxnSpPr = connector['p:nvCxnSpPr']?.[0]?.['p:cNvCxnSpPr']?.[0];
+            const parseConnection = (connection: any) => connection?.$?.id !== undefined
+                ? { shapeId: connection.$.id, site: parseInt(connection.$.idx || '0') }
+                : undefined;
+            const startConnection = parseConnection(cNvCxnSpPr?.['a:stCxn']?.[0]);
+            const endConnection = parseConnection(cNvCxnSpPr?.['a:endCxn']?.[0]);
+            if (startConnection) content.startConnection = startConnection;
+            if (endConnection) content.endConnection = endConnection;
+
+            const element: SlideElement = {
+                id: `connector-${index}`,
+                type: 'line',
+                position: this.parsePosition(spPr),
+                size: this.parseSize(spPr),
+                content,
+                style: this.parseElementStyle(spPr, undefined, connector['p:style']?.[0]),
+                originalData: connector
+            };
+
+            return element;
+        } catch (error) {
+            console.warn('Warning: Could not parse connector element:', error);
+            return null;
+        }
+    }
+
     private parsePictureElement(picture: any, index: number): SlideElement | null {
         try {
             const spPr = picture['p:spPr']?.[0];
@@ -407,17 +1064,24 @@ export class PPTXParser {
 
             console.log('PPTXParser: Processing image with rId:', imageId);
 
+            const content: ImageContent = {
+                imageId,
+                imagePath: '', // Will be resolved by resolveImageData
+                altText: picture['p:nvPicPr']?.[0]?.['p:cNvPr']?.[0]?.$.descr || ''
+            };
+            const crop = this.parseImageCrop(blipFill['a:srcRect']?.[0]);
+            if (crop) content.crop = crop;
+            this.applyImageAdjustments(content, blip);
+
+            const media = this.parseMedia(picture['p:nvPicPr']?.[0]?.['p:nvPr']?.[0], content);
+
             const element: SlideElement = {
-                id: `picture-${index}`,
-                type: 'image',
+                id: `${media ? 'media' : 'picture'}-${index}`,
+                type: media ? 'media' : 'image',
                 position,
                 size,
-                content: {
-                    imageId,
-                    imagePath: '', // Will be resolved by resolveImageData
-                    altText: picture['p:nvPicPr']?.[0]?.['p:cNvPr']?.[0]?.$.descr || ''
-                },
-                style: this.parseElementStyle(spPr),
+                content: media || content,
+                style: this.parseElementStyle(spPr, undefined, picture['p:style']?.[0]),
                 originalData: picture
             };
 
@@ -428,6 +1092,62 @@ export class PPTXParser {
         }
     }
 
+    // Video and audio are pictures whose p:nvPr names the media: a:videoFile/a:audioFile link it, and
+    // PowerPoint 2010 and later embed it through the p14:media extension
+    private parseMedia(nvPr: any, poster: ImageContent): MediaContent | null {
+        const videoFile = nvPr?.['a:videoFile']?.[0] || nvPr?.['a:quickTimeFile']?.[0];
+        const audioFile = nvPr?.['a:audioFile']?.[0];
+        if (!videoFile && !audioFile) return null;
+
+        const media: MediaContent = { ...poster, mediaType: videoFile ? 'video' : 'audio' };
+        const linkId = (videoFile || audioFile).$?.['r:link'];
+        if (linkId) media.linkId = linkId;
+
+        const extensions: any[] = nvPr['p:extLst']?.[0]?.['p:ext'] || [];
+        const p14Media = extensions.map(ext => ext['p14:media']?.[0]).find(Boolean);
+        if (p14Media?.$?.['r:embed']) media.mediaId = p14Media.$['r:embed'];
+
+        const trim = p14Media?.['p14:trim']?.[0]?.$;
+        if (trim?.st) media.trimStart = parseFloat(trim.st);
+        if (trim?.end) media.trimEnd = parseFloat(trim.end);
+
+        return media;
+    }
+
+    // a:srcRect insets are in 1/1000ths of a percent of the picture; no insets means no crop
+    private parseImageCrop(srcRect: any): ImageCrop | undefined {
+        const attrs = srcRect?.$;
+        if (!attrs) return undefined;
+
+        const inset = (value: string | undefined) => parseInt(value || '0') / 100000;
+        const crop: ImageCrop = { left: inset(attrs.l), top: inset(attrs.t), right: inset(attrs.r), bottom: inset(attrs.b) };
+        return crop.left || crop.top || crop.right || crop.bottom ? crop : undefined;
+    }
+
+    // Transparency and recoloring are effects on the a:blip itself
+    private applyImageAdjustments(content: ImageContent, blip: any): void {
+        const alphaModFix = blip?.['a:alphaModFix']?.[0];
+        if (alphaModFix) {
+            const amount = clamp01(parseInt(alphaModFix.$?.amt ?? '100000') / 100000);
+            if (amount < 1) content.transparency = 1 - amount;
+        }
+
+        const duotone = blip?.['a:duotone']?.[0];
+        if (duotone) {
+            // Two colors in document order, possibly of the same kind. Colors that can't be read
+            // (a:prstClr) keep their place and fall back to black and white.
+            const [dark, light] = (duotone.$$ || [])
+                .filter(({ name }: { name: string }) => name.endsWith('Clr'))
+                .map(({ name, value }: { name: string; value: any }) => this.parseColor({ [name]: [value] }));
+            const recolor: ImageRecolor = { type: 'duotone' };
+            if (dark) recolor.dark = dark;
+            if (light) recolor.light = light;
+            content.recolor = recolor;
+        } else if (blip?.['a:grayscl']) {
+            content.recolor = { type: 'grayscale' };
+        }
+    }
+
     private parseTextBoxElement(textBox: any, index: number): SlideElement | null {
         try {
             const spPr = textBox['p:spPr']?.[0];
@@ -438,15 +1158,24 @@ export class PPTXParser {
             const position = this.parsePosition(spPr);
             const size = this.parseSize(spPr);
 
+            const paragraphs = this.parseParagraphs(txBody);
+            const content: TextContent = {
+                text: paragraphsToText(paragraphs),
+                paragraphs
+            };
+
+            const body = this.parseTextBody(txBody);
+            if (body) {
+                content.body = body;
+            }
+
             const element: SlideElement = {
                 id: `textbox-${index}`,
                 type: 'text',
                 position,
                 size,
-                content: {
-                    text: this.parseTextContent(txBody)
-                },
-                style: this.parseElementStyle(spPr, txBody),
+                content,
+                style: this.parseElementStyle(spPr, txBody, textBox['p:style']?.[0]),
                 originalData: textBox
             };
 
@@ -457,260 +1186,779 @@ export class PPTXParser {
         }
     }
 
-    private parsePosition(spPr: any): Position {
-        const xfrm = spPr['a:xfrm']?.[0];
-        const off = xfrm?.['a:off']?.[0]?.$;
-
-        // Debug: Log the raw EMU values
-        console.log('PPTXParser: Raw EMU values - x:', off?.x, 'y:', off?.y);
-
-        // Convert EMUs to points: 1 inch = 914400 EMUs, 1 inch = 72 points
-        // So 1 EMU = 72/914400 = 1/12700 points
-        const EMU_TO_POINTS = 72 / 914400;
+    private parseGraphicFrameElement(frame: any, index: number): SlideElement | null {
+        const graphicData = frame['a:graphic']?.[0]?.['a:graphicData']?.[0];
+        if (!graphicData) return null;
 
-        const x = parseInt(off?.x || '0') * EMU_TO_POINTS;
-        const y = parseInt(off?.y || '0') * EMU_TO_POINTS;
+        if (graphicData['a:tbl']) {
+            return this.parseTableElement(frame, graphicData['a:tbl'][0], index);
+        }
 
-        console.log('PPTXParser: Converted to points - x:', x, 'y:', y);
+        if (graphicData['c:chart']) {
+            return this.parseChartElement(frame, graphicData['c:chart'][0], index);
+        }
 
-        return { x, y };
+        return null;
     }
 
-    private parseSize(spPr: any): Size {
-        const xfrm = spPr['a:xfrm']?.[0];
-        const ext = xfrm?.['a:ext']?.[0]?.$;
+    private parseTableElement(frame: any, tbl: any, index: number): SlideElement | null {
+        try {
+            // Graphic frames keep their transform in p:xfrm rather than spPr/a:xfrm
+            const frameProperties = { 'a:xfrm': frame['p:xfrm'] };
+            const position = this.parsePosition(frameProperties);
+            const size = this.parseSize(frameProperties);
 
-        // Debug: Log the raw EMU values
-        console.log('PPTXParser: Raw EMU size values - cx:', ext?.cx, 'cy:', ext?.cy);
+            const EMU_TO_POINTS = 72 / 914400;
+            const columns: number[] = (tbl['a:tblGrid']?.[0]?.['a:gridCol'] || [])
+                .map((col: any) => parseInt(col.$?.w || '0') * EMU_TO_POINTS);
 
-        // Convert EMUs to points: 1 inch = 914400 EMUs, 1 inch = 72 points
-        // So 1 EMU = 72/914400 = 1/12700 points
-        const EMU_TO_POINTS = 72 / 914400;
+            const rows: TableRow[] = (tbl['a:tr'] || []).map((tr: any) => ({
+                height: parseInt(tr.$?.h || '0') * EMU_TO_POINTS,
+                cells: (tr['a:tc'] || []).map((tc: any) => this.parseTableCell(tc))
+            }));
 
-        const width = parseInt(ext?.cx || '0') * EMU_TO_POINTS;
-        const height = parseInt(ext?.cy || '0') * EMU_TO_POINTS;
+            const content: TableContent = { columns, rows };
 
-        console.log('PPTXParser: Converted size to points - width:', width, 'height:', height);
+            const element: SlideElement = {
+                id: `table-${index}`,
+                type: 'table',
+                position,
+                size,
+                content,
+                style: {},
+                originalData: frame
+            };
 
-        return { width, height };
+            return element;
+        } catch (error) {
+            console.warn('Warning: Could not parse table element:', error);
+            return null;
+        }
     }
 
-    private parseTextContent(txBody: any): string {
+    private parseChartElement(frame: any, chart: any, index: number): SlideElement | null {
         try {
-            const paragraphs = txBody['a:p'] || [];
-
-            const result = paragraphs.map((p: any) => {
-                const runs = p['a:r'] || [];
-
-                const paragraphText = runs.map((r: any) => {
-                    const textNode = r['a:t']?.[0];
-                    let text = '';
-
-                    if (typeof textNode === 'string') {
-                        text = textNode;
-                    } else if (typeof textNode === 'object' && textNode !== null) {
-                        // If it's an object, try to extract the text content
-                        if (textNode._) {
-                            text = textNode._;
-                        } else if (textNode.$ && textNode.$.val) {
-                            text = textNode.$.val;
-                        } else {
-                            // If it's an empty object, it might be an empty text node
-                            text = '';
-                        }
-                    }
-
-                    return text;
-                }).join('');
+            const frameProperties = { 'a:xfrm': frame['p:xfrm'] };
+            const position = this.parsePosition(frameProperties);
+            const size = this.parseSize(frameProperties);
+
+            // The chart data lives in its own part; it is filled in by resolveChartData
+            const content: ChartContent = {
+                chartId: chart.$?.['r:id'] || '',
+                chartPath: '',
+                chartType: 'bar',
+                categories: [],
+                series: []
+            };
 
-                return paragraphText;
-            }).join('\n');
+            const element: SlideElement = {
+                id: `chart-${index}`,
+                type: 'chart',
+                position,
+                size,
+                content,
+                style: {},
+                originalData: frame
+            };
 
-            return result;
+            return element;
         } catch (error) {
-            console.warn('PPTXParser: Error parsing text content:', error);
-            return '';
+            console.warn('Warning: Could not parse chart element:', error);
+            return null;
         }
     }
 
-    private parseElementStyle(spPr: any, txBody?: any): ElementStyle {
-        const style: ElementStyle = {};
+    private parseTableCell(tc: any): TableCell {
+        const txBody = tc['a:txBody']?.[0];
+        const tcPr = tc['a:tcPr']?.[0];
 
-        // Parse shape properties
-        if (spPr['a:prstGeom']) {
-            // Parse background color
-            const solidFill = spPr['a:solidFill']?.[0];
-            if (solidFill) {
-                const srgbClr = solidFill['a:srgbClr']?.[0]?.$.val;
-                if (srgbClr) {
-                    style.backgroundColor = `#${srgbClr}`;
-                }
-            }
-
-            // Parse border properties
-            const ln = spPr['a:ln']?.[0];
-            if (ln) {
-                const solidFill = ln['a:solidFill']?.[0];
-                if (solidFill) {
-                    const srgbClr = solidFill['a:srgbClr']?.[0]?.$.val;
-                    if (srgbClr) {
-                        style.borderColor = `#${srgbClr}`;
-                    }
-                }
+        const paragraphs = txBody ? this.parseParagraphs(txBody) : [];
+        const cell: TableCell = {
+            text: paragraphsToText(paragraphs),
+            paragraphs,
+            style: txBody ? this.parseElementStyle({}, txBody) : {}
+        };
 
-                const w = ln['a:w']?.[0]?.$?.val;
-                if (w) {
-                    style.borderWidth = parseInt(w) / 12700; // Convert EMU to points
-                }
+        if (tc.$?.gridSpan) cell.gridSpan = parseInt(tc.$.gridSpan);
+        if (tc.$?.rowSpan) cell.rowSpan = parseInt(tc.$.rowSpan);
+        if (tc.$?.hMerge === '1' || tc.$?.hMerge === 'true') cell.hMerge = true;
+        if (tc.$?.vMerge === '1' || tc.$?.vMerge === 'true') cell.vMerge = true;
+
+        if (tcPr) {
+            const fill = tcPr['a:solidFill']?.[0];
+            if (fill) {
+                cell.fill = this.parseColor(fill);
+            }
+
+            const borders: TableCellBorders = {};
+            const borderTags: Array<[keyof TableCellBorders, string]> = [
+                ['left', 'a:lnL'], ['right', 'a:lnR'], ['top', 'a:lnT'], ['bottom', 'a:lnB']
+            ];
+            borderTags.forEach(([side, tag]) => {
+                const ln = tcPr[tag]?.[0];
+                if (!ln || ln['a:noFill']) return;
+
+                const color = ln['a:solidFill']?.[0] ? this.parseColor(ln['a:solidFill'][0]) : undefined;
+                borders[side] = {
+                    color,
+                    width: parseInt(ln.$?.w || '12700') / 12700 // Convert EMU to points
+                };
+            });
+
+            if (Object.keys(borders).length > 0) {
+                cell.borders = borders;
             }
         }
 
-        // Parse text properties
-        if (txBody) {
-            const paragraphs = txBody['a:p'] || [];
-            if (paragraphs.length > 0) {
-                const firstP = paragraphs[0];
+        return cell;
+    }
 
-                // Parse paragraph-level properties first (these can be inherited by runs)
-                const pPr = firstP['a:pPr']?.[0];
-                if (pPr) {
-                    // Parse paragraph alignment
-                    const algn = pPr['a:algn']?.[0]?.$?.val;
-                    if (algn) {
-                        // Convert PowerPoint alignment to our format
-                        switch (algn) {
-                            case 'l': style.alignment = 'left'; break;
-                            case 'ctr': style.alignment = 'center'; break;
-                            case 'r': style.alignment = 'right'; break;
-                            default: style.alignment = 'left';
-                        }
-                    }
+    // Follow slide -> slideLayout -> slideMaster and collect what the slide's placeholders inherit
+    private async loadLayoutChain(slidePath: string, slideRelPath: string): Promise<LayoutChain | null> {
+        try {
+            const relationships = await this.readRelationships(slideRelPath);
+            const layoutRelationship = relationships.find((rel: any) => rel.$?.Type?.endsWith('/slideLayout'));
+            if (!layoutRelationship) return null;
 
-                    // Parse paragraph-level text properties
-                    const defRPr = pPr['a:defRPr']?.[0];
-                    if (defRPr) {
-                        // Parse default font size
-                        const sz = defRPr['a:sz']?.[0]?.$?.val;
-                        if (sz) {
-                            style.fontSize = parseInt(sz) / 100; // Convert to points
-                        }
+            const layoutPath = this.resolveRelativePath(slidePath, layoutRelationship.$.Target);
+            if (this.layoutChains.has(layoutPath)) {
+                return this.layoutChains.get(layoutPath) || null;
+            }
 
-                        // Parse default font family
-                        const latin = defRPr['a:latin']?.[0]?.$?.typeface;
-                        if (latin) {
-                            style.fontFamily = latin;
-                        }
+            const layout = await this.readPart(layoutPath);
+            if (!layout) {
+                console.warn('PPTXParser: Slide layout not found:', layoutPath);
+                this.layoutChains.set(layoutPath, null);
+                return null;
+            }
 
-                        // Parse default font weight
-                        const b = defRPr['a:b']?.[0];
-                        if (b) {
-                            style.fontWeight = 'bold';
-                        }
+            const layoutRelationships = await this.readRelationships(this.getRelsPath(layoutPath));
+            const masterRelationship = layoutRelationships.find((rel: any) => rel.$?.Type?.endsWith('/slideMaster'));
+            const master = masterRelationship
+                ? await this.readPart(this.resolveRelativePath(layoutPath, masterRelationship.$.Target))
+                : null;
+
+            // Layout and master colors resolve against the master's own theme
+            const masterPath = masterRelationship ? this.resolveRelativePath(layoutPath, masterRelationship.$.Target) : undefined;
+            const themePath = masterPath ? await this.findThemePath(masterPath) : undefined;
+            const theme = (themePath && await this.loadTheme(themePath)) || this.document.theme || DEFAULT_THEME;
+            const colorMap = this.parseColorMap(master?.['p:clrMap']?.[0]);
+            this.themeContext = { theme, colorMap };
+
+            const txStyles = master?.['p:txStyles']?.[0];
+            const background = await this.parseBackground(layout['p:cSld']?.[0], layoutPath, themePath) ||
+                (masterPath ? await this.parseBackground(master?.['p:cSld']?.[0], masterPath, themePath) : undefined);
+            const chain: LayoutChain = {
+                layoutPath,
+                layoutName: layout['p:cSld']?.[0]?.$?.name || '',
+                layoutPlaceholders: this.parsePlaceholderDefinitions(layout),
+                masterPlaceholders: master ? this.parsePlaceholderDefinitions(master) : [],
+                footerShapes: (layout['p:cSld']?.[0]?.['p:spTree']?.[0]?.['p:sp'] || []).filter((shape: any) =>
+                    FOOTER_PLACEHOLDERS.includes(this.parsePlaceholder(shape)?.type || '')
+                ),
+                textStyles: {
+                    title: this.parseListStyle(txStyles?.['p:titleStyle']?.[0]),
+                    body: this.parseListStyle(txStyles?.['p:bodyStyle']?.[0]),
+                    other: this.parseListStyle(txStyles?.['p:otherStyle']?.[0])
+                },
+                theme,
+                themePath,
+                colorMap,
+                background
+            };
 
-                        // Parse default text color
-                        const solidFill = defRPr['a:solidFill']?.[0];
-                        if (solidFill) {
-                            // Try different color formats
-                            const srgbClr = solidFill['a:srgbClr']?.[0]?.$.val;
-                            if (srgbClr) {
-                                style.color = `#${srgbClr}`;
-                            } else {
-                                // Check for theme colors
-                                const schemeClr = solidFill['a:schemeClr']?.[0]?.$.val;
-                                if (schemeClr) {
-                                    // Map theme colors to actual colors
-                                    const themeColor = this.getThemeColor(schemeClr);
-                                    if (themeColor) {
-                                        style.color = themeColor;
-                                    }
-                                } else {
-                                    // Check for HSL colors
-                                    const hslClr = solidFill['a:hslClr']?.[0]?.$;
-                                    if (hslClr) {
-                                        const hue = parseInt(hslClr.hue || '0');
-                                        const sat = parseInt(hslClr.sat || '0') / 100000;
-                                        const lum = parseInt(hslClr.lum || '0') / 100000;
-                                        // Convert HSL to hex (simplified conversion)
-                                        const hexColor = this.hslToHex(hue, sat, lum);
-                                        if (hexColor) {
-                                            style.color = hexColor;
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
+            this.layoutChains.set(layoutPath, chain);
+            return chain;
+        } catch (error) {
+            console.warn('PPTXParser: Could not load slide layout chain:', error);
+            return null;
+        }
+    }
+
+    // p:bg holds either its own fill (p:bgPr) or a reference into the theme's background fills (p:bgRef)
+    private async parseBackground(cSld: any, partPath: string, themePath?: string): Promise<SlideBackground | undefined> {
+        const bg = cSld?.['p:bg']?.[0];
+        if (!bg) return undefined;
+
+        try {
+            const bgPr = bg['p:bgPr']?.[0];
+            if (bgPr) {
+                return await this.parseBackgroundFill(bgPr, partPath);
+            }
+
+            const bgRef = bg['p:bgRef']?.[0];
+            if (!bgRef) return undefined;
+
+            // idx 1001+ points into a:bgFillStyleLst, 1..999 into a:fillStyleLst; 0 and 1000 mean no fill
+            const idx = parseInt(bgRef.$?.idx || '0');
+            const placeholderColor = this.parseColor(bgRef);
+            const formatScheme = themePath ? (await this.readPart(themePath))?.['a:themeElements']?.[0]?.['a:fmtScheme']?.[0] : undefined;
+            const styleList = idx > 1000 ? formatScheme?.['a:bgFillStyleLst']?.[0] : formatScheme?.['a:fillStyleLst']?.[0];
+            const entry = styleList?.$$?.[idx > 1000 ? idx - 1001 : idx - 1];
+
+            if (!entry || !themePath) {
+                return placeholderColor ? { type: 'color', value: placeholderColor } : undefined;
+            }
+
+            const previousContext = this.themeContext;
+            this.themeContext = { ...previousContext, placeholderColor };
+            try {
+                return await this.parseBackgroundFill({ [entry.name]: [entry.value] }, themePath);
+            } finally {
+                this.themeContext = previousContext;
+            }
+        } catch (error) {
+            console.warn('PPTXParser: Could not parse background:', error);
+            return undefined;
+        }
+    }
+
+    private async parseBackgroundFill(fillProperties: any, partPath: string): Promise<SlideBackground | undefined> {
+        if (fillProperties['a:solidFill']) {
+            const color = this.parseColor(fillProperties['a:solidFill'][0]);
+            return color ? { type: 'color', value: color } : undefined;
+        }
+
+        if (fillProperties['a:gradFill']) {
+            const gradient = this.parseGradientFill(fillProperties['a:gradFill'][0]);
+            return { type: 'gradient', value: gradient.stops[0]?.color || '#FFFFFF', gradient };
+        }
+
+        const embed = fillProperties['a:blipFill']?.[0]?.['a:blip']?.[0]?.$?.['r:embed'];
+        if (embed) {
+            const relationships = await this.readRelationships(this.getRelsPath(partPath));
+            const relationship = relationships.find((rel: any) => rel.$?.Id === embed);
+            if (!relationship) return undefined;
+
+            const imagePath = this.resolveRelativePath(partPath, relationship.$.Target);
+            const dataUrl = await this.readMediaAsDataUrl(imagePath, 'image/png');
+            return dataUrl ? { type: 'image', value: dataUrl, imagePath } : undefined;
+        }
+
+        return undefined;
+    }
+
+    // The fill of a shape's properties; picture fills keep their relationship id until resolveFillImages
+    private parseShapeFill(spPr: any): ShapeFill | undefined {
+        if (spPr['a:noFill']) {
+            return { type: 'none' };
+        }
+
+        const solidFill = spPr['a:solidFill']?.[0];
+        if (solidFill) {
+            const color = this.parseColor(solidFill);
+            if (!color) return undefined;
+
+            const fill: ShapeFill = { type: 'solid', color };
+            const schemeColor = solidFill['a:schemeClr']?.[0]?.$?.val;
+            if (schemeColor) fill.schemeColor = schemeColor;
+            return fill;
+        }
+
+        const gradFill = spPr['a:gradFill']?.[0];
+        if (gradFill) {
+            return { type: 'gradient', gradient: this.parseGradientFill(gradFill) };
+        }
+
+        const pattFill = spPr['a:pattFill']?.[0];
+        if (pattFill) {
+            return {
+                type: 'pattern',
+                pattern: {
+                    preset: pattFill.$?.prst || 'pct5',
+                    foreground: this.parseColor(pattFill['a:fgClr']?.[0]) || '#000000',
+                    background: this.parseColor(pattFill['a:bgClr']?.[0]) || '#FFFFFF'
                 }
+            };
+        }
 
-                // Parse run-level properties (these override paragraph defaults)
-                const runs = firstP['a:r'] || [];
-                if (runs.length > 0) {
-                    // Look for the first run with actual text content
-                    let firstRunWithText = null;
-                    for (const run of runs) {
-                        if (run['a:t'] && run['a:t'][0] && run['a:t'][0].trim()) {
-                            firstRunWithText = run;
-                            break;
-                        }
-                    }
+        const imageId = spPr['a:blipFill']?.[0]?.['a:blip']?.[0]?.$?.['r:embed'];
+        if (imageId) {
+            return { type: 'image', imageId };
+        }
 
-                    if (firstRunWithText) {
-                        const rPr = firstRunWithText['a:rPr']?.[0];
-
-                        if (rPr) {
-                            // Parse font size (run level overrides paragraph level)
-                            const sz = rPr['a:sz']?.[0]?.$?.val;
-                            if (sz) {
-                                style.fontSize = parseInt(sz) / 100; // Convert to points
-                            }
-
-                            // Parse font family (run level overrides paragraph level)
-                            const latin = rPr['a:latin']?.[0]?.$?.typeface;
-                            if (latin) {
-                                style.fontFamily = latin;
-                            }
-
-                            // Parse font weight (run level overrides paragraph level)
-                            const b = rPr['a:b']?.[0];
-                            if (b) {
-                                style.fontWeight = 'bold';
-                            }
-
-                            // Parse text color (run level overrides paragraph defaults)
-                            const solidFill = rPr['a:solidFill']?.[0];
-                            if (solidFill) {
-                                // Try different color formats
-                                const srgbClr = solidFill['a:srgbClr']?.[0]?.$.val;
-                                if (srgbClr) {
-                                    style.color = `#${srgbClr}`;
-                                } else {
-                                    // Check for theme colors
-                                    const schemeClr = solidFill['a:schemeClr']?.[0]?.$.val;
-                                    if (schemeClr) {
-                                        // Map theme colors to actual colors
-                                        const themeColor = this.getThemeColor(schemeClr);
-                                        if (themeColor) {
-                                            style.color = themeColor;
-                                        }
-                                    } else {
-                                        // Check for HSL colors
-                                        const hslClr = solidFill['a:hslClr']?.[0]?.$;
-                                        if (hslClr) {
-                                            const hue = parseInt(hslClr.hue || '0');
-                                            const sat = parseInt(hslClr.sat || '0') / 100000;
-                                            const lum = parseInt(hslClr.lum || '0') / 100000;
-                                            // Convert HSL to hex (simplified conversion)
-                                            const hexColor = this.hslToHex(hue, sat, lum);
-                                            if (hexColor) {
-                                                style.color = hexColor;
-                                            }
-                                        }
-                                    }
-                                }
-                            }
-                        }
+        return undefined;
+    }
+
+    private parseGradientFill(gradFill: any): GradientFill {
+        const stops: GradientStop[] = (gradFill['a:gsLst']?.[0]?.['a:gs'] || []).map((gs: any) => ({
+            position: parseInt(gs.$?.pos || '0') / 100000, // Thousandths of a percent
+            color: this.parseColor(gs) || '#000000'
+        }));
+
+        return {
+            type: gradFill['a:path'] ? 'radial' : 'linear',
+            angle: parseInt(gradFill['a:lin']?.[0]?.$?.ang || '0') / 60000, // 60000ths of a degree
+            stops
+        };
+    }
+
+    private parsePlaceholderDefinitions(part: any): PlaceholderDefinition[] {
+        const spTree = part['p:cSld']?.[0]?.['p:spTree']?.[0];
+        const shapes: any[] = spTree?.['p:sp'] || [];
+
+        return shapes.flatMap((shape: any) => {
+            const ph = shape['p:nvSpPr']?.[0]?.['p:nvPr']?.[0]?.['p:ph']?.[0];
+            if (!ph) return [];
+
+            const spPr = shape['p:spPr']?.[0] || {};
+            const definition: PlaceholderDefinition = {
+                type: ph.$?.type || 'obj',
+                idx: ph.$?.idx,
+                body: this.parseTextBody(shape['p:txBody']?.[0]),
+                levels: this.parseListStyle(shape['p:txBody']?.[0]?.['a:lstStyle']?.[0])
+            };
+
+            if (spPr['a:xfrm']) {
+                definition.position = this.parsePosition(spPr);
+                definition.size = this.parseSize(spPr);
+            }
+
+            // Picture fills would resolve against the layout's relationships, so they aren't inherited
+            const fill = this.parseShapeFill(spPr);
+            if (fill && fill.type !== 'image') {
+                definition.fill = fill;
+            }
+
+            return [definition];
+        });
+    }
+
+    // a:lstStyle, p:titleStyle, p:bodyStyle and p:otherStyle all hold a:lvlNpPr entries
+    private parseListStyle(listStyle: any): LevelStyle[] {
+        const levels: LevelStyle[] = [];
+
+        for (let level = 1; level <= OUTLINE_LEVELS; level++) {
+            const pPr = listStyle?.[`a:lvl${level}pPr`]?.[0];
+            const paragraph: TextParagraph = { runs: [] };
+            if (pPr) {
+                paragraph.alignment = this.parseAlignment(pPr.$?.algn);
+                this.parseParagraphIndent(pPr, paragraph);
+                this.parseParagraphSpacing(pPr, paragraph);
+            }
+
+            levels.push({
+                paragraph: definedProperties({
+                    alignment: paragraph.alignment,
+                    marginLeft: paragraph.marginLeft,
+                    indent: paragraph.indent,
+                    bullet: paragraph.bullet,
+                    lineSpacing: paragraph.lineSpacing,
+                    spaceBefore: paragraph.spaceBefore,
+                    spaceAfter: paragraph.spaceAfter
+                }),
+                run: this.parseRunStyle(pPr?.['a:defRPr']?.[0])
+            });
+        }
+
+        return levels;
+    }
+
+    private mergeLevelStyle(base: LevelStyle, override: LevelStyle | undefined): LevelStyle {
+        if (!override) return base;
+        return {
+            paragraph: { ...base.paragraph, ...override.paragraph },
+            run: { ...base.run, ...override.run }
+        };
+    }
+
+    // Slide placeholders match layout placeholders by idx, then by type; masters only by type
+    private findPlaceholder(definitions: PlaceholderDefinition[], type: string, idx?: string): PlaceholderDefinition | undefined {
+        if (idx !== undefined) {
+            const byIdx = definitions.find(definition => definition.idx === idx);
+            if (byIdx) return byIdx;
+        }
+
+        return definitions.find(definition => definition.type === type) ||
+            definitions.find(definition => this.normalizePlaceholderType(definition.type) === this.normalizePlaceholderType(type));
+    }
+
+    private normalizePlaceholderType(type: string): string {
+        switch (type) {
+            case 'ctrTitle': return 'title';
+            case 'subTitle':
+            case 'obj':
+            case 'chart':
+            case 'tbl':
+            case 'clipArt':
+            case 'dgm':
+            case 'media':
+            case 'pic': return 'body';
+            default: return type;
+        }
+    }
+
+    private applyPlaceholderInheritance(elements: SlideElement[], chain: LayoutChain): void {
+        elements.forEach(element => {
+            // Pictures and graphic frames in placeholders keep their own frame
+            if (!element.placeholder || !element.originalData?.['p:nvSpPr']) return;
+
+            const { type, idx } = element.placeholder;
+            const style = element.style = element.style || {};
+            const layoutPlaceholder = this.findPlaceholder(chain.layoutPlaceholders, type, idx);
+            const masterPlaceholder = this.findPlaceholder(chain.masterPlaceholders, layoutPlaceholder?.type || type);
+
+            // Position and size: the slide's own xfrm wins, then the layout, then the master
+            const spPr = element.originalData['p:spPr']?.[0];
+            if (!spPr?.['a:xfrm']) {
+                const source = [layoutPlaceholder, masterPlaceholder].find(definition => definition?.position && definition?.size);
+                if (source?.position && source.size) {
+                    element.position = { ...source.position };
+                    element.size = { ...source.size };
+                }
+            }
+
+            if (!style.fill) {
+                const fill = layoutPlaceholder?.fill || masterPlaceholder?.fill;
+                if (fill) {
+                    style.fill = structuredClone(fill);
+                    if (fill.type === 'solid' && fill.color) style.backgroundColor = fill.color;
+                }
+            }
+
+            const content = element.content as TextContent | ShapeContent;
+            if (!content?.paragraphs) return;
+
+            // Body properties the slide doesn't set come from the layout, then the master
+            const body = {
+                ...masterPlaceholder?.body,
+                ...layoutPlaceholder?.body,
+                ...content.body
+            };
+            if (Object.keys(body).length > 0) {
+                content.body = body;
+            }
+
+            // Master text styles, then master, layout and slide list styles, lowest priority first
+            const category = this.normalizePlaceholderType(type);
+            const textStyles = category === 'title' ? chain.textStyles.title
+                : category === 'body' ? chain.textStyles.body
+                : chain.textStyles.other;
+            const ownLevels = this.parseListStyle(element.originalData['p:txBody']?.[0]?.['a:lstStyle']?.[0]);
+            const levels = textStyles.map((base, level) => [masterPlaceholder, layoutPlaceholder]
+                .reduce((merged, definition) => this.mergeLevelStyle(merged, definition?.levels[level]), base))
+                .map((merged, level) => this.mergeLevelStyle(merged, ownLevels[level]));
+
+            content.paragraphs.forEach(paragraph => {
+                const inherited = levels[Math.min(paragraph.level || 0, OUTLINE_LEVELS - 1)];
+                const { alignment, marginLeft, indent, bullet, lineSpacing, spaceBefore, spaceAfter } = inherited.paragraph;
+                if (paragraph.alignment === undefined && alignment) paragraph.alignment = alignment;
+                if (paragraph.marginLeft === undefined && marginLeft !== undefined) paragraph.marginLeft = marginLeft;
+                if (paragraph.indent === undefined && indent !== undefined) paragraph.indent = indent;
+                if (!paragraph.bullet && bullet) paragraph.bullet = { ...bullet };
+                if (!paragraph.lineSpacing && lineSpacing) paragraph.lineSpacing = { ...lineSpacing };
+                if (!paragraph.spaceBefore && spaceBefore) paragraph.spaceBefore = { ...spaceBefore };
+                if (!paragraph.spaceAfter && spaceAfter) paragraph.spaceAfter = { ...spaceAfter };
+
+                paragraph.runs.forEach(run => {
+                    run.style = { ...inherited.run, ...run.style };
+                });
+            });
+
+            // Element-wide defaults follow the first paragraph, like parseElementStyle does
+            const firstParagraph = content.paragraphs[0];
+            if (firstParagraph) {
+                const inheritedRun = levels[Math.min(firstParagraph.level || 0, OUTLINE_LEVELS - 1)].run;
+                if (style.fontSize === undefined && inheritedRun.fontSize) style.fontSize = inheritedRun.fontSize;
+                if (style.fontFamily === undefined && inheritedRun.fontFamily) style.fontFamily = inheritedRun.fontFamily;
+                if (style.color === undefined && inheritedRun.color) style.color = inheritedRun.color;
+                if (style.fontWeight === undefined && inheritedRun.bold) style.fontWeight = 'bold';
+                if (style.alignment === undefined && firstParagraph.alignment) {
+                    style.alignment = firstParagraph.alignment === 'justify' ? 'left' : firstParagraph.alignment;
+                }
+            }
+        });
+    }
+
+    private parsePosition(spPr: any): Position {
+        const xfrm = spPr['a:xfrm']?.[0];
+        const off = xfrm?.['a:off']?.[0]?.$;
+
+        // Debug: Log the raw EMU values
+        console.log('PPTXParser: Raw EMU values - x:', off?.x, 'y:', off?.y);
+
+        // Convert EMUs to points: 1 inch = 914400 EMUs, 1 inch = 72 points
+        // So 1 EMU = 72/914400 = 1/12700 points
+        const EMU_TO_POINTS = 72 / 914400;
+
+        const x = parseInt(off?.x || '0') * EMU_TO_POINTS;
+        const y = parseInt(off?.y || '0') * EMU_TO_POINTS;
+
+        console.log('PPTXParser: Converted to points - x:', x, 'y:', y);
+
+        return { x, y };
+    }
+
+    private parseSize(spPr: any): Size {
+        const xfrm = spPr['a:xfrm']?.[0];
+        const ext = xfrm?.['a:ext']?.[0]?.$;
+
+        // Debug: Log the raw EMU values
+        console.log('PPTXParser: Raw EMU size values - cx:', ext?.cx, 'cy:', ext?.cy);
+
+        // Convert EMUs to points: 1 inch = 914400 EMUs, 1 inch = 72 points
+        // So 1 EMU = 72/914400 = 1/12700 points
+        const EMU_TO_POINTS = 72 / 914400;
+
+        const width = parseInt(ext?.cx || '0') * EMU_TO_POINTS;
+        const height = parseInt(ext?.cy || '0') * EMU_TO_POINTS;
+
+        console.log('PPTXParser: Converted size to points - width:', width, 'height:', height);
+
+        return { width, height };
+    }
+
+    private parseTextContent(txBody: any): string {
+        try {
+            return paragraphsToText(this.parseParagraphs(txBody));
+        } catch (error) {
+            console.warn('PPTXParser: Error parsing text content:', error);
+            return '';
+        }
+    }
+
+    private parseParagraphs(txBody: any): TextParagraph[] {
+        const paragraphs = (txBody['a:p'] || []).filter((p: any) => typeof p === 'object');
+
+        return paragraphs.map((p: any) => {
+            const paragraph: TextParagraph = { runs: [] };
+            const pPr = p['a:pPr']?.[0];
+
+            const alignment = this.parseAlignment(pPr?.$?.algn);
+            if (alignment) {
+                paragraph.alignment = alignment;
+            }
+
+            if (pPr) {
+                this.parseParagraphIndent(pPr, paragraph);
+                this.parseParagraphSpacing(pPr, paragraph);
+            }
+
+            // Runs, fields and line breaks in document order
+            (p.$$ || []).forEach(({ name, value }: { name: string; value: any }) => {
+                if (name === 'a:r' || name === 'a:fld') {
+                    const textNode = value['a:t']?.[0];
+                    const run: TextRun = {
+                        text: typeof textNode === 'string' ? textNode : '',
+                        style: this.parseRunStyle(value['a:rPr']?.[0])
+                    };
+                    // Fields keep their type, so that their text can be brought up to date
+                    if (name === 'a:fld' && value.$?.type) {
+                        run.field = { type: value.$.type };
+                        if (value.$.id) run.field.id = value.$.id;
                     }
+                    paragraph.runs.push(run);
+                } else if (name === 'a:br') {
+                    paragraph.runs.push({
+                        text: '\n',
+                        style: this.parseRunStyle(value['a:rPr']?.[0])
+                    });
                 }
+            });
+
+            return paragraph;
+        });
+    }
+
+    // a:bodyPr: insets, anchoring, wrapping, columns and autofit of a text body
+    private parseTextBody(txBody: any): TextBodyProperties | undefined {
+        const bodyPr = txBody?.['a:bodyPr']?.[0];
+        if (!bodyPr || typeof bodyPr !== 'object') return undefined;
+
+        const attrs = bodyPr.$ || {};
+        const body: TextBodyProperties = {};
+        if (attrs.lIns !== undefined) body.leftInset = parseInt(attrs.lIns) / 12700; // Convert EMU to points
+        if (attrs.tIns !== undefined) body.topInset = parseInt(attrs.tIns) / 12700;
+        if (attrs.rIns !== undefined) body.rightInset = parseInt(attrs.rIns) / 12700;
+        if (attrs.bIns !== undefined) body.bottomInset = parseInt(attrs.bIns) / 12700;
+        if (TEXT_ANCHORS[attrs.anchor]) body.anchor = TEXT_ANCHORS[attrs.anchor];
+        if (attrs.wrap) body.wrap = attrs.wrap !== 'none';
+        if (attrs.vert) body.vertical = attrs.vert;
+        if (attrs.numCol) body.columns = parseInt(attrs.numCol);
+        if (attrs.spcCol) body.columnSpacing = parseInt(attrs.spcCol) / 12700;
+
+        if (bodyPr['a:noAutofit']) {
+            body.autofit = 'none';
+        } else if (bodyPr['a:spAutoFit']) {
+            body.autofit = 'shape';
+        } else if (bodyPr['a:normAutofit']) {
+            body.autofit = 'normal';
+            const autofit = bodyPr['a:normAutofit'][0]?.$ || {};
+            if (autofit.fontScale) body.fontScale = parseInt(autofit.fontScale) / 1000; // Thousandths of a percent
+            if (autofit.lnSpcReduction) body.lineSpacingReduction = parseInt(autofit.lnSpcReduction) / 1000;
+        }
+
+        return Object.keys(body).length > 0 ? body : undefined;
+    }
+
+    // a:lnSpc, a:spcBef and a:spcAft
+    private parseParagraphSpacing(pPr: any, paragraph: TextParagraph): void {
+        const parseSpacing = (spacing: any): TextSpacing | undefined => {
+            const percent = spacing?.['a:spcPct']?.[0]?.$?.val;
+            const points = spacing?.['a:spcPts']?.[0]?.$?.val;
+            if (percent !== undefined) return { percent: parseInt(percent) / 1000 }; // Thousandths of a percent
+            if (points !== undefined) return { points: parseInt(points) / 100 }; // Hundredths of a point
+            return undefined;
+        };
+
+        const lineSpacing = parseSpacing(pPr['a:lnSpc']?.[0]);
+        const spaceBefore = parseSpacing(pPr['a:spcBef']?.[0]);
+        const spaceAfter = parseSpacing(pPr['a:spcAft']?.[0]);
+        if (lineSpacing) paragraph.lineSpacing = lineSpacing;
+        if (spaceBefore) paragraph.spaceBefore = spaceBefore;
+        if (spaceAfter) paragraph.spaceAfter = spaceAfter;
+    }
+
+    private parseParagraphIndent(pPr: any, paragraph: TextParagraph): void {
+        const attrs = pPr.$ || {};
+        if (attrs.lvl) paragraph.level = parseInt(attrs.lvl);
+        if (attrs.marL) paragraph.marginLeft = parseInt(attrs.marL) / 12700; // Convert EMU to points
+        if (attrs.indent) paragraph.indent = parseInt(attrs.indent) / 12700;
+
+        let bullet: TextBullet | undefined;
+        if (pPr['a:buNone']) {
+            bullet = { type: 'none' };
+        } else if (pPr['a:buChar']) {
+            bullet = { type: 'char', char: pPr['a:buChar'][0].$?.char || '\u2022' };
+        } else if (pPr['a:buAutoNum']) {
+            const autoNum = pPr['a:buAutoNum'][0].$ || {};
+            bullet = { type: 'autoNumber', scheme: autoNum.type || 'arabicPeriod' };
+            if (autoNum.startAt) bullet.startAt = parseInt(autoNum.startAt);
+        }
+
+        if (bullet && bullet.type !== 'none') {
+            const color = pPr['a:buClr']?.[0] ? this.parseColor(pPr['a:buClr'][0]) : undefined;
+            if (color) bullet.color = color;
+
+            const typeface = this.resolveTypeface(pPr['a:buFont']?.[0]?.$?.typeface);
+            if (typeface) bullet.fontFamily = typeface;
+
+            const sizePercent = pPr['a:buSzPct']?.[0]?.$?.val;
+            if (sizePercent) bullet.size = parseInt(sizePercent) / 1000; // Thousandths of a percent
+        }
+
+        if (bullet) {
+            paragraph.bullet = bullet;
+        }
+    }
+
+    private parseRunStyle(rPr: any): TextRunStyle {
+        const style: TextRunStyle = {};
+        if (!rPr || typeof rPr !== 'object') return style;
+
+        const attrs = rPr.$ || {};
+        if (attrs.b !== undefined) style.bold = attrs.b === '1' || attrs.b === 'true';
+        if (attrs.i !== undefined) style.italic = attrs.i === '1' || attrs.i === 'true';
+        if (attrs.u !== undefined) style.underline = attrs.u !== 'none';
+        if (attrs.strike !== undefined) style.strike = attrs.strike !== 'noStrike';
+        if (attrs.sz) style.fontSize = parseInt(attrs.sz) / 100; // Hundredths of a point
+        if (attrs.baseline) style.baseline = parseInt(attrs.baseline) / 1000; // Thousandths of a percent
+
+        const solidFill = rPr['a:solidFill']?.[0];
+        if (solidFill) {
+            const color = this.parseColor(solidFill);
+            if (color) style.color = color;
+        }
+
+        const typeface = this.resolveTypeface(rPr['a:latin']?.[0]?.$?.typeface);
+        if (typeface) {
+            style.fontFamily = typeface;
+        }
+
+        const hyperlink = this.parseHyperlink(rPr['a:hlinkClick']?.[0]);
+        if (hyperlink) {
+            style.hyperlink = hyperlink;
+        }
+
+        return style;
+    }
+
+    // External links point at a relationship with the URL; slide jumps at a relationship to the slide part
+    private parseHyperlink(hlinkClick: any): Hyperlink | undefined {
+        const attributes = hlinkClick?.$;
+        if (!attributes) return undefined;
+
+        const relationshipId = attributes['r:id'];
+        const relationship = relationshipId
+            ? this.hyperlinkContext?.relationships.find((rel: any) => rel.$?.Id === relationshipId)
+            : undefined;
+        const action: string | undefined = attributes.action;
+
+        const hyperlink: Hyperlink = {};
+        if (action?.startsWith(SLIDE_JUMP_ACTION)) {
+            const slideId = relationship && this.hyperlinkContext
+                ? this.slideIdsByPath.get(this.resolveRelativePath(this.hyperlinkContext.partPath, relationship.$.Target))
+                : undefined;
+            if (!slideId) return undefined;
+            hyperlink.slideId = slideId;
+        } else if (action) {
+            hyperlink.action = action;
+        } else if (relationship?.$?.Target) {
+            hyperlink.url = relationship.$.Target;
+        } else {
+            return undefined;
+        }
+
+        if (attributes.tooltip) {
+            hyperlink.tooltip = attributes.tooltip;
+        }
+        return hyperlink;
+    }
+
+    private parseAlignment(algn: string | undefined): TextParagraph['alignment'] {
+        switch (algn) {
+            case 'l': return 'left';
+            case 'ctr': return 'center';
+            case 'r': return 'right';
+            case 'just':
+            case 'dist': return 'justify';
+            default: return undefined;
+        }
+    }
+
+    private parseElementStyle(spPr: any, txBody?: any, shapeStyle?: any): ElementStyle {
+        const style: ElementStyle = {};
+
+        // Parse shape properties
+        if (spPr['a:prstGeom'] || spPr['a:custGeom']) {
+            const fill = this.parseShapeFill(spPr);
+            if (fill) {
+                style.fill = fill;
+                // Kept alongside the fill for code that only knows about plain colors
+                if (fill.type === 'solid' && fill.color) {
+                    style.backgroundColor = fill.color;
+                }
+            }
+
+            this.applyLineStyle(style, spPr, shapeStyle);
+            this.applyEffects(style, spPr, shapeStyle);
+        }
+
+        // Parse text properties: element-wide defaults come from the first paragraph.
+        // Per-run formatting is kept in the content's paragraphs.
+        if (txBody) {
+            const paragraphs = (txBody['a:p'] || []).filter((p: any) => typeof p === 'object');
+            if (paragraphs.length > 0) {
+                const firstP = paragraphs[0];
+                const pPr = firstP['a:pPr']?.[0];
+
+                const alignment = this.parseAlignment(pPr?.$?.algn);
+                if (alignment) {
+                    style.alignment = alignment === 'justify' ? 'left' : alignment;
+                }
+
+                // Paragraph defaults first, then the first run with actual text overrides them
+                const runs = firstP['a:r'] || [];
+                const firstRunWithText = runs.find((run: any) => typeof run['a:t']?.[0] === 'string' && run['a:t'][0].trim());
+                const runStyle: TextRunStyle = {
+                    ...this.parseRunStyle(pPr?.['a:defRPr']?.[0]),
+                    ...this.parseRunStyle(firstRunWithText?.['a:rPr']?.[0])
+                };
+
+                if (runStyle.fontSize) style.fontSize = runStyle.fontSize;
+                if (runStyle.fontFamily) style.fontFamily = runStyle.fontFamily;
+                if (runStyle.bold) style.fontWeight = 'bold';
+                if (runStyle.color) style.color = runStyle.color;
             }
         }
 
@@ -722,110 +1970,384 @@ export class PPTXParser {
         return style;
     }
 
-    private getThemeColor(schemeColor: string): string | null {
-        // Map PowerPoint theme color names to actual colors
-        const themeColorMap: { [key: string]: string } = {
-            'tx1': '#000000', // Primary text color
-            'tx2': '#1F4E79', // Secondary text color
-            'bg1': '#FFFFFF', // Primary background color
-            'bg2': '#F2F2F2', // Secondary background color
-            'accent1': '#4472C4', // Accent color 1
-            'accent2': '#ED7D31', // Accent color 2
-            'accent3': '#A5A5A5', // Accent color 3
-            'accent4': '#FFC000', // Accent color 4
-            'accent5': '#5B9BD5', // Accent color 5
-            'accent6': '#70AD47', // Accent color 6
-            'hlink': '#0563C1', // Hyperlink color
-            'folHlink': '#954F72' // Followed hyperlink color
-        };
+    // The outline: the theme line style a:lnRef points at, overridden by the shape's own a:ln
+    private applyLineStyle(style: ElementStyle, spPr: any, shapeStyle?: any): void {
+        let line: LineStyle = {};
 
-        return themeColorMap[schemeColor] || null;
+        const lnRef = shapeStyle?.['a:lnRef']?.[0];
+        const idx = parseInt(lnRef?.$?.idx || '0');
+        if (lnRef && idx > 0) {
+            line = { ...this.themeContext.theme.lineStyles?.[idx - 1] };
+            const color = this.parseColor(lnRef);
+            if (color) line.color = color;
+        }
+
+        const ln = spPr['a:ln']?.[0];
+        if (ln && typeof ln === 'object') {
+            const own = this.parseLineStyle(ln);
+            // An explicit fill on the line turns a theme "no line" back on
+            if (own.color) delete line.none;
+            line = { ...line, ...definedProperties(own) };
+        }
+
+        if (Object.keys(line).length === 0) return;
+
+        style.line = line;
+        if (!line.none) {
+            if (line.color) style.borderColor = line.color;
+            if (line.width !== undefined) style.borderWidth = line.width;
+        }
     }
 
-    private hslToHex(h: number, s: number, l: number): string | null {
+    // Effects: the shape's own a:effectLst replaces the theme style a:effectRef points at
+    private applyEffects(style: ElementStyle, spPr: any, shapeStyle?: any): void {
+        let effectLst = spPr['a:effectLst']?.[0];
+        let placeholderColor: string | undefined;
+
+        if (effectLst === undefined) {
+            const effectRef = shapeStyle?.['a:effectRef']?.[0];
+            const idx = parseInt(effectRef?.$?.idx || '0');
+            if (!effectRef || idx <= 0) return;
+            effectLst = this.themeEffectStyles.get(this.themeContext.theme)?.[idx - 1];
+            placeholderColor = this.parseColor(effectRef);
+        }
+        if (!effectLst || typeof effectLst !== 'object') return;
+
+        const previousContext = this.themeContext;
+        if (placeholderColor) {
+            this.themeContext = { ...previousContext, placeholderColor };
+        }
         try {
-            // Convert HSL to RGB then to Hex
-            s /= 100;
-            l /= 100;
-
-            const c = (1 - Math.abs(2 * l - 1)) * s;
-            const x = c * (1 - Math.abs((h / 60) % 2 - 1));
-            const m = l - c / 2;
-            let r = 0, g = 0, b = 0;
-
-            if (0 <= h && h < 60) {
-                r = c; g = x; b = 0;
-            } else if (60 <= h && h < 120) {
-                r = x; g = c; b = 0;
-            } else if (120 <= h && h < 180) {
-                r = 0; g = c; b = x;
-            } else if (180 <= h && h < 240) {
-                r = 0; g = x; b = c;
-            } else if (240 <= h && h < 300) {
-                r = x; g = 0; b = c;
-            } else if (300 <= h && h < 360) {
-                r = c; g = 0; b = x;
-            }
-
-            const rHex = Math.round((r + m) * 255).toString(16).padStart(2, '0');
-            const gHex = Math.round((g + m) * 255).toString(16).padStart(2, '0');
-            const bHex = Math.round((b + m) * 255).toString(16).padStart(2, '0');
-
-            return `#${rHex}${gHex}${bHex}`;
-        } catch (error) {
-            console.warn('PPTXParser: Error converting HSL to hex:', error);
-            return null;
+            const effects = this.parseEffects(effectLst);
+            if (Object.keys(effects).length > 0) {
+                style.effects = effects;
+            }
+        } finally {
+            this.themeContext = previousContext;
         }
     }
 
-    private async parseTheme(): Promise<void> {
-        try {
-            const themeXml = await this.zip.file('ppt/theme/theme1.xml')?.async('string');
-            if (!themeXml) return;
+    private parseEffects(effectLst: any): ShapeEffects {
+        const effects: ShapeEffects = {};
+        const emu = (value: string | undefined) => parseInt(value || '0') / 12700;
+        const percent = (value: string | undefined, fallback: number) => value !== undefined ? parseInt(value) / 100000 : fallback;
+
+        const parseShadow = (shadow: any): ShadowEffect | undefined => {
+            const color = this.parseColor(shadow);
+            if (!shadow || !color) return undefined;
+            return {
+                color,
+                blur: emu(shadow.$?.blurRad),
+                distance: emu(shadow.$?.dist),
+                direction: parseInt(shadow.$?.dir || '0') / 60000
+            };
+        };
 
-            try {
-                const xmlDoc = parseXML(themeXml);
-                const result = xmlToObject(xmlDoc);
-                const theme = result['a:theme'];
-                if (theme) {
-                    this.document.theme = {
-                        colors: {
-                            primary: '#000000',
-                            secondary: '#000000',
-                            accent1: '#000000',
-                            accent2: '#000000',
-                            accent3: '#000000',
-                            accent4: '#000000',
-                            accent5: '#000000',
-                            accent6: '#000000'
-                        },
-                        fonts: {
-                            major: 'Calibri',
-                            minor: 'Calibri'
-                        }
-                    };
+        const outerShadow = parseShadow(effectLst['a:outerShdw']?.[0]);
+        if (outerShadow) effects.outerShadow = outerShadow;
+        const innerShadow = parseShadow(effectLst['a:innerShdw']?.[0]);
+        if (innerShadow) effects.innerShadow = innerShadow;
 
-                    // Parse theme colors
-                    const clrScheme = theme['a:themeElements']?.[0]?.['a:clrScheme']?.[0];
-                    if (clrScheme) {
-                        const colors = clrScheme['a:clrScheme'] || [];
-                        colors.forEach((color: any, index: number) => {
-                            const srgbClr = color['a:srgbClr']?.[0]?.$.val;
-                            if (srgbClr && index < 6) {
-                                const colorKeys = ['primary', 'secondary', 'accent1', 'accent2', 'accent3', 'accent4'];
-                                (this.document.theme!.colors as any)[colorKeys[index]] = `#${srgbClr}`;
-                            }
-                        });
-                    }
+        const glow = effectLst['a:glow']?.[0];
+        const glowColor = glow && this.parseColor(glow);
+        if (glowColor) {
+            effects.glow = { color: glowColor, radius: emu(glow.$?.rad) };
+        }
+
+        const softEdge = effectLst['a:softEdge']?.[0];
+        if (softEdge?.$?.rad) {
+            effects.softEdge = emu(softEdge.$.rad);
+        }
+
+        const reflection = effectLst['a:reflection']?.[0];
+        if (reflection) {
+            const attributes = reflection.$ || {};
+            effects.reflection = {
+                blur: emu(attributes.blurRad),
+                distance: emu(attributes.dist),
+                startOpacity: percent(attributes.stA, 1),
+                endOpacity: percent(attributes.endA, 0),
+                size: percent(attributes.endPos, 1)
+            };
+        }
+
+        return effects;
+    }
+
+    private parseLineStyle(ln: any): LineStyle {
+        const line: LineStyle = {};
+        const attributes = ln.$ || {};
+
+        if (attributes.w !== undefined) line.width = parseInt(attributes.w) / 12700; // EMU to points
+        if (attributes.cap) line.cap = attributes.cap;
+        if (attributes.cmpd) line.compound = attributes.cmpd;
+
+        if (ln['a:noFill']) {
+            line.none = true;
+        } else if (ln['a:solidFill']) {
+            line.color = this.parseColor(ln['a:solidFill'][0]);
+        } else if (ln['a:gradFill']) {
+            // Gradient lines are drawn in their first color
+            line.color = this.parseGradientFill(ln['a:gradFill'][0]).stops[0]?.color;
+        }
+
+        const dash = ln['a:prstDash']?.[0]?.$?.val;
+        if (dash) {
+            line.dash = dash;
+        } else if (ln['a:custDash']) {
+            line.dash = 'dash';
+        }
+
+        if (ln['a:round']) line.join = 'round';
+        else if (ln['a:bevel']) line.join = 'bevel';
+        else if (ln['a:miter']) line.join = 'miter';
+
+        const headEnd = this.parseLineEnd(ln['a:headEnd']?.[0]);
+        if (headEnd) line.headEnd = headEnd;
+        const tailEnd = this.parseLineEnd(ln['a:tailEnd']?.[0]);
+        if (tailEnd) line.tailEnd = tailEnd;
+
+        return line;
+    }
+
+    private parseLineEnd(end: any): LineEnd | undefined {
+        const type = end?.$?.type;
+        if (!type || type === 'none') return undefined;
+
+        const lineEnd: LineEnd = { type };
+        if (end.$.w) lineEnd.width = end.$.w;
+        if (end.$.len) lineEnd.length = end.$.len;
+        return lineEnd;
+    }
+
+    // Resolve the color inside a fill node (a:solidFill and friends) to a hex string.
+    // Colors with transparency come back as #RRGGBBAA.
+    private parseColor(fill: any): string | undefined {
+        const colorTag = COLOR_TAGS.find(tag => fill?.[tag]?.[0]);
+        if (!colorTag) return undefined;
+
+        const color = fill[colorTag][0];
+        const attrs = color.$ || {};
+        let hex: string | undefined;
+
+        switch (colorTag) {
+            case 'a:srgbClr':
+                hex = attrs.val ? `#${attrs.val}` : undefined;
+                break;
+            case 'a:schemeClr':
+                hex = this.getThemeColor(attrs.val);
+                break;
+            case 'a:sysClr':
+                // lastClr is the system color as it was when the file was saved
+                hex = attrs.lastClr ? `#${attrs.lastClr}` : attrs.val === 'window' ? '#FFFFFF' : '#000000';
+                break;
+            case 'a:hslClr': {
+                // Hue is in 60000ths of a degree, saturation and luminance in 1000ths of a percent
+                const hue = (parseInt(attrs.hue || '0') / 60000 / 360) % 1;
+                const sat = clamp01(parseInt(attrs.sat || '0') / 100000);
+                const lum = clamp01(parseInt(attrs.lum || '0') / 100000);
+                hex = rgbToHex(...hslToRgb(hue, sat, lum));
+                break;
+            }
+            case 'a:scrgbClr': {
+                // Linear RGB percentages
+                const channel = (value: string | undefined) => toHexByte(Math.pow(parseInt(value || '0') / 100000, 1 / 2.2));
+                hex = `#${channel(attrs.r)}${channel(attrs.g)}${channel(attrs.b)}`;
+                break;
+            }
+        }
+
+        return hex ? this.applyColorTransforms(hex, color) : undefined;
+    }
+
+    // Color modifiers apply in document order; values are in 1000ths of a percent, hueOff in 60000ths of a degree.
+    // The lum, sat and hue modifiers work in HSL, tint mixes toward white and shade toward black.
+    // Others (gamma, comp, inv, gray, the per-channel ones) are ignored.
+    private applyColorTransforms(hex: string, color: any): string {
+        const modifiers: Array<{ name: string; value: any }> = color.$$ || [];
+        if (modifiers.length === 0) return hex;
+
+        let [r, g, b] = [1, 3, 5].map(offset => parseInt(hex.substring(offset, offset + 2), 16) / 255);
+        let alpha = 1;
+
+        modifiers.forEach(({ name, value }) => {
+            const amount = parseInt(value?.$?.val || '0') / 100000;
+            switch (name) {
+                case 'a:alpha':
+                    alpha = clamp01(amount);
+                    break;
+                case 'a:tint':
+                    [r, g, b] = [r, g, b].map(channel => channel * amount + (1 - amount));
+                    break;
+                case 'a:shade':
+                    [r, g, b] = [r, g, b].map(channel => channel * amount);
+                    break;
+                case 'a:lumMod':
+                case 'a:lumOff': {
+                    const [h, s, l] = rgbToHsl(r, g, b);
+                    [r, g, b] = hslToRgb(h, s, clamp01(name === 'a:lumMod' ? l * amount : l + amount));
+                    break;
                 }
-            } catch (err) {
-                console.warn('Error parsing theme XML:', err);
+                case 'a:satMod':
+                case 'a:satOff': {
+                    const [h, s, l] = rgbToHsl(r, g, b);
+                    [r, g, b] = hslToRgb(h, clamp01(name === 'a:satMod' ? s * amount : s + amount), l);
+                    break;
+                }
+                case 'a:hueMod':
+                case 'a:hueOff': {
+                    const [h, s, l] = rgbToHsl(r, g, b);
+                    const hue = name === 'a:hueMod' ? h * amount : h + parseInt(value?.$?.val || '0') / 60000 / 360;
+                    [r, g, b] = hslToRgb((hue % 1 + 1) % 1, s, l);
+                    break;
+                }
+            }
+        });
+
+        const rgbHex = rgbToHex(r, g, b);
+        return alpha < 1 ? `${rgbHex}${toHexByte(alpha)}` : rgbHex;
+    }
+
+    // Scheme references go through the master's color map (tx1 -> dk1 and so on)
+    private getThemeColor(schemeColor: string | undefined): string | undefined {
+        if (!schemeColor) return undefined;
+        if (schemeColor === 'phClr') return this.themeContext.placeholderColor;
+
+        const { theme, colorMap } = this.themeContext;
+        const key = SCHEME_COLOR_KEYS[colorMap[schemeColor] || schemeColor];
+        return key ? theme.colors[key] : undefined;
+    }
+
+    // +mj-lt, +mn-ea and friends point at the theme's font scheme
+    private resolveTypeface(typeface: string | undefined): string | undefined {
+        if (!typeface || !typeface.startsWith('+')) return typeface || undefined;
+
+        const fonts = this.themeContext.theme.fonts;
+        switch (typeface) {
+            case '+mj-lt': return fonts.major;
+            case '+mn-lt': return fonts.minor;
+            case '+mj-ea': return fonts.majorEastAsian;
+            case '+mn-ea': return fonts.minorEastAsian;
+            case '+mj-cs': return fonts.majorComplexScript;
+            case '+mn-cs': return fonts.minorComplexScript;
+            default: return undefined;
+        }
+    }
+
+    private parseColorMap(clrMap: any): ColorMap {
+        return clrMap?.$ ? { ...DEFAULT_COLOR_MAP, ...clrMap.$ } : DEFAULT_COLOR_MAP;
+    }
+
+    private async parseTheme(): Promise<void> {
+        try {
+            // The deck's theme is the one its first slide master uses
+            let themePath = 'ppt/theme/theme1.xml';
+            let colorMap = DEFAULT_COLOR_MAP;
+
+            const relationships = await this.readRelationships('ppt/_rels/presentation.xml.rels');
+            const masterRelationship = relationships.find((rel: any) => rel.$?.Type?.endsWith('/slideMaster'));
+            if (masterRelationship) {
+                const masterPath = this.resolveRelativePath('ppt/presentation.xml', masterRelationship.$.Target);
+                themePath = await this.findThemePath(masterPath) || themePath;
+                colorMap = this.parseColorMap((await this.readPart(masterPath))?.['p:clrMap']?.[0]);
+            }
+
+            const theme = await this.loadTheme(themePath);
+            if (theme) {
+                this.document.theme = theme;
+                this.themeContext = this.documentThemeContext = { theme, colorMap };
             }
         } catch (error) {
             console.warn('Warning: Could not parse theme:', error);
         }
     }
 
+    private async findThemePath(masterPath: string): Promise<string | undefined> {
+        const relationships = await this.readRelationships(this.getRelsPath(masterPath));
+        const themeRelationship = relationships.find((rel: any) => rel.$?.Type?.endsWith('/theme'));
+        return themeRelationship ? this.resolveRelativePath(masterPath, themeRelationship.$.Target) : undefined;
+    }
+
+    private async loadTheme(themePath: string): Promise<PresentationTheme | null> {
+        if (this.themes.has(themePath)) {
+            return this.themes.get(themePath) || null;
+        }
+
+        try {
+            const themeElements = (await this.readPart(themePath))?.['a:themeElements']?.[0];
+            if (!themeElements) return null;
+
+            // Theme colors are plain colors, never scheme references
+            const colors: ThemeColors = { ...DEFAULT_THEME.colors };
+            const clrScheme = themeElements['a:clrScheme']?.[0];
+            Object.entries(SCHEME_COLOR_KEYS).forEach(([schemeName, key]) => {
+                const color = clrScheme?.[`a:${schemeName}`]?.[0];
+                const value = color ? this.parseColor(color) : undefined;
+                if (value) colors[key] = value;
+            });
+
+            // Empty typefaces mean "not set" in the font scheme
+            const fontScheme = themeElements['a:fontScheme']?.[0];
+            const typeface = (font: string, script: string): string | undefined =>
+                fontScheme?.[font]?.[0]?.[script]?.[0]?.$?.typeface || undefined;
+
+            const fonts: ThemeFonts = {
+                major: typeface('a:majorFont', 'a:latin') || DEFAULT_THEME.fonts.major,
+                minor: typeface('a:minorFont', 'a:latin') || DEFAULT_THEME.fonts.minor
+            };
+            const majorEastAsian = typeface('a:majorFont', 'a:ea');
+            const majorComplexScript = typeface('a:majorFont', 'a:cs');
+            const minorEastAsian = typeface('a:minorFont', 'a:ea');
+            const minorComplexScript = typeface('a:minorFont', 'a:cs');
+            if (majorEastAsian) fonts.majorEastAsian = majorEastAsian;
+            if (majorComplexScript) fonts.majorComplexScript = majorComplexScript;
+            if (minorEastAsian) fonts.minorEastAsian = minorEastAsian;
+            if (minorComplexScript) fonts.minorComplexScript = minorComplexScript;
+
+            // Line styles are templates; a:lnRef supplies their color (phClr)
+            const lineNodes: any[] = themeElements['a:fmtScheme']?.[0]?.['a:lnStyleLst']?.[0]?.['a:ln'] || [];
+            const lineStyles = lineNodes.map(ln => {
+                const { color, ...lineStyle } = this.parseLineStyle(ln);
+                return lineStyle;
+            });
+
+            const theme: PresentationTheme = { colors, fonts };
+            if (lineStyles.length > 0) {
+                theme.lineStyles = lineStyles;
+            }
+            // Effect styles are parsed per shape, once a:effectRef says what phClr is
+            const effectStyles = themeElements['a:fmtScheme']?.[0]?.['a:effectStyleLst']?.[0]?.['a:effectStyle'] || [];
+            this.themeEffectStyles.set(theme, effectStyles.map((effectStyle: any) => effectStyle['a:effectLst']?.[0]));
+            this.themes.set(themePath, theme);
+            return theme;
+        } catch (error) {
+            console.warn('Error parsing theme XML:', error);
+            return null;
+        }
+    }
+
+    // Load the pictures of a:blipFill shape fills
+    private async resolveFillImages(slide: PPTXSlide, slidePath: string, slideRelPath: string): Promise<void> {
+        const fills = this.flattenElements(slide.elements)
+            .map(element => element.style?.fill)
+            .filter((fill): fill is ShapeFill => fill?.type === 'image' && !!fill.imageId);
+        if (fills.length === 0) return;
+
+        const relationships = await this.readRelationships(slideRelPath);
+        for (const fill of fills) {
+            const relationship = relationships.find((rel: any) => rel.$?.Id === fill.imageId);
+            delete fill.imageId;
+            if (!relationship) continue;
+
+            const imagePath = this.resolveRelativePath(slidePath, relationship.$.Target);
+            const dataUrl = await this.readMediaAsDataUrl(imagePath, 'image/png');
+            if (dataUrl) {
+                fill.imageDataUrl = dataUrl;
+                fill.imagePath = imagePath;
+            }
+        }
+    }
+
     private async resolveImageData(slide: PPTXSlide, slideRelPath: string): Promise<void> {
         try {
             console.log('PPTXParser: Resolving image data for slide:', slide.id, 'using rels file:', slideRelPath);
@@ -869,7 +2391,8 @@ export class PPTXParser {
             console.log('PPTXParser: First relationship example:', relationships[0]);
 
             // Find image elements in this slide
-            const imageElements = slide.elements.filter(el => el.type === 'image');
+            // Media show their poster frame, which is resolved like any picture
+            const imageElements = this.flattenElements(slide.elements).filter(el => el.type === 'image' || el.type === 'media');
             console.log('PPTXParser: Found image elements:', imageElements.length);
 
             for (const imageElement of imageElements) {
@@ -911,42 +2434,13 @@ export class PPTXParser {
 
                 // Read the actual image file from the PPTX
                 try {
-                    const imageFile = await this.zip.file(absoluteImagePath)?.async('uint8array');
-                    if (!imageFile) {
+                    const dataUrl = await this.readMediaAsDataUrl(absoluteImagePath, 'image/png');
+                    if (!dataUrl) {
                         console.warn('PPTXParser: Could not read image file:', absoluteImagePath, '(resolved from:', targetPath, ')');
                         continue;
                     }
 
-                    // Convert to base64 data URL - use a more efficient method for large files
-                    let base64: string;
-                    try {
-                        // For smaller files, use the spread method
-                        if (imageFile.length < 100000) { // 100KB threshold
-                            base64 = btoa(String.fromCharCode(...imageFile));
-                        } else {
-                            // For larger files, use a chunked approach to avoid stack overflow
-                            const chunks: string[] = [];
-                            const chunkSize = 10000; // Process 10KB at a time
-                            for (let i = 0; i < imageFile.length; i += chunkSize) {
-                                const chunk = imageFile.slice(i, i + chunkSize);
-                                chunks.push(String.fromCharCode(...chunk));
-                            }
-                            base64 = btoa(chunks.join(''));
-                        }
-                    } catch (error) {
-                        console.warn('PPTXParser: Error converting image to base64, using fallback method:', error);
-                        // Fallback: convert to string manually
-                        let binaryString = '';
-                        for (let i = 0; i < imageFile.length; i++) {
-                            binaryString += String.fromCharCode(imageFile[i]);
-                        }
-                        base64 = btoa(binaryString);
-                    }
-
-                    const mimeType = this.getMimeType(targetPath);
-                    const dataUrl = `data:${mimeType};base64,${base64}`;
-
-                    console.log('PPTXParser: Successfully loaded image:', absoluteImagePath, 'size:', imageFile.length, 'bytes');
+                    console.log('PPTXParser: Successfully loaded image:', absoluteImagePath);
 
                     // Update the element content with the actual image data
                     (imageElement.content as any).imageDataUrl = dataUrl;
@@ -969,7 +2463,282 @@ export class PPTXParser {
         }
     }
 
-    private getMimeType(filePath: string): string {
+    // Embedded media are read from their part; linked media keep the address they point at
+    private async resolveMediaData(slide: PPTXSlide, slidePath: string, slideRelPath: string): Promise<void> {
+        const mediaElements = this.flattenElements(slide.elements).filter(el => el.type === 'media');
+        if (mediaElements.length === 0) return;
+
+        try {
+            const relationships = await this.readRelationships(slideRelPath);
+
+            for (const mediaElement of mediaElements) {
+                const content = mediaElement.content as MediaContent;
+                const embedded = relationships.find((rel: any) => rel.$?.Id === content.mediaId);
+                const linked = relationships.find((rel: any) => rel.$?.Id === content.linkId);
+                delete content.mediaId;
+                delete content.linkId;
+
+                // Older files only have the a:videoFile/a:audioFile link, which may point inside the package too
+                const relationship = embedded || linked;
+                if (!relationship) {
+                    console.warn('PPTXParser: No relationship found for media element:', mediaElement.id);
+                    continue;
+                }
+
+                if (relationship.$.TargetMode === 'External') {
+                    content.mediaUrl = relationship.$.Target;
+                    continue;
+                }
+
+                const mediaPath = this.resolveRelativePath(slidePath, relationship.$.Target);
+                const dataUrl = await this.readMediaAsDataUrl(mediaPath);
+                if (!dataUrl) {
+                    console.warn('PPTXParser: Could not read media part:', mediaPath);
+                    continue;
+                }
+                content.mediaPath = mediaPath;
+                content.mediaDataUrl = dataUrl;
+                content.mimeType = this.getMimeType(mediaPath);
+            }
+        } catch (error) {
+            console.warn('PPTXParser: Error resolving media:', error);
+        }
+    }
+
+    // Looping is part of the slide timing: the p:video/p:audio node of a media shape repeats indefinitely
+    private applyMediaTiming(elements: SlideElement[], timing: any): void {
+        const mediaElements = this.flattenElements(elements).filter(el => el.type === 'media');
+        if (!timing || mediaElements.length === 0) return;
+
+        const looping = new Set<string>();
+        const visit = (node: any) => {
+            if (!node || typeof node !== 'object') return;
+            for (const [key, value] of Object.entries(node)) {
+                if (key === '$' || key === '$$' || !Array.isArray(value)) continue;
+                value.forEach((child: any) => {
+                    if (key === 'p:video' || key === 'p:audio') {
+                        const mediaNode = child['p:cMediaNode']?.[0];
+                        const shapeId = mediaNode?.['p:tgtEl']?.[0]?.['p:spTgt']?.[0]?.$?.spid;
+                        if (shapeId && mediaNode['p:cTn']?.[0]?.$?.repeatCount === 'indefinite') {
+                            looping.add(shapeId);
+                        }
+                    } else {
+                        visit(child);
+                    }
+                });
+            }
+        };
+        visit(timing);
+
+        mediaElements.forEach(element => {
+            if (element.shapeId && looping.has(element.shapeId)) {
+                (element.content as MediaContent).loop = true;
+            }
+        });
+    }
+
+    private async resolveChartData(slide: PPTXSlide, slidePath: string, slideRelPath: string): Promise<void> {
+        const chartElements = this.flattenElements(slide.elements).filter(el => el.type === 'chart');
+        if (chartElements.length === 0) return;
+
+        try {
+            const relationships = await this.readRelationships(slideRelPath);
+
+            for (const chartElement of chartElements) {
+                const content = chartElement.content as ChartContent;
+                const relationship = relationships.find((rel: any) => rel.$.Id === content.chartId);
+                if (!relationship) {
+                    console.warn('PPTXParser: No relationship found for chart rId:', content.chartId);
+                    continue;
+                }
+
+                const chartPath = this.resolveRelativePath(slidePath, relationship.$.Target);
+                const chartXml = await this.zip.file(chartPath)?.async('string');
+                if (!chartXml) {
+                    console.warn('PPTXParser: Could not read chart part:', chartPath);
+                    continue;
+                }
+
+                const chartSpace = xmlToObject(parseXML(chartXml));
+                chartElement.content = {
+                    ...content,
+                    ...this.parseChartSpace(chartSpace),
+                    chartPath
+                };
+            }
+        } catch (error) {
+            console.warn('PPTXParser: Error resolving chart data:', error);
+        }
+    }
+
+    private parseChartSpace(chartSpace: any): Omit<ChartContent, 'chartId' | 'chartPath'> {
+        const chart = chartSpace['c:chart']?.[0];
+        const plotArea = chart?.['c:plotArea']?.[0] || {};
+
+        const chartTags: Array<[string, ChartType]> = [
+            ['c:barChart', 'bar'], ['c:bar3DChart', 'bar'],
+            ['c:lineChart', 'line'], ['c:line3DChart', 'line'],
+            ['c:pieChart', 'pie'], ['c:pie3DChart', 'pie'], ['c:doughnutChart', 'pie'],
+            ['c:areaChart', 'area'], ['c:area3DChart', 'area'],
+            ['c:scatterChart', 'scatter']
+        ];
+        const [chartTag, chartType] = chartTags.find(([tag]) => plotArea[tag]) || ['', 'bar'];
+        const plot = chartTag ? plotArea[chartTag][0] : {};
+
+        const series: ChartSeries[] = (plot['c:ser'] || []).map((ser: any, index: number) => {
+            const spPr = ser['c:spPr']?.[0];
+            const fill = spPr?.['a:solidFill']?.[0] || spPr?.['a:ln']?.[0]?.['a:solidFill']?.[0];
+
+            const chartSeries: ChartSeries = {
+                name: String(this.parseChartData(ser['c:tx']?.[0])[0] ?? `Series ${index + 1}`),
+                values: this.parseChartData(ser['c:val']?.[0] || ser['c:yVal']?.[0]).map(chartNumber),
+                color: fill ? this.parseColor(fill) : undefined
+            };
+
+            if (ser['c:xVal']) {
+                chartSeries.xValues = this.parseChartData(ser['c:xVal'][0]).map(chartNumber);
+            }
+
+            // Individually colored points, as used by pie slices
+            const dataPoints = ser['c:dPt'] || [];
+            if (dataPoints.length > 0) {
+                const pointColors: Array<string | undefined> = [];
+                dataPoints.forEach((dPt: any) => {
+                    const pointFill = dPt['c:spPr']?.[0]?.['a:solidFill']?.[0];
+                    const idx = parseInt(dPt['c:idx']?.[0]?.$?.val || '0');
+                    pointColors[idx] = pointFill ? this.parseColor(pointFill) : undefined;
+                });
+                chartSeries.pointColors = pointColors;
+            }
+
+            return chartSeries;
+        });
+
+        const firstSeries = plot['c:ser']?.[0];
+        const categories = this.parseChartData(firstSeries?.['c:cat']?.[0]).map(v => String(v));
+
+        const titleRich = chart?.['c:title']?.[0]?.['c:tx']?.[0]?.['c:rich']?.[0];
+
+        return {
+            chartType,
+            barDirection: plot['c:barDir']?.[0]?.$?.val,
+            grouping: plot['c:grouping']?.[0]?.$?.val,
+            title: titleRich ? this.parseTextContent(titleRich) : undefined,
+            categories,
+            series
+        };
+    }
+
+    // Read the cached points of a c:tx/c:cat/c:val reference (or a literal) in index order
+    private parseChartData(source: any): Array<string | number> {
+        if (!source) return [];
+
+        if (typeof source['c:v']?.[0] === 'string') {
+            return [source['c:v'][0]];
+        }
+
+        const ref = source['c:strRef']?.[0] || source['c:numRef']?.[0] || source['c:multiLvlStrRef']?.[0];
+        const cache = ref?.['c:strCache']?.[0] || ref?.['c:numCache']?.[0] || ref?.['c:multiLvlStrCache']?.[0]?.['c:lvl']?.[0]
+            || source['c:strLit']?.[0] || source['c:numLit']?.[0];
+        if (!cache) return [];
+
+        const count = parseInt(cache['c:ptCount']?.[0]?.$?.val || '0');
+        const values: Array<string | number> = new Array(count).fill('');
+        (cache['c:pt'] || []).forEach((pt: any) => {
+            const idx = parseInt(pt.$?.idx || '0');
+            const value = pt['c:v']?.[0];
+            values[idx] = typeof value === 'string' ? value : '';
+        });
+
+        return values;
+    }
+
+    // Media parts are handed to the UI as data URLs; fallbackType is used when the extension isn't known
+    private async readMediaAsDataUrl(mediaPath: string, fallbackType?: string): Promise<string | undefined> {
+        const imageFile = await this.zip.file(mediaPath)?.async('uint8array');
+        if (!imageFile) return undefined;
+
+        // Convert to base64 data URL - use a more efficient method for large files
+        let base64: string;
+        try {
+            // For smaller files, use the spread method
+            if (imageFile.length < 100000) { // 100KB threshold
+                base64 = btoa(String.fromCharCode(...imageFile));
+            } else {
+                // For larger files, use a chunked approach to avoid stack overflow
+                const chunks: string[] = [];
+                const chunkSize = 10000; // Process 10KB at a time
+                for (let i = 0; i < imageFile.length; i += chunkSize) {
+                    const chunk = imageFile.slice(i, i + chunkSize);
+                    chunks.push(String.fromCharCode(...chunk));
+                }
+                base64 = btoa(chunks.join(''));
+            }
+        } catch (error) {
+            console.warn('PPTXParser: Error converting image to base64, using fallback method:', error);
+            // Fallback: convert to string manually
+            let binaryString = '';
+            for (let i = 0; i < imageFile.length; i++) {
+                binaryString += String.fromCharCode(imageFile[i]);
+            }
+            base64 = btoa(binaryString);
+        }
+
+        const mimeType = this.getMimeType(mediaPath, fallbackType);
+        return `data:${mimeType};base64,${base64}`;
+    }
+
+    private async readRelationships(relsPath: string): Promise<any[]> {
+        const relsXml = await this.zip.file(relsPath)?.async('string');
+        if (!relsXml) return [];
+
+        const relsResult = xmlToObject(parseXML(relsXml));
+        return relsResult.Relationship || [];
+    }
+
+    private async readPart(partPath: string): Promise<any | null> {
+        if (this.partCache.has(partPath)) {
+            return this.partCache.get(partPath);
+        }
+
+        const xml = await this.zip.file(partPath)?.async('string');
+        const part = xml ? xmlToObject(parseXML(xml)) : null;
+        this.partCache.set(partPath, part);
+        return part;
+    }
+
+    // ppt/slides/slide1.xml -> ppt/slides/_rels/slide1.xml.rels
+    private getRelsPath(partPath: string): string {
+        const separator = partPath.lastIndexOf('/');
+        return `${partPath.substring(0, separator)}/_rels/${partPath.substring(separator + 1)}.rels`;
+    }
+
+    // Resolve a relationship target against the part that owns the relationship
+    private resolveRelativePath(sourcePath: string, target: string): string {
+        if (target.startsWith('/')) {
+            return target.substring(1);
+        }
+
+        const segments = sourcePath.split('/').slice(0, -1);
+        target.split('/').forEach(segment => {
+            if (segment === '..') {
+                segments.pop();
+            } else if (segment !== '.' && segment !== '') {
+                segments.push(segment);
+            }
+        });
+
+        return segments.join('/');
+    }
+
+    // Group children are nested in their group's content
+    private flattenElements(elements: SlideElement[]): SlideElement[] {
+        return elements.flatMap(element => element.type === 'group'
+            ? [element, ...this.flattenElements((element.content as GroupContent).children)]
+            : [element]);
+    }
+
+    private getMimeType(filePath: string, fallback: string = 'application/octet-stream'): string {
         const extension = filePath.split('.').pop()?.toLowerCase();
         switch (extension) {
             case 'png': return 'image/png';
@@ -978,7 +2747,31 @@ export class PPTXParser {
             case 'gif': return 'image/gif';
             case 'bmp': return 'image/bmp';
             case 'svg': return 'image/svg+xml';
-            default: return 'image/png'; // Default fallback
+            case 'tif':
+            case 'tiff': return 'image/tiff';
+            case 'webp': return 'image/webp';
+            case 'emf': return 'image/x-emf';
+            case 'wmf': return 'image/x-wmf';
+            case 'mp4':
+            case 'm4v': return 'video/mp4';
+            case 'mov': return 'video/quicktime';
+            case 'wmv': return 'video/x-ms-wmv';
+            case 'avi': return 'video/x-msvideo';
+            case 'webm': return 'video/webm';
+            case 'mpg':
+            case 'mpeg': return 'video/mpeg';
+            case 'ogv': return 'video/ogg';
+            case 'mp3': return 'audio/mpeg';
+            case 'm4a': return 'audio/mp4';
+            case 'wav': return 'audio/wav';
+            case 'wma': return 'audio/x-ms-wma';
+            case 'aac': return 'audio/aac';
+            case 'ogg':
+            case 'oga': return 'audio/ogg';
+            case 'flac': return 'audio/flac';
+            case 'mid':
+            case 'midi': return 'audio/midi';
+            default: return fallback;
         }
     }
 }
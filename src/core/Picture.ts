@@ -0,0 +1,70 @@
+import { ImageCrop, Position, Size, SlideElement } from '../types';
+
+export const NO_CROP: ImageCrop = { left: 0, top: 0, right: 0, bottom: 0 };
+
+// Smallest share of the picture a crop leaves visible in each direction
+export const MIN_VISIBLE = 0.01;
+
+export const isCropped = (crop: ImageCrop | undefined): crop is ImageCrop =>
+    !!crop && (crop.left !== 0 || crop.top !== 0 || crop.right !== 0 || crop.bottom !== 0);
+
+// Keep opposite sides from meeting, taking what is missing from the side that was not being changed
+export const clampCrop = (crop: ImageCrop, changed?: keyof ImageCrop): ImageCrop => {
+    const result = { ...crop };
+    const fit = (first: 'left' | 'top', second: 'right' | 'bottom') => {
+        const excess = result[first] + result[second] - (1 - MIN_VISIBLE);
+        if (excess <= 0) return;
+        if (changed === second) {
+            result[second] -= excess;
+        } else {
+            result[first] -= excess;
+        }
+    };
+    fit('left', 'right');
+    fit('top', 'bottom');
+    return result;
+};
+
+// Where the whole picture lies when a frame at (x, y) of the given size shows `crop` of it
+export const uncroppedRect = (x: number, y: number, width: number, height: number, crop: ImageCrop = NO_CROP) => {
+    const fullWidth = width / Math.max(MIN_VISIBLE, 1 - crop.left - crop.right);
+    const fullHeight = height / Math.max(MIN_VISIBLE, 1 - crop.top - crop.bottom);
+    return {
+        x: x - crop.left * fullWidth,
+        y: y - crop.top * fullHeight,
+        width: fullWidth,
+        height: fullHeight
+    };
+};
+
+// The frame that shows `crop` of a picture element's image at the scale and place the image has
+// now, so that cropping cuts the picture down instead of stretching it. Flipped pictures show
+// their left side on the right, and rotated frames move along their own axes.
+export const croppedFrame = (element: SlideElement, crop: ImageCrop): { position: Position; size: Size } => {
+    const mirror = (value: ImageCrop): ImageCrop => ({
+        left: element.flipH ? value.right : value.left,
+        right: element.flipH ? value.left : value.right,
+        top: element.flipV ? value.bottom : value.top,
+        bottom: element.flipV ? value.top : value.bottom
+    });
+    const current = mirror(element.content?.crop || NO_CROP);
+    const next = mirror(crop);
+
+    const full = uncroppedRect(0, 0, element.size.width, element.size.height, current);
+    const size = {
+        width: full.width * (1 - next.left - next.right),
+        height: full.height * (1 - next.top - next.bottom)
+    };
+
+    // Shift of the frame's center, in the frame's own (unrotated) axes
+    const dx = full.x + full.width * next.left + size.width / 2 - element.size.width / 2;
+    const dy = full.y + full.height * next.top + size.height / 2 - element.size.height / 2;
+    const angle = (element.rotation || 0) * Math.PI / 180;
+    const centerX = element.position.x + element.size.width / 2 + dx * Math.cos(angle) - dy * Math.sin(angle);
+    const centerY = element.position.y + element.size.height / 2 + dx * Math.sin(angle) + dy * Math.cos(angle);
+
+    return {
+        position: { x: centerX - size.width / 2, y: centerY - size.height / 2 },
+        size
+    };
+};
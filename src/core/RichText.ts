@@ -0,0 +1,125 @@
+import { TextParagraph } from '../types';
+
+// Indent per outline level (in points), PowerPoint's default step between list levels
+export const LEVEL_INDENT = 36;
+
+// Deepest outline level a:pPr lvl allows
+export const MAX_LEVEL = 8;
+
+// Plain-text view of a paragraph list; paragraphs (and line breaks within them) become newlines
+export const paragraphsToText = (paragraphs: TextParagraph[]): string =>
+    paragraphs.map(paragraph => paragraph.runs.map(run => run.text).join('')).join('\n');
+
+// Rebuild the paragraph list after a plain-text edit. Paragraphs whose text did not change keep
+// their runs; a changed line becomes a single run carrying the formatting of the paragraph it replaces.
+export const paragraphsFromText = (text: string, previous: TextParagraph[] = []): TextParagraph[] => {
+    if (previous.length > 0 && paragraphsToText(previous) === text) {
+        return previous;
+    }
+
+    const paragraphs: TextParagraph[] = [];
+    let position = 0;
+
+    for (let index = 0; position <= text.length; index++) {
+        const remaining = text.slice(position);
+        const existing = previous[index];
+
+        // A paragraph with line breaks spans several lines of the plain text
+        const existingText = existing ? paragraphsToText([existing]) : null;
+        if (existing && existingText !== null && (remaining === existingText || remaining.startsWith(`${existingText}\n`))) {
+            paragraphs.push(existing);
+            position += existingText.length + 1;
+            continue;
+        }
+
+        const lineEnd = remaining.indexOf('\n');
+        const line = lineEnd === -1 ? remaining : remaining.slice(0, lineEnd);
+        const template = existing || previous[previous.length - 1];
+        const runStyle = template?.runs.find(run => run.text !== '\n')?.style;
+
+        paragraphs.push({
+            ...template,
+            runs: line ? [{ text: line, style: runStyle ? { ...runStyle } : {} }] : []
+        });
+        position += line.length + 1;
+    }
+
+    return paragraphs;
+};
+
+const toRoman = (n: number): string => {
+    const numerals: Array<[number, string]> = [
+        [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+        [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+    ];
+    let result = '';
+    numerals.forEach(([value, numeral]) => {
+        while (n >= value) {
+            result += numeral;
+            n -= value;
+        }
+    });
+    return result;
+};
+
+const toAlpha = (n: number): string => {
+    let result = '';
+    while (n > 0) {
+        n--;
+        result = String.fromCharCode(97 + (n % 26)) + result;
+        n = Math.floor(n / 26);
+    }
+    return result;
+};
+
+// Format a number in an a:buAutoNum scheme, e.g. arabicPeriod -> "3.", alphaLcParenR -> "c)"
+export const formatAutoNumber = (scheme: string, n: number): string => {
+    let label: string;
+    if (scheme.startsWith('alphaLc')) {
+        label = toAlpha(n);
+    } else if (scheme.startsWith('alphaUc')) {
+        label = toAlpha(n).toUpperCase();
+    } else if (scheme.startsWith('romanLc')) {
+        label = toRoman(n);
+    } else if (scheme.startsWith('romanUc')) {
+        label = toRoman(n).toUpperCase();
+    } else {
+        label = String(n);
+    }
+
+    if (scheme.endsWith('ParenBoth')) return `(${label})`;
+    if (scheme.endsWith('ParenR')) return `${label})`;
+    if (scheme.endsWith('Period')) return `${label}.`;
+    return label;
+};
+
+// The bullet text of every paragraph (undefined where there is none). Auto-numbering counts
+// consecutive paragraphs of the same level and scheme; deeper levels don't interrupt the count.
+export const bulletLabels = (paragraphs: TextParagraph[]): Array<string | undefined> => {
+    const counters: Array<{ scheme: string; value: number } | undefined> = [];
+
+    return paragraphs.map(paragraph => {
+        const level = paragraph.level || 0;
+        const bullet = paragraph.bullet;
+
+        // Returning to a shallower level restarts the numbering of the deeper ones
+        counters.length = Math.min(counters.length, level + 1);
+
+        if (!bullet || bullet.type === 'none' || paragraph.runs.length === 0) {
+            if (bullet?.type !== 'autoNumber') counters[level] = undefined;
+            return undefined;
+        }
+
+        if (bullet.type === 'char') {
+            counters[level] = undefined;
+            return bullet.char || '•';
+        }
+
+        const scheme = bullet.scheme || 'arabicPeriod';
+        const counter = counters[level];
+        const value = counter && counter.scheme === scheme ? counter.value + 1 : bullet.startAt || 1;
+        counters[level] = { scheme, value };
+
+        return formatAutoNumber(scheme, value);
+    });
+};
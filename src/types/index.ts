@@ -3,19 +3,40 @@ export interface PPTXSlide {
   slideNumber: number;
   elements: SlideElement[];
   background?: SlideBackground;
-  layout?: string;
+  layout?: string; // layout name, e.g. "Title and Content"
+  layoutPath?: string; // slide layout part the slide is based on
+  partPath?: string; // slide part in the package, e.g. ppt/slides/slide3.xml
+  notes?: TextContent; // speaker notes
+  notesPath?: string; // notes slide part, when the slide has one
+  hidden?: boolean; // skipped in slide show
+  // The layout's date, footer and slide number placeholders, copied onto the slide when footers are turned on
+  footerPlaceholders?: SlideElement[];
 }
 
 export interface SlideElement {
-  id: string;
-  type: 'text' | 'image' | 'shape' | 'chart' | 'table';
+  id: string; // slide part and p:cNvPr id, e.g. "ppt/slides/slide2.xml#4"; the same every time the deck is loaded
+  type: 'text' | 'image' | 'shape' | 'chart' | 'table' | 'group' | 'line' | 'media';
+  shapeId?: string; // p:cNvPr id, unique within the slide
+  name?: string; // p:cNvPr name, e.g. "Title 1"
+  description?: string; // p:cNvPr descr (alt text)
   position: Position;
   size: Size;
+  rotation?: number; // degrees clockwise, around the element's center
+  flipH?: boolean;
+  flipV?: boolean;
+  hyperlink?: Hyperlink; // click action of the whole shape
+  placeholder?: ElementPlaceholder; // p:nvPr/p:ph, for shapes that fill a placeholder of the layout
   content: any;
   style?: ElementStyle;
   originalData?: any; // Store original data for revert functionality
 }
 
+// p:ph: the role of a placeholder and the layout placeholder it inherits from
+export interface ElementPlaceholder {
+  type: string; // e.g. 'title', 'ctrTitle', 'subTitle', 'body', 'dt', 'ftr', 'sldNum', 'pic', 'chart'; 'obj' when p:ph has none
+  idx?: string;
+}
+
 export interface Position {
   x: number;
   y: number;
@@ -26,57 +47,436 @@ export interface Size {
   height: number;
 }
 
+export interface TextContent {
+  // Plain text of the whole body, paragraphs separated by newlines
+  text: string;
+  paragraphs: TextParagraph[];
+  body?: TextBodyProperties;
+}
+
+// a:bodyPr: where text sits in its shape and how it flows. Unset values take PowerPoint's defaults:
+// 7.2pt left/right and 3.6pt top/bottom insets, top anchoring, wrapping, one column, no autofit.
+export interface TextBodyProperties {
+  leftInset?: number; // points
+  topInset?: number;
+  rightInset?: number;
+  bottomInset?: number;
+  anchor?: 'top' | 'middle' | 'bottom';
+  wrap?: boolean; // false for wrap="none"
+  vertical?: string; // a:bodyPr vert, e.g. 'horz', 'vert', 'vert270', 'eaVert'
+  columns?: number;
+  columnSpacing?: number; // points
+  // a:noAutofit, a:normAutofit (shrink text on overflow) or a:spAutoFit (resize shape to fit text)
+  autofit?: 'none' | 'normal' | 'shape';
+  fontScale?: number; // percent, a:normAutofit fontScale
+  lineSpacingReduction?: number; // percent, a:normAutofit lnSpcReduction
+}
+
+export interface ShapeContent extends TextContent {
+  shapeType: string; // a:prstGeom prst, or "custom" for a:custGeom
+  adjustments?: { [name: string]: number }; // a:avLst values, e.g. { adj: 16667 }
+  customGeometry?: CustomGeometry;
+}
+
+// a:custGeom freeform. Values in paths and formulas are numbers or the names of guides.
+export interface CustomGeometry {
+  adjustments: GeometryGuide[]; // a:avLst
+  guides: GeometryGuide[]; // a:gdLst
+  paths: GeometryPath[];
+}
+
+export interface GeometryGuide {
+  name: string;
+  formula: string; // e.g. "val 5400", "*/ w adj 100000"
+}
+
+export interface GeometryPath {
+  width?: number; // coordinate space of the path; the shape's size in EMU when absent
+  height?: number;
+  fill?: 'none' | 'norm' | 'lighten' | 'lightenLess' | 'darken' | 'darkenLess';
+  stroke?: boolean;
+  commands: GeometryCommand[];
+}
+
+export type GeometryCommand =
+  | { type: 'moveTo' | 'lnTo'; points: [GeometryPoint] }
+  | { type: 'quadBezTo'; points: [GeometryPoint, GeometryPoint] }
+  | { type: 'cubicBezTo'; points: [GeometryPoint, GeometryPoint, GeometryPoint] }
+  | { type: 'arcTo'; widthRadius: string; heightRadius: string; startAngle: string; swingAngle: string }
+  | { type: 'close' };
+
+export interface GeometryPoint {
+  x: string;
+  y: string;
+}
+
+// Lines and connectors run from the top-left to the bottom-right corner of their frame;
+// flipH/flipV on the element reverse the direction
+export interface LineContent {
+  shapeType: string; // e.g. "line", "straightConnector1", "bentConnector3"
+  // Shapes a connector is glued to, by p:cNvPr id and connection site index
+  startConnection?: { shapeId: string; site: number };
+  endConnection?: { shapeId: string; site: number };
+}
+
+export interface ImageContent {
+  imageId?: string; // relationship id of the picture, while it is being resolved
+  imagePath?: string; // media part in the package
+  imageDataUrl?: string;
+  imageUrl?: string; // source of an image added in the editor
+  altText: string;
+  crop?: ImageCrop; // a:srcRect
+  transparency?: number; // 0..1, from a:alphaModFix
+  recolor?: ImageRecolor;
+}
+
+// Video or audio on a slide (a p:pic with a:videoFile or a:audioFile). The picture is the poster
+// frame shown while the media isn't playing.
+export interface MediaContent extends ImageContent {
+  mediaType: 'video' | 'audio';
+  mimeType?: string; // e.g. "video/mp4", "audio/mpeg"
+  mediaPath?: string; // embedded media part, e.g. ppt/media/media1.mp4
+  mediaDataUrl?: string;
+  mediaUrl?: string; // linked media outside the package
+  mediaId?: string; // p14:media r:embed, while it is being resolved
+  linkId?: string; // a:videoFile/a:audioFile r:link, while it is being resolved
+  trimStart?: number; // milliseconds skipped at the start (p14:trim st)
+  trimEnd?: number; // milliseconds skipped at the end (p14:trim end)
+  loop?: boolean; // plays until stopped (repeatCount="indefinite" in the slide timing)
+}
+
+// Share of the picture's width or height cut off each side, 0..1. Negative values add empty space.
+export interface ImageCrop {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// a:grayscl, or a:duotone mapping the picture's dark to light tones onto two colors
+export interface ImageRecolor {
+  type: 'grayscale' | 'duotone';
+  dark?: string;
+  light?: string;
+}
+
+export interface TextParagraph {
+  runs: TextRun[];
+  alignment?: 'left' | 'center' | 'right' | 'justify';
+  // Outline level, 0 to 8
+  level?: number;
+  // Left margin and first-line indent in points; a negative indent hangs the bullet
+  marginLeft?: number;
+  indent?: number;
+  bullet?: TextBullet;
+  lineSpacing?: TextSpacing; // a:lnSpc
+  spaceBefore?: TextSpacing; // a:spcBef
+  spaceAfter?: TextSpacing; // a:spcAft
+}
+
+// a:spcPct, in percent of single spacing, or a:spcPts, in points
+export interface TextSpacing {
+  percent?: number;
+  points?: number;
+}
+
+export interface TextBullet {
+  type: 'none' | 'char' | 'autoNumber';
+  char?: string;
+  // a:buAutoNum scheme, e.g. 'arabicPeriod' or 'alphaLcParenR'
+  scheme?: string;
+  startAt?: number;
+  color?: string;
+  fontFamily?: string;
+  // Size relative to the text, in percent
+  size?: number;
+}
+
+export interface TextRun {
+  // A line break inside a paragraph (a:br) is a run with the text '\n'
+  text: string;
+  style?: TextRunStyle;
+  // a:fld: text PowerPoint fills in; `text` holds the value last saved with the file
+  field?: TextField;
+}
+
+export interface TextField {
+  type: string; // e.g. 'slidenum', 'datetime', 'datetime1' to 'datetime13'
+  id?: string; // a:fld id, a GUID
+}
+
+export interface TextRunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  fontSize?: number;
+  fontFamily?: string;
+  color?: string;
+  // Percentage of the font size to raise (superscript) or lower (subscript) the run
+  baseline?: number;
+  hyperlink?: Hyperlink;
+}
+
+// a:hlinkClick; exactly one of url, slideId or action is set
+export interface Hyperlink {
+  url?: string; // external address, e.g. https://… or mailto:…
+  slideId?: string; // jump to another slide of the deck
+  action?: string; // other ppaction:// verbs, e.g. ppaction://hlinkshowjump?jump=nextslide
+  tooltip?: string;
+}
+
+export interface GroupContent {
+  children: SlideElement[];
+  // Coordinate space the children are positioned in (a:chOff/a:chExt)
+  childOffset: Position;
+  childExtent: Size;
+}
+
+export interface TableContent {
+  // Column widths and row heights are in points
+  columns: number[];
+  rows: TableRow[];
+}
+
+export interface TableRow {
+  height: number;
+  cells: TableCell[];
+}
+
+export interface TableCell {
+  text: string;
+  paragraphs?: TextParagraph[];
+  fill?: string;
+  borders?: TableCellBorders;
+  style?: ElementStyle;
+  gridSpan?: number;
+  rowSpan?: number;
+  // Cells covered by a merge from the left (hMerge) or from above (vMerge)
+  hMerge?: boolean;
+  vMerge?: boolean;
+}
+
+export interface TableCellBorders {
+  left?: TableBorder;
+  right?: TableBorder;
+  top?: TableBorder;
+  bottom?: TableBorder;
+}
+
+export interface TableBorder {
+  color?: string;
+  width: number;
+}
+
+export type ChartType = 'bar' | 'line' | 'pie' | 'area' | 'scatter';
+
+export interface ChartContent {
+  chartId: string;
+  chartPath: string;
+  chartType: ChartType;
+  // 'bar' draws horizontal bars, 'col' vertical columns
+  barDirection?: 'bar' | 'col';
+  grouping?: 'clustered' | 'stacked' | 'percentStacked' | 'standard';
+  title?: string;
+  categories: string[];
+  series: ChartSeries[];
+}
+
+export interface ChartSeries {
+  name: string;
+  // null where the cache has no point, which charts leave as a gap
+  values: Array<number | null>;
+  // X values of scatter series
+  xValues?: Array<number | null>;
+  color?: string;
+  pointColors?: Array<string | undefined>;
+}
+
 export interface ElementStyle {
   fontSize?: number;
   fontFamily?: string;
   fontWeight?: string;
   color?: string;
-  backgroundColor?: string;
-  borderColor?: string;
-  borderWidth?: number;
+  backgroundColor?: string; // solid fill color; see fill for other kinds of fill
+  fill?: ShapeFill;
+  borderColor?: string; // same as line.color
+  borderWidth?: number; // same as line.width, in points
+  line?: LineStyle;
+  effects?: ShapeEffects;
   alignment?: 'left' | 'center' | 'right';
   opacity?: number;
 }
 
+// Shape fill: a:noFill, a:solidFill, a:gradFill, a:pattFill or a:blipFill
+export interface ShapeFill {
+  type: 'none' | 'solid' | 'gradient' | 'pattern' | 'image';
+  color?: string; // solid color, #RRGGBB or #RRGGBBAA
+  schemeColor?: string; // theme color the solid color was taken from, e.g. "accent1"
+  gradient?: GradientFill;
+  pattern?: PatternFill;
+  imageDataUrl?: string;
+  imagePath?: string; // media part of a picture fill
+  imageId?: string; // relationship id of the picture, while it is being resolved
+}
+
+// a:ln outline of a shape, or the stroke of a line
+export interface LineStyle {
+  color?: string;
+  width?: number; // points
+  none?: boolean; // a:noFill: no outline at all
+  dash?: string; // a:prstDash, e.g. "solid", "dash", "sysDot", "lgDashDot"
+  compound?: 'sng' | 'dbl' | 'thickThin' | 'thinThick' | 'tri';
+  cap?: 'flat' | 'rnd' | 'sq';
+  join?: 'round' | 'bevel' | 'miter';
+  headEnd?: LineEnd; // at the start of the line
+  tailEnd?: LineEnd; // at the end of the line
+}
+
+// a:effectLst of a shape or picture. Distances are in points and colors may carry alpha (#RRGGBBAA).
+export interface ShapeEffects {
+  outerShadow?: ShadowEffect;
+  innerShadow?: ShadowEffect;
+  glow?: GlowEffect;
+  softEdge?: number; // radius the edges fade out over
+  reflection?: ReflectionEffect;
+}
+
+export interface ShadowEffect {
+  color: string;
+  blur: number;
+  distance: number;
+  direction: number; // degrees, clockwise from the x axis
+}
+
+export interface GlowEffect {
+  color: string;
+  radius: number;
+}
+
+export interface ReflectionEffect {
+  blur: number;
+  distance: number; // gap between the shape and its reflection
+  startOpacity: number; // 0..1, at the edge nearest the shape
+  endOpacity: number; // 0..1
+  size: number; // 0..1, share of the shape's height that is reflected
+}
+
+export interface LineEnd {
+  type: 'none' | 'triangle' | 'stealth' | 'diamond' | 'oval' | 'arrow';
+  width?: 'sm' | 'med' | 'lg';
+  length?: 'sm' | 'med' | 'lg';
+}
+
+export interface PatternFill {
+  preset: string; // a:pattFill prst, e.g. "pct50", "dkHorz", "smGrid"
+  foreground: string;
+  background: string;
+}
+
 export interface SlideBackground {
   type: 'color' | 'image' | 'gradient';
-  value: string;
+  value: string; // hex color, image data URL, or the first gradient color
+  gradient?: GradientFill;
+  imagePath?: string; // media part of an image background
+}
+
+export interface GradientFill {
+  type: 'linear' | 'radial';
+  angle: number; // degrees, clockwise from the x axis
+  stops: GradientStop[];
+}
+
+export interface GradientStop {
+  position: number; // 0..1
+  color: string;
 }
 
 export interface PPTXDocument {
   slides: PPTXSlide[];
   metadata: DocumentMetadata;
+  slideSize?: SlideSize;
   theme?: PresentationTheme;
+  headerFooter?: HeaderFooterSettings;
+  sections?: SlideSection[];
+}
+
+// A named group of consecutive slides (p14:section). Together the sections hold every slide, in deck order.
+export interface SlideSection {
+  id: string; // GUID in braces, as PowerPoint writes it
+  name: string;
+  slideIds: string[]; // PPTXSlide ids
 }
 
+// Header & Footer settings of the deck, as shown by the footer placeholders on its slides
+export interface HeaderFooterSettings {
+  slideNumber: boolean;
+  footer: boolean;
+  footerText: string;
+  dateTime: boolean;
+  // A date that updates uses a field of this type, e.g. 'datetime1'; otherwise fixedDate is shown
+  dateFormat?: string;
+  fixedDate?: string;
+  hideOnTitleSlide: boolean;
+}
+
+export interface SlideSize {
+  width: number; // points
+  height: number; // points
+  type?: string; // p:sldSz type, e.g. "screen16x9", "A4" or "custom"
+}
+
+// Document properties from docProps/core.xml, and the custom ones from docProps/custom.xml
 export interface DocumentMetadata {
   title: string;
-  author: string;
+  author: string; // dc:creator
   subject: string;
   keywords: string[];
   created: Date;
   modified: Date;
+  description?: string;
+  lastModifiedBy?: string;
+  category?: string;
+  revision?: number;
+  customProperties?: CustomProperty[];
+}
+
+// A custom document property. Each type is written as its own vt: value:
+// string as vt:lpwstr, integer as vt:i4, number as vt:r8, boolean as vt:bool and date as vt:filetime
+export interface CustomProperty {
+  name: string;
+  type: 'string' | 'integer' | 'number' | 'boolean' | 'date';
+  value: string | number | boolean | Date;
 }
 
 export interface PresentationTheme {
   colors: ThemeColors;
   fonts: ThemeFonts;
+  lineStyles?: LineStyle[]; // a:lnStyleLst, referenced by a:lnRef idx 1-3
 }
 
 export interface ThemeColors {
-  primary: string;
-  secondary: string;
+  primary: string; // dk1
+  secondary: string; // lt1
+  dark2: string;
+  light2: string;
   accent1: string;
   accent2: string;
   accent3: string;
   accent4: string;
   accent5: string;
   accent6: string;
+  hyperlink: string;
+  followedHyperlink: string;
 }
 
 export interface ThemeFonts {
-  major: string;
-  minor: string;
+  major: string; // +mj-lt
+  minor: string; // +mn-lt
+  majorEastAsian?: string;
+  majorComplexScript?: string;
+  minorEastAsian?: string;
+  minorComplexScript?: string;
 }
 
 export interface ChangeRecord {
@@ -88,6 +488,8 @@ export interface ChangeRecord {
   previousState?: any;
   newState?: any;
   description: string;
+  property?: string; // slide (or, without slideId, document) property changed instead of an element
+  changes?: ChangeRecord[]; // grouped changes that undo and redo as one step
 }
 
 export interface EditorState {